@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useQuery } from "@tanstack/react-query";
+import { auditActionLabels } from "@shared/audit";
+import { reviewStatusLabels } from "@shared/review";
+import type { AuditAction, AuditEntry, Document, ReviewStatus } from "@shared/schema";
+
+interface AuditLogPanelProps {
+  // Limits the log to one document; all documents otherwise
+  document: Document | null;
+  onClearDocument: () => void;
+}
+
+// A short summary of the details recorded with each action
+function describeDetails(entry: AuditEntry): string | null {
+  const details = (entry.details || {}) as Record<string, any>;
+  switch (entry.action as AuditAction) {
+    case "review":
+      return `${reviewStatusLabels[details.from as ReviewStatus] || details.from} → ${reviewStatusLabels[details.to as ReviewStatus] || details.to}${details.comment ? `: ${details.comment}` : ""}`;
+    case "edit":
+      return details.fields?.length ? `Changed ${details.fields.join(", ")}` : null;
+    case "restore":
+      return `Revision ${details.revisionNumber}`;
+    case "assign":
+      return details.assignee ? `To ${details.assignee}` : "Unassigned";
+    case "apply_profile":
+      return details.profile || null;
+    case "generate":
+      return `${String(details.format || "pdf").toUpperCase()}${details.final ? ", issued as final" : ""}${details.batchId ? ", batch download" : ""}`;
+    case "process":
+      return details.provider ? `With ${details.provider}` : null;
+    default:
+      return null;
+  }
+}
+
+export default function AuditLogPanel({ document, onClearDocument }: AuditLogPanelProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (document) params.set("documentId", document.id);
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+  const auditQuery = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit-log?${params.toString()}`],
+    staleTime: 0, // every action elsewhere in the app adds entries, so refetch when shown
+  });
+
+  const entries = auditQuery.data || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-4">
+        <div className="flex items-end gap-3">
+          <div>
+            <Label htmlFor="audit-from" className="text-xs text-gray-600">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-audit-from" />
+          </div>
+          <div>
+            <Label htmlFor="audit-to" className="text-xs text-gray-600">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-audit-to" />
+          </div>
+        </div>
+        {document ? (
+          <Button variant="outline" size="sm" onClick={onClearDocument} data-testid="button-audit-all-documents">
+            <span className="truncate max-w-[16rem]">{document.originalFileName}</span>
+            <X className="w-4 h-4 ml-2" />
+          </Button>
+        ) : (
+          <p className="text-sm text-gray-500">All documents</p>
+        )}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto" data-testid="list-audit-log">
+        {auditQuery.isLoading ? (
+          <p className="text-center py-8 text-gray-500">Loading audit log...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-gray-500" data-testid="text-no-audit-entries">No recorded actions.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {entries.map((entry) => {
+              const summary = describeDetails(entry);
+              return (
+                <li key={entry.id} className="px-3 py-2 text-sm" data-testid={`audit-entry-${entry.id}`}>
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-medium text-gray-900">
+                      {auditActionLabels[entry.action as AuditAction] || entry.action}
+                      {!document && entry.documentName && <span className="font-normal text-gray-600"> • {entry.documentName}</span>}
+                    </span>
+                    <span className="text-gray-400 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="text-gray-500">
+                    {entry.username || "Unknown user"}
+                    {summary && <span className="text-gray-600"> • {summary}</span>}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
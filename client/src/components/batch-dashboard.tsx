@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { Download, FileText, Play, RotateCcw, AlertCircle, CheckCircle, Loader2, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { usePipeline } from "@/hooks/use-pipeline";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { Batch, Document } from "@shared/schema";
+import type { ProcessingJob } from "@shared/jobs";
+
+type BatchDocument = Document & { job: ProcessingJob | null };
+type BatchDetails = Batch & { documents: BatchDocument[] };
+
+interface BatchDashboardProps {
+  batchId: string;
+}
+
+const isInFlight = (document: BatchDocument) =>
+  document.status === "processing" || document.job?.status === "queued" || document.job?.status === "running";
+
+export default function BatchDashboard({ batchId }: BatchDashboardProps) {
+  const [format, setFormat] = useState("pdf");
+  // Documents without a catalog product keep the supplier's specifications
+  const [useCatalogSpecs, setUseCatalogSpecs] = useState(false);
+  const { setCurrentDocument, setCurrentBatchId, goToStep, resetPipeline } = usePipeline();
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const batchQuery = useQuery<BatchDetails>({
+    queryKey: [`/api/batches/${batchId}`],
+    // Poll while any document is still queued or being processed
+    refetchInterval: (query) => query.state.data?.documents.some(isInFlight) ? 2000 : false,
+  });
+
+  const batch = batchQuery.data;
+  const documents = batch?.documents || [];
+  const processedCount = documents.filter(document => document.extractedData).length;
+  const failedCount = documents.filter(document => document.status === "error").length;
+  const pendingCount = documents.filter(document => document.status !== "processed" && !isInFlight(document)).length;
+  const inFlightCount = documents.filter(isInFlight).length;
+
+  const processMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/batches/${batchId}/process`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/batches/${batchId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Processing Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async ({ format, useCatalogSpecs }: { format: string; useCatalogSpecs: boolean }) => {
+      const response = await apiRequest("POST", `/api/batches/${batchId}/generate`, { format, useCatalogSpecs });
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = window.document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `${batch?.name || "batch"}.zip`;
+      window.document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      window.document.body.removeChild(a);
+
+      toast({
+        title: "Documents Generated",
+        description: `${processedCount} company documents have been downloaded as a ZIP archive.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Generation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReview = (document: BatchDocument) => {
+    const { job: _job, ...rest } = document;
+    setCurrentDocument(rest);
+    setCurrentBatchId(null);
+    goToStep(4);
+  };
+
+  const renderStatus = (document: BatchDocument) => {
+    if (isInFlight(document)) {
+      const queued = document.job?.status === "queued";
+      return (
+        <div className="space-y-1 min-w-[10rem]">
+          <div className="flex items-center space-x-2 text-sm text-blue-700">
+            {queued ? <Clock className="w-4 h-4" /> : <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{document.job?.message || (queued ? "Queued" : "Processing")}</span>
+          </div>
+          <Progress value={document.job?.progress || 0} className="h-1.5" />
+        </div>
+      );
+    }
+
+    switch (document.status) {
+      case "processed":
+      case "completed":
+        return (
+          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+            <CheckCircle className="w-3 h-3 mr-1" />
+            Processed
+          </Badge>
+        );
+      case "error":
+        return (
+          <div className="space-y-1">
+            <Badge variant="destructive">
+              <AlertCircle className="w-3 h-3 mr-1" />
+              Failed
+            </Badge>
+            {document.job?.error && (
+              <p className="text-xs text-red-700" data-testid={`text-batch-error-${document.id}`}>
+                {document.job.error}
+              </p>
+            )}
+          </div>
+        );
+      default:
+        return <Badge variant="secondary">Uploaded</Badge>;
+    }
+  };
+
+  if (batchQuery.isLoading) {
+    return (
+      <div className="p-6 flex items-center justify-center text-sm text-gray-600">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Loading batch...
+      </div>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <div className="p-6">
+        <div className="text-center">
+          <h2 className="text-lg font-semibold text-gray-900">Batch Not Found</h2>
+          <Button variant="outline" className="mt-4" onClick={resetPipeline} data-testid="button-batch-start-over">
+            Start Over
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900" data-testid="text-batch-name">{batch.name}</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {processedCount} of {documents.length} processed
+            {inFlightCount > 0 && ` · ${inFlightCount} in progress`}
+            {failedCount > 0 && ` · ${failedCount} failed`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={resetPipeline} data-testid="button-batch-start-over">
+          <FileText className="w-4 h-4 mr-2" />
+          New Upload
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <Progress
+          value={documents.length ? (processedCount / documents.length) * 100 : 0}
+          data-testid="progress-batch"
+        />
+
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map(document => (
+                <TableRow key={document.id} data-testid={`row-batch-document-${document.id}`}>
+                  <TableCell className="font-medium text-gray-900">{document.originalFileName}</TableCell>
+                  <TableCell>{renderStatus(document)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!document.extractedData || isInFlight(document)}
+                      onClick={() => handleReview(document)}
+                      data-testid={`button-review-${document.id}`}
+                    >
+                      Review
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center space-x-6">
+            <RadioGroup value={format} onValueChange={setFormat} className="flex space-x-4">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="pdf" id="batch-pdf" data-testid="radio-batch-format-pdf" />
+                <Label htmlFor="batch-pdf" className="cursor-pointer">PDF</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="docx" id="batch-docx" data-testid="radio-batch-format-docx" />
+                <Label htmlFor="batch-docx" className="cursor-pointer">Word (DOCX)</Label>
+              </div>
+            </RadioGroup>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="batch-catalog-specs"
+                checked={useCatalogSpecs}
+                onCheckedChange={(checked) => setUseCatalogSpecs(checked === true)}
+                data-testid="checkbox-batch-catalog-specs"
+              />
+              <Label htmlFor="batch-catalog-specs" className="cursor-pointer">Our catalog specifications</Label>
+            </div>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => processMutation.mutate()}
+              disabled={pendingCount === 0 || processMutation.isPending}
+              data-testid="button-batch-process"
+            >
+              {failedCount > 0 ? <RotateCcw className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+              {failedCount > 0 ? "Retry Failed" : "Process Remaining"}
+            </Button>
+            {can("documents:generate") && (
+              <Button
+                onClick={() => generateMutation.mutate({ format, useCatalogSpecs })}
+                disabled={processedCount === 0 || generateMutation.isPending}
+                data-testid="button-batch-generate"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {generateMutation.isPending ? "Generating..." : `Generate All (${processedCount})`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
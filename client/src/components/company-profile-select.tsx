@@ -0,0 +1,71 @@
+import type { ReactNode } from "react";
+import { Building2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { resolveCompanyData } from "@shared/company";
+import type { CompanyProfile, Document } from "@shared/schema";
+
+interface CompanyProfileSelectProps {
+  documentId: string;
+  companyData: unknown;
+  onApplied: (document: Document) => void;
+  // Shown instead of the select while no company profiles exist
+  fallback?: ReactNode;
+  disabled?: boolean;
+}
+
+export default function CompanyProfileSelect({ documentId, companyData, onApplied, fallback = null, disabled = false }: CompanyProfileSelectProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const profilesQuery = useQuery<CompanyProfile[]>({
+    queryKey: ['/api/company-profiles'],
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (profileId: string) => {
+      const response = await apiRequest("PUT", `/api/documents/${documentId}/company-profile`, { profileId });
+      return response.json();
+    },
+    onSuccess: (updatedDocument: Document) => {
+      onApplied(updatedDocument);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Apply Profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const profiles = profilesQuery.data || [];
+  if (profiles.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  const current = resolveCompanyData(companyData);
+
+  return (
+    <Select
+      value={current.profileId || undefined}
+      onValueChange={(profileId) => applyMutation.mutate(profileId)}
+      disabled={disabled || !can("documents:edit") || applyMutation.isPending}
+    >
+      <SelectTrigger className="w-56" data-testid="select-company-profile">
+        <Building2 className="w-4 h-4 mr-2 text-gray-500" />
+        <SelectValue placeholder={current.name} />
+      </SelectTrigger>
+      <SelectContent>
+        {profiles.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,403 @@
+import { useState } from "react";
+import { Plus, Pencil, Trash2, Star, ImagePlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { companyFonts } from "@shared/company";
+import { companyFontIds, type CompanyProfile, type InsertCompanyProfile } from "@shared/schema";
+
+const MAX_LOGO_BYTES = 1024 * 1024;
+
+type ProfileForm = {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  website: string;
+  logo: string | null;
+  primaryColor: string;
+  secondaryColor: string;
+  font: string;
+  footerText: string;
+  signatoryName: string;
+  signatoryTitle: string;
+  isDefault: boolean;
+};
+
+const emptyForm: ProfileForm = {
+  name: "",
+  address: "",
+  email: "",
+  phone: "",
+  website: "",
+  logo: null,
+  primaryColor: "#3B82F6",
+  secondaryColor: "#1E40AF",
+  font: "helvetica",
+  footerText: "",
+  signatoryName: "",
+  signatoryTitle: "",
+  isDefault: false,
+};
+
+const toForm = (profile: CompanyProfile): ProfileForm => ({
+  name: profile.name,
+  address: profile.address || "",
+  email: profile.email || "",
+  phone: profile.phone || "",
+  website: profile.website || "",
+  logo: profile.logo,
+  primaryColor: profile.primaryColor,
+  secondaryColor: profile.secondaryColor,
+  font: profile.font,
+  footerText: profile.footerText || "",
+  signatoryName: profile.signatoryName || "",
+  signatoryTitle: profile.signatoryTitle || "",
+  isDefault: profile.isDefault,
+});
+
+const toPayload = (form: ProfileForm) => ({
+  ...form,
+  name: form.name.trim(),
+  address: form.address.trim() || null,
+  email: form.email.trim() || null,
+  phone: form.phone.trim() || null,
+  website: form.website.trim() || null,
+  footerText: form.footerText.trim() || null,
+  signatoryName: form.signatoryName.trim() || null,
+  signatoryTitle: form.signatoryTitle.trim() || null,
+}) as InsertCompanyProfile;
+
+export default function CompanyProfilesPanel() {
+  // null: list view, "new": creating, otherwise the id of the profile being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const profilesQuery = useQuery<CompanyProfile[]>({
+    queryKey: ['/api/company-profiles'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Company Profile Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: InsertCompanyProfile }) => {
+      const response = id
+        ? await apiRequest("PATCH", `/api/company-profiles/${id}`, data)
+        : await apiRequest("POST", "/api/company-profiles", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/company-profiles'] });
+      setEditing(null);
+      toast({
+        title: "Company Profile Saved",
+        description: "Generated documents will use the updated branding.",
+      });
+    },
+    onError,
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("PATCH", `/api/company-profiles/${id}`, { isDefault: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/company-profiles'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/company-profiles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/company-profiles'] });
+    },
+    onError,
+  });
+
+  const updateForm = (changes: Partial<ProfileForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const startEditing = (profile?: CompanyProfile) => {
+    setForm(profile ? toForm(profile) : emptyForm);
+    setEditing(profile ? profile.id : "new");
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!["image/png", "image/jpeg"].includes(file.type) || file.size > MAX_LOGO_BYTES) {
+      onError(new Error("Logo must be a PNG or JPEG image up to 1MB"));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => updateForm({ logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleDelete = (profile: CompanyProfile) => {
+    if (confirm(`Delete the company profile "${profile.name}"? Existing documents keep their branding.`)) {
+      deleteMutation.mutate(profile.id);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-4" data-testid="form-company-profile">
+        <div>
+          <Label htmlFor="profile-name" className="text-sm font-medium text-gray-700">Company Name</Label>
+          <Input
+            id="profile-name"
+            value={form.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            className="mt-1"
+            data-testid="input-profile-name"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="profile-address" className="text-sm font-medium text-gray-700">Address</Label>
+          <Textarea
+            id="profile-address"
+            rows={2}
+            value={form.address}
+            onChange={(e) => updateForm({ address: e.target.value })}
+            className="mt-1"
+            data-testid="input-profile-address"
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="profile-email" className="text-sm font-medium text-gray-700">Email</Label>
+            <Input
+              id="profile-email"
+              type="email"
+              value={form.email}
+              onChange={(e) => updateForm({ email: e.target.value })}
+              className="mt-1"
+              data-testid="input-profile-email"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-phone" className="text-sm font-medium text-gray-700">Phone</Label>
+            <Input
+              id="profile-phone"
+              value={form.phone}
+              onChange={(e) => updateForm({ phone: e.target.value })}
+              className="mt-1"
+              data-testid="input-profile-phone"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-website" className="text-sm font-medium text-gray-700">Website</Label>
+            <Input
+              id="profile-website"
+              value={form.website}
+              onChange={(e) => updateForm({ website: e.target.value })}
+              className="mt-1"
+              data-testid="input-profile-website"
+            />
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-sm font-medium text-gray-700">Logo</Label>
+          <div className="mt-1 flex items-center space-x-3">
+            {form.logo ? (
+              <>
+                <img src={form.logo} alt="Logo" className="h-12 max-w-[10rem] object-contain border rounded" data-testid="img-profile-logo" />
+                <Button variant="ghost" size="sm" onClick={() => updateForm({ logo: null })} data-testid="button-remove-logo">
+                  <X className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <label className="inline-flex items-center text-sm text-primary cursor-pointer hover:underline">
+                <ImagePlus className="w-4 h-4 mr-1" />
+                Upload PNG or JPEG
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={handleLogoChange}
+                  className="hidden"
+                  data-testid="input-profile-logo"
+                />
+              </label>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="profile-primary-color" className="text-sm font-medium text-gray-700">Primary Color</Label>
+            <Input
+              id="profile-primary-color"
+              type="color"
+              value={form.primaryColor}
+              onChange={(e) => updateForm({ primaryColor: e.target.value })}
+              className="mt-1 h-10 p-1"
+              data-testid="input-profile-primary-color"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-secondary-color" className="text-sm font-medium text-gray-700">Heading Color</Label>
+            <Input
+              id="profile-secondary-color"
+              type="color"
+              value={form.secondaryColor}
+              onChange={(e) => updateForm({ secondaryColor: e.target.value })}
+              className="mt-1 h-10 p-1"
+              data-testid="input-profile-secondary-color"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-font" className="text-sm font-medium text-gray-700">Font</Label>
+            <Select value={form.font} onValueChange={(font) => updateForm({ font })}>
+              <SelectTrigger id="profile-font" className="mt-1" data-testid="select-profile-font">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {companyFontIds.map((font) => (
+                  <SelectItem key={font} value={font}>
+                    {companyFonts[font].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="profile-footer" className="text-sm font-medium text-gray-700">Footer Text</Label>
+          <Textarea
+            id="profile-footer"
+            rows={2}
+            value={form.footerText}
+            onChange={(e) => updateForm({ footerText: e.target.value })}
+            className="mt-1"
+            data-testid="input-profile-footer"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="profile-signatory-name" className="text-sm font-medium text-gray-700">Signatory Name</Label>
+            <Input
+              id="profile-signatory-name"
+              value={form.signatoryName}
+              onChange={(e) => updateForm({ signatoryName: e.target.value })}
+              className="mt-1"
+              data-testid="input-profile-signatory-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-signatory-title" className="text-sm font-medium text-gray-700">Signatory Title</Label>
+            <Input
+              id="profile-signatory-title"
+              value={form.signatoryTitle}
+              onChange={(e) => updateForm({ signatoryTitle: e.target.value })}
+              className="mt-1"
+              data-testid="input-profile-signatory-title"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="profile-default" className="text-sm font-medium text-gray-700">
+            Use as default for new documents
+          </Label>
+          <Switch
+            id="profile-default"
+            checked={form.isDefault}
+            onCheckedChange={(isDefault) => updateForm({ isDefault })}
+            data-testid="switch-profile-default"
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-profile">
+            Back
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate({ id: editing === "new" ? null : editing, data: toPayload(form) })}
+            disabled={!form.name.trim() || saveMutation.isPending}
+            data-testid="button-save-profile"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Profile"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const profiles = profilesQuery.data || [];
+
+  return (
+    <div className="space-y-4">
+      {profiles.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No company profiles yet. Documents use the built-in branding until a profile is created.
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg" data-testid="list-company-profiles">
+          {profiles.map((profile) => (
+            <li key={profile.id} className="flex items-center justify-between px-3 py-2" data-testid={`row-company-profile-${profile.id}`}>
+              <div className="flex items-center space-x-3 min-w-0">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: profile.primaryColor }} />
+                <span className="text-sm font-medium text-gray-900 truncate">{profile.name}</span>
+                {profile.isDefault && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <div className="flex items-center">
+                {!profile.isDefault && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDefaultMutation.mutate(profile.id)}
+                    title="Use as default"
+                    data-testid={`button-default-profile-${profile.id}`}
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => startEditing(profile)} data-testid={`button-edit-profile-${profile.id}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(profile)} data-testid={`button-delete-profile-${profile.id}`}>
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button variant="outline" onClick={() => startEditing()} data-testid="button-add-profile">
+        <Plus className="w-4 h-4 mr-2" />
+        Add Company Profile
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { confidenceLevel, confidenceLevelLabels, type ConfidenceLevel } from "@shared/confidence";
+
+const confidenceClasses: Record<ConfidenceLevel, string> = {
+  high: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-red-100 text-red-800",
+};
+
+interface ConfidenceBadgeProps {
+  confidence: number | undefined;
+  issues?: string[];
+  className?: string;
+  "data-testid"?: string;
+}
+
+// Nothing for fields without a score (added by hand or extracted before scoring)
+export default function ConfidenceBadge({ confidence, issues, className, "data-testid": testId }: ConfidenceBadgeProps) {
+  if (confidence === undefined) return null;
+  const level = confidenceLevel(confidence);
+  const title = [confidenceLevelLabels[level], ...(issues || [])].join("\n");
+
+  return (
+    <Badge variant="outline" className={cn("font-normal", confidenceClasses[level], className)} title={title} data-testid={testId}>
+      {Math.round(confidence * 100)}%
+    </Badge>
+  );
+}
@@ -0,0 +1,60 @@
+import { FileType } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { classMatchLabels, documentClassLabels } from "@shared/document-classes";
+import { documentClasses, type ClassMatchMethod, type Document, type DocumentClass } from "@shared/schema";
+
+interface DocumentClassSelectProps {
+  documentId: string;
+  documentClass: DocumentClass | null;
+  classMatch: string | null;
+  onApplied: (document: Document) => void;
+  disabled?: boolean;
+}
+
+export default function DocumentClassSelect({ documentId, documentClass, classMatch, onApplied, disabled = false }: DocumentClassSelectProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const applyMutation = useMutation({
+    mutationFn: async (documentClass: DocumentClass) => {
+      const response = await apiRequest("PATCH", `/api/documents/${documentId}`, { documentClass });
+      return response.json();
+    },
+    onSuccess: (updatedDocument: Document) => {
+      onApplied(updatedDocument);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Change Document Type",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const matchLabel = classMatch ? classMatchLabels[classMatch as ClassMatchMethod] : "Not classified";
+
+  return (
+    <Select
+      value={documentClass ?? undefined}
+      onValueChange={(value) => applyMutation.mutate(value as DocumentClass)}
+      disabled={disabled || !can("documents:edit") || applyMutation.isPending}
+    >
+      <SelectTrigger className="w-48" title={matchLabel} data-testid="select-document-class">
+        <FileType className="w-4 h-4 mr-2 text-gray-500" />
+        <SelectValue placeholder="Document type" />
+      </SelectTrigger>
+      <SelectContent>
+        {documentClasses.map((candidate) => (
+          <SelectItem key={candidate} value={candidate}>
+            {documentClassLabels[candidate]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -3,10 +3,18 @@ import { Download, FileText, Save } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { usePipeline } from "@/hooks/use-pipeline";
+import { useAuth } from "@/hooks/use-auth";
 import { Document } from "@shared/schema";
+import { resolveCompanyData } from "@shared/company";
+import { stripFileExtension } from "@shared/file-types";
+import CompanyProfileSelect from "@/components/company-profile-select";
+import TemplateSelect from "@/components/template-select";
+import ProductSelect from "@/components/product-select";
+import ReviewWorkflowPanel from "@/components/review-workflow-panel";
 import { useToast } from "@/hooks/use-toast";
 
 interface GenerateStepProps {
@@ -15,31 +23,50 @@ interface GenerateStepProps {
 
 export default function GenerateStep({ document }: GenerateStepProps) {
   const [format, setFormat] = useState("pdf");
-  const { goToStep } = usePipeline();
+  // Final issuance moves an approved document to "issued"
+  const [final, setFinal] = useState(false);
+  // Our catalog specifications instead of the supplier's, for linked documents
+  const [useCatalogSpecs, setUseCatalogSpecs] = useState(false);
+  const { goToStep, setCurrentDocument } = usePipeline();
+  const { can } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   const generateMutation = useMutation({
-    mutationFn: async ({ format }: { format: string }) => {
-      const response = await apiRequest("POST", `/api/documents/${document?.id}/generate`, { format });
+    mutationFn: async ({ format, final, useCatalogSpecs }: { format: string; final: boolean; useCatalogSpecs: boolean }) => {
+      const response = await apiRequest("POST", `/api/documents/${document?.id}/generate`, { format, final, useCatalogSpecs });
       return response.blob();
     },
-    onSuccess: (blob) => {
+    onSuccess: async (blob, { final }) => {
       // Create download link
       const url = window.URL.createObjectURL(blob);
       const a = window.document.createElement('a');
       a.style.display = 'none';
       a.href = url;
-      a.download = `${document?.originalFileName?.replace('.pdf', '')}_company.${format}`;
+      a.download = `${stripFileExtension(document?.originalFileName || "document")}_company.${format}`;
       window.document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       window.document.body.removeChild(a);
       
       toast({
-        title: "Document Generated",
+        title: final ? "Document Issued" : "Document Generated",
         description: "Your company document has been downloaded successfully.",
       });
+
+      if (final && document) {
+        setFinal(false);
+        queryClient.invalidateQueries({ queryKey: [`/api/documents/${document.id}/transitions`] });
+        const response = await apiRequest("GET", `/api/documents/${document.id}`);
+        setCurrentDocument(await response.json());
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Generation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
@@ -61,7 +88,7 @@ export default function GenerateStep({ document }: GenerateStepProps) {
 
   const handleGenerate = () => {
     if (document) {
-      generateMutation.mutate({ format });
+      generateMutation.mutate({ format, final, useCatalogSpecs: useCatalogSpecs && !!document.productId });
     }
   };
 
@@ -118,15 +145,45 @@ export default function GenerateStep({ document }: GenerateStepProps) {
                 {document.processedAt ? new Date(document.processedAt).toLocaleDateString() : "N/A"}
               </div>
             </div>
+            <div>
+              <span className="font-medium text-gray-700">Company:</span>
+              <div className="text-gray-900 mt-1" data-testid="text-company-summary">
+                <CompanyProfileSelect
+                  documentId={document.id}
+                  companyData={document.companyData}
+                  onApplied={setCurrentDocument}
+                  fallback={resolveCompanyData(document.companyData).name}
+                />
+              </div>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Template:</span>
+              <div className="text-gray-900 mt-1" data-testid="text-template-summary">
+                <TemplateSelect
+                  documentId={document.id}
+                  templateId={document.templateId}
+                  onApplied={setCurrentDocument}
+                  fallback="Standard layout"
+                />
+              </div>
+            </div>
             <div>
               <span className="font-medium text-gray-700">Product:</span>
-              <div className="text-gray-900" data-testid="text-product-summary">
-                {(document.extractedData as any)?.product?.name || "Unknown"}
+              <div className="text-gray-900 mt-1" data-testid="text-product-summary">
+                <ProductSelect
+                  documentId={document.id}
+                  productId={document.productId}
+                  productMatch={document.productMatch}
+                  onApplied={setCurrentDocument}
+                  fallback={(document.extractedData as any)?.product?.name || "Unknown"}
+                />
               </div>
             </div>
           </div>
         </div>
 
+        <ReviewWorkflowPanel document={document} onChanged={setCurrentDocument} />
+
         {/* Format Selection */}
         <div className="space-y-3">
           <Label className="text-sm font-medium text-gray-900">Select Output Format</Label>
@@ -140,30 +197,74 @@ export default function GenerateStep({ document }: GenerateStepProps) {
               <Label htmlFor="docx" className="cursor-pointer">Word Document (DOCX)</Label>
             </div>
           </RadioGroup>
+          {can("documents:generate") && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="catalog-specs"
+                checked={useCatalogSpecs && !!document.productId}
+                onCheckedChange={(checked) => setUseCatalogSpecs(checked === true)}
+                disabled={!document.productId}
+                data-testid="checkbox-catalog-specs"
+              />
+              <Label htmlFor="catalog-specs" className="text-sm text-gray-700">
+                Replace the supplier's specifications with our catalog specifications
+                {!document.productId && (
+                  <span className="text-gray-500"> (available once the document is linked to a product)</span>
+                )}
+              </Label>
+            </div>
+          )}
+          {can("documents:generate") && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="issue-final"
+                checked={final}
+                onCheckedChange={(checked) => setFinal(checked === true)}
+                disabled={document.reviewStatus !== "approved"}
+                data-testid="checkbox-issue-final"
+              />
+              <Label htmlFor="issue-final" className="text-sm text-gray-700">
+                Issue as final document
+                {document.reviewStatus !== "approved" && (
+                  <span className="text-gray-500"> (available once the document is approved)</span>
+                )}
+              </Label>
+            </div>
+          )}
         </div>
 
+        {!can("documents:generate") && (
+          <p className="text-sm text-gray-600" data-testid="text-generate-not-permitted">
+            Your role cannot generate documents. Ask a reviewer to generate this one.
+          </p>
+        )}
+
         {/* Action Buttons */}
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-          <Button
-            onClick={handleGenerate}
-            disabled={generateMutation.isPending}
-            className="flex items-center justify-center"
-            data-testid="button-generate-download"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            {generateMutation.isPending ? "Generating..." : `Download ${format.toUpperCase()}`}
-          </Button>
+          {can("documents:generate") && (
+            <Button
+              onClick={handleGenerate}
+              disabled={generateMutation.isPending}
+              className="flex items-center justify-center"
+              data-testid="button-generate-download"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {generateMutation.isPending ? "Generating..." : `${final ? "Issue" : "Download"} ${format.toUpperCase()}`}
+            </Button>
+          )}
           
-          <Button
-            variant="outline"
-            onClick={handleSaveToHistory}
-            disabled={saveMutation.isPending}
-            className="flex items-center justify-center"
-            data-testid="button-save-history"
-          >
-            <Save className="w-4 h-4 mr-2" />
-            {saveMutation.isPending ? "Saving..." : "Save to History"}
-          </Button>
+          {can("documents:edit") && (
+            <Button
+              variant="outline"
+              onClick={handleSaveToHistory}
+              disabled={saveMutation.isPending}
+              className="flex items-center justify-center"
+              data-testid="button-save-history"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save to History"}
+            </Button>
+          )}
           
           <Button
             variant="outline"
@@ -1,12 +1,20 @@
 import { useState } from "react";
-import { Search, Eye, Download, Trash2 } from "lucide-react";
+import { Search, Eye, Download, Trash2, ScrollText } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ReviewStatusBadge } from "@/components/review-workflow-panel";
+import AuditLogPanel from "@/components/audit-log-panel";
+import LotsPanel, { LotWarningBadge } from "@/components/lots-panel";
 import { Document } from "@shared/schema";
+import { stripFileExtension } from "@shared/file-types";
+import { isLotWarning, type LotSummary } from "@shared/lots";
+import { isIssued } from "@shared/review";
 
 interface HistoryModalProps {
   open: boolean;
@@ -15,7 +23,10 @@ interface HistoryModalProps {
 
 export default function HistoryModal({ open, onOpenChange }: HistoryModalProps) {
   const [searchTerm, setSearchTerm] = useState("");
+  const [tab, setTab] = useState("documents");
+  const [auditDocument, setAuditDocument] = useState<Document | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
 
   const documentsQuery = useQuery({
@@ -23,6 +34,12 @@ export default function HistoryModal({ open, onOpenChange }: HistoryModalProps)
     enabled: open,
   });
 
+  const lotsQuery = useQuery<LotSummary[]>({
+    queryKey: ['/api/lots'],
+    enabled: open,
+    staleTime: 0,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (documentId: string) => {
       const response = await apiRequest("DELETE", `/api/documents/${documentId}`);
@@ -48,7 +65,7 @@ export default function HistoryModal({ open, onOpenChange }: HistoryModalProps)
       const a = window.document.createElement('a');
       a.style.display = 'none';
       a.href = url;
-      a.download = `${doc?.originalFileName?.replace('.pdf', '')}_company.pdf`;
+      a.download = `${stripFileExtension(doc?.originalFileName || "document")}_company.pdf`;
       window.document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -57,6 +74,7 @@ export default function HistoryModal({ open, onOpenChange }: HistoryModalProps)
   });
 
   const documents = documentsQuery.data as Document[] | undefined;
+  const lotWarnings = new Map((lotsQuery.data || []).filter(lot => isLotWarning(lot.status)).map(lot => [lot.documentId, lot]));
 
   const filteredDocuments = documents?.filter(doc =>
     doc.originalFileName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -73,6 +91,11 @@ export default function HistoryModal({ open, onOpenChange }: HistoryModalProps)
     downloadMutation.mutate({ documentId, format: "pdf" });
   };
 
+  const handleShowAudit = (document: Document) => {
+    setAuditDocument(document);
+    setTab("audit");
+  };
+
   const getDocumentIcon = (status: string) => {
     switch (status) {
       case "completed":
@@ -93,80 +116,120 @@ export default function HistoryModal({ open, onOpenChange }: HistoryModalProps)
           <DialogTitle>Document History</DialogTitle>
         </DialogHeader>
         
-        <div className="space-y-4">
-          {/* Search */}
-          <div className="relative">
-            <Input
-              placeholder="Search documents..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-              data-testid="input-search-documents"
-            />
-            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
-          </div>
-          
-          {/* Documents List */}
-          <div className="space-y-3 max-h-96 overflow-y-auto">
-            {documentsQuery.isLoading ? (
-              <div className="text-center py-8">
-                <p className="text-gray-500">Loading documents...</p>
-              </div>
-            ) : filteredDocuments.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-gray-500" data-testid="text-no-documents">
-                  {searchTerm ? "No documents found matching your search." : "No documents in history yet."}
-                </p>
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className={`grid w-full ${can("audit:view") ? "grid-cols-3" : "grid-cols-2"}`}>
+            <TabsTrigger value="documents" data-testid="tab-history-documents">Documents</TabsTrigger>
+            <TabsTrigger value="lots" data-testid="tab-history-lots">Lots</TabsTrigger>
+            {can("audit:view") && (
+              <TabsTrigger value="audit" data-testid="tab-history-audit">Audit Log</TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="documents">
+            <div className="space-y-4">
+              {/* Search */}
+              <div className="relative">
+                <Input
+                  placeholder="Search documents..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-search-documents"
+                />
+                <Search className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
               </div>
-            ) : (
-              filteredDocuments.map((document) => (
-                <div
-                  key={document.id}
-                  className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
-                  data-testid={`document-item-${document.id}`}
-                >
-                  <div className="flex items-center space-x-4">
-                    <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${getDocumentIcon(document.status)}`}>
-                      <Eye className="w-5 h-5" />
-                    </div>
-                    <div>
-                      <h4 className="font-medium text-gray-900" data-testid={`text-document-title-${document.id}`}>
-                        {(document.extractedData as any)?.product?.name || document.originalFileName}
-                      </h4>
-                      <p className="text-sm text-gray-500">
-                        Processed on {document.processedAt ? new Date(document.processedAt).toLocaleDateString() : "N/A"}
-                      </p>
-                      <p className="text-xs text-gray-400">
-                        Supplier: {(document.extractedData as any)?.supplier?.name || "Unknown"}
-                      </p>
-                    </div>
+          
+              {/* Documents List */}
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {documentsQuery.isLoading ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">Loading documents...</p>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDownload(document.id)}
-                      disabled={downloadMutation.isPending}
-                      data-testid={`button-download-${document.id}`}
-                    >
-                      <Download className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(document.id)}
-                      disabled={deleteMutation.isPending}
-                      className="text-red-600 hover:text-red-700"
-                      data-testid={`button-delete-${document.id}`}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                ) : filteredDocuments.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500" data-testid="text-no-documents">
+                      {searchTerm ? "No documents found matching your search." : "No documents in history yet."}
+                    </p>
                   </div>
-                </div>
-              ))
-            )}
-          </div>
-        </div>
+                ) : (
+                  filteredDocuments.map((document) => (
+                    <div
+                      key={document.id}
+                      className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+                      data-testid={`document-item-${document.id}`}
+                    >
+                      <div className="flex items-center space-x-4">
+                        <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${getDocumentIcon(document.status)}`}>
+                          <Eye className="w-5 h-5" />
+                        </div>
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <h4 className="font-medium text-gray-900" data-testid={`text-document-title-${document.id}`}>
+                              {(document.extractedData as any)?.product?.name || document.originalFileName}
+                            </h4>
+                            <ReviewStatusBadge status={document.reviewStatus} />
+                            {lotWarnings.has(document.id) && <LotWarningBadge lot={lotWarnings.get(document.id)!} />}
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            Processed on {document.processedAt ? new Date(document.processedAt).toLocaleDateString() : "N/A"}
+                          </p>
+                          <p className="text-xs text-gray-400">
+                            Supplier: {(document.extractedData as any)?.supplier?.name || "Unknown"}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {can("audit:view") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleShowAudit(document)}
+                            data-testid={`button-audit-${document.id}`}
+                          >
+                            <ScrollText className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {can("documents:generate") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDownload(document.id)}
+                            disabled={downloadMutation.isPending}
+                            data-testid={`button-download-${document.id}`}
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {can("documents:delete") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(document.id)}
+                            disabled={deleteMutation.isPending || isIssued(document.reviewStatus)}
+                            className="text-red-600 hover:text-red-700"
+                            data-testid={`button-delete-${document.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="lots">
+            <LotsPanel />
+          </TabsContent>
+
+          {can("audit:view") && (
+            <TabsContent value="audit">
+              <AuditLogPanel document={auditDocument} onClearDocument={() => setAuditDocument(null)} />
+            </TabsContent>
+          )}
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -1,50 +1,66 @@
 import { FileText, Eye } from "lucide-react";
-import { ExtractedData, DynamicField } from "@shared/schema";
+import { ExtractedData, DynamicField, CompanyData, TemplateDefinition } from "@shared/schema";
+import { companyContactLine, companyFonts, defaultCompanyData } from "@shared/company";
+import { defaultTemplateDefinition, layoutSections, templateTitle } from "@shared/template";
+import { complianceColors, complianceStatusLabels, evaluateTable } from "@shared/compliance";
+import { diffHighlightClasses, type ExtractionDiffView } from "@/hooks/use-extraction-diff";
+import { cn } from "@/lib/utils";
+
+const pageNumberAlignment = {
+  left: "text-left",
+  center: "text-center",
+  right: "text-right",
+};
 
 interface LivePreviewProps {
   data: ExtractedData;
+  diffView?: ExtractionDiffView | null;
+  company?: CompanyData;
+  template?: TemplateDefinition;
+  className?: string;
 }
 
-export default function LivePreview({ data }: LivePreviewProps) {
-  // Sort fields by order to maintain document structure
-  const sortedFields = data.fields.sort((a, b) => {
-    const orderA = a.layout?.order || 0;
-    const orderB = b.layout?.order || 0;
-    return orderA - orderB;
-  });
-
-  // Group fields by section while preserving order
-  const groupedFields = sortedFields.reduce((acc, field) => {
-    if (!acc[field.section]) {
-      acc[field.section] = [];
-    }
-    acc[field.section].push(field);
-    return acc;
-  }, {} as Record<string, DynamicField[]>);
+export default function LivePreview({ data, diffView, company = defaultCompanyData, template = defaultTemplateDefinition, className }: LivePreviewProps) {
+  const contactLine = companyContactLine(company);
+
+  // Same section layout as the generated document
+  const sections = layoutSections(data, template);
+  const tableBorder = { borderColor: template.table.borderColor };
 
   const renderTable = (field: DynamicField) => {
     const tableData = field.value as string[][] || [["Header"], ["Data"]];
+    const compliance = template.table.showCompliance ? evaluateTable(tableData) : null;
     
     return (
       <div className="mb-6">
-        <table className="w-full border-collapse border border-black">
+        <table className="w-full border-collapse border" style={tableBorder}>
           <thead>
             <tr>
               {tableData[0]?.map((header, colIndex) => (
-                <th key={colIndex} className="border border-black p-2 text-left font-bold text-black bg-gray-100">
+                <th key={colIndex} className={cn("border p-2 text-left font-bold text-black", diffView?.isCellChanged(field.id, 0, colIndex) && diffHighlightClasses.modified)} style={{ ...tableBorder, backgroundColor: template.table.headerBackground }}>
                   {header}
                 </th>
               ))}
+              {compliance && (
+                <th className="border p-2 text-left font-bold text-black" style={{ ...tableBorder, backgroundColor: template.table.headerBackground }}>
+                  Compliance
+                </th>
+              )}
             </tr>
           </thead>
           <tbody>
             {tableData.slice(1).map((row, rowIndex) => (
-              <tr key={rowIndex}>
+              <tr key={rowIndex} className={cn(template.table.striped && rowIndex % 2 === 1 && "bg-gray-50")}>
                 {row.map((cell, colIndex) => (
-                  <td key={colIndex} className="border border-black p-2 text-black">
+                  <td key={colIndex} className={cn("border p-2 text-black", diffView?.isCellChanged(field.id, rowIndex + 1, colIndex) && diffHighlightClasses.modified)} style={tableBorder}>
                     {cell || "-"}
                   </td>
                 ))}
+                {compliance && (
+                  <td className="border p-2 font-semibold" style={{ ...tableBorder, color: complianceColors[compliance[rowIndex]] }} data-testid={`preview-compliance-${field.id}-${rowIndex}`}>
+                    {complianceStatusLabels[compliance[rowIndex]]}
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
@@ -146,7 +162,7 @@ export default function LivePreview({ data }: LivePreviewProps) {
   };
 
   return (
-    <div className="w-1/2 border-l border-gray-200 bg-gray-50">
+    <div className={cn("w-1/2 border-l border-gray-200 bg-gray-50", className)}>
       <div className="p-4 border-b border-gray-200 bg-white">
         <div className="flex items-center space-x-2">
           <Eye className="w-5 h-5 text-gray-600" />
@@ -163,53 +179,95 @@ export default function LivePreview({ data }: LivePreviewProps) {
           minHeight: '297mm', 
           padding: '20mm',
           margin: '0 auto',
-          fontFamily: 'serif'
+          fontFamily: companyFonts[company.font].css
         }}>
           
           {/* Professional Header */}
-          <div className="border-b-2 border-black pb-4 mb-6">
+          <div className="border-b-2 pb-4 mb-6" style={{ borderColor: company.primaryColor }}>
             <div className="text-center">
-              <h1 className="text-3xl font-bold text-black mb-2">CERTIFICATE OF ANALYSIS</h1>
-              <div className="text-lg text-black font-semibold">
-                Nano Tech Chemical Brothers Pvt. Ltd.
+              {company.logo && template.header.showLogo && (
+                <img src={company.logo} alt={company.name} className="h-12 mx-auto mb-2 object-contain" data-testid="img-preview-logo" />
+              )}
+              <h1 className="text-3xl font-bold text-black mb-2 uppercase" data-testid="text-preview-title">{templateTitle(template, data)}</h1>
+              <div className="text-lg font-semibold" style={{ color: company.primaryColor }} data-testid="text-preview-company">
+                {company.name}
               </div>
+              {contactLine && template.header.showContact && (
+                <div className="text-xs text-gray-600 mt-1">{contactLine}</div>
+              )}
             </div>
             
             <div className="mt-4 grid grid-cols-2 gap-4 text-sm text-black">
-              <div>
-                <strong>Generated:</strong> {new Date().toLocaleDateString()}
-              </div>
-              <div>
-                <strong>Document Type:</strong> {data.documentType}
-              </div>
+              {template.header.showGeneratedDate && (
+                <div>
+                  <strong>Generated:</strong> {new Date().toLocaleDateString()}
+                </div>
+              )}
+              {template.header.showDocumentType && (
+                <div>
+                  <strong>Document Type:</strong> {data.documentType}
+                </div>
+              )}
             </div>
           </div>
 
           {/* Document Content with Preserved Structure */}
           <div className="space-y-6">
-            {Object.entries(groupedFields).map(([sectionName, sectionFields]) => (
+            {sections.map(({ title: sectionName, fields: sectionFields }) => (
               <div key={sectionName} className="mb-6">
-                <h2 className="text-lg font-bold text-black border-b border-black pb-1 mb-4 uppercase">
+                <h2 className={cn(
+                  "text-lg font-bold border-b pb-1 mb-4 uppercase",
+                  diffView?.getSectionChange(sectionName)?.kind === "added" && diffHighlightClasses.added
+                )} style={{ color: company.secondaryColor, borderColor: company.secondaryColor }}>
                   {sectionName}
                 </h2>
                 
                 <div className="space-y-3">
-                  {sectionFields.map((field) => renderField(field))}
+                  {sectionFields.map((field) => {
+                    const change = diffView?.getFieldChange(field.id);
+                    return (
+                      <div key={field.id} className={cn(change && change.cells.length === 0 && diffHighlightClasses[change.kind])}>
+                        {renderField(field)}
+                      </div>
+                    );
+                  })}
+                  {diffView?.getRemovedFields(sectionName).map((change) => (
+                    <div key={`removed-${change.fieldId}`} className={cn("text-sm text-red-700 line-through", diffHighlightClasses.removed)}>
+                      {change.label}
+                    </div>
+                  ))}
                 </div>
               </div>
             ))}
           </div>
 
+          {/* Signatory */}
+          {company.signatoryName && template.footer.showSignatory && (
+            <div className="mt-10 w-56 text-sm text-black" data-testid="text-preview-signatory">
+              <div className="border-t border-black pt-1 font-semibold">{company.signatoryName}</div>
+              {company.signatoryTitle && <div className="text-xs text-gray-600">{company.signatoryTitle}</div>}
+            </div>
+          )}
+
           {/* Professional Footer */}
-          <div className="border-t-2 border-black pt-4 mt-8">
+          <div className="border-t-2 pt-4 mt-8" style={{ borderColor: company.primaryColor }}>
             <div className="text-center text-sm text-black">
-              <div className="font-bold mb-1">NANO TECH CHEMICAL BROTHERS PVT. LTD.</div>
+              {template.footer.showCompanyName && (
+                <div className="font-bold mb-1 uppercase">{company.name}</div>
+              )}
               <div className="text-xs">
-                This document was generated automatically from supplier documentation.
-              </div>
-              <div className="text-xs mt-1">
-                Document generated on {new Date().toLocaleDateString()} • Confidential & Proprietary
+                {template.footer.text || company.footerText || "This document was generated automatically from supplier documentation."}
               </div>
+              {template.footer.showGeneratedBy && (
+                <div className="text-xs mt-1">
+                  Document generated on {new Date().toLocaleDateString()} • Confidential & Proprietary
+                </div>
+              )}
+              {template.pageNumbers.enabled && (
+                <div className={cn("text-xs mt-2 text-gray-600", pageNumberAlignment[template.pageNumbers.alignment])} data-testid="text-preview-page-number">
+                  Page 1 of 1
+                </div>
+              )}
             </div>
           </div>
 
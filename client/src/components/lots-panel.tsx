@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { LOT_WARNING_DAYS, lotStatusLabels, lotWarningMessage, type LotSummary } from "@shared/lots";
+import { lotStatuses, type LotStatus } from "@shared/schema";
+
+// Select items cannot have an empty value
+const ANY_STATUS = "any";
+
+export const lotStatusClasses: Record<LotStatus, string> = {
+  expired: "bg-red-100 text-red-800",
+  retest_overdue: "bg-red-100 text-red-800",
+  expires_soon: "bg-yellow-100 text-yellow-800",
+  retest_soon: "bg-yellow-100 text-yellow-800",
+  ok: "bg-green-100 text-green-800",
+  undated: "bg-gray-100 text-gray-700",
+};
+
+export function LotStatusBadge({ status, title }: { status: LotStatus; title?: string }) {
+  return (
+    <Badge variant="outline" className={lotStatusClasses[status]} title={title} data-testid="badge-lot-status">
+      {lotStatusLabels[status]}
+    </Badge>
+  );
+}
+
+// The lot's status, explained on hover
+export function LotWarningBadge({ lot }: { lot: LotSummary }) {
+  return <LotStatusBadge status={lot.status} title={`Lot ${lot.lotNumber}: ${lotWarningMessage(lot, lot.status)}`} />;
+}
+
+export default function LotsPanel() {
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState(ANY_STATUS);
+
+  const params = new URLSearchParams();
+  if (search.trim()) params.set("q", search.trim());
+  if (status !== ANY_STATUS) params.set("status", status);
+
+  const lotsQuery = useQuery<LotSummary[]>({
+    queryKey: [`/api/lots?${params.toString()}`],
+    staleTime: 0, // statuses move with the date and lots with every save
+  });
+
+  const lots = lotsQuery.data || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-3">
+        <div className="relative flex-1">
+          <Input
+            placeholder="Search lot numbers..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+            data-testid="input-search-lots"
+          />
+          <Search className="w-5 h-5 text-gray-400 absolute left-3 top-2.5" />
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-44" data-testid="select-lot-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_STATUS}>Any status</SelectItem>
+            {lotStatuses.map((lotStatus) => (
+              <SelectItem key={lotStatus} value={lotStatus}>{lotStatusLabels[lotStatus]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-gray-500">
+        Lot numbers and dates are read from each document's fields and follow the reviewer's corrections. Lots are
+        flagged {LOT_WARNING_DAYS} days before they expire or are due for retest.
+      </p>
+
+      <div className="max-h-96 overflow-y-auto border rounded-lg">
+        {lotsQuery.isLoading ? (
+          <p className="text-center py-8 text-gray-500">Loading lots...</p>
+        ) : lots.length === 0 ? (
+          <p className="text-center py-8 text-gray-500" data-testid="text-no-lots">
+            {search || status !== ANY_STATUS ? "No lots match this search." : "No documents name a lot number yet."}
+          </p>
+        ) : (
+          <table className="w-full text-sm" data-testid="table-lots">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-3 py-2 font-medium">Lot</th>
+                <th className="px-3 py-2 font-medium">Product</th>
+                <th className="px-3 py-2 font-medium">Manufactured</th>
+                <th className="px-3 py-2 font-medium">Expiry</th>
+                <th className="px-3 py-2 font-medium">Retest</th>
+                <th className="px-3 py-2 font-medium">Quantity</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {lots.map((lot) => (
+                <tr key={lot.id} data-testid={`row-lot-${lot.id}`}>
+                  <td className="px-3 py-2">
+                    <div className="font-mono text-gray-900">{lot.lotNumber}</div>
+                    <div className="text-xs text-gray-500 truncate max-w-[12rem]" title={lot.documentName}>
+                      {[lot.supplierName, lot.documentName].filter(Boolean).join(" • ")}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{lot.productName || "—"}</td>
+                  <td className="px-3 py-2 text-gray-700">{lot.manufactureDate || "—"}</td>
+                  <td className="px-3 py-2 text-gray-700">{lot.expiryDate || "—"}</td>
+                  <td className="px-3 py-2 text-gray-700">{lot.retestDate || "—"}</td>
+                  <td className="px-3 py-2 text-gray-700">{lot.quantity || "—"}</td>
+                  <td className="px-3 py-2"><LotStatusBadge status={lot.status} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,77 +1,71 @@
 import { useEffect, useState } from "react";
-import { Loader2, CheckCircle, AlertCircle, FileText, Brain, Sparkles } from "lucide-react";
+import { Loader2, CheckCircle, AlertCircle, FileText, Brain, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { usePipeline } from "@/hooks/use-pipeline";
+import { useProcessingJob } from "@/hooks/use-processing-job";
 import { Document } from "@shared/schema";
+import { processingStages, isJobFinished, type ProcessingJob, type ProcessingStage } from "@shared/jobs";
 
 interface ProcessingStepProps {
   document: Document | null;
 }
 
+const processingSteps: Array<{ stage: ProcessingStage; name: string; icon: typeof FileText }> = [
+  { stage: "reading", name: "Reading Document", icon: FileText },
+  { stage: "ocr", name: "Extracting Text (OCR)", icon: FileText },
+  { stage: "structuring", name: "AI Analysis", icon: Brain },
+  { stage: "validating", name: "Validating Structure", icon: ShieldCheck },
+];
+
 export default function ProcessingStep({ document }: ProcessingStepProps) {
   const { setCurrentDocument, goToStep } = usePipeline();
-  const [currentProcessingStep, setCurrentProcessingStep] = useState(0);
-  const [processingSteps, setProcessingSteps] = useState([
-    { id: 1, name: "Uploading Document", icon: FileText, completed: false, active: false },
-    { id: 2, name: "Extracting Text (OCR)", icon: FileText, completed: false, active: false },
-    { id: 3, name: "AI Analysis", icon: Brain, completed: false, active: false },
-    { id: 4, name: "Generating Structure", icon: Sparkles, completed: false, active: false },
-  ]);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, connectionError } = useProcessingJob(jobId);
 
   const processMutation = useMutation({
     mutationFn: async (documentId: string) => {
       const response = await apiRequest("POST", `/api/documents/${documentId}/process`);
-      return response.json();
+      return response.json() as Promise<ProcessingJob>;
+    },
+    onSuccess: (queuedJob) => setJobId(queuedJob.id),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (previousJobId: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${previousJobId}/retry`);
+      return response.json() as Promise<ProcessingJob>;
     },
-    onSuccess: (processedDocument) => {
-      setCurrentDocument(processedDocument);
-      // Complete all steps before transitioning
-      setProcessingSteps(prev => prev.map(step => ({ ...step, completed: true, active: false })));
-      setTimeout(() => goToStep(3), 1000);
+    onSuccess: (queuedJob) => setJobId(queuedJob.id),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (runningJobId: string) => {
+      const response = await apiRequest("POST", `/api/jobs/${runningJobId}/cancel`);
+      return response.json() as Promise<ProcessingJob>;
     },
   });
 
   useEffect(() => {
     if (document && document.status === "uploaded" && !processMutation.isPending) {
-      // Start processing with step animations
-      setCurrentProcessingStep(0);
-      setProcessingSteps(prev => prev.map((step, index) => ({ 
-        ...step, 
-        completed: false, 
-        active: index === 0 
-      })));
-      
-      // Animate through processing steps
-      const stepInterval = setInterval(() => {
-        setCurrentProcessingStep(prev => {
-          const next = prev + 1;
-          if (next >= processingSteps.length) {
-            clearInterval(stepInterval);
-            return prev;
-          }
-          
-          setProcessingSteps(steps => steps.map((step, index) => ({
-            ...step,
-            completed: index < next,
-            active: index === next
-          })));
-          
-          return next;
-        });
-      }, 1500);
-      
-      // Start actual processing
-      setTimeout(() => {
-        processMutation.mutate(document.id);
-      }, 500);
-      
-      return () => clearInterval(stepInterval);
+      processMutation.mutate(document.id);
     }
   }, [document?.id]);
 
+  // Load the processed document once the job reports completion
+  useEffect(() => {
+    if (job?.status === "completed" && document) {
+      apiRequest("GET", `/api/documents/${document.id}`)
+        .then((response) => response.json())
+        .then((processedDocument) => {
+          setCurrentDocument(processedDocument);
+          setTimeout(() => goToStep(3), 1000);
+        });
+    }
+  }, [job?.status]);
+
   if (!document) {
     return (
       <div className="p-6">
@@ -84,9 +78,21 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
     );
   }
 
-  const isProcessing = processMutation.isPending || document.status === "processing";
-  const isCompleted = document.status === "processed";
-  const hasError = processMutation.isError || document.status === "error";
+  const isProcessing = processMutation.isPending || retryMutation.isPending || (!!job && !isJobFinished(job));
+  const isCompleted = job ? job.status === "completed" : document.status === "processed";
+  const isCancelled = job?.status === "cancelled";
+  const hasError = processMutation.isError || retryMutation.isError || job?.status === "failed" || !!connectionError || (!job && document.status === "error");
+  const errorMessage = job?.error || connectionError || processMutation.error?.message || retryMutation.error?.message;
+  const currentStageIndex = processingStages.indexOf(job?.stage || "queued");
+  const progress = job?.progress || 0;
+
+  const handleRetry = () => {
+    if (job) {
+      retryMutation.mutate(job.id);
+    } else {
+      processMutation.mutate(document.id);
+    }
+  };
 
   return (
     <div className="p-6">
@@ -112,11 +118,16 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
             <div className="space-y-4">
               {/* Step-by-step Progress */}
               <div className="space-y-3">
-                {processingSteps.map((step, index) => {
-                  const Icon = step.icon;
+                {processingSteps.map((processingStep) => {
+                  const Icon = processingStep.icon;
+                  const stageIndex = processingStages.indexOf(processingStep.stage);
+                  const step = {
+                    completed: stageIndex < currentStageIndex,
+                    active: stageIndex === currentStageIndex,
+                  };
                   return (
                     <div 
-                      key={step.id}
+                      key={processingStep.stage}
                       className={`flex items-center space-x-3 p-3 rounded-lg transition-all duration-500 ${
                         step.completed 
                           ? 'bg-green-50 border border-green-200' 
@@ -148,10 +159,10 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
                             ? 'text-blue-900' 
                             : 'text-gray-600'
                         }`}>
-                          {step.name}
+                          {processingStep.name}
                         </span>
                         {step.active && (
-                          <div className="text-xs text-blue-600 mt-1">Processing...</div>
+                          <div className="text-xs text-blue-600 mt-1">{job?.message || "Processing..."}</div>
                         )}
                         {step.completed && (
                           <div className="text-xs text-green-600 mt-1">✓ Complete</div>
@@ -167,19 +178,41 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">Overall Progress</span>
                   <span className="text-gray-900 font-medium">
-                    {Math.round(((currentProcessingStep + 1) / processingSteps.length) * 100)}%
+                    {job?.status === "queued" ? "Queued" : `${progress}%`}
                   </span>
                 </div>
                 <Progress 
-                  value={((currentProcessingStep + 1) / processingSteps.length) * 100} 
+                  value={progress} 
                   className="h-3" 
                   data-testid="progress-processing" 
                 />
               </div>
               
-              <p className="text-xs text-gray-500 text-center">
-                Using Mistral AI to intelligently extract and structure your document data
-              </p>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  Extracting and structuring your document data on the server
+                </p>
+                {job && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelMutation.mutate(job.id)}
+                    disabled={cancelMutation.isPending}
+                    data-testid="button-cancel-processing"
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {isCancelled && (
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-5 h-5 text-yellow-600" />
+              <span className="text-sm font-medium text-yellow-900" data-testid="text-processing-cancelled">
+                Processing was cancelled
+              </span>
             </div>
           )}
 
@@ -204,7 +237,7 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
                 </span>
               </div>
               <p className="text-sm text-red-700" data-testid="text-processing-error">
-                {processMutation.error?.message || "Failed to process document. Please try again."}
+                {errorMessage || "Failed to process document. Please try again."}
               </p>
             </div>
           )}
@@ -216,7 +249,7 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
           <div className="space-y-2 text-xs text-blue-800">
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
-              <span>Extract text from PDF using OCR</span>
+              <span>Extract document text, with OCR for scans and images</span>
             </div>
             <div className="flex items-center space-x-2">
               <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
@@ -252,10 +285,10 @@ export default function ProcessingStep({ document }: ProcessingStepProps) {
             </Button>
           )}
           
-          {hasError && (
+          {(hasError || isCancelled) && (
             <Button
-              onClick={() => processMutation.mutate(document.id)}
-              disabled={processMutation.isPending}
+              onClick={handleRetry}
+              disabled={processMutation.isPending || retryMutation.isPending}
               data-testid="button-retry-processing"
             >
               Retry Processing
@@ -0,0 +1,76 @@
+import type { ReactNode } from "react";
+import { Package } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { productMatchLabels } from "@shared/products";
+import type { Document, Product, ProductMatchMethod } from "@shared/schema";
+
+// Select items cannot have an empty value
+const NO_PRODUCT = "none";
+
+interface ProductSelectProps {
+  documentId: string;
+  productId: string | null;
+  productMatch: string | null;
+  onApplied: (document: Document) => void;
+  // Shown instead of the select while the catalog is empty
+  fallback?: ReactNode;
+  disabled?: boolean;
+}
+
+export default function ProductSelect({ documentId, productId, productMatch, onApplied, fallback = null, disabled = false }: ProductSelectProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const productsQuery = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (productId: string | null) => {
+      const response = await apiRequest("PATCH", `/api/documents/${documentId}`, { productId });
+      return response.json();
+    },
+    onSuccess: (updatedDocument: Document) => {
+      onApplied(updatedDocument);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Link Product",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const products = productsQuery.data || [];
+  if (products.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  const matchLabel = productId && productMatch ? productMatchLabels[productMatch as ProductMatchMethod] : "No catalog product matched";
+
+  return (
+    <Select
+      value={productId || NO_PRODUCT}
+      onValueChange={(value) => applyMutation.mutate(value === NO_PRODUCT ? null : value)}
+      disabled={disabled || !can("documents:edit") || applyMutation.isPending}
+    >
+      <SelectTrigger className="w-56" title={matchLabel} data-testid="select-document-product">
+        <Package className="w-4 h-4 mr-2 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PRODUCT}>No catalog product</SelectItem>
+        {products.map((product) => (
+          <SelectItem key={product.id} value={product.id}>
+            {product.code} – {product.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { normalizeProductText } from "@shared/products";
+import type { InsertProduct, Product, ProductSpecification, ProductSupplierMapping } from "@shared/schema";
+
+type MappingForm = { supplier: string; productCode: string; productName: string };
+
+type ProductForm = {
+  code: string;
+  name: string;
+  casNumber: string;
+  grade: string;
+  supplierMappings: MappingForm[];
+  specifications: ProductSpecification[];
+};
+
+const emptyForm: ProductForm = {
+  code: "",
+  name: "",
+  casNumber: "",
+  grade: "",
+  supplierMappings: [],
+  specifications: [],
+};
+
+const toForm = (product: Product): ProductForm => ({
+  code: product.code,
+  name: product.name,
+  casNumber: product.casNumber || "",
+  grade: product.grade || "",
+  supplierMappings: (product.supplierMappings as ProductSupplierMapping[]).map((mapping) => ({
+    ...mapping,
+    productName: mapping.productName || "",
+  })),
+  specifications: product.specifications as ProductSpecification[],
+});
+
+// Rows left completely blank are dropped rather than rejected
+const toPayload = (form: ProductForm): InsertProduct => ({
+  code: form.code.trim(),
+  name: form.name.trim(),
+  casNumber: form.casNumber.trim() || null,
+  grade: form.grade.trim() || null,
+  supplierMappings: form.supplierMappings
+    .filter((mapping) => mapping.supplier.trim() || mapping.productCode.trim())
+    .map((mapping) => ({ ...mapping, productName: mapping.productName.trim() || null })),
+  specifications: form.specifications.filter((spec) => spec.test.trim() || spec.specification.trim()),
+});
+
+export default function ProductsPanel() {
+  // null: list view, "new": creating, otherwise the id of the product being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ProductForm>(emptyForm);
+  const [search, setSearch] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const productsQuery = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Product Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: InsertProduct }) => {
+      const response = id
+        ? await apiRequest("PATCH", `/api/products/${id}`, data)
+        : await apiRequest("POST", "/api/products", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+      setEditing(null);
+      toast({
+        title: "Product Saved",
+        description: "New documents are matched against the updated catalog.",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/products/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+    },
+    onError,
+  });
+
+  const updateForm = (changes: Partial<ProductForm>) => {
+    setForm(current => ({ ...current, ...changes }));
+  };
+
+  const updateMapping = (index: number, changes: Partial<MappingForm>) => {
+    updateForm({ supplierMappings: form.supplierMappings.map((mapping, i) => i === index ? { ...mapping, ...changes } : mapping) });
+  };
+
+  const updateSpecification = (index: number, changes: Partial<ProductSpecification>) => {
+    updateForm({ specifications: form.specifications.map((spec, i) => i === index ? { ...spec, ...changes } : spec) });
+  };
+
+  const startEditing = (product?: Product) => {
+    setForm(product ? toForm(product) : emptyForm);
+    setEditing(product ? product.id : "new");
+  };
+
+  const handleDelete = (product: Product) => {
+    if (confirm(`Delete the product "${product.code} – ${product.name}"? Documents linked to it are left without a product.`)) {
+      deleteMutation.mutate(product.id);
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-4" data-testid="form-product">
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="product-code" className="text-sm font-medium text-gray-700">Product Code</Label>
+            <Input
+              id="product-code"
+              value={form.code}
+              onChange={(e) => updateForm({ code: e.target.value })}
+              className="mt-1"
+              data-testid="input-product-code"
+            />
+          </div>
+          <div className="col-span-2">
+            <Label htmlFor="product-name" className="text-sm font-medium text-gray-700">Product Name</Label>
+            <Input
+              id="product-name"
+              value={form.name}
+              onChange={(e) => updateForm({ name: e.target.value })}
+              className="mt-1"
+              data-testid="input-product-name"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="product-cas" className="text-sm font-medium text-gray-700">CAS Number</Label>
+            <Input
+              id="product-cas"
+              placeholder="7647-14-5"
+              value={form.casNumber}
+              onChange={(e) => updateForm({ casNumber: e.target.value })}
+              className="mt-1"
+              data-testid="input-product-cas"
+            />
+          </div>
+          <div>
+            <Label htmlFor="product-grade" className="text-sm font-medium text-gray-700">Grade</Label>
+            <Input
+              id="product-grade"
+              placeholder="e.g. ACS, USP, Technical"
+              value={form.grade}
+              onChange={(e) => updateForm({ grade: e.target.value })}
+              className="mt-1"
+              data-testid="input-product-grade"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Supplier Codes</Label>
+          <p className="text-xs text-gray-500">
+            Documents naming one of these supplier product codes are linked to this product.
+          </p>
+          {form.supplierMappings.map((mapping, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2" data-testid={`row-product-mapping-${index}`}>
+              <Input
+                placeholder="Supplier"
+                value={mapping.supplier}
+                onChange={(e) => updateMapping(index, { supplier: e.target.value })}
+                data-testid={`input-mapping-supplier-${index}`}
+              />
+              <Input
+                placeholder="Supplier code"
+                value={mapping.productCode}
+                onChange={(e) => updateMapping(index, { productCode: e.target.value })}
+                data-testid={`input-mapping-code-${index}`}
+              />
+              <Input
+                placeholder="Supplier's name (optional)"
+                value={mapping.productName}
+                onChange={(e) => updateMapping(index, { productName: e.target.value })}
+                data-testid={`input-mapping-name-${index}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateForm({ supplierMappings: form.supplierMappings.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-mapping-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateForm({ supplierMappings: [...form.supplierMappings, { supplier: "", productCode: "", productName: "" }] })}
+            data-testid="button-add-mapping"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Supplier Code
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Our Specifications</Label>
+          <p className="text-xs text-gray-500">
+            Can replace the supplier's limit for the same test when generating, e.g. "Assay" with "≥ 99.0 %".
+          </p>
+          {form.specifications.map((spec, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2" data-testid={`row-product-specification-${index}`}>
+              <Input
+                placeholder="Test"
+                value={spec.test}
+                onChange={(e) => updateSpecification(index, { test: e.target.value })}
+                data-testid={`input-specification-test-${index}`}
+              />
+              <Input
+                placeholder="Specification"
+                value={spec.specification}
+                onChange={(e) => updateSpecification(index, { specification: e.target.value })}
+                data-testid={`input-specification-limit-${index}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateForm({ specifications: form.specifications.filter((_, i) => i !== index) })}
+                data-testid={`button-remove-specification-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateForm({ specifications: [...form.specifications, { test: "", specification: "" }] })}
+            data-testid="button-add-specification"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Specification
+          </Button>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-product">
+            Back
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate({ id: editing === "new" ? null : editing, data: toPayload(form) })}
+            disabled={!form.code.trim() || !form.name.trim() || saveMutation.isPending}
+            data-testid="button-save-product"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Product"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const products = productsQuery.data || [];
+  const query = normalizeProductText(search);
+  const shown = products.filter((product) =>
+    normalizeProductText([product.code, product.name, product.casNumber || "", product.grade || ""].join(" ")).includes(query)
+  );
+
+  return (
+    <div className="space-y-4">
+      {products.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No catalog products yet. Documents are matched to products by CAS number, supplier code or name once they are added.
+        </p>
+      ) : (
+        <>
+          <Input
+            placeholder="Search by code, name, CAS number or grade"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            data-testid="input-product-search"
+          />
+          <ul className="divide-y border rounded-lg max-h-80 overflow-y-auto" data-testid="list-products">
+            {shown.map((product) => (
+              <li key={product.id} className="flex items-center justify-between px-3 py-2" data-testid={`row-product-${product.id}`}>
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-sm font-mono text-gray-600 flex-shrink-0">{product.code}</span>
+                  <span className="text-sm font-medium text-gray-900 truncate">{product.name}</span>
+                  {product.grade && <Badge variant="secondary">{product.grade}</Badge>}
+                  {product.casNumber && <span className="text-xs text-gray-500 flex-shrink-0">CAS {product.casNumber}</span>}
+                </div>
+                <div className="flex items-center">
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(product)} data-testid={`button-edit-product-${product.id}`}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(product)} data-testid={`button-delete-product-${product.id}`}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+            {shown.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">No products match "{search}".</li>
+            )}
+          </ul>
+        </>
+      )}
+
+      <Button variant="outline" onClick={() => startEditing()} data-testid="button-add-product">
+        <Plus className="w-4 h-4 mr-2" />
+        Add Product
+      </Button>
+    </div>
+  );
+}
@@ -1,16 +1,44 @@
-import { useState, useEffect } from "react";
-import { RotateCcw, Plus, X, Save, Edit } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { RotateCcw, Plus, X, Save, Edit, History, GitCompare, FileSearch, Pencil, ChevronUp, ChevronDown, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { useMutation } from "@tanstack/react-query";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { usePipeline } from "@/hooks/use-pipeline";
-import { Document, ExtractedData, DynamicField } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useExtractionDiff, diffHighlightClasses } from "@/hooks/use-extraction-diff";
+import { cn } from "@/lib/utils";
+import { Document, ExtractedData, DynamicField, dynamicFieldTypes, type DocumentClass } from "@shared/schema";
+import { resolveCompanyData } from "@shared/company";
 import LivePreview from "@/components/live-preview";
+import RevisionPanel from "@/components/revision-panel";
+import SourcePanel from "@/components/source-panel";
+import ConfidenceBadge from "@/components/confidence-badge";
+import { ReviewStatusBadge } from "@/components/review-workflow-panel";
+import { isReviewLocked } from "@shared/review";
+import { averageConfidence, isLowConfidence } from "@shared/confidence";
+import { complianceStatusLabels, complianceSummary, evaluateTable, type ComplianceStatus } from "@shared/compliance";
+import CompanyProfileSelect from "@/components/company-profile-select";
+import TemplateSelect from "@/components/template-select";
+import ProductSelect from "@/components/product-select";
+import SupplierSelect from "@/components/supplier-select";
+import DocumentClassSelect from "@/components/document-class-select";
+import { lotStatusClasses } from "@/components/lots-panel";
+import { lotStatus, lotWarningMessage, parseLotDetails } from "@shared/lots";
+import { checkSdsCompleteness, isSafetyDataSheet, sdsSectionTitle } from "@shared/sds";
+import { useTemplateDefinition } from "@/hooks/use-document-template";
+
+const complianceClasses: Record<ComplianceStatus, string> = {
+  pass: "bg-green-100 text-green-800",
+  fail: "bg-red-100 text-red-800",
+  unknown: "bg-gray-100 text-gray-700",
+};
 
 interface ReviewStepProps {
   document: Document | null;
@@ -18,12 +46,39 @@ interface ReviewStepProps {
 
 export default function ReviewStep({ document }: ReviewStepProps) {
   const { setCurrentDocument, goToStep } = usePipeline();
+  const { can } = useAuth();
   const [formData, setFormData] = useState<ExtractedData | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [focusedFieldId, setFocusedFieldId] = useState<string | null>(null);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  // Section at the top of the form, so the original follows the form's scrolling
+  const [visibleSection, setVisibleSection] = useState<string | null>(null);
+  const formScrollRef = useRef<HTMLDivElement>(null);
+  // Kept apart from the document so applying a profile, template or product does not reset unsaved edits
+  const [companyData, setCompanyData] = useState<unknown>(null);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [product, setProduct] = useState<Pick<Document, "productId" | "productMatch">>({ productId: null, productMatch: null });
+  const [supplier, setSupplier] = useState<Pick<Document, "supplierId" | "supplierMatch">>({ supplierId: null, supplierMatch: null });
+  const [documentClass, setDocumentClass] = useState<Pick<Document, "documentClass" | "classMatch">>({ documentClass: null, classMatch: null });
+  // Field whose label, section and type are being corrected; for a document
+  // with a supplier, saved corrections are applied to its later uploads
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const template = useTemplateDefinition(templateId, documentClass.documentClass);
+  // Approved and issued documents cannot be edited
+  const locked = !!document && isReviewLocked(document.reviewStatus);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     if (document?.extractedData) {
       setFormData(document.extractedData as ExtractedData);
     }
+    setCompanyData(document?.companyData ?? null);
+    setTemplateId(document?.templateId ?? null);
+    setProduct({ productId: document?.productId ?? null, productMatch: document?.productMatch ?? null });
+    setSupplier({ supplierId: document?.supplierId ?? null, supplierMatch: document?.supplierMatch ?? null });
+    setDocumentClass({ documentClass: document?.documentClass ?? null, classMatch: document?.classMatch ?? null });
   }, [document]);
 
   const updateMutation = useMutation({
@@ -33,9 +88,12 @@ export default function ReviewStep({ document }: ReviewStepProps) {
     },
     onSuccess: (updatedDocument) => {
       setCurrentDocument(updatedDocument);
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${updatedDocument.id}/revisions`] });
     },
   });
 
+  const { view: diffView, hasOriginal } = useExtractionDiff(document?.id, formData, showChanges);
+
   const handleFieldChange = (fieldId: string, value: string | number | boolean | string[][]) => {
     if (!formData) return;
     
@@ -54,7 +112,7 @@ export default function ReviewStep({ document }: ReviewStepProps) {
       ...prev!,
       fields: prev!.fields.map(field => {
         if (field.id === fieldId && Array.isArray(field.value)) {
-          const newTable = [...field.value as string[][]];
+          const newTable = (field.value as string[][]).map(row => [...row]);
           newTable[rowIndex][colIndex] = value;
           return { ...field, value: newTable };
         }
@@ -115,6 +173,32 @@ export default function ReviewStep({ document }: ReviewStepProps) {
     }));
   };
 
+  const updateFieldProperties = (fieldId: string, changes: Partial<Pick<DynamicField, "label" | "section" | "type">>) => {
+    setFormData(prev => ({
+      ...prev!,
+      fields: prev!.fields.map(field => field.id === fieldId ? { ...field, ...changes } : field)
+    }));
+  };
+
+  // Swaps a section with its neighbour by renumbering every field's order
+  const moveSection = (section: string, offset: -1 | 1) => {
+    setFormData(prev => {
+      const fields = [...prev!.fields].sort((a, b) => (a.layout?.order || 0) - (b.layout?.order || 0));
+      const sections = Array.from(new Set(fields.map(field => field.section)));
+      const index = sections.indexOf(section);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= sections.length) return prev;
+
+      [sections[index], sections[target]] = [sections[target], sections[index]];
+      return {
+        ...prev!,
+        fields: sections
+          .flatMap(name => fields.filter(field => field.section === name))
+          .map((field, order) => ({ ...field, layout: { ...(field.layout || { structureType: "field" as const }), order } }))
+      };
+    });
+  };
+
   const removeField = (fieldId: string) => {
     if (!formData) return;
     
@@ -127,12 +211,15 @@ export default function ReviewStep({ document }: ReviewStepProps) {
   const handleSaveAndContinue = () => {
     if (formData && document) {
       updateMutation.mutate({ extractedData: formData });
-      goToStep(4);
+      goToStep(5);
     }
   };
 
   const renderTableField = (field: DynamicField) => {
     const tableData = field.value as string[][] || [["Header"], ["Data"]];
+    // Re-evaluated on every edit, so correcting a result updates its row
+    const compliance = evaluateTable(tableData);
+    const summary = compliance && complianceSummary(compliance);
     
     return (
       <div className="space-y-2">
@@ -141,7 +228,7 @@ export default function ReviewStep({ document }: ReviewStepProps) {
             <thead>
               <tr className="bg-gray-50">
                 {tableData[0]?.map((header, colIndex) => (
-                  <th key={colIndex} className="border border-gray-300 p-2 text-left">
+                  <th key={colIndex} className={cn("border border-gray-300 p-2 text-left", diffView?.isCellChanged(field.id, 0, colIndex) && diffHighlightClasses.modified)}>
                     <Input
                       value={header}
                       onChange={(e) => handleTableCellChange(field.id, 0, colIndex, e.target.value)}
@@ -150,13 +237,16 @@ export default function ReviewStep({ document }: ReviewStepProps) {
                     />
                   </th>
                 ))}
+                {compliance && (
+                  <th className="border border-gray-300 p-2 text-left text-sm font-medium text-gray-700">Compliance</th>
+                )}
               </tr>
             </thead>
             <tbody>
               {tableData.slice(1).map((row, rowIndex) => (
                 <tr key={rowIndex + 1}>
                   {row.map((cell, colIndex) => (
-                    <td key={colIndex} className="border border-gray-300 p-2">
+                    <td key={colIndex} className={cn("border border-gray-300 p-2", diffView?.isCellChanged(field.id, rowIndex + 1, colIndex) && diffHighlightClasses.modified)}>
                       <Input
                         value={cell}
                         onChange={(e) => handleTableCellChange(field.id, rowIndex + 1, colIndex, e.target.value)}
@@ -165,6 +255,13 @@ export default function ReviewStep({ document }: ReviewStepProps) {
                       />
                     </td>
                   ))}
+                  {compliance && (
+                    <td className="border border-gray-300 p-2">
+                      <Badge variant="outline" className={complianceClasses[compliance[rowIndex]]} data-testid={`badge-compliance-${field.id}-${rowIndex}`}>
+                        {complianceStatusLabels[compliance[rowIndex]]}
+                      </Badge>
+                    </td>
+                  )}
                   <td className="border border-gray-300 p-2 w-10">
                     <Button
                       variant="ghost"
@@ -181,15 +278,24 @@ export default function ReviewStep({ document }: ReviewStepProps) {
             </tbody>
           </table>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => addTableRow(field.id)}
-          data-testid={`button-add-row-${field.id}`}
-        >
-          <Plus className="w-4 h-4 mr-1" />
-          Add Row
-        </Button>
+        <div className="flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => addTableRow(field.id)}
+            data-testid={`button-add-row-${field.id}`}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Row
+          </Button>
+          {summary && (
+            <span className="text-xs text-gray-600" data-testid={`text-compliance-summary-${field.id}`}>
+              <span className="text-green-700">{summary.pass} pass</span> •{" "}
+              <span className="text-red-700">{summary.fail} fail</span> •{" "}
+              {summary.unknown} unknown
+            </span>
+          )}
+        </div>
       </div>
     );
   };
@@ -336,7 +442,10 @@ export default function ReviewStep({ document }: ReviewStepProps) {
     return orderA - orderB;
   }) || [];
 
-  const groupedFields = sortedFields.reduce((acc, field) => {
+  const lowConfidenceCount = sortedFields.filter(isLowConfidence).length;
+  const visibleFields = lowConfidenceOnly ? sortedFields.filter(isLowConfidence) : sortedFields;
+
+  const groupedFields = visibleFields.reduce((acc, field) => {
     if (!acc[field.section]) {
       acc[field.section] = [];
     }
@@ -344,6 +453,52 @@ export default function ReviewStep({ document }: ReviewStepProps) {
     return acc;
   }, {} as Record<string, DynamicField[]>);
 
+  // Every section, including those the low-confidence filter hides
+  const sectionNames = Array.from(new Set(sortedFields.map(field => field.section)));
+
+  // First page each section's values were found on
+  const sectionPages = sortedFields.reduce((acc, field) => {
+    const page = field.source?.page;
+    if (page && (!acc[field.section] || page < acc[field.section])) {
+      acc[field.section] = page;
+    }
+    return acc;
+  }, {} as Record<string, number>);
+
+  const handleFormScroll = () => {
+    const container = formScrollRef.current;
+    if (!showSource || !container) return;
+    const top = container.getBoundingClientRect().top;
+    let current: string | null = null;
+    container.querySelectorAll<HTMLElement>("[data-section-name]").forEach((element) => {
+      if (!current || element.getBoundingClientRect().top - top <= 48) {
+        current = element.dataset.sectionName!;
+      }
+    });
+    setVisibleSection(current);
+  };
+
+  const removedSections = diffView?.diff.sections
+    .filter((change) => change.kind === "removed")
+    .map((change) => change.section) || [];
+
+  const formatOriginalValue = (value: DynamicField["value"] | string) => {
+    if (value === null || value === undefined || value === "") return "(empty)";
+    if (Array.isArray(value)) return "(table)";
+    return value.toString();
+  };
+
+  const renderRemovedField = (change: { fieldId: string; label: string }) => (
+    <div
+      key={`removed-${change.fieldId}`}
+      className={cn("rounded-lg p-2 text-sm text-red-700", diffHighlightClasses.removed)}
+      data-testid={`removed-field-${change.fieldId}`}
+    >
+      <span className="line-through">{change.label}</span>
+      <span className="ml-2 text-xs">removed by reviewer</span>
+    </div>
+  );
+
   if (!document || !formData) {
     return (
       <div className="p-6">
@@ -355,6 +510,12 @@ export default function ReviewStep({ document }: ReviewStepProps) {
     );
   }
 
+  // Read from the form rather than the saved lot, so corrected dates update the warning at once
+  const lot = parseLotDetails(formData);
+  const currentLotStatus = lotStatus(lot);
+  const lotWarning = lotWarningMessage(lot, currentLotStatus);
+  const sdsCompleteness = isSafetyDataSheet(formData) ? checkSdsCompleteness(formData) : null;
+
   return (
     <>
       <div className="p-6 border-b border-gray-200">
@@ -362,13 +523,77 @@ export default function ReviewStep({ document }: ReviewStepProps) {
           <div>
             <h2 className="text-lg font-semibold text-gray-900">Review & Edit Extracted Data</h2>
             <p className="text-sm text-gray-600 mt-1">
-              Document Type: <span className="font-medium">{formData.documentType}</span> • 
+              <ReviewStatusBadge status={document.reviewStatus} />
+              {locked && <span className="ml-2 text-gray-500">Read-only •</span>}
+              {" "}Document Type: <span className="font-medium">{formData.documentType}</span> • 
               {formData.fields.length} elements • 
               {formData.structure?.hasTables ? "📊 Tables" : ""} 
               {formData.structure?.hasHeaders ? " 📝 Headers" : ""}
             </p>
           </div>
           <div className="flex items-center space-x-3">
+            <DocumentClassSelect
+              documentId={document.id}
+              documentClass={documentClass.documentClass as DocumentClass | null}
+              classMatch={documentClass.classMatch}
+              disabled={locked}
+              onApplied={(updatedDocument) => {
+                setDocumentClass({ documentClass: updatedDocument.documentClass, classMatch: updatedDocument.classMatch });
+                // Only the type changes, so unsaved edits are kept
+                setFormData(prev => ({ ...prev!, documentType: (updatedDocument.extractedData as ExtractedData).documentType }));
+              }}
+            />
+            <CompanyProfileSelect
+              documentId={document.id}
+              companyData={companyData}
+              disabled={locked}
+              onApplied={(updatedDocument) => setCompanyData(updatedDocument.companyData)}
+            />
+            <TemplateSelect
+              documentId={document.id}
+              templateId={templateId}
+              documentClass={documentClass.documentClass}
+              disabled={locked}
+              onApplied={(updatedDocument) => setTemplateId(updatedDocument.templateId)}
+            />
+            <ProductSelect
+              documentId={document.id}
+              productId={product.productId}
+              productMatch={product.productMatch}
+              disabled={locked}
+              onApplied={({ productId, productMatch }) => setProduct({ productId, productMatch })}
+            />
+            <SupplierSelect
+              documentId={document.id}
+              supplierId={supplier.supplierId}
+              supplierMatch={supplier.supplierMatch}
+              disabled={locked}
+              onApplied={({ supplierId, supplierMatch }) => setSupplier({ supplierId, supplierMatch })}
+            />
+            <Button
+              variant={showChanges ? "default" : "outline"}
+              onClick={() => setShowChanges(!showChanges)}
+              data-testid="button-toggle-changes"
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              {showChanges ? "Hide Changes" : "Show Changes"}
+            </Button>
+            <Button
+              variant={showSource ? "default" : "outline"}
+              onClick={() => setShowSource(!showSource)}
+              data-testid="button-toggle-source"
+            >
+              <FileSearch className="w-4 h-4 mr-2" />
+              {showSource ? "Hide Source" : "Show Source"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowRevisions(!showRevisions)}
+              data-testid="button-toggle-revisions"
+            >
+              <History className="w-4 h-4 mr-2" />
+              Revisions
+            </Button>
             <Button 
               variant="outline" 
               onClick={() => goToStep(2)}
@@ -377,42 +602,168 @@ export default function ReviewStep({ document }: ReviewStepProps) {
               <RotateCcw className="w-4 h-4 mr-2" />
               Regenerate
             </Button>
-            <Button 
-              onClick={handleSaveAndContinue}
-              disabled={updateMutation.isPending}
-              data-testid="button-continue-to-generate"
-            >
-              {updateMutation.isPending ? "Saving..." : "Continue to Step 4"}
-            </Button>
+            {locked ? (
+              <Button onClick={() => goToStep(5)} data-testid="button-continue-to-generate">
+                Continue to Step 5
+              </Button>
+            ) : can("documents:edit") ? (
+              <Button 
+                onClick={handleSaveAndContinue}
+                disabled={updateMutation.isPending}
+                data-testid="button-continue-to-generate"
+              >
+                {updateMutation.isPending ? "Saving..." : "Continue to Step 5"}
+              </Button>
+            ) : (
+              <span className="text-sm text-gray-500" data-testid="text-review-read-only">
+                View only: your role cannot edit documents
+              </span>
+            )}
           </div>
         </div>
       </div>
 
+      {showRevisions && (
+        <RevisionPanel documentId={document.id} onRestored={setCurrentDocument} readOnly={locked} />
+      )}
+
       <div className="flex flex-1 overflow-hidden">
         {/* Left Panel: Dynamic Form with Preserved Structure */}
-        <div className="flex-1 overflow-y-auto">
+        <div ref={formScrollRef} className="flex-1 overflow-y-auto" onScroll={handleFormScroll}>
           <div className="p-6">
+            {lotWarning && (
+              <div
+                className={cn("mb-6 p-3 rounded-lg flex items-center space-x-3 text-sm", lotStatusClasses[currentLotStatus])}
+                data-testid="banner-lot-warning"
+              >
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <span>
+                  {lot.lotNumber ? <>Lot <span className="font-mono font-medium">{lot.lotNumber}</span>: </> : "This lot: "}
+                  {lotWarning}
+                </span>
+              </div>
+            )}
+            {sdsCompleteness && (
+              <div className="mb-6 p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm" data-testid="panel-sds-completeness">
+                {sdsCompleteness.missingSections.length === 0 && sdsCompleteness.missingFields.length === 0 ? (
+                  <span className="text-green-700">All 16 Safety Data Sheet sections give their required information.</span>
+                ) : (
+                  <div className="space-y-2 text-gray-700">
+                    {sdsCompleteness.missingSections.length > 0 && (
+                      <div data-testid="text-sds-missing-sections">
+                        <span className="font-medium text-red-700">Missing sections: </span>
+                        {sdsCompleteness.missingSections.map(sdsSectionTitle).join(", ")}
+                      </div>
+                    )}
+                    {sdsCompleteness.missingFields.length > 0 && (
+                      <div data-testid="text-sds-missing-fields">
+                        <span className="font-medium text-yellow-700">Not found: </span>
+                        {sdsCompleteness.missingFields.map(({ section, field }) => `${field.label} (section ${section.number})`).join(", ")}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {showChanges && (
+              <div className="mb-6 p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm" data-testid="panel-change-summary">
+                {!hasOriginal ? (
+                  <span className="text-gray-500">No original AI extraction is recorded for this document.</span>
+                ) : !diffView?.diff.hasChanges ? (
+                  <span className="text-gray-600">No changes from the original AI extraction.</span>
+                ) : (
+                  <div className="flex flex-wrap gap-4 text-gray-700">
+                    <span>Compared with original AI extraction:</span>
+                    <span className="text-green-700">{diffView.diff.fields.filter(c => c.kind === "added").length} added</span>
+                    <span className="text-yellow-700">{diffView.diff.fields.filter(c => c.kind === "modified").length} modified</span>
+                    <span className="text-red-700">{diffView.diff.fields.filter(c => c.kind === "removed").length} removed</span>
+                    {diffView.diff.documentType && (
+                      <span>Document type was "{diffView.diff.documentType.before}"</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="mb-6 flex items-center space-x-2">
+              <Switch
+                id="low-confidence-only"
+                checked={lowConfidenceOnly}
+                onCheckedChange={setLowConfidenceOnly}
+                data-testid="switch-low-confidence-only"
+              />
+              <Label htmlFor="low-confidence-only" className="text-sm">
+                Show only low-confidence fields ({lowConfidenceCount})
+              </Label>
+            </div>
+            {lowConfidenceOnly && lowConfidenceCount === 0 && (
+              <p className="text-sm text-gray-500" data-testid="text-no-low-confidence">
+                No low-confidence fields in this document.
+              </p>
+            )}
+            <datalist id="review-section-names">
+              {sectionNames.map((name) => <option key={name} value={name} />)}
+            </datalist>
             <div className="space-y-8">
               {Object.entries(groupedFields).map(([sectionName, sectionFields]) => (
-                <div key={sectionName} className="space-y-4">
+                <div key={sectionName} className="space-y-4" data-section-name={sectionName}>
                   <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-medium text-gray-900" data-testid={`section-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}>
+                    <h3 className="text-lg font-medium text-gray-900 flex items-center gap-2" data-testid={`section-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}>
                       {sectionName}
+                      <ConfidenceBadge
+                        confidence={averageConfidence(sortedFields.filter(field => field.section === sectionName))}
+                        data-testid={`badge-confidence-section-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}
+                      />
+                      {diffView?.getSectionChange(sectionName) && (
+                        <span className="text-xs font-normal text-gray-500">
+                          ({diffView.getSectionChange(sectionName)!.kind})
+                        </span>
+                      )}
                     </h3>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => addField(sectionName)}
-                      data-testid={`button-add-field-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}
-                    >
-                      <Plus className="w-4 h-4 mr-1" />
-                      Add Field
-                    </Button>
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveSection(sectionName, -1)}
+                        disabled={sectionNames.indexOf(sectionName) === 0}
+                        title="Move section up"
+                        data-testid={`button-section-up-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveSection(sectionName, 1)}
+                        disabled={sectionNames.indexOf(sectionName) === sectionNames.length - 1}
+                        title="Move section down"
+                        data-testid={`button-section-down-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}
+                      >
+                        <ChevronDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => addField(sectionName)}
+                        data-testid={`button-add-field-${sectionName.replace(/\s+/g, '-').toLowerCase()}`}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Field
+                      </Button>
+                    </div>
                   </div>
                   
                   <div className="space-y-6">
                     {sectionFields.map((field) => (
-                      <div key={field.id} className="space-y-2">
+                      <div
+                        key={field.id}
+                        className={cn(
+                          "space-y-2",
+                          diffView?.getFieldChange(field.id) && `rounded-lg p-2 ${diffHighlightClasses[diffView.getFieldChange(field.id)!.kind]}`,
+                          showSource && focusedFieldId === field.id && "rounded-lg ring-2 ring-amber-400 ring-offset-4"
+                        )}
+                        onFocusCapture={() => setFocusedFieldId(field.id)}
+                        data-testid={`field-wrapper-${field.id}`}
+                      >
                         <div className="flex items-center justify-between">
                           <Label htmlFor={field.id} className="text-sm font-medium flex items-center gap-2">
                             {field.type === "table" && "📊"}
@@ -420,23 +771,89 @@ export default function ReviewStep({ document }: ReviewStepProps) {
                             {field.type === "paragraph" && "📄"}
                             {field.label}
                             {field.required && <span className="text-red-500 ml-1">*</span>}
+                            <ConfidenceBadge confidence={field.confidence} issues={field.confidenceIssues} data-testid={`badge-confidence-${field.id}`} />
                           </Label>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => removeField(field.id)}
-                            className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
-                            data-testid={`button-remove-${field.id}`}
-                          >
-                            <X className="w-3 h-3" />
-                          </Button>
+                          <div className="flex items-center">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingFieldId(editingFieldId === field.id ? null : field.id)}
+                              className="h-6 w-6 p-0 text-gray-400 hover:text-gray-700"
+                              title="Change label, section or type"
+                              data-testid={`button-edit-properties-${field.id}`}
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeField(field.id)}
+                              className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
+                              data-testid={`button-remove-${field.id}`}
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                          </div>
                         </div>
+                        {editingFieldId === field.id && (
+                          <div className="grid grid-cols-3 gap-2" data-testid={`editor-properties-${field.id}`}>
+                            <Input
+                              value={field.label}
+                              onChange={(e) => updateFieldProperties(field.id, { label: e.target.value })}
+                              placeholder="Label"
+                              data-testid={`input-label-${field.id}`}
+                            />
+                            {/* Applied on blur: moving the field on every keystroke would unmount the input */}
+                            <Input
+                              key={`${field.id}-${field.section}`}
+                              defaultValue={field.section}
+                              list="review-section-names"
+                              onBlur={(e) => e.target.value.trim() && updateFieldProperties(field.id, { section: e.target.value.trim() })}
+                              onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                              placeholder="Section"
+                              data-testid={`input-section-${field.id}`}
+                            />
+                            <Select value={field.type} onValueChange={(type) => updateFieldProperties(field.id, { type: type as DynamicField["type"] })}>
+                              <SelectTrigger data-testid={`select-type-${field.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {/* Tables and single values cannot be converted into each other */}
+                                {dynamicFieldTypes
+                                  .filter((type) => (type === "table") === Array.isArray(field.value))
+                                  .map((type) => (
+                                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                         {renderField(field)}
+                        {diffView?.getFieldChange(field.id)?.changes.map((change) => (
+                          <div key={change.property} className="text-xs text-gray-600" data-testid={`text-original-${field.id}-${change.property}`}>
+                            Original {change.property}: <span className="line-through">{formatOriginalValue(change.before)}</span>
+                          </div>
+                        ))}
                         <div className="text-xs text-gray-500">
                           Type: {field.type} • Order: {field.layout?.order || 0}
                         </div>
+                        {isLowConfidence(field) && field.confidenceIssues && (
+                          <div className="text-xs text-red-700" data-testid={`text-confidence-issues-${field.id}`}>
+                            {field.confidenceIssues.join(" • ")}
+                          </div>
+                        )}
                       </div>
                     ))}
+                    {diffView?.getRemovedFields(sectionName).map(renderRemovedField)}
+                  </div>
+                </div>
+              ))}
+
+              {removedSections.map((section) => (
+                <div key={section} className="space-y-4">
+                  <h3 className="text-lg font-medium text-red-700 line-through">{section}</h3>
+                  <div className="space-y-2">
+                    {diffView?.getRemovedFields(section).map(renderRemovedField)}
                   </div>
                 </div>
               ))}
@@ -456,8 +873,23 @@ export default function ReviewStep({ document }: ReviewStepProps) {
           </div>
         </div>
 
+        {/* Middle Panel: where the focused field came from in the original */}
+        {showSource && (
+          <SourcePanel
+            document={document}
+            field={formData.fields.find(field => field.id === focusedFieldId) || null}
+            sectionPage={visibleSection ? sectionPages[visibleSection] : undefined}
+          />
+        )}
+
         {/* Right Panel: Live Preview */}
-        <LivePreview data={formData} />
+        <LivePreview
+          data={formData}
+          diffView={diffView}
+          company={resolveCompanyData(companyData)}
+          template={template}
+          className={showSource ? "w-1/3" : undefined}
+        />
       </div>
     </>
   );
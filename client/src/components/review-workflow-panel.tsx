@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { ClipboardCheck, History, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { availableTransitions, isReviewLocked, reviewStatusLabels, type ReviewTransition } from "@shared/review";
+import type { Document, DocumentTransition, PublicUser, ReviewStatus } from "@shared/schema";
+
+interface ReviewWorkflowPanelProps {
+  document: Document;
+  onChanged: (document: Document) => void;
+}
+
+const UNASSIGNED = "unassigned";
+
+export const reviewStatusClasses: Record<ReviewStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  in_review: "bg-blue-100 text-blue-800",
+  changes_requested: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  issued: "bg-purple-100 text-purple-800",
+  superseded: "bg-red-100 text-red-800",
+};
+
+export function ReviewStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={reviewStatusClasses[status as ReviewStatus]} data-testid="badge-review-status">
+      {reviewStatusLabels[status as ReviewStatus] || status}
+    </Badge>
+  );
+}
+
+export default function ReviewWorkflowPanel({ document, onChanged }: ReviewWorkflowPanelProps) {
+  const [comment, setComment] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const transitionsKey = [`/api/documents/${document.id}/transitions`];
+
+  const assigneesQuery = useQuery<PublicUser[]>({
+    queryKey: ['/api/users/assignees'],
+    enabled: can("documents:edit"),
+  });
+
+  const transitionsQuery = useQuery<DocumentTransition[]>({
+    queryKey: transitionsKey,
+    enabled: showHistory,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Review Update Failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const transitionMutation = useMutation({
+    mutationFn: async (transition: ReviewTransition) => {
+      const response = await apiRequest("POST", `/api/documents/${document.id}/transitions`, {
+        action: transition.action,
+        comment: comment.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (updatedDocument: Document) => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: transitionsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+      onChanged(updatedDocument);
+      toast({
+        title: "Review Status Updated",
+        description: `The document is now ${reviewStatusLabels[updatedDocument.reviewStatus as ReviewStatus].toLowerCase()}.`,
+      });
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (assigneeId: string | null) => {
+      const response = await apiRequest("PUT", `/api/documents/${document.id}/assignee`, { assigneeId });
+      return response.json();
+    },
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const transitions = availableTransitions(document.reviewStatus, user?.role);
+  const needsComment = (transition: ReviewTransition) => transition.requiresComment && !comment.trim();
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg space-y-3" data-testid="panel-review-workflow">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ClipboardCheck className="w-4 h-4 text-gray-600" />
+          <h3 className="text-sm font-medium text-gray-900">Review Status</h3>
+          <ReviewStatusBadge status={document.reviewStatus} />
+        </div>
+        <div className="flex items-center space-x-2">
+          {can("documents:edit") && (
+            <Select
+              value={document.assigneeId || UNASSIGNED}
+              onValueChange={(value) => assignMutation.mutate(value === UNASSIGNED ? null : value)}
+              disabled={assignMutation.isPending || isReviewLocked(document.reviewStatus)}
+            >
+              <SelectTrigger className="w-48" data-testid="select-assignee">
+                <UserCheck className="w-4 h-4 mr-2 text-gray-500" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {(assigneesQuery.data || []).map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id}>
+                    {assignee.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowHistory(!showHistory)}
+            data-testid="button-toggle-review-history"
+          >
+            <History className="w-4 h-4 mr-1" />
+            History
+          </Button>
+        </div>
+      </div>
+
+      {transitions.length > 0 && (
+        <div className="space-y-2">
+          <Textarea
+            rows={2}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment (required when requesting changes or superseding)"
+            data-testid="input-review-comment"
+          />
+          <div className="flex flex-wrap gap-2">
+            {transitions.map((transition) => (
+              <Button
+                key={transition.action}
+                variant={transition.action === "request_changes" || transition.action === "supersede" ? "outline" : "default"}
+                size="sm"
+                onClick={() => transitionMutation.mutate(transition)}
+                disabled={needsComment(transition) || transitionMutation.isPending}
+                data-testid={`button-review-${transition.action}`}
+              >
+                {transition.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="border-t border-gray-200 pt-3" data-testid="list-review-history">
+          {transitionsQuery.isLoading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : (transitionsQuery.data || []).length === 0 ? (
+            <p className="text-sm text-gray-500">No review activity yet.</p>
+          ) : (
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {[...(transitionsQuery.data || [])].reverse().map((transition) => (
+                <li key={transition.id} className="text-sm" data-testid={`review-history-item-${transition.id}`}>
+                  <span className="text-gray-900">
+                    {reviewStatusLabels[transition.fromStatus as ReviewStatus]} → {reviewStatusLabels[transition.toStatus as ReviewStatus]}
+                  </span>
+                  <span className="text-gray-500"> • {transition.createdBy || "Unknown user"}</span>
+                  <span className="text-gray-400"> • {transition.createdAt ? new Date(transition.createdAt).toLocaleString() : "N/A"}</span>
+                  {transition.comment && <p className="text-gray-600 mt-0.5">{transition.comment}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { History, RotateCcw, GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Document, DocumentRevision } from "@shared/schema";
+import type { ExtractedDataDiff } from "@shared/diff";
+
+interface RevisionPanelProps {
+  documentId: string;
+  onRestored: (document: Document) => void;
+  // Hides restoring, e.g. for approved documents
+  readOnly?: boolean;
+}
+
+const sourceLabels: Record<string, string> = {
+  extraction: "AI extraction",
+  supplier_profile: "Supplier profile applied",
+  edit: "Reviewer edit",
+  restore: "Restored",
+};
+
+const kindClasses: Record<string, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  modified: "bg-yellow-100 text-yellow-800",
+};
+
+export default function RevisionPanel({ documentId, onRestored, readOnly = false }: RevisionPanelProps) {
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const revisionsQuery = useQuery<DocumentRevision[]>({
+    queryKey: [`/api/documents/${documentId}/revisions`],
+  });
+
+  const diffQuery = useQuery<ExtractedDataDiff>({
+    queryKey: [`/api/documents/${documentId}/revisions/${comparingId}/diff/current`],
+    enabled: !!comparingId,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const response = await apiRequest("POST", `/api/documents/${documentId}/revisions/${revisionId}/restore`);
+      return response.json();
+    },
+    onSuccess: (document: Document) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/documents/${documentId}/revisions`] });
+      setComparingId(null);
+      onRestored(document);
+      toast({
+        title: "Revision Restored",
+        description: "The document data has been restored from the selected revision.",
+      });
+    },
+  });
+
+  const handleRestore = (revision: DocumentRevision) => {
+    if (confirm(`Restore revision ${revision.revisionNumber}? Unsaved edits will be lost.`)) {
+      restoreMutation.mutate(revision.id);
+    }
+  };
+
+  const revisions = [...(revisionsQuery.data || [])].reverse();
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-gray-50" data-testid="panel-revisions">
+      <div className="flex items-center space-x-2 mb-3">
+        <History className="w-4 h-4 text-gray-600" />
+        <h3 className="text-sm font-medium text-gray-900">Revision History</h3>
+      </div>
+
+      {revisionsQuery.isLoading ? (
+        <p className="text-sm text-gray-500">Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500" data-testid="text-no-revisions">No revisions saved yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {revisions.map((revision) => (
+            <div key={revision.id} className="bg-white border border-gray-200 rounded-lg p-3" data-testid={`revision-item-${revision.id}`}>
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <span className="font-medium text-gray-900">Revision {revision.revisionNumber}</span>
+                  <span className="text-gray-500"> • {sourceLabels[revision.source] || revision.source}</span>
+                  <span className="text-gray-500"> • {revision.createdBy || "Unknown user"}</span>
+                  <span className="text-gray-400"> • {revision.createdAt ? new Date(revision.createdAt).toLocaleString() : "N/A"}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setComparingId(comparingId === revision.id ? null : revision.id)}
+                    data-testid={`button-compare-revision-${revision.id}`}
+                  >
+                    <GitCompare className="w-4 h-4 mr-1" />
+                    Compare
+                  </Button>
+                  {can("documents:edit") && !readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-revision-${revision.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {comparingId === revision.id && (
+                <div className="mt-3 border-t border-gray-100 pt-3 text-sm">
+                  {diffQuery.isLoading ? (
+                    <p className="text-gray-500">Comparing...</p>
+                  ) : !diffQuery.data?.hasChanges ? (
+                    <p className="text-gray-500">Identical to the current saved data.</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {diffQuery.data.documentType && (
+                        <li className="text-gray-700">
+                          Document type: {diffQuery.data.documentType.before} → {diffQuery.data.documentType.after}
+                        </li>
+                      )}
+                      {diffQuery.data.fields.map((change) => (
+                        <li key={`${change.kind}-${change.fieldId}`} className="flex items-center space-x-2">
+                          <Badge variant="outline" className={kindClasses[change.kind]}>{change.kind}</Badge>
+                          <span className="text-gray-700">{change.section} / {change.label}</span>
+                          {change.cells.length > 0 && (
+                            <span className="text-xs text-gray-500">{change.cells.length} cell(s) changed</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,10 +4,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { encryptApiKey, decryptApiKey } from "@/lib/crypto";
+import CompanyProfilesPanel from "@/components/company-profiles-panel";
+import TemplatesPanel from "@/components/templates-panel";
+import ProductsPanel from "@/components/products-panel";
+import SuppliersPanel from "@/components/suppliers-panel";
+import UsersPanel from "@/components/users-panel";
+
+interface ExtractionProviderOption {
+  id: string;
+  name: string;
+  requiresApiKey: boolean;
+}
 
 interface SettingsModalProps {
   open: boolean;
@@ -16,7 +29,13 @@ interface SettingsModalProps {
 
 export default function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
   const [apiKey, setApiKey] = useState("");
+  const [providerApiKey, setProviderApiKey] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
+  const [extractionProvider, setExtractionProvider] = useState("mistral");
+  const [providerBaseUrl, setProviderBaseUrl] = useState("");
+  const [providerModel, setProviderModel] = useState("");
+  const [mistralModel, setMistralModel] = useState("");
+  const [offlineFallback, setOfflineFallback] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<"untested" | "connected" | "failed">("untested");
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -26,16 +45,31 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
     enabled: open,
   });
 
+  const providersQuery = useQuery<ExtractionProviderOption[]>({
+    queryKey: ['/api/extraction-providers'],
+    enabled: open,
+  });
+
   const saveSettingsMutation = useMutation({
-    mutationFn: async (data: { encryptedApiKey: string }) => {
+    mutationFn: async (data: {
+      apiKey?: string;
+      providerApiKey?: string;
+      extractionProvider: string;
+      mistralModel: string | null;
+      providerBaseUrl: string | null;
+      providerModel: string | null;
+      offlineFallback: boolean;
+    }) => {
       const response = await apiRequest("POST", "/api/settings", data);
       return response.json();
     },
     onSuccess: () => {
+      setApiKey("");
+      setProviderApiKey("");
       queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
       toast({
         title: "Settings Saved",
-        description: "Your API key has been saved securely.",
+        description: "Your extraction settings have been saved.",
       });
     },
   });
@@ -56,20 +90,42 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
   });
 
   useEffect(() => {
-    if (settingsQuery.data && (settingsQuery.data as any).connectionStatus) {
-      setConnectionStatus((settingsQuery.data as any).connectionStatus as "untested" | "connected" | "failed");
+    const settings = settingsQuery.data as any;
+    if (settings && settings.connectionStatus) {
+      setConnectionStatus(settings.connectionStatus as "untested" | "connected" | "failed");
+    }
+    if (settings) {
+      setExtractionProvider(settings.extractionProvider || "mistral");
+      setProviderBaseUrl(settings.providerBaseUrl || "");
+      setProviderModel(settings.providerModel || "");
+      setMistralModel(settings.mistralModel || "");
+      setOfflineFallback(!!settings.offlineFallback);
     }
   }, [settingsQuery.data]);
 
-  const handleSave = async () => {
-    if (apiKey.trim()) {
-      const encryptedKey = await encryptApiKey(apiKey);
-      saveSettingsMutation.mutate({ encryptedApiKey: encryptedKey });
-    }
+  const selectedProvider = providersQuery.data?.find((provider) => provider.id === extractionProvider);
+
+  // Mistral and the OpenAI-compatible endpoint each keep their own key
+  const isMistral = extractionProvider === "mistral";
+  const keyInput = isMistral ? apiKey : providerApiKey;
+  const setKeyInput = isMistral ? setApiKey : setProviderApiKey;
+  const hasSavedKey = !!(settingsQuery.data as any)?.[isMistral ? "hasApiKey" : "hasProviderApiKey"];
+
+  // Keys are sent once and encrypted by the server; they are never kept client-side
+  const handleSave = () => {
+    saveSettingsMutation.mutate({
+      ...(apiKey.trim() ? { apiKey: apiKey.trim() } : {}),
+      ...(providerApiKey.trim() ? { providerApiKey: providerApiKey.trim() } : {}),
+      extractionProvider,
+      mistralModel: mistralModel.trim() || null,
+      providerBaseUrl: providerBaseUrl.trim() || null,
+      providerModel: providerModel.trim() || null,
+      offlineFallback,
+    });
   };
 
   const handleTestConnection = () => {
-    if (apiKey.trim()) {
+    if (keyInput.trim()) {
       // Save first, then test
       handleSave();
       setTimeout(() => {
@@ -104,79 +160,198 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md" data-testid="modal-settings">
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="modal-settings">
         <DialogHeader>
           <DialogTitle>Settings</DialogTitle>
         </DialogHeader>
+
+        <Tabs defaultValue="extraction">
+          <TabsList className="grid w-full grid-cols-6">
+            <TabsTrigger value="extraction" data-testid="tab-settings-extraction">Extraction</TabsTrigger>
+            <TabsTrigger value="company" data-testid="tab-settings-company">Company Profiles</TabsTrigger>
+            <TabsTrigger value="templates" data-testid="tab-settings-templates">Templates</TabsTrigger>
+            <TabsTrigger value="products" data-testid="tab-settings-products">Products</TabsTrigger>
+            <TabsTrigger value="suppliers" data-testid="tab-settings-suppliers">Suppliers</TabsTrigger>
+            <TabsTrigger value="users" data-testid="tab-settings-users">Users</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="extraction">
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="extraction-provider" className="text-sm font-medium text-gray-700">
+                  Extraction Provider
+                </Label>
+                <Select value={extractionProvider} onValueChange={setExtractionProvider}>
+                  <SelectTrigger id="extraction-provider" className="mt-1" data-testid="select-extraction-provider">
+                    <SelectValue placeholder="Select a provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providersQuery.data?.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {isMistral && (
+                <div>
+                  <Label htmlFor="mistral-model" className="text-sm font-medium text-gray-700">
+                    Model Name
+                  </Label>
+                  <Input
+                    id="mistral-model"
+                    placeholder="mistral-large-latest"
+                    value={mistralModel}
+                    onChange={(e) => setMistralModel(e.target.value)}
+                    className="mt-1"
+                    data-testid="input-mistral-model"
+                  />
+                </div>
+              )}
+
+              {extractionProvider === "openai-compatible" && (
+                <div className="grid grid-cols-1 gap-4">
+                  <div>
+                    <Label htmlFor="provider-base-url" className="text-sm font-medium text-gray-700">
+                      Base URL
+                    </Label>
+                    <Input
+                      id="provider-base-url"
+                      placeholder="http://localhost:11434/v1"
+                      value={providerBaseUrl}
+                      onChange={(e) => setProviderBaseUrl(e.target.value)}
+                      className="mt-1"
+                      data-testid="input-provider-base-url"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="provider-model" className="text-sm font-medium text-gray-700">
+                      Model Name
+                    </Label>
+                    <Input
+                      id="provider-model"
+                      placeholder="llama3.1:8b"
+                      value={providerModel}
+                      onChange={(e) => setProviderModel(e.target.value)}
+                      className="mt-1"
+                      data-testid="input-provider-model"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {extractionProvider !== "rule-based" && (
+                <div>
+                  <Label htmlFor="api-key" className="text-sm font-medium text-gray-700">
+                    {isMistral ? "Mistral API Key" : "API Key (optional)"}
+                  </Label>
+                  <div className="relative mt-1">
+                    <Input
+                      id="api-key"
+                      type={showApiKey ? "text" : "password"}
+                      placeholder={hasSavedKey ? "A key is saved; enter a new one to replace it" : "Enter your API key"}
+                      value={keyInput}
+                      onChange={(e) => setKeyInput(e.target.value)}
+                      className="pr-10"
+                      data-testid="input-api-key"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="absolute right-0 top-0 h-full px-3"
+                      onClick={() => setShowApiKey(!showApiKey)}
+                      data-testid="button-toggle-api-key-visibility"
+                    >
+                      {showApiKey ? (
+                        <EyeOff className="w-4 h-4" />
+                      ) : (
+                        <Eye className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Your API key is encrypted on the server and never stored in this browser
+                  </p>
+                </div>
+              )}
+          
+              {extractionProvider !== "rule-based" && (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="offline-fallback" className="text-sm font-medium text-gray-700">
+                      Offline Fallback
+                    </Label>
+                    <p className="text-xs text-gray-500">
+                      Use rule-based extraction from the document text when the provider fails
+                    </p>
+                  </div>
+                  <Switch
+                    id="offline-fallback"
+                    checked={offlineFallback}
+                    onCheckedChange={setOfflineFallback}
+                    data-testid="switch-offline-fallback"
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleTestConnection}
+                  disabled={testConnectionMutation.isPending}
+                  data-testid="button-test-connection"
+                >
+                  {testConnectionMutation.isPending ? "Testing..." : "Test Connection"}
+                </Button>
+                <div className="flex items-center space-x-2">
+                  {getConnectionStatusIcon()}
+                  {getConnectionStatusText()}
+                </div>
+              </div>
+            </div>
         
-        <div className="space-y-4">
-          <div>
-            <Label htmlFor="api-key" className="text-sm font-medium text-gray-700">
-              Mistral API Key
-            </Label>
-            <div className="relative mt-1">
-              <Input
-                id="api-key"
-                type={showApiKey ? "text" : "password"}
-                placeholder="Enter your Mistral API key"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                className="pr-10"
-                data-testid="input-api-key"
-              />
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                className="absolute right-0 top-0 h-full px-3"
-                onClick={() => setShowApiKey(!showApiKey)}
-                data-testid="button-toggle-api-key-visibility"
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button 
+                variant="outline" 
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-settings"
               >
-                {showApiKey ? (
-                  <EyeOff className="w-4 h-4" />
-                ) : (
-                  <Eye className="w-4 h-4" />
-                )}
+                Cancel
+              </Button>
+              <Button 
+                onClick={handleSave}
+                disabled={saveSettingsMutation.isPending || (!!selectedProvider?.requiresApiKey && !keyInput.trim() && !hasSavedKey)}
+                data-testid="button-save-settings"
+              >
+                {saveSettingsMutation.isPending ? "Saving..." : "Save Settings"}
               </Button>
             </div>
-            <p className="text-xs text-gray-500 mt-1">
-              Your API key is stored locally and encrypted for security
-            </p>
-          </div>
-          
-          <div className="flex items-center space-x-3">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={handleTestConnection}
-              disabled={testConnectionMutation.isPending}
-              data-testid="button-test-connection"
-            >
-              {testConnectionMutation.isPending ? "Testing..." : "Test Connection"}
-            </Button>
-            <div className="flex items-center space-x-2">
-              {getConnectionStatusIcon()}
-              {getConnectionStatusText()}
-            </div>
-          </div>
-        </div>
-        
-        <div className="flex justify-end space-x-3 pt-4 border-t">
-          <Button 
-            variant="outline" 
-            onClick={() => onOpenChange(false)}
-            data-testid="button-cancel-settings"
-          >
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleSave}
-            disabled={saveSettingsMutation.isPending || !apiKey.trim()}
-            data-testid="button-save-settings"
-          >
-            {saveSettingsMutation.isPending ? "Saving..." : "Save Settings"}
-          </Button>
-        </div>
+          </TabsContent>
+
+          <TabsContent value="company">
+            <CompanyProfilesPanel />
+          </TabsContent>
+
+          <TabsContent value="templates">
+            <TemplatesPanel />
+          </TabsContent>
+
+          <TabsContent value="products">
+            <ProductsPanel />
+          </TabsContent>
+
+          <TabsContent value="suppliers">
+            <SuppliersPanel />
+          </TabsContent>
+
+          <TabsContent value="users">
+            <UsersPanel />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, FileSearch, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { loadPdf, renderPdfPage, type PDFDocumentProxy } from "@/lib/pdf";
+import { fileTypeByExtension } from "@shared/file-types";
+import type { Document, DynamicField } from "@shared/schema";
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+interface SourcePanelProps {
+  document: Document;
+  // The field being edited; its source page is shown with the region highlighted
+  field: DynamicField | null;
+  // Page of the form section scrolled into view, followed while it changes
+  sectionPage?: number;
+}
+
+export default function SourcePanel({ document, field, sectionPage }: SourcePanelProps) {
+  const fileType = fileTypeByExtension(document.fileExtension);
+  const kind = fileType?.kind || "pdf";
+  // Browsers other than Safari cannot display TIFF, so it is read but not shown
+  const showsImage = kind === "image" && fileType?.mimeType !== "image/tiff";
+  const fileUrl = `/api/documents/${document.id}/file`;
+  const source = field?.source;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_LEVELS.indexOf(1));
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const pageCount = kind === "pdf" ? pdf?.numPages || 1 : 1;
+
+  useEffect(() => {
+    if (kind !== "pdf") return;
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+    setPage(1);
+    loadPdf(fileUrl)
+      .then(result => {
+        loaded = result;
+        if (cancelled) result.destroy();
+        else setPdf(result);
+      })
+      .catch(() => !cancelled && setError("The original file could not be loaded."));
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [fileUrl, kind]);
+
+  // Jump to where the focused field came from, or to the section being read
+  useEffect(() => {
+    if (source?.page) setPage(source.page);
+  }, [field?.id, source?.page]);
+
+  useEffect(() => {
+    if (sectionPage) setPage(sectionPage);
+  }, [sectionPage]);
+
+  const shownPage = Math.min(Math.max(page, 1), pageCount);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    // 100% fits the page to the panel's width
+    const container = containerRef.current;
+    const style = getComputedStyle(container);
+    const width = container.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+    const render = renderPdfPage(pdf, shownPage, canvasRef.current, width * zoom);
+    render.promise.catch(() => setError(`Page ${shownPage} could not be rendered.`));
+    return render.cancel;
+  }, [pdf, shownPage, zoom]);
+
+  // Zoomed in, the highlighted region may be outside the visible part of the page
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [field?.id, shownPage, zoom, pdf]);
+
+  // Sources without a page (images) are on the only page there is
+  const box = source?.boundingBox && (source.page || 1) === shownPage ? source.boundingBox : undefined;
+  const highlight = box && (
+    <div
+      ref={highlightRef}
+      className="absolute border-2 border-amber-500 bg-amber-300/30 pointer-events-none"
+      style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+      data-testid="source-highlight"
+    />
+  );
+
+  return (
+    <div className="w-1/3 border-l border-gray-200 bg-gray-50 flex flex-col" data-testid="panel-source">
+      <div className="p-4 border-b border-gray-200 bg-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileSearch className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-medium text-gray-900">Original Document</h3>
+          </div>
+          {(kind === "pdf" || showsImage) && (
+            <div className="flex items-center space-x-1">
+              <Button variant="ghost" size="sm" onClick={() => setZoomIndex(zoomIndex - 1)} disabled={zoomIndex === 0} data-testid="button-source-zoom-out">
+                <ZoomOut className="w-4 h-4" />
+              </Button>
+              <span className="text-xs text-gray-600 w-10 text-center" data-testid="text-source-zoom">{Math.round(zoom * 100)}%</span>
+              <Button variant="ghost" size="sm" onClick={() => setZoomIndex(zoomIndex + 1)} disabled={zoomIndex === ZOOM_LEVELS.length - 1} data-testid="button-source-zoom-in">
+                <ZoomIn className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+        {kind === "pdf" && (
+          <div className="flex items-center justify-center space-x-2 mt-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(shownPage - 1)} disabled={shownPage <= 1} data-testid="button-source-previous-page">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-gray-600" data-testid="text-source-page">
+              Page {shownPage} of {pageCount}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPage(shownPage + 1)} disabled={shownPage >= pageCount} data-testid="button-source-next-page">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        <p className="text-sm text-gray-600 mt-2" data-testid="text-source-location">
+          {!field
+            ? "Focus a field to see where its value came from"
+            : !source
+              ? `No source recorded for ${field.label}`
+              : `${field.label}${source.page ? ` • page ${source.page}` : ""}`}
+        </p>
+        {source?.snippet && (
+          <p className="mt-2 text-xs font-mono text-gray-700 bg-gray-100 rounded p-2 whitespace-pre-wrap" data-testid="text-source-snippet">
+            {source.snippet}
+          </p>
+        )}
+      </div>
+
+      <div ref={containerRef} className="p-4 overflow-auto flex-1">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : kind === "pdf" ? (
+          <div className="relative inline-block bg-white shadow">
+            <canvas ref={canvasRef} className="block" data-testid="canvas-source-page" />
+            {pdf && highlight}
+          </div>
+        ) : showsImage ? (
+          <div className="relative inline-block bg-white shadow" style={{ width: `${zoom * 100}%` }}>
+            <img src={fileUrl} alt={document.originalFileName} className="block w-full" data-testid="img-source" />
+            {highlight}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500" data-testid="text-source-no-preview">
+            {kind === "image" ? "TIFF images" : "Word and Excel files"} have no preview available; the snippet above shows the matching text.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
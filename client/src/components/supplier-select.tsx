@@ -0,0 +1,76 @@
+import type { ReactNode } from "react";
+import { Truck } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supplierMatchLabels } from "@shared/suppliers";
+import type { Document, Supplier, SupplierMatchMethod } from "@shared/schema";
+
+// Select items cannot have an empty value
+const NO_SUPPLIER = "none";
+
+interface SupplierSelectProps {
+  documentId: string;
+  supplierId: string | null;
+  supplierMatch: string | null;
+  onApplied: (document: Document) => void;
+  // Shown instead of the select while no suppliers exist
+  fallback?: ReactNode;
+  disabled?: boolean;
+}
+
+export default function SupplierSelect({ documentId, supplierId, supplierMatch, onApplied, fallback = null, disabled = false }: SupplierSelectProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const suppliersQuery = useQuery<Supplier[]>({
+    queryKey: ['/api/suppliers'],
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (supplierId: string | null) => {
+      const response = await apiRequest("PATCH", `/api/documents/${documentId}`, { supplierId });
+      return response.json();
+    },
+    onSuccess: (updatedDocument: Document) => {
+      onApplied(updatedDocument);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Link Supplier",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const suppliers = suppliersQuery.data || [];
+  if (suppliers.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  const matchLabel = supplierId && supplierMatch ? supplierMatchLabels[supplierMatch as SupplierMatchMethod] : "No supplier detected";
+
+  return (
+    <Select
+      value={supplierId || NO_SUPPLIER}
+      onValueChange={(value) => applyMutation.mutate(value === NO_SUPPLIER ? null : value)}
+      disabled={disabled || !can("documents:edit") || applyMutation.isPending}
+    >
+      <SelectTrigger className="w-48" title={matchLabel} data-testid="select-document-supplier">
+        <Truck className="w-4 h-4 mr-2 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+        {suppliers.map((supplier) => (
+          <SelectItem key={supplier.id} value={supplier.id}>
+            {supplier.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
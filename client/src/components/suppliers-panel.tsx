@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { Plus, Pencil, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertSupplier, Supplier, SupplierProfile } from "@shared/schema";
+
+type SupplierForm = {
+  name: string;
+  aliases: string; // comma-separated
+  profile: SupplierProfile;
+};
+
+const emptyProfile: SupplierProfile = { labelAliases: [], fieldRules: [], sectionOrder: [] };
+
+const emptyForm: SupplierForm = {
+  name: "",
+  aliases: "",
+  profile: emptyProfile,
+};
+
+// Profiles stored before a rule kind existed lack its list
+const toProfile = (profile: unknown): SupplierProfile => ({ ...emptyProfile, ...(profile as Partial<SupplierProfile>) });
+
+const toForm = (supplier: Supplier): SupplierForm => ({
+  name: supplier.name,
+  aliases: (supplier.aliases as string[]).join(", "),
+  profile: toProfile(supplier.profile),
+});
+
+const toPayload = (form: SupplierForm): InsertSupplier => ({
+  name: form.name.trim(),
+  aliases: form.aliases.split(",").map((alias) => alias.trim()).filter(Boolean),
+  profile: form.profile,
+});
+
+const ruleCount = (profile: SupplierProfile) =>
+  profile.labelAliases.length + profile.fieldRules.length + (profile.sectionOrder.length > 0 ? 1 : 0);
+
+export default function SuppliersPanel() {
+  // null: list view, "new": creating, otherwise the id of the supplier being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<SupplierForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const suppliersQuery = useQuery<Supplier[]>({
+    queryKey: ['/api/suppliers'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Supplier Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: InsertSupplier }) => {
+      const response = id
+        ? await apiRequest("PATCH", `/api/suppliers/${id}`, data)
+        : await apiRequest("POST", "/api/suppliers", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+      setEditing(null);
+      toast({
+        title: "Supplier Saved",
+        description: "The supplier's next documents are detected and corrected with these settings.",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/suppliers/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/suppliers'] });
+    },
+    onError,
+  });
+
+  const updateProfile = (changes: Partial<SupplierProfile>) => {
+    setForm(current => ({ ...current, profile: { ...current.profile, ...changes } }));
+  };
+
+  const startEditing = (supplier?: Supplier) => {
+    setForm(supplier ? toForm(supplier) : emptyForm);
+    setEditing(supplier ? supplier.id : "new");
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    if (confirm(`Delete the supplier "${supplier.name}" and everything learned from its documents?`)) {
+      deleteMutation.mutate(supplier.id);
+    }
+  };
+
+  if (editing) {
+    const { profile } = form;
+    return (
+      <div className="space-y-4" data-testid="form-supplier">
+        <div>
+          <Label htmlFor="supplier-name" className="text-sm font-medium text-gray-700">Supplier Name</Label>
+          <Input
+            id="supplier-name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="mt-1"
+            data-testid="input-supplier-name"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="supplier-aliases" className="text-sm font-medium text-gray-700">Other Names</Label>
+          <Input
+            id="supplier-aliases"
+            placeholder="e.g. Focusfreda, Shandong Focusfreda Biotech Co., Ltd"
+            value={form.aliases}
+            onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+            className="mt-1"
+            data-testid="input-supplier-aliases"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Comma-separated. Documents whose header shows the name or one of these are linked to this supplier.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Learned from Reviews</Label>
+          <p className="text-xs text-gray-500">
+            Relabelled fields, fields moved to another section or type, and reordered sections are remembered when a
+            reviewer saves this supplier's documents, and applied to its next uploads.
+          </p>
+          {ruleCount(profile) === 0 && (
+            <p className="text-sm text-gray-600" data-testid="text-supplier-no-rules">Nothing learned yet.</p>
+          )}
+          <ul className="space-y-1 text-sm">
+            {profile.labelAliases.map((alias, index) => (
+              <li key={`alias-${index}`} className="flex items-center justify-between" data-testid={`row-label-alias-${index}`}>
+                <span>
+                  Label <span className="font-medium">{alias.alias}</span> → <span className="font-medium">{alias.label}</span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateProfile({ labelAliases: profile.labelAliases.filter((_, i) => i !== index) })}
+                  data-testid={`button-remove-label-alias-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+            {profile.fieldRules.map((rule, index) => (
+              <li key={`rule-${index}`} className="flex items-center justify-between" data-testid={`row-field-rule-${index}`}>
+                <span>
+                  <span className="font-medium">{rule.label}</span>
+                  {rule.section && <> in section <span className="font-medium">{rule.section}</span></>}
+                  {rule.type && <> as <span className="font-medium">{rule.type}</span></>}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateProfile({ fieldRules: profile.fieldRules.filter((_, i) => i !== index) })}
+                  data-testid={`button-remove-field-rule-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+            {profile.sectionOrder.length > 0 && (
+              <li className="flex items-center justify-between" data-testid="row-section-order">
+                <span>Sections: {profile.sectionOrder.join(" → ")}</span>
+                <Button variant="ghost" size="sm" onClick={() => updateProfile({ sectionOrder: [] })} data-testid="button-clear-section-order">
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            )}
+          </ul>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-supplier">
+            Back
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate({ id: editing === "new" ? null : editing, data: toPayload(form) })}
+            disabled={!form.name.trim() || saveMutation.isPending}
+            data-testid="button-save-supplier"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Supplier"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const suppliers = suppliersQuery.data || [];
+
+  return (
+    <div className="space-y-4">
+      {suppliers.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No suppliers yet. Add the suppliers whose documents you rebrand so corrections to one document carry over to the next.
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg max-h-80 overflow-y-auto" data-testid="list-suppliers">
+          {suppliers.map((supplier) => {
+            const rules = ruleCount(toProfile(supplier.profile));
+            return (
+              <li key={supplier.id} className="flex items-center justify-between px-3 py-2" data-testid={`row-supplier-${supplier.id}`}>
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-sm font-medium text-gray-900 truncate">{supplier.name}</span>
+                  {rules > 0 && <Badge variant="secondary">{rules} learned {rules === 1 ? "rule" : "rules"}</Badge>}
+                </div>
+                <div className="flex items-center">
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(supplier)} data-testid={`button-edit-supplier-${supplier.id}`}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(supplier)} data-testid={`button-delete-supplier-${supplier.id}`}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Button variant="outline" onClick={() => startEditing()} data-testid="button-add-supplier">
+        <Plus className="w-4 h-4 mr-2" />
+        Add Supplier
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { ReactNode } from "react";
+import { LayoutTemplate } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { Document, DocumentTemplate } from "@shared/schema";
+
+interface TemplateSelectProps {
+  documentId: string;
+  templateId: string | null;
+  documentClass?: string | null; // picks the class's template while none is chosen
+  onApplied: (document: Document) => void;
+  // Shown instead of the select while no templates exist
+  fallback?: ReactNode;
+  disabled?: boolean;
+}
+
+export default function TemplateSelect({ documentId, templateId, documentClass = null, onApplied, fallback = null, disabled = false }: TemplateSelectProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const templatesQuery = useQuery<DocumentTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await apiRequest("PATCH", `/api/documents/${documentId}`, { templateId });
+      return response.json();
+    },
+    onSuccess: (updatedDocument: Document) => {
+      onApplied(updatedDocument);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Apply Template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const templates = templatesQuery.data || [];
+  if (templates.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  const selected = templates.find((template) => template.id === templateId)
+    || (documentClass ? templates.find((template) => template.documentClass === documentClass) : undefined)
+    || templates.find((template) => template.isDefault);
+
+  return (
+    <Select
+      value={selected?.id}
+      onValueChange={(templateId) => applyMutation.mutate(templateId)}
+      disabled={disabled || !can("documents:edit") || applyMutation.isPending}
+    >
+      <SelectTrigger className="w-48" data-testid="select-document-template">
+        <LayoutTemplate className="w-4 h-4 mr-2 text-gray-500" />
+        <SelectValue placeholder="Standard layout" />
+      </SelectTrigger>
+      <SelectContent>
+        {templates.map((template) => (
+          <SelectItem key={template.id} value={template.id}>
+            {template.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,513 @@
+import { useState } from "react";
+import { Plus, Pencil, Trash2, Star, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { defaultTemplateDefinition, resolveTemplateDefinition } from "@shared/template";
+import { displayUnits, unitDimensionLabels, unitDimensions } from "@shared/units";
+import { documentClassLabels } from "@shared/document-classes";
+import { documentClasses, dynamicFieldTypes, type DocumentClass, type DocumentTemplate, type InsertDocumentTemplate, type TemplateDefinition } from "@shared/schema";
+
+type TemplateForm = {
+  name: string;
+  isDefault: boolean;
+  documentClass: DocumentClass | null;
+  definition: TemplateDefinition;
+};
+
+// Select items cannot have an empty value
+const AS_EXTRACTED = "as-extracted";
+const NO_CLASS = "none";
+
+const toLines = (values: string[]) => values.join("\n");
+const fromLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+export default function TemplatesPanel() {
+  // null: list view, "new": creating, otherwise the id of the template being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>({ name: "", isDefault: false, documentClass: null, definition: defaultTemplateDefinition });
+  // Kept as text so blank lines can be typed; parsed on save
+  const [sectionOrder, setSectionOrder] = useState("");
+  const [hiddenSections, setHiddenSections] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const templatesQuery = useQuery<DocumentTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Template Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string | null; data: InsertDocumentTemplate }) => {
+      const response = id
+        ? await apiRequest("PATCH", `/api/templates/${id}`, data)
+        : await apiRequest("POST", "/api/templates", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setEditing(null);
+      toast({
+        title: "Template Saved",
+        description: "The preview and generated documents will use the updated layout.",
+      });
+    },
+    onError,
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("PATCH", `/api/templates/${id}`, { isDefault: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/templates/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+    },
+    onError,
+  });
+
+  const startEditing = (template?: DocumentTemplate, duplicate = false) => {
+    const definition = template ? resolveTemplateDefinition(template.definition) : defaultTemplateDefinition;
+    setForm({
+      name: template ? (duplicate ? `${template.name} (copy)` : template.name) : "",
+      isDefault: !!template?.isDefault && !duplicate,
+      documentClass: template && !duplicate ? template.documentClass as DocumentClass | null : null,
+      definition,
+    });
+    setSectionOrder(toLines(definition.sectionOrder));
+    setHiddenSections(toLines(definition.hiddenSections));
+    setEditing(template && !duplicate ? template.id : "new");
+  };
+
+  const updateDefinition = <K extends keyof TemplateDefinition>(key: K, changes: Partial<TemplateDefinition[K]>) => {
+    setForm(current => ({
+      ...current,
+      definition: {
+        ...current.definition,
+        [key]: Array.isArray(changes) ? changes : { ...(current.definition[key] as object), ...changes },
+      },
+    }));
+  };
+
+  const toggleFieldType = (type: typeof dynamicFieldTypes[number], checked: boolean) => {
+    const fieldTypes = checked
+      ? dynamicFieldTypes.filter(candidate => candidate === type || form.definition.fieldTypes.includes(candidate))
+      : form.definition.fieldTypes.filter(candidate => candidate !== type);
+    setForm(current => ({ ...current, definition: { ...current.definition, fieldTypes } }));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      id: editing === "new" ? null : editing,
+      data: {
+        name: form.name.trim(),
+        isDefault: form.isDefault,
+        documentClass: form.documentClass,
+        definition: {
+          ...form.definition,
+          sectionOrder: fromLines(sectionOrder),
+          hiddenSections: fromLines(hiddenSections),
+          footer: { ...form.definition.footer, text: form.definition.footer.text?.trim() || null },
+        },
+      },
+    });
+  };
+
+  const handleDelete = (template: DocumentTemplate) => {
+    if (confirm(`Delete the template "${template.name}"? Documents using it switch to the default template.`)) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  if (editing) {
+    const { header, table, sds, footer, pageNumbers, fieldTypes, units } = form.definition;
+
+    const headerOptions: Array<[keyof typeof header, string]> = [
+      ["showLogo", "Company logo"],
+      ["showContact", "Contact details"],
+      ["showGeneratedDate", "Generated date"],
+      ["showDocumentType", "Document type"],
+    ];
+    const footerOptions: Array<[keyof typeof footer, string]> = [
+      ["showSignatory", "Signatory"],
+      ["showCompanyName", "Company name"],
+      ["showGeneratedBy", "Generated by line"],
+    ];
+
+    return (
+      <div className="space-y-5" data-testid="form-template">
+        <div>
+          <Label htmlFor="template-name" className="text-sm font-medium text-gray-700">Template Name</Label>
+          <Input
+            id="template-name"
+            value={form.name}
+            onChange={(e) => setForm(current => ({ ...current, name: e.target.value }))}
+            className="mt-1"
+            data-testid="input-template-name"
+          />
+        </div>
+
+        {/* Header block */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Header</h4>
+          <div>
+            <Label htmlFor="template-title" className="text-xs text-gray-600">Title (leave empty to use the document type)</Label>
+            <Input
+              id="template-title"
+              value={header.title}
+              onChange={(e) => updateDefinition("header", { title: e.target.value })}
+              className="mt-1"
+              data-testid="input-template-title"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {headerOptions.map(([key, label]) => (
+              <label key={key} className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={header[key] as boolean}
+                  onCheckedChange={(checked) => updateDefinition("header", { [key]: checked === true })}
+                  data-testid={`checkbox-template-header-${key}`}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Sections */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Sections</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="template-section-order" className="text-xs text-gray-600">Show first, in this order (one per line)</Label>
+              <Textarea
+                id="template-section-order"
+                rows={4}
+                value={sectionOrder}
+                onChange={(e) => setSectionOrder(e.target.value)}
+                className="mt-1"
+                placeholder={"Product Information\nTest Results"}
+                data-testid="input-template-section-order"
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-hidden-sections" className="text-xs text-gray-600">Hide these sections (one per line)</Label>
+              <Textarea
+                id="template-hidden-sections"
+                rows={4}
+                value={hiddenSections}
+                onChange={(e) => setHiddenSections(e.target.value)}
+                className="mt-1"
+                placeholder="Additional Information"
+                data-testid="input-template-hidden-sections"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Field types */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Field Types Shown</h4>
+          <div className="grid grid-cols-4 gap-2">
+            {dynamicFieldTypes.map((type) => (
+              <label key={type} className="flex items-center space-x-2 text-sm text-gray-700 capitalize">
+                <Checkbox
+                  checked={fieldTypes.includes(type)}
+                  onCheckedChange={(checked) => toggleFieldType(type, checked === true)}
+                  data-testid={`checkbox-template-field-type-${type}`}
+                />
+                <span>{type}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Table styling */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Tables</h4>
+          <div className="grid grid-cols-3 gap-3 items-end">
+            <div>
+              <Label htmlFor="template-table-header" className="text-xs text-gray-600">Header background</Label>
+              <Input
+                id="template-table-header"
+                type="color"
+                value={table.headerBackground}
+                onChange={(e) => updateDefinition("table", { headerBackground: e.target.value })}
+                className="mt-1 h-10 p-1"
+                data-testid="input-template-table-header"
+              />
+            </div>
+            <div>
+              <Label htmlFor="template-table-border" className="text-xs text-gray-600">Border color</Label>
+              <Input
+                id="template-table-border"
+                type="color"
+                value={table.borderColor}
+                onChange={(e) => updateDefinition("table", { borderColor: e.target.value })}
+                className="mt-1 h-10 p-1"
+                data-testid="input-template-table-border"
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+              <Checkbox
+                checked={table.striped}
+                onCheckedChange={(checked) => updateDefinition("table", { striped: checked === true })}
+                data-testid="checkbox-template-table-striped"
+              />
+              <span>Striped rows</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+              <Checkbox
+                checked={table.showCompliance}
+                onCheckedChange={(checked) => updateDefinition("table", { showCompliance: checked === true })}
+                data-testid="checkbox-template-table-compliance"
+              />
+              <span>Compliance column</span>
+            </label>
+          </div>
+        </div>
+
+        {/* Safety Data Sheets */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Safety Data Sheets</h4>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <Checkbox
+              checked={sds.standardLayout}
+              onCheckedChange={(checked) => updateDefinition("sds", { standardLayout: checked === true })}
+              data-testid="checkbox-template-sds-layout"
+            />
+            <span>Lay out in the 16 numbered GHS sections (section order above is ignored)</span>
+          </label>
+          {sds.standardLayout && (
+            <>
+              <div>
+                <Label htmlFor="template-sds-title" className="text-xs text-gray-600">Title (leave empty to use the document type)</Label>
+                <Input
+                  id="template-sds-title"
+                  value={sds.title}
+                  onChange={(e) => updateDefinition("sds", { title: e.target.value })}
+                  className="mt-1"
+                  data-testid="input-template-sds-title"
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={sds.fillMissingSections}
+                  onCheckedChange={(checked) => updateDefinition("sds", { fillMissingSections: checked === true })}
+                  data-testid="checkbox-template-sds-fill-missing"
+                />
+                <span>Show sections missing from the supplier's sheet as "No data available"</span>
+              </label>
+            </>
+          )}
+        </div>
+
+        {/* Units */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Units</h4>
+          <div className="grid grid-cols-2 gap-3">
+            {unitDimensions.map((dimension) => (
+              <div key={dimension}>
+                <Label className="text-xs text-gray-600">{unitDimensionLabels[dimension]}</Label>
+                <Select
+                  value={units[dimension] || AS_EXTRACTED}
+                  onValueChange={(unit) => updateDefinition("units", { [dimension]: unit === AS_EXTRACTED ? null : unit })}
+                >
+                  <SelectTrigger className="mt-1" data-testid={`select-template-unit-${dimension}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AS_EXTRACTED}>As extracted</SelectItem>
+                    {displayUnits[dimension].map((unit) => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Footer</h4>
+          <div>
+            <Label htmlFor="template-footer-text" className="text-xs text-gray-600">Footer text (overrides the company profile footer)</Label>
+            <Textarea
+              id="template-footer-text"
+              rows={2}
+              value={footer.text || ""}
+              onChange={(e) => updateDefinition("footer", { text: e.target.value })}
+              className="mt-1"
+              data-testid="input-template-footer-text"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {footerOptions.map(([key, label]) => (
+              <label key={key} className="flex items-center space-x-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={footer[key] as boolean}
+                  onCheckedChange={(checked) => updateDefinition("footer", { [key]: checked === true })}
+                  data-testid={`checkbox-template-footer-${key}`}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Page numbering */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="template-page-numbers"
+              checked={pageNumbers.enabled}
+              onCheckedChange={(enabled) => updateDefinition("pageNumbers", { enabled })}
+              data-testid="switch-template-page-numbers"
+            />
+            <Label htmlFor="template-page-numbers" className="text-sm font-medium text-gray-700">Page numbers</Label>
+          </div>
+          <Select
+            value={pageNumbers.alignment}
+            onValueChange={(alignment) => updateDefinition("pageNumbers", { alignment: alignment as typeof pageNumbers.alignment })}
+            disabled={!pageNumbers.enabled}
+          >
+            <SelectTrigger className="w-32" data-testid="select-template-page-number-alignment">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="left">Left</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+              <SelectItem value="right">Right</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="template-default" className="text-sm font-medium text-gray-700">
+            Use as default template
+          </Label>
+          <Switch
+            id="template-default"
+            checked={form.isDefault}
+            onCheckedChange={(isDefault) => setForm(current => ({ ...current, isDefault }))}
+            data-testid="switch-template-default"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Use for document type</Label>
+            <p className="text-xs text-gray-500">Documents of this type use this template unless they choose another.</p>
+          </div>
+          <Select
+            value={form.documentClass || NO_CLASS}
+            onValueChange={(value) => setForm(current => ({ ...current, documentClass: value === NO_CLASS ? null : value as DocumentClass }))}
+          >
+            <SelectTrigger className="w-48" data-testid="select-template-document-class">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CLASS}>No document type</SelectItem>
+              {documentClasses.map((documentClass) => (
+                <SelectItem key={documentClass} value={documentClass}>{documentClassLabels[documentClass]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-2">
+          <Button variant="outline" onClick={() => setEditing(null)} data-testid="button-cancel-template">
+            Back
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!form.name.trim() || saveMutation.isPending}
+            data-testid="button-save-template"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const templates = templatesQuery.data || [];
+
+  return (
+    <div className="space-y-4">
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No templates yet. Documents use the standard layout until a template is created.
+        </p>
+      ) : (
+        <ul className="divide-y border rounded-lg" data-testid="list-templates">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-center justify-between px-3 py-2" data-testid={`row-template-${template.id}`}>
+              <div className="flex items-center space-x-3 min-w-0">
+                <span className="text-sm font-medium text-gray-900 truncate">{template.name}</span>
+                {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                {template.documentClass && (
+                  <Badge variant="outline">{documentClassLabels[template.documentClass as DocumentClass]}</Badge>
+                )}
+              </div>
+              <div className="flex items-center">
+                {!template.isDefault && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDefaultMutation.mutate(template.id)}
+                    title="Use as default"
+                    data-testid={`button-default-template-${template.id}`}
+                  >
+                    <Star className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => startEditing(template, true)} title="Duplicate" data-testid={`button-duplicate-template-${template.id}`}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => startEditing(template)} data-testid={`button-edit-template-${template.id}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(template)} data-testid={`button-delete-template-${template.id}`}>
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button variant="outline" onClick={() => startEditing()} data-testid="button-add-template">
+        <Plus className="w-4 h-4 mr-2" />
+        Add Template
+      </Button>
+    </div>
+  );
+}
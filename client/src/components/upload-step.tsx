@@ -1,15 +1,27 @@
 import { useState, useCallback } from "react";
-import { Upload, FileText, AlertCircle } from "lucide-react";
+import { Upload, FileText, FileArchive, AlertCircle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { usePipeline } from "@/hooks/use-pipeline";
 import { cn } from "@/lib/utils";
+import { acceptedFileExtensions, findFileType } from "@shared/file-types";
+
+const isZip = (file: File) =>
+  file.type === "application/zip" || file.type === "application/x-zip-compressed" || file.name.toLowerCase().endsWith(".zip");
+
+const isAccepted = (file: File) => !!findFileType(file.name, file.type) || isZip(file);
+
+const acceptedUploads = `${acceptedFileExtensions},.zip`;
 
 export default function UploadStep() {
   const [dragActive, setDragActive] = useState(false);
-  const [file, setFile] = useState<File | null>(null);
-  const { setCurrentDocument, goToStep } = usePipeline();
+  const [files, setFiles] = useState<File[]>([]);
+  const { setCurrentDocument, setCurrentBatchId, goToStep } = usePipeline();
+
+  // A single document goes through the step-by-step pipeline; several files or a
+  // ZIP archive become a batch that is processed in the background.
+  const isBatch = files.length > 1 || files.some(isZip);
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -24,6 +36,32 @@ export default function UploadStep() {
     },
   });
 
+  const batchUploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      const response = await apiRequest("POST", "/api/batches", formData);
+      const { batch } = await response.json();
+      // Processing can be started again from the dashboard if this fails
+      await apiRequest("POST", `/api/batches/${batch.id}/process`).catch(() => undefined);
+      return batch;
+    },
+    onSuccess: (batch) => {
+      setCurrentBatchId(batch.id);
+    },
+  });
+
+  const activeMutation = isBatch ? batchUploadMutation : uploadMutation;
+
+  const addFiles = (selected: FileList) => {
+    const accepted = Array.from(selected).filter(isAccepted);
+    setFiles(current => [...current, ...accepted]);
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(current => current.filter((_, fileIndex) => fileIndex !== index));
+  };
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -39,33 +77,32 @@ export default function UploadStep() {
     e.stopPropagation();
     setDragActive(false);
 
-    const files = e.dataTransfer.files;
-    if (files && files[0]) {
-      const selectedFile = files[0];
-      if (selectedFile.type === "application/pdf") {
-        setFile(selectedFile);
-      }
+    if (e.dataTransfer.files) {
+      addFiles(e.dataTransfer.files);
     }
   }, []);
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+    if (e.target.files) {
+      addFiles(e.target.files);
     }
+    e.target.value = "";
   };
 
   const handleUpload = () => {
-    if (file) {
-      uploadMutation.mutate(file);
+    if (isBatch) {
+      batchUploadMutation.mutate(files);
+    } else if (files[0]) {
+      uploadMutation.mutate(files[0]);
     }
   };
 
   return (
     <div className="p-6">
       <div className="mb-6">
-        <h2 className="text-lg font-semibold text-gray-900">Upload Supplier Document</h2>
+        <h2 className="text-lg font-semibold text-gray-900">Upload Supplier Documents</h2>
         <p className="text-sm text-gray-600 mt-1">
-          Upload a PDF document from your chemical supplier to get started
+          Upload a document from your chemical supplier (PDF, Word, Excel or a scanned JPG, PNG or TIFF) to get started, or several documents or a ZIP archive to process them as a batch
         </p>
       </div>
 
@@ -76,7 +113,7 @@ export default function UploadStep() {
             "border-2 border-dashed rounded-lg p-8 text-center transition-colors",
             dragActive
               ? "border-primary bg-primary/5"
-              : file
+              : files.length > 0
               ? "border-green-300 bg-green-50"
               : "border-gray-300 hover:border-gray-400"
           )}
@@ -86,52 +123,90 @@ export default function UploadStep() {
           onDrop={handleDrop}
           data-testid="upload-dropzone"
         >
-          {file ? (
+          {files.length > 0 ? (
             <div className="space-y-3">
-              <FileText className="w-12 h-12 text-green-600 mx-auto" />
-              <div>
-                <p className="text-lg font-medium text-green-900">{file.name}</p>
-                <p className="text-sm text-green-700">
-                  {(file.size / 1024 / 1024).toFixed(2)} MB
-                </p>
+              <ul className="space-y-2 text-left max-h-64 overflow-y-auto" data-testid="list-selected-files">
+                {files.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between bg-white border border-green-200 rounded-md px-3 py-2"
+                    data-testid={`selected-file-${index}`}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {isZip(file) ? (
+                        <FileArchive className="w-5 h-5 text-green-600 flex-shrink-0" />
+                      ) : (
+                        <FileText className="w-5 h-5 text-green-600 flex-shrink-0" />
+                      )}
+                      <span className="text-sm font-medium text-green-900 truncate">{file.name}</span>
+                      <span className="text-xs text-green-700 flex-shrink-0">
+                        {(file.size / 1024 / 1024).toFixed(2)} MB
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeFile(index)}
+                      data-testid={`button-remove-file-${index}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-center space-x-2">
+                <label className="inline-flex items-center text-sm text-primary cursor-pointer hover:underline">
+                  Add more files
+                  <input
+                    type="file"
+                    accept={acceptedUploads}
+                    multiple
+                    onChange={handleFileInput}
+                    className="hidden"
+                    data-testid="input-file-upload-more"
+                  />
+                </label>
+                <span className="text-gray-300">|</span>
+                <button
+                  type="button"
+                  className="text-sm text-gray-600 hover:underline"
+                  onClick={() => setFiles([])}
+                  data-testid="button-remove-file"
+                >
+                  Remove all
+                </button>
               </div>
-              <Button
-                variant="outline"
-                onClick={() => setFile(null)}
-                data-testid="button-remove-file"
-              >
-                Remove File
-              </Button>
             </div>
           ) : (
             <div className="space-y-3">
               <Upload className="w-12 h-12 text-gray-400 mx-auto" />
               <div>
                 <p className="text-lg font-medium text-gray-900">
-                  Drop your PDF file here, or{" "}
+                  Drop your documents here, or{" "}
                   <label className="text-primary cursor-pointer hover:underline">
                     browse
                     <input
                       type="file"
-                      accept=".pdf"
+                      accept={acceptedUploads}
+                      multiple
                       onChange={handleFileInput}
                       className="hidden"
                       data-testid="input-file-upload"
                     />
                   </label>
                 </p>
-                <p className="text-sm text-gray-500">PDF files up to 10MB</p>
+                <p className="text-sm text-gray-500">PDF, Word, Excel and image files up to 10MB, also inside ZIP archives up to 50MB</p>
               </div>
             </div>
           )}
         </div>
 
         {/* Error Display */}
-        {uploadMutation.isError && (
+        {activeMutation.isError && (
           <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
             <AlertCircle className="w-5 h-5 text-red-600" />
             <p className="text-sm text-red-700" data-testid="text-upload-error">
-              {uploadMutation.error?.message || "Failed to upload file. Please try again."}
+              {activeMutation.error?.message || "Failed to upload file. Please try again."}
             </p>
           </div>
         )}
@@ -140,11 +215,15 @@ export default function UploadStep() {
         <div className="flex justify-end">
           <Button
             onClick={handleUpload}
-            disabled={!file || uploadMutation.isPending}
+            disabled={files.length === 0 || activeMutation.isPending}
             className="px-6"
             data-testid="button-upload-proceed"
           >
-            {uploadMutation.isPending ? "Uploading..." : "Upload & Process"}
+            {activeMutation.isPending
+              ? "Uploading..."
+              : isBatch
+              ? "Upload & Process Batch"
+              : "Upload & Process"}
           </Button>
         </div>
       </div>
@@ -0,0 +1,72 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { roleLabels } from "@shared/permissions";
+import { userRoles, type PublicUser, type UserRole } from "@shared/schema";
+
+export default function UsersPanel() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const usersQuery = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}/role`, { role });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Change Role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const users = usersQuery.data || [];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Uploaders upload and process their own documents. Reviewers also see everyone's documents and edit and generate them, approvers also approve them, and admins manage settings, users and deletions.
+      </p>
+
+      <ul className="divide-y border rounded-lg" data-testid="list-users">
+        {users.map((user) => (
+          <li key={user.id} className="flex items-center justify-between px-3 py-2" data-testid={`row-user-${user.id}`}>
+            <div className="flex items-center space-x-3 min-w-0">
+              <span className="text-sm font-medium text-gray-900 truncate">{user.username}</span>
+              {user.id === currentUser?.id && <Badge variant="secondary">You</Badge>}
+            </div>
+            <Select
+              value={user.role}
+              onValueChange={(role) => roleMutation.mutate({ id: user.id, role: role as UserRole })}
+              disabled={user.id === currentUser?.id || roleMutation.isPending}
+            >
+              <SelectTrigger className="w-36" data-testid={`select-user-role-${user.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {userRoles.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
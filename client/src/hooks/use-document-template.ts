@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultTemplateDefinition, resolveTemplateDefinition } from "@shared/template";
+import type { DocumentTemplate, TemplateDefinition } from "@shared/schema";
+
+// Resolves the template a document is generated with, mirroring the server:
+// the document's own template, then the template for its class, then the
+// default template, then the built-in layout.
+export function useTemplateDefinition(templateId: string | null | undefined, documentClass?: string | null): TemplateDefinition {
+  const { data: templates } = useQuery<DocumentTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const template = templates?.find((candidate) => candidate.id === templateId)
+    || (documentClass ? templates?.find((candidate) => candidate.documentClass === documentClass) : undefined)
+    || templates?.find((candidate) => candidate.isDefault);
+  return template ? resolveTemplateDefinition(template.definition) : defaultTemplateDefinition;
+}
@@ -0,0 +1,56 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DocumentRevision, ExtractedData } from "@shared/schema";
+import { diffExtractedData, latestExtraction, type ExtractedDataDiff, type FieldChange, type SectionChange } from "@shared/diff";
+
+export interface ExtractionDiffView {
+  diff: ExtractedDataDiff;
+  getFieldChange: (fieldId: string) => FieldChange | undefined;
+  getSectionChange: (section: string) => SectionChange | undefined;
+  isCellChanged: (fieldId: string, row: number, column: number) => boolean;
+  getRemovedFields: (section: string) => FieldChange[];
+}
+
+// Compares the reviewer's working copy against the AI extraction it started
+// from: the latest "extraction" revision, so reprocessing resets the baseline.
+// That is the provider's own output, so a supplier profile's changes show too.
+export function useExtractionDiff(documentId: string | undefined, current: ExtractedData | null, enabled: boolean) {
+  const revisionsQuery = useQuery<DocumentRevision[]>({
+    queryKey: [`/api/documents/${documentId}/revisions`],
+    enabled: enabled && !!documentId,
+  });
+
+  const original = revisionsQuery.data ? latestExtraction(revisionsQuery.data) : undefined;
+
+  const view = useMemo<ExtractionDiffView | null>(() => {
+    if (!enabled || !original || !current) return null;
+
+    const diff = diffExtractedData(original.extractedData as ExtractedData, current);
+    const fieldChanges = new Map(
+      diff.fields.filter((change) => change.kind !== "removed").map((change) => [change.fieldId, change])
+    );
+    const sectionChanges = new Map(diff.sections.map((change) => [change.section, change]));
+
+    return {
+      diff,
+      getFieldChange: (fieldId) => fieldChanges.get(fieldId),
+      getSectionChange: (section) => sectionChanges.get(section),
+      isCellChanged: (fieldId, row, column) =>
+        !!fieldChanges.get(fieldId)?.cells.some((cell) => cell.row === row && cell.column === column),
+      getRemovedFields: (section) =>
+        diff.fields.filter((change) => change.kind === "removed" && change.section === section),
+    };
+  }, [enabled, original, current]);
+
+  return {
+    view,
+    isLoading: revisionsQuery.isLoading,
+    hasOriginal: !!original,
+  };
+}
+
+export const diffHighlightClasses: Record<string, string> = {
+  added: "bg-green-50 ring-1 ring-green-300",
+  removed: "bg-red-50 ring-1 ring-red-300",
+  modified: "bg-yellow-50 ring-1 ring-yellow-300",
+};
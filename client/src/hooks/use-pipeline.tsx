@@ -4,8 +4,10 @@ import { Document } from "@shared/schema";
 interface PipelineContextType {
   currentStep: number;
   currentDocument: Document | null;
+  currentBatchId: string | null;
   setCurrentStep: (step: number) => void;
   setCurrentDocument: (document: Document | null) => void;
+  setCurrentBatchId: (batchId: string | null) => void;
   goToStep: (step: number) => void;
   resetPipeline: () => void;
 }
@@ -15,6 +17,7 @@ const PipelineContext = createContext<PipelineContextType | undefined>(undefined
 export function PipelineProvider({ children }: { children: ReactNode }) {
   const [currentStep, setCurrentStep] = useState(1);
   const [currentDocument, setCurrentDocument] = useState<Document | null>(null);
+  const [currentBatchId, setCurrentBatchId] = useState<string | null>(null);
 
   const goToStep = (step: number) => {
     setCurrentStep(step);
@@ -23,6 +26,7 @@ export function PipelineProvider({ children }: { children: ReactNode }) {
   const resetPipeline = () => {
     setCurrentStep(1);
     setCurrentDocument(null);
+    setCurrentBatchId(null);
   };
 
   return (
@@ -30,8 +34,10 @@ export function PipelineProvider({ children }: { children: ReactNode }) {
       value={{
         currentStep,
         currentDocument,
+        currentBatchId,
         setCurrentStep,
         setCurrentDocument,
+        setCurrentBatchId,
         goToStep,
         resetPipeline,
       }}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { isJobFinished, type ProcessingJob } from "@shared/jobs";
+
+// Follows a server-side processing job through its Server-Sent Events stream.
+export function useProcessingJob(jobId: string | null) {
+  const [job, setJob] = useState<ProcessingJob | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    setConnectionError(null);
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let finished = false;
+
+    source.onmessage = (event) => {
+      const state = JSON.parse(event.data) as ProcessingJob;
+      setJob(state);
+      if (isJobFinished(state)) {
+        finished = true;
+        source.close();
+      }
+    };
+
+    source.onerror = () => {
+      if (!finished) {
+        setConnectionError("Lost connection to the processing server");
+      }
+      source.close();
+    };
+
+    return () => source.close();
+  }, [jobId]);
+
+  return { job, connectionError };
+}
@@ -0,0 +1,45 @@
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy, type RenderTask } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export type { PDFDocumentProxy };
+
+export function loadPdf(url: string): Promise<PDFDocumentProxy> {
+  return getDocument({ url, withCredentials: true }).promise;
+}
+
+// Renders one page (1-based) onto the canvas, scaled to the given CSS width.
+// pdf.js refuses to draw on a canvas that is still rendering, so callers
+// cancel the previous render before starting the next one.
+export function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, canvas: HTMLCanvasElement, width: number) {
+  let cancelled = false;
+  let renderTask: RenderTask | undefined;
+
+  const promise = pdf.getPage(pageNumber).then(page => {
+    if (cancelled) return;
+    const scale = width / page.getViewport({ scale: 1 }).width;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const viewport = page.getViewport({ scale: scale * pixelRatio });
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    canvas.style.width = `${viewport.width / pixelRatio}px`;
+    canvas.style.height = `${viewport.height / pixelRatio}px`;
+
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    renderTask = page.render({ canvasContext: context, viewport });
+    return renderTask.promise;
+  }).catch(error => {
+    if (error?.name !== "RenderingCancelledException") throw error;
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      renderTask?.cancel();
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import { FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [login, setLogin] = useState({ username: "", password: "" });
+  const [register, setRegister] = useState({ username: "", password: "", confirmPassword: "" });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleLogin = (e: FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(login);
+  };
+
+  const handleRegister = (e: FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({ username: register.username, password: register.password });
+  };
+
+  const passwordsMatch = register.password === register.confirmPassword;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center space-x-3 mb-6">
+          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+            <FileText className="w-5 h-5 text-white" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">ChemDoc Processor</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Welcome</CardTitle>
+            <CardDescription>Sign in to process your documents, or create an account.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Create Account</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <form onSubmit={handleLogin} className="space-y-4 pt-2">
+                  <div>
+                    <Label htmlFor="login-username">Username</Label>
+                    <Input
+                      id="login-username"
+                      autoComplete="username"
+                      value={login.username}
+                      onChange={(e) => setLogin({ ...login, username: e.target.value })}
+                      className="mt-1"
+                      data-testid="input-login-username"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={login.password}
+                      onChange={(e) => setLogin({ ...login, password: e.target.value })}
+                      className="mt-1"
+                      data-testid="input-login-password"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!login.username || !login.password || loginMutation.isPending}
+                    data-testid="button-login"
+                  >
+                    {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <form onSubmit={handleRegister} className="space-y-4 pt-2">
+                  <div>
+                    <Label htmlFor="register-username">Username</Label>
+                    <Input
+                      id="register-username"
+                      autoComplete="username"
+                      value={register.username}
+                      onChange={(e) => setRegister({ ...register, username: e.target.value })}
+                      className="mt-1"
+                      data-testid="input-register-username"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="register-password">Password</Label>
+                    <Input
+                      id="register-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={register.password}
+                      onChange={(e) => setRegister({ ...register, password: e.target.value })}
+                      className="mt-1"
+                      data-testid="input-register-password"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">At least 8 characters.</p>
+                  </div>
+                  <div>
+                    <Label htmlFor="register-confirm-password">Confirm Password</Label>
+                    <Input
+                      id="register-confirm-password"
+                      type="password"
+                      autoComplete="new-password"
+                      value={register.confirmPassword}
+                      onChange={(e) => setRegister({ ...register, confirmPassword: e.target.value })}
+                      className="mt-1"
+                      data-testid="input-register-confirm-password"
+                    />
+                    {!passwordsMatch && register.confirmPassword && (
+                      <p className="text-xs text-red-600 mt-1">Passwords do not match.</p>
+                    )}
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!register.username || !register.password || !passwordsMatch || registerMutation.isPending}
+                    data-testid="button-register"
+                  >
+                    {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
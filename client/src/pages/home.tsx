@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
-import { FileText, Settings, Clock, Wifi, WifiOff } from "lucide-react";
+import { FileText, Settings, Clock, Wifi, WifiOff, LogOut, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
 import StepProgress from "@/components/step-progress";
 import UploadStep from "@/components/upload-step";
@@ -8,16 +9,29 @@ import ProcessingStep from "@/components/processing-step";
 import SectionSelectionStep from "@/components/section-selection-step";
 import ReviewStep from "@/components/review-step";
 import GenerateStep from "@/components/generate-step";
+import BatchDashboard from "@/components/batch-dashboard";
 import SettingsModal from "@/components/settings-modal";
 import HistoryModal from "@/components/history-modal";
 import { usePipeline } from "@/hooks/use-pipeline";
-import { getStoredApiKey, decryptApiKey } from "@/lib/crypto";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { roleLabels } from "@shared/permissions";
+import type { UserRole } from "@shared/schema";
+
+const LEGACY_API_KEY_STORAGE_KEY = "mistral_api_key";
 
 export default function Home() {
   const [showSettings, setShowSettings] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [llmStatus, setLlmStatus] = useState<"checking" | "online" | "offline">("checking");
-  const { currentStep, currentDocument, goToStep } = usePipeline();
+  const { currentStep, currentDocument, currentBatchId, goToStep, resetPipeline } = usePipeline();
+  const { user, can, logoutMutation } = useAuth();
+  const canManageSettings = can("settings:manage");
+
+  // The next user to sign in starts from an empty pipeline
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, { onSuccess: resetPipeline });
+  };
 
   // Query to check LLM connection status
   const connectionQuery = useQuery({
@@ -41,30 +55,25 @@ export default function Home() {
     }
   }, [connectionQuery.isLoading, connectionQuery.data]);
 
-  // Auto-load API key from localStorage on startup
+  // Older versions kept the Mistral API key base64-encoded in localStorage.
+  // Hand it to the server, which encrypts it, unless the server already has a
+  // key (likely a newer one), and forget the local copy either way.
   useEffect(() => {
-    const loadStoredApiKey = async () => {
-      const storedKey = getStoredApiKey();
-      if (storedKey) {
-        try {
-          const decryptedKey = await decryptApiKey(storedKey);
-          // Save to server if we have a key
-          if (decryptedKey) {
-            await fetch("/api/settings", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ encryptedApiKey: storedKey })
-            });
-          }
-        } catch (error) {
-          console.error("Failed to load stored API key:", error);
-        }
-      }
-    };
-    loadStoredApiKey();
-  }, []);
+    if (!canManageSettings) return;
+    const legacyKey = localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY);
+    if (!legacyKey) return;
+    apiRequest("GET", "/api/settings")
+      .then(response => response.json())
+      .then(settings => settings.hasApiKey ? undefined : apiRequest("POST", "/api/settings", { apiKey: atob(legacyKey) }))
+      .then(() => localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY))
+      .catch((error) => console.error("Failed to move stored API key to the server:", error));
+  }, [canManageSettings]);
 
   const renderCurrentStep = () => {
+    if (currentBatchId) {
+      return <BatchDashboard batchId={currentBatchId} />;
+    }
+
     switch (currentStep) {
       case 1:
         return <UploadStep />;
@@ -131,14 +140,31 @@ export default function Home() {
             >
               <Clock className="w-5 h-5" />
             </Button>
-            <Button 
-              variant="ghost" 
-              size="sm"
-              onClick={() => setShowSettings(true)}
-              data-testid="button-settings"
-            >
-              <Settings className="w-5 h-5" />
-            </Button>
+            {canManageSettings && (
+              <Button 
+                variant="ghost" 
+                size="sm"
+                onClick={() => setShowSettings(true)}
+                data-testid="button-settings"
+              >
+                <Settings className="w-5 h-5" />
+              </Button>
+            )}
+            <div className="flex items-center space-x-2 pl-4 border-l border-gray-200">
+              <User className="w-4 h-4 text-gray-500" />
+              <span className="text-sm text-gray-700" data-testid="text-current-user">{user?.username}</span>
+              {user && <Badge variant="secondary" data-testid="badge-current-role">{roleLabels[user.role as UserRole]}</Badge>}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                disabled={logoutMutation.isPending}
+                title="Sign out"
+                data-testid="button-logout"
+              >
+                <LogOut className="w-5 h-5" />
+              </Button>
+            </div>
           </div>
         </div>
       </nav>
@@ -154,7 +180,7 @@ export default function Home() {
       </div>
 
       {/* Modals */}
-      <SettingsModal open={showSettings} onOpenChange={setShowSettings} />
+      {canManageSettings && <SettingsModal open={showSettings} onOpenChange={setShowSettings} />}
       <HistoryModal open={showHistory} onOpenChange={setShowHistory} />
     </div>
   );
@@ -0,0 +1,24 @@
+CREATE TABLE "documents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"original_file_name" text NOT NULL,
+	"extracted_data" jsonb,
+	"company_data" jsonb,
+	"status" text DEFAULT 'uploaded' NOT NULL,
+	"processed_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_key" text,
+	"encrypted_api_key" text,
+	"last_tested" timestamp,
+	"connection_status" text DEFAULT 'untested'
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
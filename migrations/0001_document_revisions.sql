@@ -0,0 +1,11 @@
+CREATE TABLE "document_revisions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" varchar NOT NULL,
+	"revision_number" integer NOT NULL,
+	"extracted_data" jsonb NOT NULL,
+	"source" text DEFAULT 'edit' NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "document_revisions" ADD CONSTRAINT "document_revisions_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "documents" ADD COLUMN "extraction_provider" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "extraction_provider" text DEFAULT 'mistral' NOT NULL;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "provider_base_url" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "provider_model" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "settings" ADD COLUMN "offline_fallback" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "company_profiles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"address" text,
+	"email" text,
+	"phone" text,
+	"website" text,
+	"logo" text,
+	"primary_color" text DEFAULT '#3B82F6' NOT NULL,
+	"secondary_color" text DEFAULT '#1E40AF' NOT NULL,
+	"font" text DEFAULT 'helvetica' NOT NULL,
+	"footer_text" text,
+	"signatory_name" text,
+	"signatory_title" text,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,4 @@
+ALTER TABLE "batches" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "batches" ADD CONSTRAINT "batches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
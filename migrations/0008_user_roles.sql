@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'uploader' NOT NULL;
+-- Accounts created before roles existed may have self-registered, so none is
+-- promoted here; ADMIN_USERNAME names the administrator at startup (server/auth.ts)
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "audit_log" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action" text NOT NULL,
+	"document_id" varchar,
+	"document_name" text,
+	"user_id" varchar,
+	"username" text,
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_document_id_idx" ON "audit_log" USING btree ("document_id");--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "documents" ADD COLUMN "file_extension" text DEFAULT 'pdf' NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "mime_type" text DEFAULT 'application/pdf' NOT NULL;
\ No newline at end of file
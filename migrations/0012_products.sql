@@ -0,0 +1,16 @@
+CREATE TABLE "products" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"cas_number" text,
+	"grade" text,
+	"supplier_mappings" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"specifications" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "products_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "product_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "product_match" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "suppliers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"aliases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"profile" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "suppliers_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "supplier_id" varchar;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "supplier_match" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_supplier_id_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."suppliers"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
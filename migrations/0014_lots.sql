@@ -0,0 +1,15 @@
+CREATE TABLE "lots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" varchar NOT NULL,
+	"lot_number" text NOT NULL,
+	"manufacture_date" date,
+	"expiry_date" date,
+	"retest_date" date,
+	"quantity" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "lots_document_id_unique" UNIQUE("document_id")
+);
+--> statement-breakpoint
+ALTER TABLE "lots" ADD CONSTRAINT "lots_document_id_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lots_lot_number_idx" ON "lots" USING btree ("lot_number");
\ No newline at end of file
@@ -0,0 +1,13 @@
+ALTER TABLE "document_templates" ADD COLUMN "document_class" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "document_class" text;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "class_match" text;--> statement-breakpoint
+-- Documents processed before classes existed keep the class their type names
+UPDATE "documents" SET "document_class" = CASE "extracted_data"->>'documentType'
+  WHEN 'Certificate of Analysis' THEN 'coa'
+  WHEN 'Safety Data Sheet' THEN 'sds'
+  WHEN 'Technical Data Sheet' THEN 'tds'
+  WHEN 'Specification Sheet' THEN 'specification'
+  WHEN 'Certificate of Origin' THEN 'certificate_of_origin'
+  WHEN 'Invoice' THEN 'invoice'
+END, "class_match" = 'detected'
+WHERE "extracted_data"->>'documentType' IN ('Certificate of Analysis', 'Safety Data Sheet', 'Technical Data Sheet', 'Specification Sheet', 'Certificate of Origin', 'Invoice');
@@ -0,0 +1,5 @@
+ALTER TABLE "settings" ADD COLUMN "mistral_model" text;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "encrypted_provider_api_key" text;--> statement-breakpoint
+-- A model saved while Mistral was selected was Mistral's. The stored key stays
+-- Mistral's: an OpenAI-compatible endpoint's key has to be entered again.
+UPDATE "settings" SET "mistral_model" = "provider_model", "provider_model" = NULL WHERE "extraction_provider" = 'mistral';
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+
+// The storage singleton must not reach a configured database
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+import { storage } from "./storage";
+import { bootstrapAdmin, comparePasswords, hashPassword, requireAuth, requirePermission } from "./auth";
+
+function call(middleware: (req: Request, res: Response, next: () => void) => unknown, req: Partial<Request>) {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  const next = vi.fn();
+  middleware(req as Request, res as unknown as Response, next);
+  return { res, next };
+}
+
+const signedIn = (role?: string): Partial<Request> => ({
+  isAuthenticated: (() => !!role) as Request["isAuthenticated"],
+  user: role ? { id: "user-1", username: "alice", role } as Express.User : undefined,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.ADMIN_USERNAME;
+});
+
+describe("requireAuth", () => {
+  it("lets signed-in users through and rejects others with 401", () => {
+    expect(call(requireAuth, signedIn("uploader")).next).toHaveBeenCalled();
+
+    const { res, next } = call(requireAuth, signedIn());
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe("requirePermission", () => {
+  it("lets roles with the permission through", () => {
+    expect(call(requirePermission("documents:approve"), signedIn("approver")).next).toHaveBeenCalled();
+    expect(call(requirePermission("documents:approve"), signedIn("admin")).next).toHaveBeenCalled();
+  });
+
+  it("rejects roles without the permission with 403", () => {
+    const { res, next } = call(requirePermission("documents:approve"), signedIn("reviewer"));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: "You do not have permission to perform this action" });
+    expect(call(requirePermission("documents:upload"), signedIn()).res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe("passwords", () => {
+  it("accepts only the password that was hashed", async () => {
+    const stored = await hashPassword("correct horse");
+    expect(await comparePasswords("correct horse", stored)).toBe(true);
+    expect(await comparePasswords("wrong horse", stored)).toBe(false);
+    expect(await comparePasswords("correct horse", "not-a-hash")).toBe(false);
+  });
+});
+
+describe("bootstrapAdmin", () => {
+  it("promotes the account named by ADMIN_USERNAME while no admin exists", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const alice = await storage.createUser({ username: "alice", password: "x", role: "uploader" });
+    const bob = await storage.createUser({ username: "bob", password: "x", role: "reviewer" });
+
+    await bootstrapAdmin();
+    expect((await storage.getUser(alice.id))?.role).toBe("uploader");
+    expect(console.warn).toHaveBeenCalled();
+
+    process.env.ADMIN_USERNAME = "alice";
+    await bootstrapAdmin();
+    expect((await storage.getUser(alice.id))?.role).toBe("admin");
+
+    // Once there is an admin, ADMIN_USERNAME changes nothing
+    process.env.ADMIN_USERNAME = "bob";
+    await bootstrapAdmin();
+    expect((await storage.getUser(bob.id))?.role).toBe("reviewer");
+  });
+});
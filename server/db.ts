@@ -0,0 +1,15 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Drizzle over any Postgres driver: node-postgres in the server, PGlite in tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string): pg.Pool {
+  return new pg.Pool({ connectionString });
+}
+
+export function createDatabase(pool: pg.Pool): Database {
+  return drizzle({ client: pool, schema });
+}
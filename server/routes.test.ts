@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { UserRole } from "@shared/schema";
+
+// The storage singleton must not reach a configured database
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+  process.env.SESSION_SECRET = "test";
+});
+
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { registerRoutes } from "./routes";
+
+let server: Server;
+let baseUrl: string;
+const cookies = new Map<UserRole, string>();
+const documentIds = new Map<UserRole, string>();
+
+async function request(method: string, path: string, role?: UserRole, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(role ? { cookie: cookies.get(role)! } : {}),
+      ...(body ? { "content-type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // One account and one uploaded document per role
+  for (const role of ["uploader", "reviewer", "approver", "admin"] as const) {
+    const user = await storage.createUser({ username: `${role}-user`, password: await hashPassword("password1"), role });
+    const response = await fetch(`${baseUrl}/api/login`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ username: user.username, password: "password1" }),
+    });
+    cookies.set(role, response.headers.get("set-cookie")!.split(";")[0]);
+    const document = await storage.createDocument({
+      originalFileName: `${role}.pdf`,
+      fileExtension: "pdf",
+      mimeType: "application/pdf",
+      userId: user.id,
+      status: "uploaded",
+    });
+    documentIds.set(role, document.id);
+  }
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("route permissions", () => {
+  it("rejects API requests without a session", async () => {
+    expect((await request("GET", "/api/documents")).status).toBe(401);
+  });
+
+  it("hides other users' documents from uploaders", async () => {
+    const own = await request("GET", `/api/documents/${documentIds.get("uploader")}`, "uploader");
+    expect(own.status).toBe(200);
+    expect((await request("GET", `/api/documents/${documentIds.get("reviewer")}`, "uploader")).status).toBe(404);
+
+    const listed = await (await request("GET", "/api/documents", "uploader")).json();
+    expect(listed.map((document: { id: string }) => document.id)).toEqual([documentIds.get("uploader")]);
+  });
+
+  it("shows every document to reviewers", async () => {
+    expect((await request("GET", `/api/documents/${documentIds.get("uploader")}`, "reviewer")).status).toBe(200);
+    expect(await (await request("GET", "/api/documents", "reviewer")).json()).toHaveLength(4);
+  });
+
+  it("limits routes to the roles with their permission", async () => {
+    expect((await request("GET", "/api/audit-log", "uploader")).status).toBe(403);
+    expect((await request("GET", "/api/audit-log", "reviewer")).status).toBe(200);
+    expect((await request("GET", "/api/users", "approver")).status).toBe(403);
+    expect((await request("GET", "/api/users", "admin")).status).toBe(200);
+    expect((await request("DELETE", `/api/documents/${documentIds.get("approver")}`, "approver")).status).toBe(403);
+  });
+
+  it("checks the permission of each review transition", async () => {
+    const reopen = { action: "reopen", comment: "Needs another look" };
+    expect((await request("POST", `/api/documents/${documentIds.get("reviewer")}/transitions`, "reviewer", reopen)).status).toBe(403);
+    expect((await request("POST", `/api/documents/${documentIds.get("reviewer")}/transitions`, "approver", reopen)).status).toBe(409);
+  });
+});
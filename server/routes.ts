@@ -4,49 +4,423 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { storage } from "./storage";
-import { insertDocumentSchema, insertSettingsSchema, extractedDataSchema } from "@shared/schema";
+import { setupAuth, bootstrapAdmin, requireAuth, requirePermission, toPublicUser } from "./auth";
+import { fromZodError } from "zod-validation-error";
+import { insertDocumentSchema, updateDocumentSchema, updateSettingsSchema, updateUserRoleSchema, reviewTransitionRequestSchema, auditLogQuerySchema, lotQuerySchema, type AuditAction, type ReviewStatus, insertCompanyProfileSchema, insertDocumentTemplateSchema, insertProductSchema, insertSupplierSchema, supplierProfileSchema, extractedDataSchema, type CompanyData, type Document, type ExtractedData, type ProductSpecification, type Settings, type TemplateDefinition, type DocumentClass } from "@shared/schema";
+import { diffExtractedData, reviewStartingPoint } from "@shared/diff";
+import { companyDataFromProfile } from "@shared/company";
+import { defaultTemplateDefinition, resolveTemplateDefinition } from "@shared/template";
+import { isJobFinished, type ProcessingJob } from "@shared/jobs";
+import { fileTypeByExtension, findFileType, stripFileExtension, type SupportedFileType } from "@shared/file-types";
+import { hasPermission } from "@shared/permissions";
+import { findTransition, isIssued, isReviewLocked, reviewStatusLabels } from "@shared/review";
+import { applyCatalogSpecifications } from "@shared/products";
+import { lotStatus, parseLotDetails, type LotSummary } from "@shared/lots";
+import { documentClassFromType, documentClassLabels } from "@shared/document-classes";
 import { MistralService } from "./services/mistral";
+import { OpenAICompatibleService } from "./services/openai-compatible";
+import { RuleBasedExtractor } from "./services/rule-based-extractor";
+import { ExtractionProviderRegistry, hasProviderApiKey, type ExtractionProvider, type ExtractionOptions, type SourceFile } from "./services/extraction-provider";
+import { ProcessingQueue } from "./services/processing-queue";
+import { matchProduct } from "./services/product-matcher";
+import { applySupplierProfile, detectSupplier, learnSupplierProfile } from "./services/supplier-profiles";
 import { DocumentGenerator } from "./services/document-generator.js";
 import { FileStorage } from "./services/file-storage.js";
+import { decryptSecret, encryptSecret, isEncryptedSecret, needsReencryption } from "./services/secret-cipher";
+import { readDocumentsFromZip, createZip, type ArchiveEntry } from "./services/zip-archive";
+
+const isSupportedFile = (file: any) => !!findFileType(file.originalname, file.mimetype);
+
+// Documents are limited to 10MB however they arrive, and a batch's documents
+// to 200MB together, counted after unpacking ZIP archives
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+const MAX_BATCH_SIZE = 200 * 1024 * 1024;
 
 const upload = multer({ 
   dest: "uploads/",
-  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  limits: { fileSize: MAX_DOCUMENT_SIZE },
   fileFilter: (req: any, file: any, cb: any) => {
-    if (file.mimetype === "application/pdf") {
+    if (isSupportedFile(file)) {
       cb(null, true);
     } else {
-      cb(new Error("Only PDF files are allowed"));
+      cb(new Error("Only PDF, Word, Excel and image (JPG, PNG, TIFF) files are allowed"));
     }
   }
 });
 
-const mistralService = new MistralService();
+const isZipFile = (file: any) =>
+  ["application/zip", "application/x-zip-compressed"].includes(file.mimetype) ||
+  file.originalname.toLowerCase().endsWith(".zip");
+
+// Batch uploads accept many documents and/or ZIP archives of documents
+const batchUpload = multer({
+  dest: "uploads/",
+  limits: { fileSize: 50 * 1024 * 1024, files: 100 }, // 50MB per file (ZIPs), 100 files
+  fileFilter: (req: any, file: any, cb: any) => {
+    if (isZipFile(file) || isSupportedFile(file)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only PDF, Word, Excel, image and ZIP files are allowed"));
+    }
+  }
+});
+
+const extractionProviders = new ExtractionProviderRegistry([
+  new MistralService(),
+  new OpenAICompatibleService(),
+  new RuleBasedExtractor(),
+]);
 const documentGenerator = new DocumentGenerator();
 const fileStorage = new FileStorage();
 
+// New documents take a snapshot of the default company profile, if any
+async function defaultCompanyData(): Promise<CompanyData | null> {
+  const profile = await storage.getDefaultCompanyProfile();
+  return profile ? companyDataFromProfile(profile) : null;
+}
+
+// Documents uploaded before any profile existed use the current default
+async function withCompanyData(document: Document): Promise<Document> {
+  return document.companyData ? document : { ...document, companyData: await defaultCompanyData() };
+}
+
+// Our catalog specifications replace the supplier's in generated files only;
+// documents without a linked product keep the supplier's
+async function withCatalogSpecs(document: Document): Promise<Document> {
+  const product = document.productId ? await storage.getProduct(document.productId) : undefined;
+  if (!product || !document.extractedData) return document;
+  const extractedData = applyCatalogSpecifications(extractedDataSchema.parse(document.extractedData), product.specifications as ProductSpecification[]);
+  return { ...document, extractedData };
+}
+
+// A template requested for this generation wins over the document's own
+// choice, then the template for its class, then the default template.
+// Returns undefined for an unknown id.
+async function templateFor(document: Document, requestedTemplateId?: string): Promise<TemplateDefinition | undefined> {
+  if (requestedTemplateId) {
+    const requested = await storage.getDocumentTemplate(requestedTemplateId);
+    return requested ? resolveTemplateDefinition(requested.definition) : undefined;
+  }
+
+  const template = (document.templateId && await storage.getDocumentTemplate(document.templateId))
+    || (document.documentClass && await storage.getDocumentTemplateForClass(document.documentClass as DocumentClass))
+    || await storage.getDefaultDocumentTemplate();
+  return template ? resolveTemplateDefinition(template.definition) : defaultTemplateDefinition;
+}
+
+// The catalog product an extracted document is for, or none
+async function matchedProductFor(data: ExtractedData): Promise<Pick<Document, "productId" | "productMatch">> {
+  const match = matchProduct(data, await storage.getProducts());
+  return { productId: match?.product.id || null, productMatch: match?.method || null };
+}
+
+// Links the document to the supplier named in its header, unless one was
+// chosen by hand, and applies what reviews of that supplier's documents taught
+async function withSupplierProfile(document: Document, data: ExtractedData): Promise<Pick<Document, "supplierId" | "supplierMatch"> & { extractedData: ExtractedData }> {
+  const chosen = document.supplierMatch === "manual" && document.supplierId ? await storage.getSupplier(document.supplierId) : undefined;
+  const supplier = chosen || detectSupplier(data, await storage.getSuppliers());
+  if (!supplier) {
+    return { extractedData: data, supplierId: null, supplierMatch: null };
+  }
+  return {
+    extractedData: applySupplierProfile(data, supplierProfileSchema.parse(supplier.profile)),
+    supplierId: supplier.id,
+    supplierMatch: chosen ? "manual" : "header"
+  };
+}
+
+// A reviewer's corrections to a supplier's document, compared with the
+// extraction they started from, update the supplier's profile. Failures are
+// logged rather than thrown: the edit itself has been saved.
+async function learnFromReview(document: Document, edited: ExtractedData) {
+  if (!document.supplierId) return;
+  try {
+    const supplier = await storage.getSupplier(document.supplierId);
+    const extraction = reviewStartingPoint(await storage.getDocumentRevisions(document.id));
+    if (!supplier || !extraction) return;
+
+    const current = supplierProfileSchema.parse(supplier.profile);
+    const profile = learnSupplierProfile(current, extractedDataSchema.parse(extraction.extractedData), edited);
+    if (JSON.stringify(profile) !== JSON.stringify(current)) {
+      await storage.updateSupplier(supplier.id, { profile });
+    }
+  } catch (error) {
+    console.error("Supplier profile error:", error);
+  }
+}
+
+// The document's lot record follows its extracted fields. Failures are logged
+// rather than thrown: the data itself has been saved.
+async function syncLot(documentId: string, data: ExtractedData) {
+  try {
+    const { lotNumber, ...details } = parseLotDetails(data);
+    await storage.setDocumentLot(documentId, lotNumber ? { lotNumber, ...details } : null);
+  } catch (error) {
+    console.error("Lot sync error:", error);
+  }
+}
+
+// Documents and batches belong to the user who uploaded them; those created
+// before accounts existed have no owner and stay visible to everyone.
+// Reviewers and above see everything so they can work on others' uploads.
+function isVisibleTo(user: Express.User, record: { userId: string | null }): boolean {
+  return !record.userId || record.userId === user.id || hasPermission(user.role, "documents:view-all");
+}
+
+function lockedMessage(document: Document): string {
+  const status = reviewStatusLabels[document.reviewStatus as ReviewStatus] || document.reviewStatus;
+  return document.reviewStatus === "approved"
+    ? `${status} documents cannot be changed until an approver reopens them`
+    : `${status} documents cannot be changed`;
+}
+
+// Audit failures are logged rather than thrown: the action they describe has
+// already happened and must not be reported as failed. A document id is looked
+// up so the entry keeps the file name.
+async function recordAudit(user: Express.User, action: AuditAction, document: Document | string, details?: Record<string, unknown>) {
+  try {
+    const target = typeof document === "string" ? await storage.getDocument(document) : document;
+    await storage.createAuditEntry({
+      action,
+      documentId: typeof document === "string" ? document : document.id,
+      documentName: target?.originalFileName || null,
+      userId: user.id,
+      username: user.username,
+      details: details || null
+    });
+  } catch (error) {
+    console.error("Audit log error:", error);
+  }
+}
+
+function generatedFileName(document: Document, format: string): string {
+  return `${stripFileExtension(document.originalFileName)}_company.${format}`;
+}
+
+function sourceFileFor(document: Document): SourceFile {
+  return {
+    path: fileStorage.getFilePath(document.id, document.fileExtension),
+    kind: fileTypeByExtension(document.fileExtension)?.kind || "pdf",
+    mimeType: document.mimeType
+  };
+}
+
+// Runs the provider and, when enabled in settings, falls back to the offline
+// rule-based extractor (e.g. when the API quota is exhausted or unreachable).
+async function extractWithFallback(provider: ExtractionProvider, file: SourceFile, settings: Settings | undefined, options: ExtractionOptions): Promise<ExtractedData> {
+  let extractedData: ExtractedData;
+  let providerId: string = provider.id;
+
+  try {
+    extractedData = await provider.processDocument(file, settings, options);
+  } catch (error: any) {
+    if (!settings?.offlineFallback || provider.id === "rule-based" || options.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`${provider.name} failed, falling back to rule-based extraction:`, error.message);
+    const fallback = extractionProviders.resolve("rule-based");
+    extractedData = await fallback.processDocument(file, settings, options);
+    providerId = fallback.id;
+  }
+
+  return {
+    ...extractedData,
+    metadata: { ...extractedData.metadata, provider: providerId }
+  };
+}
+
+// Background processing: extraction runs as a queued job and reports its
+// stages, so the HTTP request returns immediately.
+const processingQueue = new ProcessingQueue(async (job, { report, signal }) => {
+  const { documentId } = job;
+  const document = await storage.getDocument(documentId);
+  if (!document) {
+    throw new Error("Document not found");
+  }
+
+  // An approved or issued document's data is frozen, also when it was approved
+  // while this job waited or ran, so the lock is checked again before writing
+  let locked = false;
+  const checkNotLocked = async () => {
+    signal.throwIfAborted();
+    const current = await storage.getDocument(documentId);
+    if (current && isReviewLocked(current.reviewStatus)) {
+      locked = true;
+      throw new Error(lockedMessage(current));
+    }
+  };
+
+  try {
+    await checkNotLocked();
+    await storage.updateDocument(documentId, { status: "processing" });
+
+    // Get settings for provider configuration and API key
+    const settings = await storage.getSettings();
+    const provider = extractionProviders.resolve(job.provider || document.extractionProvider, settings);
+    if (provider.requiresApiKey && !hasProviderApiKey(settings, provider.id)) {
+      throw new Error(`${provider.name} API key not configured`);
+    }
+
+    // Extract text and data using the selected provider, as the class a
+    // reviewer chose or else the one the provider classifies it as
+    const chosenClass = document.classMatch === "manual" && document.documentClass ? document.documentClass as DocumentClass : undefined;
+    const extracted = await extractWithFallback(provider, sourceFileFor(document), settings, { onProgress: report, signal, documentClass: chosenClass });
+    signal.throwIfAborted();
+    const { extractedData, ...supplierLink } = await withSupplierProfile(document, extracted);
+    const productLink = document.productMatch === "manual" ? {} : await matchedProductFor(extractedData);
+
+    // Update document with extracted data; a product chosen by hand is kept.
+    // Every write checks for cancellation first, since a cancelled job's
+    // results must not reach the document.
+    await checkNotLocked();
+    await storage.updateDocument(documentId, {
+      extractedData,
+      status: "processed",
+      documentClass: chosenClass || documentClassFromType(extractedData.documentType),
+      classMatch: chosenClass ? "manual" : "detected",
+      ...supplierLink,
+      ...productLink
+    });
+    signal.throwIfAborted();
+    await syncLot(documentId, extractedData);
+
+    // Keep the untouched AI output as the baseline revision, and what the
+    // supplier profile changed in it as its own, so reviewers see both
+    await checkNotLocked();
+    await storage.createDocumentRevision({
+      documentId,
+      extractedData: extracted,
+      source: "extraction",
+      createdBy: null
+    });
+    if (JSON.stringify(extractedData) !== JSON.stringify(extracted)) {
+      await checkNotLocked();
+      await storage.createDocumentRevision({
+        documentId,
+        extractedData,
+        source: "supplier_profile",
+        createdBy: null
+      });
+    }
+  } catch (error: any) {
+    // A cancelled job leaves the document as it was before processing started,
+    // unless a newer job is already processing it
+    if (!signal.aborted) {
+      console.error("Processing error:", error);
+    }
+    const active = processingQueue.getActiveJobForDocument(documentId);
+    if (!active || active.id === job.id) {
+      await storage.updateDocument(documentId, { status: signal.aborted || locked ? document.status : "error" });
+    }
+    throw error;
+  }
+}, Math.max(1, Number(process.env.PROCESSING_CONCURRENCY) || 2));
+
+// Brings the stored API keys up to date at startup: plaintext keys and the old
+// base64 "encryption" are encrypted for the first time, and keys encrypted with
+// a rotated-out master key are re-encrypted with the current one.
+async function secureStoredApiKey() {
+  const settings = await storage.getSettings();
+  if (!settings) return;
+
+  const stored = settings.encryptedApiKey;
+  if (settings.apiKey || (stored && needsReencryption(stored))) {
+    const plaintext = settings.apiKey
+      || (isEncryptedSecret(stored!) ? decryptSecret(stored!) : Buffer.from(stored!, "base64").toString("utf-8"));
+    await storage.updateSettings({ apiKey: null, encryptedApiKey: encryptSecret(plaintext) });
+    console.log("Re-encrypted the stored API key with the current master key");
+  }
+
+  // The OpenAI-compatible key was only ever stored with AES-GCM
+  const providerKey = settings.encryptedProviderApiKey;
+  if (providerKey && needsReencryption(providerKey)) {
+    await storage.updateSettings({ encryptedProviderApiKey: encryptSecret(decryptSecret(providerKey)) });
+    console.log("Re-encrypted the stored provider API key with the current master key");
+  }
+}
+
+// Settings as sent to the client: which keys are saved, never the keys themselves
+function toPublicSettings(settings: Settings) {
+  const { apiKey, encryptedApiKey, encryptedProviderApiKey, ...safeSettings } = settings;
+  return {
+    ...safeSettings,
+    hasApiKey: hasProviderApiKey(settings, "mistral"),
+    hasProviderApiKey: hasProviderApiKey(settings, "openai-compatible"),
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Upload PDF document
-  app.post("/api/documents/upload", upload.single("file"), async (req: any, res) => {
+  await secureStoredApiKey();
+  await bootstrapAdmin();
+
+  // Login, logout and registration are the only anonymous endpoints
+  setupAuth(app);
+  app.use("/api", requireAuth);
+
+  // Other users' documents, batches and jobs answer 404 as if they did not
+  // exist; unknown ids fall through to the route's own 404.
+  app.use("/api/documents/:id", async (req, res, next) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (document && !isVisibleTo(req.user!, document)) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use("/api/batches/:id", async (req, res, next) => {
+    try {
+      const batch = await storage.getBatch(req.params.id);
+      if (batch && !isVisibleTo(req.user!, batch)) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.use("/api/jobs/:jobId", async (req, res, next) => {
+    try {
+      const job = processingQueue.get(req.params.jobId);
+      const document = job && await storage.getDocument(job.documentId);
+      if (document && !isVisibleTo(req.user!, document)) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Upload a PDF, Word, Excel or image document
+  app.post("/api/documents/upload", requirePermission("documents:upload"), upload.single("file"), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
+      const fileType = findFileType(req.file.originalname, req.file.mimetype)!;
       const document = await storage.createDocument({
         originalFileName: req.file.originalname,
+        fileExtension: fileType.extension,
+        mimeType: fileType.mimeType,
+        userId: req.user!.id,
         extractedData: null,
-        companyData: null,
+        companyData: await defaultCompanyData(),
         status: "uploaded"
       });
 
       // Store the file
-      await fileStorage.storeFile(document.id, req.file.path);
+      await fileStorage.storeFile(document.id, document.fileExtension, req.file.path);
       
       // Clean up temp file
       fs.unlinkSync(req.file.path);
 
+      await recordAudit(req.user!, "upload", document);
       res.json(document);
     } catch (error: any) {
       console.error("Upload error:", error);
@@ -54,60 +428,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Process document with Mistral AI
-  app.post("/api/documents/:id/process", async (req, res) => {
+  // Queue document processing with the configured extraction provider
+  app.post("/api/documents/:id/process", requirePermission("documents:upload"), async (req, res) => {
     try {
       const { id } = req.params;
+      const { provider: requestedProvider } = req.body || {};
       const document = await storage.getDocument(id);
       
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
 
-      // Update status to processing
-      await storage.updateDocument(id, { status: "processing" });
+      if (isReviewLocked(document.reviewStatus)) {
+        return res.status(409).json({ message: lockedMessage(document) });
+      }
 
-      // Get settings for API key
-      const settings = await storage.getSettings();
-      if (!settings?.apiKey && !settings?.encryptedApiKey) {
-        return res.status(400).json({ message: "Mistral API key not configured" });
+      if (requestedProvider && !extractionProviders.has(requestedProvider)) {
+        return res.status(400).json({ message: `Unknown extraction provider "${requestedProvider}"` });
       }
 
-      // Extract text and data using Mistral
-      const filePath = fileStorage.getFilePath(id);
-      const extractedData = await mistralService.processDocument(filePath, settings);
+      // Fail fast on a missing API key instead of queueing a doomed job
+      const settings = await storage.getSettings();
+      const provider = extractionProviders.resolve(requestedProvider || document.extractionProvider, settings);
+      if (provider.requiresApiKey && !hasProviderApiKey(settings, provider.id)) {
+        return res.status(400).json({ message: `${provider.name} API key not configured` });
+      }
 
-      // Update document with extracted data
-      const updatedDocument = await storage.updateDocument(id, {
-        extractedData,
-        status: "processed"
-      });
+      // Remember a per-document provider choice
+      if (requestedProvider) {
+        await storage.updateDocument(id, { extractionProvider: requestedProvider });
+      }
 
-      res.json(updatedDocument);
+      const job = processingQueue.enqueue(id, requestedProvider || null);
+      await recordAudit(req.user!, "process", document, { jobId: job.id, provider: requestedProvider || null });
+      res.status(202).json(job);
     } catch (error: any) {
-      console.error("Processing error:", error);
-      await storage.updateDocument(req.params.id, { status: "error" });
-      res.status(500).json({ message: "Processing failed", error: error.message });
+      console.error("Queue processing error:", error);
+      res.status(500).json({ message: "Failed to queue processing", error: error.message });
+    }
+  });
+
+  // Get processing job state
+  app.get("/api/jobs/:jobId", (req, res) => {
+    const job = processingQueue.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // Stream processing job progress as Server-Sent Events
+  app.get("/api/jobs/:jobId/events", (req, res) => {
+    const job = processingQueue.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    });
+
+    const send = (state: ProcessingJob) => {
+      res.write(`data: ${JSON.stringify(state)}\n\n`);
+      if (isJobFinished(state)) {
+        unsubscribe();
+        res.end();
+      }
+    };
+
+    const unsubscribe = processingQueue.subscribe(job.id, send);
+    req.on("close", unsubscribe);
+    send(job);
+  });
+
+  // Cancel a queued or running job
+  app.post("/api/jobs/:jobId/cancel", requirePermission("documents:upload"), async (req, res) => {
+    const job = processingQueue.cancel(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
     }
+    await recordAudit(req.user!, "cancel", job.documentId, { jobId: job.id });
+    res.json(job);
+  });
+
+  // Retry a finished job as a new job for the same document
+  app.post("/api/jobs/:jobId/retry", requirePermission("documents:upload"), async (req, res) => {
+    const previous = processingQueue.get(req.params.jobId);
+    if (!previous) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const document = await storage.getDocument(previous.documentId);
+    if (!document) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (isReviewLocked(document.reviewStatus)) {
+      return res.status(409).json({ message: lockedMessage(document) });
+    }
+
+    const job = processingQueue.retry(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    await recordAudit(req.user!, "retry", job.documentId, { jobId: job.id, retriedJobId: req.params.jobId });
+    res.status(202).json(job);
   });
 
   // Update document data
-  app.patch("/api/documents/:id", async (req, res) => {
+  app.patch("/api/documents/:id", requirePermission("documents:edit"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const result = updateDocumentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
 
-      // Validate extracted data if provided
-      if (updates.extractedData) {
-        const validData = extractedDataSchema.parse(updates.extractedData);
-        updates.extractedData = validData;
+      const existing = await storage.getDocument(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      // Saving to history changes nothing the document is generated from
+      const { status, ...changes } = result.data;
+      if (Object.keys(changes).length > 0 && isReviewLocked(existing.reviewStatus)) {
+        return res.status(409).json({ message: lockedMessage(existing) });
+      }
+
+      const updates: Partial<Document> = { ...result.data };
+
+      // A product set through an update was chosen by hand
+      if (changes.productId !== undefined) {
+        if (changes.productId && !await storage.getProduct(changes.productId)) {
+          return res.status(400).json({ message: "Product not found" });
+        }
+        updates.productId = changes.productId || null;
+        updates.productMatch = updates.productId ? "manual" : null;
+      }
+      if (changes.supplierId !== undefined) {
+        if (changes.supplierId && !await storage.getSupplier(changes.supplierId)) {
+          return res.status(400).json({ message: "Supplier not found" });
+        }
+        updates.supplierId = changes.supplierId || null;
+        updates.supplierMatch = updates.supplierId ? "manual" : null;
+      }
+      if (changes.templateId !== undefined) {
+        if (changes.templateId && !await storage.getDocumentTemplate(changes.templateId)) {
+          return res.status(400).json({ message: "Template not found" });
+        }
+        updates.templateId = changes.templateId || null;
       }
+      // A class chosen by hand is kept when reprocessing and renames the
+      // document's type; clearing it lets the next processing classify again
+      if (changes.documentClass !== undefined) {
+        updates.classMatch = changes.documentClass ? "manual" : null;
+        const data = changes.extractedData || existing.extractedData as ExtractedData | null;
+        if (changes.documentClass && data) {
+          updates.extractedData = { ...data, documentType: documentClassLabels[changes.documentClass] };
+        }
+      }
+      const extractedData = updates.extractedData as ExtractedData | undefined;
 
       const document = await storage.updateDocument(id, updates);
       if (!document) {
         return res.status(404).json({ message: "Document not found" });
       }
 
+      // Every save of extracted data is recorded as an immutable revision
+      if (extractedData) {
+        await storage.createDocumentRevision({
+          documentId: id,
+          extractedData,
+          source: "edit",
+          createdBy: req.user!.username
+        });
+        await syncLot(id, extractedData);
+        await learnFromReview(document, extractedData);
+      }
+
+      await recordAudit(req.user!, "edit", document, { fields: Object.keys(updates) });
       res.json(document);
     } catch (error: any) {
       console.error("Update error:", error);
@@ -115,35 +613,450 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List revisions of a document
+  app.get("/api/documents/:id/revisions", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const revisions = await storage.getDocumentRevisions(document.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Fetch revisions error:", error);
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  // Get single revision
+  app.get("/api/documents/:id/revisions/:revisionId", async (req, res) => {
+    try {
+      const revision = await storage.getDocumentRevision(req.params.revisionId);
+      if (!revision || revision.documentId !== req.params.id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Fetch revision error:", error);
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+
+  // Diff two revisions; "current" compares against the document's live data
+  app.get("/api/documents/:id/revisions/:fromId/diff/:toId", async (req, res) => {
+    try {
+      const { id, fromId, toId } = req.params;
+      const document = await storage.getDocument(id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const resolveSnapshot = async (revisionId: string): Promise<ExtractedData | undefined> => {
+        if (revisionId === "current") {
+          return document.extractedData ? document.extractedData as ExtractedData : undefined;
+        }
+        const revision = await storage.getDocumentRevision(revisionId);
+        if (!revision || revision.documentId !== id) return undefined;
+        return revision.extractedData as ExtractedData;
+      };
+
+      const before = await resolveSnapshot(fromId);
+      const after = await resolveSnapshot(toId);
+      if (!before || !after) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json(diffExtractedData(before, after));
+    } catch (error: any) {
+      console.error("Diff revisions error:", error);
+      res.status(500).json({ message: "Failed to diff revisions", error: error.message });
+    }
+  });
+
+  // Restore an old revision; the restore itself becomes a new revision
+  app.post("/api/documents/:id/revisions/:revisionId/restore", requirePermission("documents:edit"), async (req, res) => {
+    try {
+      const { id, revisionId } = req.params;
+      const revision = await storage.getDocumentRevision(revisionId);
+      if (!revision || revision.documentId !== id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const existing = await storage.getDocument(id);
+      if (existing && isReviewLocked(existing.reviewStatus)) {
+        return res.status(409).json({ message: lockedMessage(existing) });
+      }
+
+      const extractedData = extractedDataSchema.parse(revision.extractedData);
+      const document = await storage.updateDocument(id, { extractedData });
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      await storage.createDocumentRevision({
+        documentId: id,
+        extractedData,
+        source: "restore",
+        createdBy: req.user!.username
+      });
+      await syncLot(id, extractedData);
+
+      await recordAudit(req.user!, "restore", document, { revisionNumber: revision.revisionNumber });
+      res.json(document);
+    } catch (error: any) {
+      console.error("Restore revision error:", error);
+      res.status(500).json({ message: "Failed to restore revision", error: error.message });
+    }
+  });
+
+  // Review status history of a document
+  app.get("/api/documents/:id/transitions", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const transitions = await storage.getDocumentTransitions(document.id);
+      res.json(transitions);
+    } catch (error) {
+      console.error("Fetch transitions error:", error);
+      res.status(500).json({ message: "Failed to fetch review history" });
+    }
+  });
+
+  // Move a document through the review workflow; each action has its own permission
+  app.post("/api/documents/:id/transitions", async (req, res) => {
+    try {
+      const result = reviewTransitionRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const { action, comment } = result.data;
+      if (action === "issue") {
+        return res.status(400).json({ message: "Documents are issued by generating them as final" });
+      }
+
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const transition = findTransition(action);
+      if (!hasPermission(req.user!.role, transition.permission)) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      if (!transition.from.includes(document.reviewStatus as ReviewStatus)) {
+        const status = reviewStatusLabels[document.reviewStatus as ReviewStatus] || document.reviewStatus;
+        return res.status(409).json({ message: `Cannot ${transition.label.toLowerCase()} a document that is ${status.toLowerCase()}` });
+      }
+      if (transition.requiresComment && !comment) {
+        return res.status(400).json({ message: `A comment is required to ${transition.label.toLowerCase()}` });
+      }
+      if (action === "submit" && !document.extractedData) {
+        return res.status(400).json({ message: "Process the document before submitting it for review" });
+      }
+
+      const updated = await storage.transitionDocument({
+        documentId: document.id,
+        action,
+        fromStatus: document.reviewStatus,
+        toStatus: transition.to,
+        comment: comment || null,
+        createdBy: req.user!.username
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "The document's review status changed; reload and try again" });
+      }
+      await recordAudit(req.user!, "review", updated, { action, from: document.reviewStatus, to: transition.to, comment: comment || null });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Review transition error:", error);
+      res.status(500).json({ message: "Failed to update review status", error: error.message });
+    }
+  });
+
+  // Assign a document to a reviewer, or unassign it with assigneeId: null
+  app.put("/api/documents/:id/assignee", requirePermission("documents:edit"), async (req, res) => {
+    try {
+      const { assigneeId = null } = req.body || {};
+      const assignee = assigneeId ? await storage.getUser(assigneeId) : undefined;
+      if (assigneeId && (!assignee || !hasPermission(assignee.role, "documents:edit"))) {
+        return res.status(400).json({ message: "Documents can only be assigned to reviewers, approvers or admins" });
+      }
+
+      const existing = await storage.getDocument(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (isReviewLocked(existing.reviewStatus)) {
+        return res.status(409).json({ message: lockedMessage(existing) });
+      }
+
+      const document = await storage.updateDocument(req.params.id, { assigneeId });
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await recordAudit(req.user!, "assign", document, { assignee: assignee?.username || null });
+      res.json(document);
+    } catch (error: any) {
+      console.error("Assign document error:", error);
+      res.status(500).json({ message: "Failed to assign document", error: error.message });
+    }
+  });
+
   // Generate company document
-  app.post("/api/documents/:id/generate", async (req, res) => {
+  app.post("/api/documents/:id/generate", requirePermission("documents:generate"), async (req, res) => {
     try {
       const { id } = req.params;
-      const { format = "pdf" } = req.body; // pdf or docx
+      const { format = "pdf", templateId, final = false, useCatalogSpecs = false } = req.body; // pdf or docx, optional template override
       
       const document = await storage.getDocument(id);
       if (!document || !document.extractedData) {
         return res.status(404).json({ message: "Document not found or not processed" });
       }
 
-      const generatedFile = await documentGenerator.generateDocument(document, format);
-      
-      // Set appropriate headers
-      const filename = `${document.originalFileName.replace('.pdf', '')}_company.${format}`;
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (useCatalogSpecs && !document.productId) {
+        return res.status(400).json({ message: "Link the document to a catalog product to use its specifications" });
+      }
+
+      // Final issuance is the "issue" transition and needs an approved document
+      const issue = findTransition("issue");
+      if (final && !issue.from.includes(document.reviewStatus as ReviewStatus)) {
+        return res.status(409).json({ message: "Only approved documents can be issued" });
+      }
+
+      const template = await templateFor(document, templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const generatedFile = await documentGenerator.generateDocument(await withCompanyData(useCatalogSpecs ? await withCatalogSpecs(document) : document), format, template);
+
+      // Headers are set before issuing, so a document is only issued once its
+      // file can be sent; the name may hold characters a plain filename cannot
+      const filename = generatedFileName(document, format);
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
       res.setHeader('Content-Type', format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
-      
+
+      if (final) {
+        const issued = await storage.transitionDocument({
+          documentId: id,
+          action: issue.action,
+          fromStatus: document.reviewStatus,
+          toStatus: issue.to,
+          comment: `Issued as ${format.toUpperCase()}`,
+          createdBy: req.user!.username
+        });
+        if (!issued) {
+          res.removeHeader('Content-Disposition');
+          return res.status(409).json({ message: "The document's review status changed; reload and try again" });
+        }
+      }
+      await recordAudit(req.user!, "generate", document, { format, final, templateId: templateId || null, useCatalogSpecs });
+
       res.send(generatedFile);
     } catch (error: any) {
       console.error("Generation error:", error);
+      res.removeHeader('Content-Disposition');
       res.status(500).json({ message: "Generation failed", error: error.message });
     }
   });
 
+  // Upload several documents and/or ZIP archives as one batch
+  app.post("/api/batches", requirePermission("documents:upload"), batchUpload.array("files", 100), async (req: any, res) => {
+    const files: any[] = req.files || [];
+    try {
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const uploads: (ArchiveEntry & { fileType: SupportedFileType })[] = [];
+      const skipped: string[] = [];
+      let totalSize = 0;
+      for (const file of files) {
+        if (!isZipFile(file)) {
+          if (file.size > MAX_DOCUMENT_SIZE) {
+            skipped.push(`${file.originalname}: file is too large`);
+          } else if (totalSize + file.size > MAX_BATCH_SIZE) {
+            skipped.push(`${file.originalname}: upload size limit reached`);
+          } else {
+            totalSize += file.size;
+            uploads.push({
+              name: file.originalname,
+              data: await fs.promises.readFile(file.path),
+              fileType: findFileType(file.originalname, file.mimetype)!
+            });
+          }
+          continue;
+        }
+        try {
+          const { entries, skipped: skippedEntries } = await readDocumentsFromZip(file.path, {
+            maxEntrySize: MAX_DOCUMENT_SIZE,
+            maxTotalSize: MAX_BATCH_SIZE - totalSize
+          });
+          if (entries.length === 0 && skippedEntries.length === 0) {
+            skipped.push(`${file.originalname}: no supported documents found`);
+          }
+          skipped.push(...skippedEntries.map(reason => `${file.originalname}/${reason}`));
+          totalSize += entries.reduce((sum, entry) => sum + entry.data.length, 0);
+          uploads.push(...entries.map(entry => ({ ...entry, fileType: findFileType(entry.name)! })));
+        } catch (error: any) {
+          skipped.push(`${file.originalname}: could not read archive`);
+        }
+      }
+
+      if (uploads.length === 0) {
+        return res.status(400).json({ message: "No supported documents found in upload", skipped });
+      }
+
+      const batch = await storage.createBatch({
+        name: req.body?.name?.trim() || `Batch of ${uploads.length} documents`,
+        userId: req.user!.id
+      });
+
+      const companyData = await defaultCompanyData();
+      const documents = [];
+      for (const entry of uploads) {
+        const document = await storage.createDocument({
+          originalFileName: entry.name,
+          fileExtension: entry.fileType.extension,
+          mimeType: entry.fileType.mimeType,
+          userId: req.user!.id,
+          extractedData: null,
+          companyData,
+          status: "uploaded",
+          batchId: batch.id
+        });
+        await fileStorage.storeBuffer(document.id, document.fileExtension, entry.data);
+        await recordAudit(req.user!, "upload", document, { batchId: batch.id });
+        documents.push(document);
+      }
+
+      res.json({ batch, documents, skipped });
+    } catch (error: any) {
+      console.error("Batch upload error:", error);
+      res.status(500).json({ message: "Batch upload failed", error: error.message });
+    } finally {
+      // Clean up temp files
+      files.forEach(file => fs.promises.unlink(file.path).catch(() => {}));
+    }
+  });
+
+  // Get all batches
+  app.get("/api/batches", async (req, res) => {
+    try {
+      const batches = hasPermission(req.user!.role, "documents:view-all")
+        ? await storage.getAllBatches()
+        : await storage.getUserBatches(req.user!.id);
+      res.json(batches);
+    } catch (error) {
+      console.error("Fetch batches error:", error);
+      res.status(500).json({ message: "Failed to fetch batches" });
+    }
+  });
+
+  // Get a batch with the status of each document and its latest job
+  app.get("/api/batches/:id", async (req, res) => {
+    try {
+      const batch = await storage.getBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const documents = await storage.getBatchDocuments(batch.id);
+      res.json({
+        ...batch,
+        documents: documents.map(document => ({
+          ...document,
+          job: processingQueue.getLatestJobForDocument(document.id) || null
+        }))
+      });
+    } catch (error) {
+      console.error("Fetch batch error:", error);
+      res.status(500).json({ message: "Failed to fetch batch" });
+    }
+  });
+
+  // Queue every unprocessed document of a batch; the queue limits concurrency
+  app.post("/api/batches/:id/process", requirePermission("documents:upload"), async (req, res) => {
+    try {
+      const batch = await storage.getBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const settings = await storage.getSettings();
+      const documents = await storage.getBatchDocuments(batch.id);
+      const pending = documents.filter(document => document.status !== "processed" && !isReviewLocked(document.reviewStatus));
+      for (const document of pending) {
+        const provider = extractionProviders.resolve(document.extractionProvider, settings);
+        if (provider.requiresApiKey && !hasProviderApiKey(settings, provider.id)) {
+          return res.status(400).json({ message: `${provider.name} API key not configured` });
+        }
+      }
+
+      const jobs = [];
+      for (const document of pending) {
+        const job = processingQueue.enqueue(document.id);
+        await recordAudit(req.user!, "process", document, { jobId: job.id, batchId: batch.id });
+        jobs.push(job);
+      }
+      res.status(202).json(jobs);
+    } catch (error: any) {
+      console.error("Queue batch processing error:", error);
+      res.status(500).json({ message: "Failed to queue batch processing", error: error.message });
+    }
+  });
+
+  // Generate company documents for every processed document as one ZIP
+  app.post("/api/batches/:id/generate", requirePermission("documents:generate"), async (req, res) => {
+    try {
+      const { format = "pdf", templateId, useCatalogSpecs = false } = req.body; // pdf or docx, optional template override
+      const batch = await storage.getBatch(req.params.id);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+
+      const documents = (await storage.getBatchDocuments(batch.id)).filter(document => document.extractedData);
+      if (documents.length === 0) {
+        return res.status(400).json({ message: "No processed documents in batch" });
+      }
+
+      const entries: ArchiveEntry[] = [];
+      for (const document of documents) {
+        const template = await templateFor(document, templateId);
+        if (!template) {
+          return res.status(404).json({ message: "Template not found" });
+        }
+        entries.push({
+          name: generatedFileName(document, format),
+          data: await documentGenerator.generateDocument(await withCompanyData(useCatalogSpecs ? await withCatalogSpecs(document) : document), format, template)
+        });
+      }
+      const archive = await createZip(entries);
+      for (const document of documents) {
+        await recordAudit(req.user!, "generate", document, { format, batchId: batch.id, templateId: templateId || null, useCatalogSpecs });
+      }
+
+      const filename = `${batch.name.replace(/[^\w\- ]+/g, "_")}.zip`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.send(archive);
+    } catch (error: any) {
+      console.error("Batch generation error:", error);
+      res.status(500).json({ message: "Batch generation failed", error: error.message });
+    }
+  });
+
   // Get all documents
   app.get("/api/documents", async (req, res) => {
     try {
-      const documents = await storage.getAllDocuments();
+      const documents = hasPermission(req.user!.role, "documents:view-all")
+        ? await storage.getAllDocuments()
+        : await storage.getUserDocuments(req.user!.id);
       res.json(documents);
     } catch (error) {
       console.error("Fetch documents error:", error);
@@ -165,13 +1078,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream the original upload, e.g. to show a field's source page while reviewing
+  app.get("/api/documents/:id/file", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document || !(await fileStorage.fileExists(document.id, document.fileExtension))) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const { size } = await fs.promises.stat(fileStorage.getFilePath(document.id, document.fileExtension));
+      await recordAudit(req.user!, "download", document);
+      res.setHeader("Content-Type", document.mimeType);
+      res.setHeader("Content-Length", size);
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(document.originalFileName)}`);
+      res.setHeader("Cache-Control", "private, max-age=3600"); // uploads never change
+      fileStorage.openReadStream(document.id, document.fileExtension)
+        .on("error", (error) => {
+          console.error("Stream document file error:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      console.error("Fetch document file error:", error);
+      res.status(500).json({ message: "Failed to fetch document file" });
+    }
+  });
+
   // Delete document
-  app.delete("/api/documents/:id", async (req, res) => {
+  app.delete("/api/documents/:id", requirePermission("documents:delete"), async (req, res) => {
     try {
       const { id } = req.params;
+      const document = await storage.getDocument(id);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      // Issued documents are the record of what was sent out
+      if (isIssued(document.reviewStatus)) {
+        return res.status(409).json({ message: `${reviewStatusLabels[document.reviewStatus as ReviewStatus]} documents cannot be deleted` });
+      }
       
       // Delete file from storage
-      await fileStorage.deleteFile(id);
+      await fileStorage.deleteFile(id, document.fileExtension);
       
       // Delete from database
       const deleted = await storage.deleteDocument(id);
@@ -179,6 +1126,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Document not found" });
       }
 
+      await recordAudit(req.user!, "delete", document);
       res.json({ message: "Document deleted successfully" });
     } catch (error) {
       console.error("Delete error:", error);
@@ -186,49 +1134,429 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Search the lots of the documents the user can see by lot number and status
+  app.get("/api/lots", async (req, res) => {
+    try {
+      const result = lotQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const documents = hasPermission(req.user!.role, "documents:view-all")
+        ? await storage.getAllDocuments()
+        : await storage.getUserDocuments(req.user!.id);
+      const documentsById = new Map(documents.map(document => [document.id, document]));
+      const productNames = new Map((await storage.getProducts()).map(product => [product.id, product.name]));
+      const supplierNames = new Map((await storage.getSuppliers()).map(supplier => [supplier.id, supplier.name]));
+
+      const lots: LotSummary[] = [];
+      for (const lot of await storage.getLots(result.data)) {
+        const document = documentsById.get(lot.documentId);
+        const status = lotStatus(lot);
+        if (!document || (result.data.status && status !== result.data.status)) continue;
+        lots.push({
+          ...lot,
+          documentName: document.originalFileName,
+          productName: (document.productId && productNames.get(document.productId)) || null,
+          supplierName: (document.supplierId && supplierNames.get(document.supplierId)) || null,
+          status,
+        });
+      }
+      res.json(lots);
+    } catch (error) {
+      console.error("Fetch lots error:", error);
+      res.status(500).json({ message: "Failed to fetch lots" });
+    }
+  });
+
+  // Query the audit log by document, user and date range
+  app.get("/api/audit-log", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const result = auditLogQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const entries = await storage.getAuditLog(result.data);
+      res.json(entries);
+    } catch (error) {
+      console.error("Fetch audit log error:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // List company profiles
+  app.get("/api/company-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.getCompanyProfiles();
+      res.json(profiles);
+    } catch (error) {
+      console.error("Fetch company profiles error:", error);
+      res.status(500).json({ message: "Failed to fetch company profiles" });
+    }
+  });
+
+  // Create company profile
+  app.post("/api/company-profiles", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertCompanyProfileSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const profile = await storage.createCompanyProfile(result.data);
+      res.status(201).json(profile);
+    } catch (error: any) {
+      console.error("Create company profile error:", error);
+      res.status(500).json({ message: "Failed to create company profile", error: error.message });
+    }
+  });
+
+  // Update company profile
+  app.patch("/api/company-profiles/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertCompanyProfileSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const profile = await storage.updateCompanyProfile(req.params.id, result.data);
+      if (!profile) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+      res.json(profile);
+    } catch (error: any) {
+      console.error("Update company profile error:", error);
+      res.status(500).json({ message: "Failed to update company profile", error: error.message });
+    }
+  });
+
+  // Delete company profile; documents keep their branding snapshot
+  app.delete("/api/company-profiles/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCompanyProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+      res.json({ message: "Company profile deleted successfully" });
+    } catch (error) {
+      console.error("Delete company profile error:", error);
+      res.status(500).json({ message: "Failed to delete company profile" });
+    }
+  });
+
+  // Apply a company profile to a document
+  app.put("/api/documents/:id/company-profile", requirePermission("documents:edit"), async (req, res) => {
+    try {
+      const { profileId } = req.body || {};
+      const profile = profileId ? await storage.getCompanyProfile(profileId) : undefined;
+      if (!profile) {
+        return res.status(404).json({ message: "Company profile not found" });
+      }
+
+      const existing = await storage.getDocument(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (isReviewLocked(existing.reviewStatus)) {
+        return res.status(409).json({ message: lockedMessage(existing) });
+      }
+
+      const document = await storage.updateDocument(req.params.id, { companyData: companyDataFromProfile(profile) });
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await recordAudit(req.user!, "apply_profile", document, { profile: profile.name });
+      res.json(document);
+    } catch (error: any) {
+      console.error("Apply company profile error:", error);
+      res.status(500).json({ message: "Failed to apply company profile", error: error.message });
+    }
+  });
+
+  // List document templates
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const templates = await storage.getDocumentTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Fetch templates error:", error);
+      res.status(500).json({ message: "Failed to fetch templates" });
+    }
+  });
+
+  // Create document template
+  app.post("/api/templates", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertDocumentTemplateSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const template = await storage.createDocumentTemplate(result.data);
+      res.status(201).json(template);
+    } catch (error: any) {
+      console.error("Create template error:", error);
+      res.status(500).json({ message: "Failed to create template", error: error.message });
+    }
+  });
+
+  // Update document template
+  app.patch("/api/templates/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertDocumentTemplateSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const template = await storage.updateDocumentTemplate(req.params.id, result.data);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(template);
+    } catch (error: any) {
+      console.error("Update template error:", error);
+      res.status(500).json({ message: "Failed to update template", error: error.message });
+    }
+  });
+
+  // Delete document template; documents using it fall back to the default
+  app.delete("/api/templates/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDocumentTemplate(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json({ message: "Template deleted successfully" });
+    } catch (error) {
+      console.error("Delete template error:", error);
+      res.status(500).json({ message: "Failed to delete template" });
+    }
+  });
+
+  // List catalog products
+  app.get("/api/products", async (req, res) => {
+    try {
+      const products = await storage.getProducts();
+      res.json(products);
+    } catch (error) {
+      console.error("Fetch products error:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  // Create catalog product
+  app.post("/api/products", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertProductSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      if (await storage.getProductByCode(result.data.code)) {
+        return res.status(409).json({ message: `A product with code ${result.data.code} already exists` });
+      }
+
+      const product = await storage.createProduct(result.data);
+      res.status(201).json(product);
+    } catch (error: any) {
+      console.error("Create product error:", error);
+      res.status(500).json({ message: "Failed to create product", error: error.message });
+    }
+  });
+
+  // Update catalog product
+  app.patch("/api/products/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertProductSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      const sameCode = result.data.code ? await storage.getProductByCode(result.data.code) : undefined;
+      if (sameCode && sameCode.id !== req.params.id) {
+        return res.status(409).json({ message: `A product with code ${result.data.code} already exists` });
+      }
+
+      const product = await storage.updateProduct(req.params.id, result.data);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error: any) {
+      console.error("Update product error:", error);
+      res.status(500).json({ message: "Failed to update product", error: error.message });
+    }
+  });
+
+  // Delete catalog product; documents linked to it are left without a product
+  app.delete("/api/products/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteProduct(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json({ message: "Product deleted successfully" });
+    } catch (error) {
+      console.error("Delete product error:", error);
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // List suppliers
+  app.get("/api/suppliers", async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Fetch suppliers error:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  // Create supplier
+  app.post("/api/suppliers", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertSupplierSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      if (await storage.getSupplierByName(result.data.name)) {
+        return res.status(409).json({ message: `A supplier named ${result.data.name} already exists` });
+      }
+
+      const supplier = await storage.createSupplier(result.data);
+      res.status(201).json(supplier);
+    } catch (error: any) {
+      console.error("Create supplier error:", error);
+      res.status(500).json({ message: "Failed to create supplier", error: error.message });
+    }
+  });
+
+  // Update supplier, including its learned profile
+  app.patch("/api/suppliers/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const result = insertSupplierSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      const sameName = result.data.name ? await storage.getSupplierByName(result.data.name) : undefined;
+      if (sameName && sameName.id !== req.params.id) {
+        return res.status(409).json({ message: `A supplier named ${result.data.name} already exists` });
+      }
+
+      const supplier = await storage.updateSupplier(req.params.id, result.data);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error: any) {
+      console.error("Update supplier error:", error);
+      res.status(500).json({ message: "Failed to update supplier", error: error.message });
+    }
+  });
+
+  // Delete supplier; documents linked to it are left without a supplier
+  app.delete("/api/suppliers/:id", requirePermission("settings:manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSupplier(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json({ message: "Supplier deleted successfully" });
+    } catch (error) {
+      console.error("Delete supplier error:", error);
+      res.status(500).json({ message: "Failed to delete supplier" });
+    }
+  });
+
   // Settings endpoints
   app.get("/api/settings", async (req, res) => {
     try {
       const settings = await storage.getSettings();
-      // Don't send API key in response
-      if (settings) {
-        const { apiKey, encryptedApiKey, ...safeSettings } = settings;
-        res.json({ ...safeSettings, hasApiKey: !!(apiKey || encryptedApiKey) });
-      } else {
-        res.json({ hasApiKey: false });
-      }
+      res.json(settings ? toPublicSettings(settings) : { hasApiKey: false, hasProviderApiKey: false });
     } catch (error) {
       console.error("Get settings error:", error);
       res.status(500).json({ message: "Failed to get settings" });
     }
   });
 
-  app.post("/api/settings", async (req, res) => {
+  app.post("/api/settings", requirePermission("settings:manage"), async (req, res) => {
     try {
-      const validSettings = insertSettingsSchema.parse(req.body);
-      const settings = await storage.updateSettings(validSettings);
-      
-      // Don't send API key in response
-      const { apiKey, encryptedApiKey, ...safeSettings } = settings;
-      res.json({ ...safeSettings, hasApiKey: !!(apiKey || encryptedApiKey) });
+      // Raw keys only ever arrive in a request; they are stored encrypted
+      const { apiKey: submittedKey, providerApiKey: submittedProviderKey, ...validSettings } = updateSettingsSchema.parse(req.body);
+      const settings = await storage.updateSettings({
+        ...validSettings,
+        ...(submittedKey === undefined ? {} : { apiKey: null, encryptedApiKey: submittedKey ? encryptSecret(submittedKey) : null }),
+        ...(submittedProviderKey === undefined ? {} : { encryptedProviderApiKey: submittedProviderKey ? encryptSecret(submittedProviderKey) : null }),
+      });
+
+      res.json(toPublicSettings(settings));
     } catch (error: any) {
       console.error("Update settings error:", error);
       res.status(500).json({ message: "Failed to update settings", error: error.message });
     }
   });
 
+  // List available extraction providers
+  app.get("/api/extraction-providers", async (req, res) => {
+    res.json(extractionProviders.list().map(({ id, name, requiresApiKey }) => ({ id, name, requiresApiKey })));
+  });
+
+  // List user accounts and their roles
+  app.get("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Fetch users error:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Users a document can be assigned to for review
+  app.get("/api/users/assignees", requirePermission("documents:edit"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.filter(user => hasPermission(user.role, "documents:edit")).map(toPublicUser));
+    } catch (error) {
+      console.error("Fetch assignees error:", error);
+      res.status(500).json({ message: "Failed to fetch assignees" });
+    }
+  });
+
+  // Change a user's role; admins cannot change their own, so one always remains
+  app.patch("/api/users/:id/role", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const result = updateUserRoleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+
+      const user = await storage.updateUserRole(req.params.id, result.data.role);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      console.error("Update user role error:", error);
+      res.status(500).json({ message: "Failed to update user role", error: error.message });
+    }
+  });
+
   // Test API connection
-  app.post("/api/settings/test", async (req, res) => {
+  app.post("/api/settings/test", requirePermission("settings:manage"), async (req, res) => {
     try {
       const settings = await storage.getSettings();
-      if (!settings?.apiKey && !settings?.encryptedApiKey) {
+      const provider = extractionProviders.resolve(null, settings);
+      if (provider.requiresApiKey && !hasProviderApiKey(settings, provider.id)) {
         return res.status(400).json({ message: "API key not configured" });
       }
 
-      const isConnected = await mistralService.testConnection(settings);
+      const isConnected = await provider.testConnection(settings);
       
       await storage.updateSettings({
-        ...settings,
         connectionStatus: isConnected ? "connected" : "failed"
       });
 
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { classifyDocument } from "./document-classifier";
+
+const text = (...lines: string[]) => lines.join("\n");
+
+describe("classifyDocument", () => {
+  it("classifies documents by their title", () => {
+    expect(classifyDocument(text("CERTIFICATE OF ANALYSIS", "Product: Sodium Hyaluronate"))).toBe("coa");
+    expect(classifyDocument(text("SAFETY DATA SHEET", "according to Regulation (EC) No 1907/2006"))).toBe("sds");
+    expect(classifyDocument(text("Technical Data Sheet", "Sodium Hyaluronate"))).toBe("tds");
+    expect(classifyDocument(text("PRODUCT SPECIFICATION", "Sodium Hyaluronate"))).toBe("specification");
+    expect(classifyDocument(text("CERTIFICATE OF ORIGIN", "Goods: Sodium Hyaluronate"))).toBe("certificate_of_origin");
+    expect(classifyDocument(text("COMMERCIAL INVOICE", "Goods: Sodium Hyaluronate"))).toBe("invoice");
+  });
+
+  it("reads titles that lost their spaces", () => {
+    expect(classifyDocument("Certificateofanalysis\nBatchNo: 240115")).toBe("coa");
+    expect(classifyDocument("SafetyDataSheet\nProduct: Glycerol")).toBe("sds");
+  });
+
+  it("classifies untitled documents by their wording", () => {
+    expect(classifyDocument(text(
+      "Section 2 Hazards identification",
+      "Section 4 First-aid measures",
+      "Section 5 Fire-fighting measures",
+    ))).toBe("sds");
+    expect(classifyDocument(text("Invoice No: 1042", "Unit price 12.00", "Grand total 1,200.00", "Payment terms: 30 days"))).toBe("invoice");
+  });
+
+  it("does not take a COA's Specification column for a title", () => {
+    expect(classifyDocument(text(
+      "Quality report",
+      "Batch No: 240115",
+      "Test items     Specification     Results",
+      "Appearance     White powder      Conforms",
+    ))).toBe("coa");
+    expect(classifyDocument(text("Specifications", "Appearance: White powder"))).toBe("specification");
+  });
+
+  it("decides between two titles by the wording", () => {
+    const sds = text(
+      "SAFETY DATA SHEET",
+      "A certificate of analysis is available on request",
+      "Hazards identification",
+      "First-aid measures",
+    );
+    expect(classifyDocument(sds)).toBe("sds");
+  });
+
+  it("looks for titles near the top only", () => {
+    const late = text("Results", "x".repeat(2500), "SAFETY DATA SHEET");
+    expect(classifyDocument(late)).toBe("coa");
+  });
+
+  it("reads text without any evidence as a certificate of analysis", () => {
+    expect(classifyDocument("")).toBe("coa");
+    expect(classifyDocument("Hello world")).toBe("coa");
+  });
+});
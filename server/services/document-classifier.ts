@@ -0,0 +1,101 @@
+import { documentClasses, type DocumentClass } from "@shared/schema";
+
+interface ClassEvidence {
+  title: RegExp; // looked for near the top of the first page
+  cues: RegExp[]; // wording typical of the class, anywhere in the text
+}
+
+// PDF text often loses its spaces ("Certificateofanalysis"), hence \s*
+const CLASS_EVIDENCE: Record<DocumentClass, ClassEvidence> = {
+  coa: {
+    title: /certificate\s*of\s*analys[ie]s|analysis\s*certificate|\bC\.?O\.?A\b|quality\s*certificate|certificate\s*of\s*quality|inspection\s*certificate/i,
+    cues: [
+      /\bresults?\b/i,
+      /\b(conforms?|complies|passes)\b/i,
+      /test\s*items?|analysis\s*items?|tests?\s*performed/i,
+      /(batch|lot)\s*(no|number|#)/i,
+      /\bconclusion\b/i,
+    ],
+  },
+  sds: {
+    title: /safety\s*data\s*sheet|\bM?SDS\b/i,
+    cues: [
+      /hazards?\s*identification/i,
+      /first[\s-]*aid/i,
+      /fire[\s-]*fighting/i,
+      /accidental\s*release/i,
+      /exposure\s*controls?/i,
+      /toxicological/i,
+      /ecological/i,
+      /transport\s*information/i,
+    ],
+  },
+  tds: {
+    title: /technical\s*data\s*sheet|\bTDS\b|product\s*data\s*sheet|technical\s*information/i,
+    cues: [
+      /typical\s*(properties|values|data)/i,
+      /\bapplications?\b/i,
+      /recommended\s*(use|dosage|dose|level)/i,
+      /\b(features|benefits)\b/i,
+      /directions\s*for\s*use|how\s*to\s*use|usage\s*level/i,
+    ],
+  },
+  specification: {
+    // A COA's "Specification" column is not a title: it must stand alone on its line
+    title: /product\s*specification|specification\s*sheet|technical\s*specification|sales\s*specification|^\s*specifications?\s*$/im,
+    cues: [
+      /acceptance\s*criteria/i,
+      /specification\s*limits?|\blimits?\b/i,
+      /test\s*methods?|analytical\s*methods?/i,
+    ],
+  },
+  certificate_of_origin: {
+    title: /certificate\s*of\s*origin/i,
+    cues: [
+      /country\s*of\s*origin/i,
+      /\bexporter\b/i,
+      /\bconsignee\b/i,
+      /chamber\s*of\s*commerce/i,
+      /\bHS\s*code|harmoni[sz]ed\s*(system|code)/i,
+      /means\s*of\s*transport|port\s*of\s*(loading|discharge)/i,
+    ],
+  },
+  invoice: {
+    title: /commercial\s*invoice|pro\s*-?\s*forma\s*invoice|tax\s*invoice|^\s*invoice\b/im,
+    cues: [
+      /invoice\s*(no|number|date|#)/i,
+      /unit\s*price/i,
+      /total\s*amount|sub\s*-?\s*total|amount\s*due|grand\s*total/i,
+      /payment\s*terms|terms\s*of\s*payment/i,
+      /\bincoterms?\b|\b(FOB|CIF|EXW|CFR|DAP|DDP)\b/,
+      /bank\s*(details|account)|\bIBAN\b|\bSWIFT\b/i,
+    ],
+  },
+};
+
+// A title outweighs any one class's cues together, unless another class's
+// title is there too
+const TITLE_WEIGHT = 5;
+const CUE_WEIGHT = 1;
+const TITLE_WITHIN = 2000;
+
+/**
+ * Decides what kind of document the text is, before it is structured, from
+ * its title and its wording. Ties go to the class listed first, and text with
+ * no evidence at all is read as a Certificate of Analysis.
+ */
+export function classifyDocument(text: string): DocumentClass {
+  const top = text.slice(0, TITLE_WITHIN);
+  let best: DocumentClass = "coa";
+  let bestScore = 0;
+
+  for (const documentClass of documentClasses) {
+    const { title, cues } = CLASS_EVIDENCE[documentClass];
+    const score = (title.test(top) ? TITLE_WEIGHT : 0) + cues.filter(cue => cue.test(text)).length * CUE_WEIGHT;
+    if (score > bestScore) {
+      best = documentClass;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -1,20 +1,60 @@
-import { Document, DynamicField } from "@shared/schema";
+import { Document, DynamicField, CompanyData, TemplateDefinition } from "@shared/schema";
+import { resolveCompanyData, companyFonts, companyContactLine } from "@shared/company";
+import { defaultTemplateDefinition, layoutSections, countFields, templateTitle } from "@shared/template";
+import { complianceColors, complianceStatusLabels, evaluateTable } from "@shared/compliance";
 import PDFDocument from "pdfkit";
-import { Document as DocxDocument, Packer, Paragraph, TextRun, HeadingLevel } from "docx";
+import { Document as DocxDocument, Packer, Paragraph, TextRun, HeadingLevel, ImageRun, Footer, PageNumber, AlignmentType, Table, TableRow, TableCell, WidthType, BorderStyle, ShadingType } from "docx";
+
+interface LogoImage {
+  type: "png" | "jpg";
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Decodes the profile logo data URL and reads its pixel size from the PNG
+// IHDR chunk or the JPEG SOF marker, which DOCX needs to keep the aspect ratio.
+function decodeLogo(company: CompanyData): LogoImage | null {
+  const match = company.logo?.match(/^data:image\/(png|jpeg);base64,(.+)$/);
+  if (!match) return null;
+
+  const data = Buffer.from(match[2], "base64");
+  if (match[1] === "png") {
+    if (data.length < 24) return null;
+    return { type: "png", data, width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    const marker = data.readUInt16BE(offset);
+    // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC) carry the frame size
+    if (marker >= 0xffc0 && marker <= 0xffcf && ![0xffc4, 0xffc8, 0xffcc].includes(marker)) {
+      return { type: "jpg", data, width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function fitWithin(logo: LogoImage, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height, 1);
+  return { width: Math.round(logo.width * scale), height: Math.round(logo.height * scale) };
+}
 
 export class DocumentGenerator {
-  async generateDocument(document: Document, format: 'pdf' | 'docx'): Promise<Buffer> {
+  async generateDocument(document: Document, format: 'pdf' | 'docx', template: TemplateDefinition = defaultTemplateDefinition): Promise<Buffer> {
     if (format === 'pdf') {
-      return this.generatePDF(document);
+      return this.generatePDF(document, template);
     } else {
-      return this.generateDOCX(document);
+      return this.generateDOCX(document, template);
     }
   }
 
-  private async generatePDF(document: Document): Promise<Buffer> {
+  private async generatePDF(document: Document, template: TemplateDefinition): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
-        const doc = new PDFDocument({ margin: 50 });
+        // Pages are buffered so page numbers can be written once the total is known
+        const doc = new PDFDocument({ margin: 50, bufferPages: true });
         const chunks: Buffer[] = [];
 
         doc.on('data', (chunk: any) => chunks.push(chunk));
@@ -22,30 +62,37 @@ export class DocumentGenerator {
         doc.on('error', reject);
 
         const data = document.extractedData as any;
-        
-        // Group fields by section for organized display
-        const groupedFields = data.fields?.reduce((acc: Record<string, DynamicField[]>, field: DynamicField) => {
-          if (!acc[field.section]) {
-            acc[field.section] = [];
-          }
-          acc[field.section].push(field);
-          return acc;
-        }, {} as Record<string, DynamicField[]>) || {};
+        const company = resolveCompanyData(document.companyData);
+        const logo = template.header.showLogo ? decodeLogo(company) : null;
+        doc.font(companyFonts[company.font].pdf);
 
         // Company Header
-        doc.fontSize(20).fillColor('#3B82F6').text('Nano Tech Chemical Brothers Pvt. Ltd.', 50, 50);
-        doc.fontSize(12).fillColor('#6B7280').text('Certificate of Analysis', 50, 75);
+        const headerX = logo ? 120 : 50;
+        if (logo) {
+          doc.image(logo.data, 50, 45, { fit: [60, 45] });
+        }
+        doc.fontSize(20).fillColor(company.primaryColor).text(company.name, headerX, 50, { width: 340 - headerX });
+        doc.fontSize(12).fillColor('#6B7280').text(templateTitle(template, data), headerX, doc.y + 2);
+        const contactLine = companyContactLine(company);
+        if (contactLine && template.header.showContact) {
+          doc.fontSize(8).text(contactLine, headerX, doc.y + 2, { width: 340 - headerX });
+        }
+        const headerBottom = doc.y;
         
         // Document Info
+        const sections = layoutSections(data, template);
         doc.fontSize(10).fillColor('#6B7280');
-        doc.text(`Generated: ${new Date().toLocaleDateString()}`, 400, 50);
-        doc.text(`Document Type: ${data?.documentType || 'Unknown'}`, 400, 65);
-        doc.text(`Total Fields: ${data?.fields?.length || 0}`, 400, 80);
+        const info = [
+          template.header.showGeneratedDate && `Generated: ${new Date().toLocaleDateString()}`,
+          template.header.showDocumentType && `Document Type: ${data?.documentType || 'Unknown'}`,
+          template.header.showDocumentType && `Total Fields: ${countFields(sections)}`,
+        ].filter((line): line is string => !!line);
+        info.forEach((line, index) => doc.text(line, 400, 50 + index * 15));
 
-        let yPosition = 120;
+        let yPosition = Math.max(120, headerBottom + 20);
 
         // Dynamic Sections with Structure Preservation
-        Object.entries(groupedFields).forEach(([sectionName, sectionFields]) => {
+        sections.forEach(({ title: sectionName, fields: sortedFields }) => {
           // Check if we need a new page
           if (yPosition > 700) {
             doc.addPage();
@@ -53,16 +100,9 @@ export class DocumentGenerator {
           }
           
           // Section Header
-          doc.fontSize(14).fillColor('#1E40AF').text(sectionName.toUpperCase(), 50, yPosition);
+          doc.fontSize(14).fillColor(company.secondaryColor).text(sectionName.toUpperCase(), 50, yPosition);
           yPosition += 25;
           
-          // Sort fields by order to maintain structure
-          const sortedFields = sectionFields.sort((a, b) => {
-            const orderA = a.layout?.order || 0;
-            const orderB = b.layout?.order || 0;
-            return orderA - orderB;
-          });
-          
           // Render fields preserving original structure
           sortedFields.forEach((field: DynamicField) => {
             if (yPosition > 750) {
@@ -74,35 +114,55 @@ export class DocumentGenerator {
               case 'table':
                 // Render table structure
                 const tableData = field.value as string[][] || [["Header"], ["Data"]];
+                const compliance = template.table.showCompliance ? evaluateTable(tableData) : null;
+                const complianceWidth = 70;
                 
                 // Table title
-                doc.fontSize(12).fillColor('#1E40AF').text(field.label, 50, yPosition);
+                doc.fontSize(12).fillColor(company.secondaryColor).text(field.label, 50, yPosition);
                 yPosition += 20;
                 
                 // Table headers
                 let xPosition = 50;
                 const columnWidth = 150;
                 
-                doc.fontSize(10).fillColor('#000000');
+                doc.fontSize(10).strokeColor(template.table.borderColor);
                 
                 // Draw table border and headers
                 if (tableData[0]) {
                   tableData[0].forEach((header, colIndex) => {
-                    doc.rect(xPosition, yPosition, columnWidth, 20).stroke();
-                    doc.text(header, xPosition + 5, yPosition + 5);
+                    doc.rect(xPosition, yPosition, columnWidth, 20).fillAndStroke(template.table.headerBackground, template.table.borderColor);
+                    doc.fillColor('#000000').text(header, xPosition + 5, yPosition + 5);
                     xPosition += columnWidth;
                   });
+                  if (compliance) {
+                    doc.rect(xPosition, yPosition, complianceWidth, 20).fillAndStroke(template.table.headerBackground, template.table.borderColor);
+                    doc.fillColor('#000000').text('Compliance', xPosition + 5, yPosition + 5);
+                  }
                   yPosition += 20;
                 }
                 
                 // Draw table rows
-                tableData.slice(1).forEach((row) => {
+                tableData.slice(1).forEach((row, rowIndex) => {
                   xPosition = 50;
+                  const striped = template.table.striped && rowIndex % 2 === 1;
                   row.forEach((cell, colIndex) => {
-                    doc.rect(xPosition, yPosition, columnWidth, 15).stroke();
-                    doc.text(cell || '-', xPosition + 5, yPosition + 3);
+                    if (striped) {
+                      doc.rect(xPosition, yPosition, columnWidth, 15).fillAndStroke('#F9FAFB', template.table.borderColor);
+                    } else {
+                      doc.rect(xPosition, yPosition, columnWidth, 15).stroke();
+                    }
+                    doc.fillColor('#000000').text(cell || '-', xPosition + 5, yPosition + 3);
                     xPosition += columnWidth;
                   });
+                  if (compliance) {
+                    const status = compliance[rowIndex];
+                    if (striped) {
+                      doc.rect(xPosition, yPosition, complianceWidth, 15).fillAndStroke('#F9FAFB', template.table.borderColor);
+                    } else {
+                      doc.rect(xPosition, yPosition, complianceWidth, 15).stroke();
+                    }
+                    doc.fillColor(complianceColors[status]).text(complianceStatusLabels[status], xPosition + 5, yPosition + 3);
+                  }
                   yPosition += 15;
                 });
                 
@@ -112,7 +172,7 @@ export class DocumentGenerator {
               case 'heading':
                 const level = field.layout?.level || 2;
                 const fontSize = Math.max(16 - level, 10);
-                doc.fontSize(fontSize).fillColor('#1E40AF').text(field.value?.toString() || field.label, 50, yPosition);
+                doc.fontSize(fontSize).fillColor(company.secondaryColor).text(field.value?.toString() || field.label, 50, yPosition);
                 yPosition += fontSize + 10;
                 break;
                 
@@ -147,11 +207,47 @@ export class DocumentGenerator {
           yPosition += 20;
         });
 
+        // Signatory
+        if (company.signatoryName && template.footer.showSignatory) {
+          if (yPosition > 680) {
+            doc.addPage();
+            yPosition = 50;
+          }
+          doc.moveTo(50, yPosition + 30).lineTo(230, yPosition + 30).strokeColor('#000000').stroke();
+          doc.fontSize(10).fillColor('#000000').text(company.signatoryName, 50, yPosition + 35);
+          if (company.signatoryTitle) {
+            doc.fontSize(9).fillColor('#6B7280').text(company.signatoryTitle, 50, yPosition + 50);
+          }
+          yPosition += 65;
+        }
+
         // Footer
         doc.fontSize(8).fillColor('#6B7280');
-        doc.text('This document was generated automatically from supplier data.', 50, yPosition + 20);
-        doc.text(`Generated on ${new Date().toLocaleDateString()} by ChemDoc Processor`, 50, yPosition + 35);
-        doc.text('Nano Tech Chemical Brothers Pvt. Ltd.', 50, yPosition + 50);
+        doc.text(template.footer.text || company.footerText || 'This document was generated automatically from supplier data.', 50, yPosition + 20, { width: 500 });
+        if (template.footer.showGeneratedBy) {
+          doc.text(`Generated on ${new Date().toLocaleDateString()} by ChemDoc Processor`, 50, doc.y + 5);
+        }
+        if (template.footer.showCompanyName) {
+          doc.text(company.name, 50, doc.y + 5);
+        }
+
+        // Page numbers
+        if (template.pageNumbers.enabled) {
+          const range = doc.bufferedPageRange();
+          for (let index = range.start; index < range.start + range.count; index++) {
+            doc.switchToPage(index);
+            // Writing inside the bottom margin would otherwise start a new page
+            const bottomMargin = doc.page.margins.bottom;
+            doc.page.margins.bottom = 0;
+            doc.fontSize(8).fillColor('#6B7280').text(
+              `Page ${index + 1} of ${range.count}`,
+              50,
+              doc.page.height - 35,
+              { width: doc.page.width - 100, align: template.pageNumbers.alignment, lineBreak: false }
+            );
+            doc.page.margins.bottom = bottomMargin;
+          }
+        }
 
         doc.end();
       } catch (error) {
@@ -160,69 +256,91 @@ export class DocumentGenerator {
     });
   }
 
-  private async generateDOCX(document: Document): Promise<Buffer> {
+  private async generateDOCX(document: Document, template: TemplateDefinition): Promise<Buffer> {
     const data = document.extractedData as any;
-    
-    // Group fields by section for organized display
-    const groupedFields = data.fields?.reduce((acc: Record<string, DynamicField[]>, field: DynamicField) => {
-      if (!acc[field.section]) {
-        acc[field.section] = [];
-      }
-      acc[field.section].push(field);
-      return acc;
-    }, {} as Record<string, DynamicField[]>) || {};
+    const company = resolveCompanyData(document.companyData);
+    const logo = template.header.showLogo ? decodeLogo(company) : null;
+    const primaryColor = company.primaryColor.replace('#', '');
+    const secondaryColor = company.secondaryColor.replace('#', '');
+    const tableBorder = { style: BorderStyle.SINGLE, size: 4, color: template.table.borderColor.replace('#', '') };
 
-    const children: Paragraph[] = [];
+    const children: (Paragraph | Table)[] = [];
 
     // Company Header
+    if (logo) {
+      children.push(
+        new Paragraph({
+          children: [
+            new ImageRun({ type: logo.type, data: logo.data, transformation: fitWithin(logo, 160, 60) })
+          ]
+        })
+      );
+    }
     children.push(
       new Paragraph({
         children: [
           new TextRun({
-            text: "Nano Tech Chemical Brothers Pvt. Ltd.",
+            text: company.name,
             bold: true,
             size: 32,
-            color: "3B82F6"
+            color: primaryColor
           })
         ]
       }),
       new Paragraph({
         children: [
           new TextRun({
-            text: "Certificate of Analysis",
+            text: templateTitle(template, data),
             size: 20,
             color: "6B7280"
           })
         ]
       }),
-      new Paragraph({ text: "" }), // Empty line
     );
+    const contactLine = companyContactLine(company);
+    if (contactLine && template.header.showContact) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: contactLine, size: 16, color: "6B7280" })
+          ]
+        })
+      );
+    }
+    children.push(new Paragraph({ text: "" })); // Empty line
 
     // Document Info
-    children.push(
-      new Paragraph({
-        children: [
-          new TextRun({ text: "Generated: ", bold: true }),
-          new TextRun({ text: new Date().toLocaleDateString() })
-        ]
-      }),
-      new Paragraph({
-        children: [
-          new TextRun({ text: "Document Type: ", bold: true }),
-          new TextRun({ text: data?.documentType || "Unknown" })
-        ]
-      }),
-      new Paragraph({
-        children: [
-          new TextRun({ text: "Total Fields: ", bold: true }),
-          new TextRun({ text: data?.fields?.length?.toString() || "0" })
-        ]
-      }),
-      new Paragraph({ text: "" }), // Empty line
-    );
+    const sections = layoutSections(data, template);
+    if (template.header.showGeneratedDate) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Generated: ", bold: true }),
+            new TextRun({ text: new Date().toLocaleDateString() })
+          ]
+        })
+      );
+    }
+    if (template.header.showDocumentType) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Document Type: ", bold: true }),
+            new TextRun({ text: data?.documentType || "Unknown" })
+          ]
+        }),
+        new Paragraph({
+          children: [
+            new TextRun({ text: "Total Fields: ", bold: true }),
+            new TextRun({ text: countFields(sections).toString() })
+          ]
+        })
+      );
+    }
+    children.push(new Paragraph({ text: "" })); // Empty line
 
     // Dynamic Sections with Structure Preservation
-    Object.entries(groupedFields).forEach(([sectionName, sectionFields]) => {
+    sections.forEach(({ title: sectionName, fields: sortedFields }) => {
       // Section Header
       children.push(
         new Paragraph({
@@ -231,26 +349,20 @@ export class DocumentGenerator {
               text: sectionName.toUpperCase(),
               bold: true,
               size: 24,
-              color: "1E40AF"
+              color: secondaryColor
             })
           ],
           heading: HeadingLevel.HEADING_2
         })
       );
 
-      // Sort fields by order to maintain structure
-      const sortedFields = sectionFields.sort((a, b) => {
-        const orderA = a.layout?.order || 0;
-        const orderB = b.layout?.order || 0;
-        return orderA - orderB;
-      });
-
       // Render fields preserving original structure
       sortedFields.forEach((field: DynamicField) => {
         switch (field.type) {
           case 'table':
             // Add table to DOCX
             const tableData = field.value as string[][] || [["Header"], ["Data"]];
+            const compliance = template.table.showCompliance ? evaluateTable(tableData) : null;
             
             // Table title
             children.push(
@@ -260,28 +372,59 @@ export class DocumentGenerator {
                     text: field.label,
                     bold: true,
                     size: 20,
-                    color: "1E40AF"
+                    color: secondaryColor
                   })
                 ]
               })
             );
             
-            // Note: Full table implementation would require docx table API
-            // For now, we'll represent as formatted text
-            tableData.forEach((row, rowIndex) => {
-              const isHeader = rowIndex === 0;
-              children.push(
-                new Paragraph({
-                  children: [
-                    new TextRun({
-                      text: row.join(' | '),
-                      bold: isHeader,
-                      color: isHeader ? "1E40AF" : "000000"
-                    })
-                  ]
+            children.push(
+              new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                borders: {
+                  top: tableBorder,
+                  bottom: tableBorder,
+                  left: tableBorder,
+                  right: tableBorder,
+                  insideHorizontal: tableBorder,
+                  insideVertical: tableBorder
+                },
+                rows: tableData.map((row, rowIndex) => {
+                  const isHeader = rowIndex === 0;
+                  const fill = isHeader
+                    ? template.table.headerBackground
+                    : template.table.striped && rowIndex % 2 === 0 ? "#F9FAFB" : null;
+                  const shading = fill ? { type: ShadingType.CLEAR, color: "auto", fill: fill.replace('#', '') } : undefined;
+                  const cells = row.map(cell => new TableCell({
+                    shading,
+                    children: [
+                      new Paragraph({
+                        children: [new TextRun({ text: cell || (isHeader ? '' : '-'), bold: isHeader })]
+                      })
+                    ]
+                  }));
+                  if (compliance) {
+                    const status = isHeader ? null : compliance[rowIndex - 1];
+                    cells.push(new TableCell({
+                      shading,
+                      children: [
+                        new Paragraph({
+                          children: [new TextRun({
+                            text: status ? complianceStatusLabels[status] : 'Compliance',
+                            bold: true,
+                            color: status ? complianceColors[status].replace('#', '') : undefined
+                          })]
+                        })
+                      ]
+                    }));
+                  }
+                  return new TableRow({
+                    tableHeader: isHeader,
+                    children: cells
+                  });
                 })
-              );
-            });
+              })
+            );
             
             children.push(new Paragraph({ text: "" })); // Empty line
             break;
@@ -296,7 +439,7 @@ export class DocumentGenerator {
                     text: field.value?.toString() || field.label,
                     bold: true,
                     size: Math.max(32 - (level * 4), 16),
-                    color: "1E40AF"
+                    color: secondaryColor
                   })
                 ],
                 heading: [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6][headingLevel - 1]
@@ -344,34 +487,98 @@ export class DocumentGenerator {
       children.push(new Paragraph({ text: "" })); // Empty line
     });
 
+    // Signatory
+    if (company.signatoryName && template.footer.showSignatory) {
+      children.push(
+        new Paragraph({ text: "" }), // Empty line
+        new Paragraph({
+          children: [new TextRun({ text: "______________________________" })]
+        }),
+        new Paragraph({
+          children: [new TextRun({ text: company.signatoryName, bold: true })]
+        })
+      );
+      if (company.signatoryTitle) {
+        children.push(
+          new Paragraph({
+            children: [new TextRun({ text: company.signatoryTitle, color: "6B7280" })]
+          })
+        );
+      }
+    }
+
     // Footer
     children.push(
       new Paragraph({ text: "" }), // Empty line
       new Paragraph({
         children: [
           new TextRun({
-            text: "This document was generated automatically from supplier data.",
+            text: template.footer.text || company.footerText || "This document was generated automatically from supplier data.",
             size: 16,
             italics: true,
             color: "6B7280"
           })
         ]
-      }),
-      new Paragraph({
+      })
+    );
+    if (template.footer.showGeneratedBy) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: `Generated on ${new Date().toLocaleDateString()} by ChemDoc Processor`,
+              size: 16,
+              italics: true,
+              color: "6B7280"
+            })
+          ]
+        })
+      );
+    }
+    if (template.footer.showCompanyName) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: company.name,
+              size: 16,
+              color: "6B7280"
+            })
+          ]
+        })
+      );
+    }
+
+    // Page numbers go into the Word page footer so they update with pagination
+    const pageAlignment = {
+      left: AlignmentType.LEFT,
+      center: AlignmentType.CENTER,
+      right: AlignmentType.RIGHT
+    }[template.pageNumbers.alignment];
+    const footers = template.pageNumbers.enabled ? {
+      default: new Footer({
         children: [
-          new TextRun({
-            text: `Generated on ${new Date().toLocaleDateString()} by ChemDoc Processor`,
-            size: 16,
-            italics: true,
-            color: "6B7280"
+          new Paragraph({
+            alignment: pageAlignment,
+            children: [
+              new TextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 16, color: "6B7280" })
+            ]
           })
         ]
       })
-    );
+    } : undefined;
 
     const doc = new DocxDocument({
+      styles: {
+        default: {
+          document: {
+            run: { font: companyFonts[company.font].docx }
+          }
+        }
+      },
       sections: [{
         properties: {},
+        footers,
         children
       }]
     });
@@ -0,0 +1,71 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { afterEach, describe, expect, it } from "vitest";
+import { buildDocumentText, documentTextFromPages, extractDocumentText } from "./document-text";
+
+const written: string[] = [];
+
+async function writeOfficeFile(extension: string, files: Record<string, string>): Promise<string> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, data]) => zip.file(name, data));
+  const filePath = path.join(os.tmpdir(), `document-text-${process.pid}-${written.length}.${extension}`);
+  await fs.promises.writeFile(filePath, await zip.generateAsync({ type: "nodebuffer" }));
+  written.push(filePath);
+  return filePath;
+}
+
+afterEach(async () => {
+  await Promise.all(written.splice(0).map(filePath => fs.promises.rm(filePath, { force: true })));
+});
+
+describe("buildDocumentText", () => {
+  it("records where each line starts, with a blank line between pages", () => {
+    const { text, lines } = buildDocumentText([
+      { text: "Batch No: 2401", page: 1 },
+      { text: "pH 6.4", page: 1 },
+      { text: "Signed", page: 2 },
+    ]);
+    expect(text).toBe("Batch No: 2401\npH 6.4\n\nSigned");
+    lines.forEach(line => expect(text.slice(line.start, line.start + line.text.length)).toBe(line.text));
+  });
+
+  it("numbers the pages of page-by-page text", () => {
+    const { lines } = documentTextFromPages(["Batch No: 2401\npH 6.4", "Signed"]);
+    expect(lines.map(line => [line.text, line.page])).toEqual([["Batch No: 2401", 1], ["pH 6.4", 1], ["Signed", 2]]);
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("reads Word headers, paragraphs and tables in order", async () => {
+    const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+    const cell = (text: string) => `<w:tc>${paragraph(text)}</w:tc>`;
+    const filePath = await writeOfficeFile("docx", {
+      "word/header1.xml": `<w:hdr>${paragraph("Acme Chemicals")}</w:hdr>`,
+      "word/document.xml": `<w:document><w:body>${paragraph("Batch No: A&amp;B-1")}`
+        + `<w:tbl><w:tr>${cell("Test")}${cell("Result")}</w:tr><w:tr>${cell("pH")}${cell("6.4")}</w:tr></w:tbl></w:body></w:document>`,
+    });
+
+    const { lines } = await extractDocumentText({ path: filePath, kind: "docx", mimeType: "" });
+    expect(lines.map(line => line.text).filter(Boolean)).toEqual(["Acme Chemicals", "Batch No: A&B-1", "Test\tResult", "pH\t6.4"]);
+    expect(lines[0]).toEqual({ text: "Acme Chemicals", start: 0 });
+  });
+
+  it("reads every Excel sheet as tab-separated rows", async () => {
+    const row = (...cells: string[]) => `<row>${cells.join("")}</row>`;
+    const filePath = await writeOfficeFile("xlsx", {
+      "xl/sharedStrings.xml": "<sst><si><t>Test</t></si><si><t>Result</t></si><si><r><t>p</t></r><r><t>H</t></r></si></sst>",
+      "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${row('<c t="s"><v>0</v></c>', '<c t="s"><v>1</v></c>')}`
+        + `${row('<c t="s"><v>2</v></c>', "<c><v>6.4</v></c>")}</sheetData></worksheet>`,
+      "xl/worksheets/sheet2.xml": `<worksheet><sheetData>${row('<c t="inlineStr"><is><t>Signed</t></is></c>', '<c r="B1"/>')}</sheetData></worksheet>`,
+    });
+
+    const { text } = await extractDocumentText({ path: filePath, kind: "xlsx", mimeType: "" });
+    expect(text).toBe("Test\tResult\npH\t6.4\n\nSigned");
+  });
+
+  it("has no text for images without OCR", async () => {
+    expect(await extractDocumentText({ path: "scan.png", kind: "image", mimeType: "image/png" })).toEqual({ text: "", lines: [] });
+  });
+});
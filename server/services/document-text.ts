@@ -0,0 +1,127 @@
+import fs from "fs";
+import JSZip from "jszip";
+import { extractPdfText } from "./pdf-text";
+import type { SourceFile } from "./extraction-provider";
+import type { FieldSource } from "@shared/schema";
+
+export interface TextLine {
+  text: string;
+  start: number; // offset of the line in DocumentText.text
+  page?: number; // 1-based; Word and Excel files have no pages
+  boundingBox?: FieldSource["boundingBox"]; // only known for PDF text layers
+}
+
+// The text a provider extracted from a document, line by line, so extracted
+// values can be traced back to where they came from (see field-sources.ts)
+export interface DocumentText {
+  text: string;
+  lines: TextLine[];
+}
+
+// Joins lines into one text with a blank line between pages
+export function buildDocumentText(lines: Omit<TextLine, "start">[]): DocumentText {
+  let text = "";
+  const positioned = lines.map((line, index) => {
+    if (index > 0) {
+      text += line.page !== lines[index - 1].page ? "\n\n" : "\n";
+    }
+    const start = text.length;
+    text += line.text;
+    return { ...line, start };
+  });
+  return { text, lines: positioned };
+}
+
+// For text that comes page by page without positions, e.g. OCR output
+export function documentTextFromPages(pages: string[]): DocumentText {
+  return buildDocumentText(pages.flatMap((page, index) =>
+    page.split("\n").map(text => ({ text, page: index + 1 }))
+  ));
+}
+
+const unpagedText = (text: string) => buildDocumentText(text.split("\n").map(line => ({ text: line })));
+
+// Reads the text of an uploaded file locally. Scanned PDFs and images have no
+// text without OCR and come back (nearly) empty, so callers must check the length.
+export async function extractDocumentText(file: SourceFile): Promise<DocumentText> {
+  switch (file.kind) {
+    case "pdf":
+      return extractPdfText(file.path);
+    case "docx":
+      return unpagedText(await extractDocxText(file.path));
+    case "xlsx":
+      return unpagedText(await extractXlsxText(file.path));
+    case "image":
+      return { text: "", lines: [] };
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+const sortByNumber = (a: string, b: string) =>
+  Number(a.match(/(\d+)\.xml$/)?.[1] || 0) - Number(b.match(/(\d+)\.xml$/)?.[1] || 0);
+
+// Word: headers (often holding the supplier's details), body and footers.
+// Paragraphs become lines and table rows become tab-separated lines, which is
+// the layout the rule-based extractor expects from PDF text.
+async function extractDocxText(filePath: string): Promise<string> {
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+  const parts = [
+    ...zip.file(/^word\/header\d*\.xml$/).map(file => file.name).sort(sortByNumber),
+    "word/document.xml",
+    ...zip.file(/^word\/footer\d*\.xml$/).map(file => file.name).sort(sortByNumber),
+  ];
+
+  const texts: string[] = [];
+  for (const part of parts) {
+    const xml = await zip.file(part)?.async("string");
+    if (!xml) continue;
+    const text = xml
+      .replace(/<w:tc[ >][\s\S]*?<\/w:tc>/g, cell => cell.replace(/<\/w:p>/g, " "))
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:(br|cr)\/>/g, "\n")
+      .replace(/<\/w:tc>/g, "\t")
+      .replace(/<\/w:(tr|p)>/g, "\n")
+      .replace(/<[^>]+>/g, "");
+    texts.push(decodeXml(text).split("\n").map(line => line.replace(/ +\t/g, "\t").replace(/[ \t]+$/, "")).join("\n"));
+  }
+  return texts.join("\n");
+}
+
+// Excel: every worksheet, one tab-separated line per row. Dates are stored as
+// serial numbers and come through as such.
+async function extractXlsxText(filePath: string): Promise<string> {
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+
+  const sharedStringsXml = await zip.file("xl/sharedStrings.xml")?.async("string") || "";
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), ([, item]) =>
+    decodeXml(Array.from(item.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g), ([, text]) => text).join(""))
+  );
+
+  const sheets = zip.file(/^xl\/worksheets\/sheet\d+\.xml$/).map(file => file.name).sort(sortByNumber);
+  const texts: string[] = [];
+  for (const sheet of sheets) {
+    const xml = await zip.file(sheet)!.async("string");
+    const rows = Array.from(xml.matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g), ([, row]) =>
+      Array.from(row.matchAll(/<c([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g), ([, attributes, content = ""]) => {
+        const type = /\bt="([^"]+)"/.exec(attributes)?.[1];
+        if (type === "inlineStr") {
+          return decodeXml(Array.from(content.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g), ([, text]) => text).join(""));
+        }
+        const value = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1] ?? "";
+        return type === "s" ? sharedStrings[Number(value)] ?? "" : decodeXml(value);
+      }).join("\t").replace(/\t+$/, "")
+    );
+    texts.push(rows.filter(row => row.trim()).join("\n"));
+  }
+  return texts.join("\n\n");
+}
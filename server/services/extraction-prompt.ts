@@ -0,0 +1,343 @@
+// Prompt and response handling shared by every LLM-backed extraction provider.
+import type { DocumentClass } from "@shared/schema";
+import { documentClassLabels } from "@shared/document-classes";
+import { SDS_SECTIONS, sdsSectionTitle } from "@shared/sds";
+
+// The JSON every prompt asks for
+function responseFormat(): string {
+  return `RETURN THIS EXACT JSON STRUCTURE:
+{
+  "documentType": "detected document type",
+  "detectedSections": [
+    {
+      "id": "section1_id",
+      "title": "Section 1 Title",
+      "content": "Section content or description",
+      "type": "field_group",
+      "preview": "Brief preview of section content",
+      "fields": [],
+      "selected": false,
+      "order": 1
+    }
+  ],
+  "fields": [
+    {
+      "id": "unique_id",
+      "label": "field name or table/heading title",
+      "value": "single value OR [['header1','header2'],['row1col1','row1col2']] for tables",
+      "type": "text|number|date|email|phone|textarea|table|heading|paragraph",
+      "section": "section name",
+      "required": false,
+      "confidence": 0.9, // 0-1: how sure you are that the value was read and labelled correctly
+      "layout": {
+        "structureType": "field|table|heading|paragraph",
+        "level": 1, // for headings only (1-6)
+        "columns": ["header1", "header2"], // for tables only
+        "rows": [["row1col1","row1col2"],["row2col1","row2col2"]], // for tables only
+        "order": 1 // sequential order in document
+      }
+    }
+  ],
+  "structure": {
+    "hasHeaders": true/false,
+    "hasTables": true/false,
+    "hasLists": true/false,
+    "originalLayout": [
+      {
+        "type": "heading|paragraph|table|field",
+        "content": "text content or table identifier",
+        "level": 1, // for headings
+        "order": 1
+      }
+    ]
+  },
+  "metadata": {
+    "extractedAt": "${new Date().toISOString()}",
+    "confidence": 0.85,
+    "totalFields": 10
+  }
+}`;
+}
+
+// The sections each class is structured into, with what goes in them.
+// Safety Data Sheets have their 16 mandated sections instead.
+const CLASS_SECTIONS: Record<Exclude<DocumentClass, "sds">, string[]> = {
+  coa: [
+    "Document Information (document title, dates, identifiers)",
+    "Product Information (product details, specifications)",
+    "Test Results or Analysis Data (any measurements, values, results)",
+    "Additional Information (any remaining content)",
+  ],
+  tds: [
+    "Document Information (document title, revision, identifiers)",
+    "Product Information (product name, description, composition)",
+    "Typical Properties (physical and chemical data, typical values)",
+    "Applications (uses, recommended dosage, directions for use)",
+    "Storage and Handling (storage conditions, shelf life, packaging)",
+    "Additional Information (any remaining content)",
+  ],
+  specification: [
+    "Document Information (document title, revision, dates, identifiers)",
+    "Product Information (product details, grade, CAS number)",
+    "Specifications (tests, acceptance limits, test methods)",
+    "Additional Information (any remaining content)",
+  ],
+  certificate_of_origin: [
+    "Document Information (certificate number, dates, issuing authority)",
+    "Exporter (name and address)",
+    "Consignee (name and address)",
+    "Transport Details (means of transport, route, ports)",
+    "Goods (description, marks and numbers, quantities, HS codes, invoice references)",
+    "Origin Declaration (country of origin, certification, signatures and stamps)",
+  ],
+  invoice: [
+    "Document Information (invoice number, dates, references such as the purchase order)",
+    "Seller (name, address, tax number)",
+    "Buyer (name, address, tax number)",
+    "Line Items (products, quantities, unit prices, amounts)",
+    "Totals (subtotal, taxes, total amount, currency)",
+    "Payment and Delivery Terms (payment terms, bank details, incoterms)",
+  ],
+};
+
+// Each class of document gets the prompt for its own sections
+export function buildExtractionPrompt(text: string, documentClass: DocumentClass): string {
+  return documentClass === "sds" ? buildSdsExtractionPrompt(text) : buildClassExtractionPrompt(text, documentClass);
+}
+
+function buildClassExtractionPrompt(text: string, documentClass: Exclude<DocumentClass, "sds">): string {
+  const label = documentClassLabels[documentClass];
+  return `
+You are an advanced document structure analysis system specialized in processing ${label} documents and supplier documentation. Analyze this document and extract ALL meaningful content into structured sections.
+
+CRITICAL: You MUST always return at least 2-3 sections even if the document appears simple. Never return empty sections.
+
+Your tasks:
+1. Set documentType to "${label}"
+2. Create meaningful sections that group related content
+3. Extract ALL text content into appropriate fields
+4. For any tabular data: preserve as table structure
+5. For headings: create heading fields with proper levels
+6. Group related fields into logical sections
+
+MANDATORY SECTIONS TO CREATE:
+${CLASS_SECTIONS[documentClass].map(section => `- ${section}`).join("\n")}
+
+${responseFormat()}
+
+CRITICAL RULES:
+- NEVER return empty detectedSections array - always create at least 2-3 meaningful sections
+- For TABLES: Use type="table", value must be array of arrays [[headers],[row1],[row2]]
+- For HEADINGS: Use type="heading", set layout.level (1-6), preserve hierarchy
+- For regular fields: Use appropriate type (text, number, date, etc.)
+- MAINTAIN EXACT ORDER: layout.order must reflect document sequence
+- PRESERVE STRUCTURE: Don't flatten tables into individual fields
+- If document seems empty, extract whatever text is available into meaningful sections
+- Always populate detectedSections with proper section objects that have fields arrays
+- CONFIDENCE: Give every field a confidence below 0.6 when the text was hard to read, the value was inferred or the label is a guess
+
+EXAMPLE TABLE EXTRACTION:
+If you see:
+Test Items | Specifications | Results
+Appearance | White powder | White powder
+Purity | ≥95% | 97.4%
+
+Extract as:
+{
+  "id": "test_results_table",
+  "label": "Test Results",
+  "value": [["Test Items","Specifications","Results"],["Appearance","White powder","White powder"],["Purity","≥95%","97.4%"]],
+  "type": "table",
+  "layout": {
+    "structureType": "table",
+    "columns": ["Test Items","Specifications","Results"],
+    "rows": [["Appearance","White powder","White powder"],["Purity","≥95%","97.4%"]],
+    "order": 5
+  }
+}
+
+Document text to analyze:
+${text}
+
+IMPORTANT: Even if the document text appears minimal or poorly formatted, you MUST create meaningful sections and extract all available content. Do not return empty arrays.
+
+Return only the JSON object with populated detectedSections and fields:`;
+}
+
+function buildSdsExtractionPrompt(text: string): string {
+  const sections = SDS_SECTIONS.map(section =>
+    `- "${sdsSectionTitle(section)}": ${section.fields.map(field => field.label).join(", ")}`
+  ).join("\n");
+
+  return `
+You are an advanced document structure analysis system specialized in GHS Safety Data Sheets (SDS). Analyze this document and extract ALL meaningful content into its sections.
+
+A Safety Data Sheet has 16 mandated sections, always in this order. Put every field in one of them, using EXACTLY these section names, and give each section at least the information listed after it when the document has it, using these labels:
+${sections}
+
+Your tasks:
+1. Set documentType to "${documentClassLabels.sds}"
+2. Create one detectedSections entry for each of the 16 sections above, in order, even when the document lacks a section
+3. Extract ALL text content of each section into fields of that section; one field per sub-section or labelled item (e.g. "Inhalation", "Skin contact" in section 4)
+4. Content printed before section 1 (document title, version, revision date, supplier letterhead) goes in a section named "Document Information"
+5. For tabular data (e.g. composition, physical and chemical properties): preserve as table structure
+
+${responseFormat()}
+
+CRITICAL RULES:
+- NEVER invent values: copy "No data available" or "Not applicable" when the document says so, and add no field for information the document does not give
+- Copy hazard (H) and precautionary (P) statements with their codes, e.g. "H315: Causes skin irritation"
+- For TABLES: Use type="table", value must be array of arrays [[headers],[row1],[row2]]
+- For regular fields: Use appropriate type (text, number, date, textarea for multi-line text)
+- MAINTAIN EXACT ORDER: layout.order must reflect document sequence
+- PRESERVE STRUCTURE: Don't flatten tables into individual fields
+- CONFIDENCE: Give every field a confidence below 0.6 when the text was hard to read, the value was inferred or the label is a guess
+
+Document text to analyze:
+${text}
+
+Return only the JSON object with populated detectedSections and fields:`;
+}
+
+export function parseExtractionResponse(content: string): any {
+  // Parse the JSON response with better error handling
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    console.log("No JSON found in response. Content:", content.substring(0, 500));
+    throw new Error("No valid JSON found in response");
+  }
+
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch (parseError: any) {
+    console.log("JSON parse error at position:", parseError.message);
+    console.log("Raw JSON (first 1000 chars):", jsonMatch[0].substring(0, 1000));
+
+    // Try to fix common JSON issues
+    const fixedJson = jsonMatch[0]
+      .replace(/,(\s*[}\]])/g, '$1') // Remove trailing commas
+      .replace(/([{,]\s*)(\w+):/g, '$1"$2":') // Add quotes to unquoted keys
+      .replace(/:\s*([^",\[\]{}\s][^",\[\]{}]*[^",\[\]{}\s])\s*([,\]}])/g, ': "$1"$2'); // Quote unquoted string values
+
+    try {
+      console.log("Attempting to parse fixed JSON...");
+      const parsedData = JSON.parse(fixedJson);
+      console.log("Successfully parsed fixed JSON!");
+      return parsedData;
+    } catch (fixedError: any) {
+      console.log("Fixed JSON also failed:", fixedError.message);
+      throw new Error(`JSON parsing failed: ${parseError.message}`);
+    }
+  }
+}
+
+// The model's own estimate, when it gave a usable one
+function modelConfidence(value: unknown): number | undefined {
+  const confidence = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof confidence === 'number' && Number.isFinite(confidence)
+    ? Math.min(1, Math.max(0, confidence))
+    : undefined;
+}
+
+// Tables stay [[headers], [row], ...] with every cell as a string, so that
+// e.g. the compliance check can read their specification and result columns
+function tableValue(value: unknown): string[][] | null {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(Array.isArray)) return null;
+  return value.map((row: unknown[]) => row.map(cell => cell === null || cell === undefined ? '' : String(cell)));
+}
+
+// Any other complex value becomes a string
+function flattenValue(value: unknown): string {
+  if (typeof value === 'object' && value !== null) {
+    return Array.isArray(value) ? value.join(', ') : JSON.stringify(value);
+  }
+  return String(value || '');
+}
+
+// The document's class decides its type, whatever the model wrote
+export function transformExtractionResponse(data: any, documentClass: DocumentClass): any {
+  // Transform the model's response to match our schema
+  const transformed = {
+    documentType: documentClassLabels[documentClass],
+    detectedSections: data.detectedSections || [],
+    fields: []
+  };
+
+  // Transform fields - convert complex values to simple strings
+  if (data.fields && Array.isArray(data.fields)) {
+    transformed.fields = data.fields.map((field: any, index: number) => {
+      const table = tableValue(field.value);
+      return {
+        id: field.id || `field_${index + 1}`,
+        label: field.label || field.name || `Field ${index + 1}`,
+        value: table || flattenValue(field.value),
+        type: table ? 'table' : field.type || 'text',
+        section: field.section || 'general',
+        confidence: modelConfidence(field.confidence)
+      };
+    });
+  }
+
+  // Ensure detectedSections are objects with required properties
+  if (transformed.detectedSections && Array.isArray(transformed.detectedSections)) {
+    transformed.detectedSections = transformed.detectedSections.map((section: any, index: number) => {
+      let transformedSection;
+      
+      if (typeof section === 'string') {
+        transformedSection = {
+          id: `section_${index + 1}`,
+          title: section,
+          content: `Content for ${section}`,
+          type: 'field_group',
+          preview: `Section: ${section}`,
+          fields: [],
+          selected: false,
+          order: index + 1
+        };
+      } else {
+        transformedSection = {
+          id: section.id || `section_${index + 1}`,
+          title: section.title || section.name || `Section ${index + 1}`,
+          content: section.content || section.description || '',
+          type: section.type || 'field_group',
+          preview: section.preview || `${section.title || 'Section'} - ${section.fields?.length || 0} fields`,
+          fields: [],
+          selected: section.selected || false,
+          order: section.order || index + 1
+        };
+      }
+
+      // Transform fields within sections - convert strings to field objects
+      if (section.fields && Array.isArray(section.fields)) {
+        transformedSection.fields = section.fields.map((field: any, fieldIndex: number) => {
+          if (typeof field === 'string') {
+            // Convert string to field object
+            return {
+              id: `${transformedSection.id}_field_${fieldIndex + 1}`,
+              label: field,
+              value: '',
+              type: 'text',
+              section: transformedSection.id
+            };
+          } else {
+            // Transform existing field object
+            const table = tableValue(field.value);
+            return {
+              id: field.id || `${transformedSection.id}_field_${fieldIndex + 1}`,
+              label: field.label || field.name || `Field ${fieldIndex + 1}`,
+              value: table || flattenValue(field.value),
+              type: table ? 'table' : field.type || 'text',
+              section: transformedSection.id,
+              confidence: modelConfidence(field.confidence)
+            };
+          }
+        });
+      }
+
+      return transformedSection;
+    });
+  }
+
+  console.log("Transformed data:", JSON.stringify(transformed, null, 2));
+  return transformed;
+}
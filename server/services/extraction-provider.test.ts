@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Settings } from "@shared/schema";
+import { encryptSecret } from "./secret-cipher";
+import { ExtractionProviderRegistry, getProviderApiKey, hasProviderApiKey } from "./extraction-provider";
+import { MistralService } from "./mistral";
+import { OpenAICompatibleService } from "./openai-compatible";
+import { RuleBasedExtractor } from "./rule-based-extractor";
+
+const settings = (overrides: Partial<Settings> = {}): Settings => ({
+  id: "s1",
+  apiKey: null,
+  encryptedApiKey: null,
+  lastTested: null,
+  connectionStatus: "untested",
+  extractionProvider: "mistral",
+  mistralModel: null,
+  providerBaseUrl: null,
+  providerModel: null,
+  encryptedProviderApiKey: null,
+  offlineFallback: false,
+  ...overrides,
+});
+
+describe("provider API keys", () => {
+  it("gives each provider only its own key", () => {
+    const stored = settings({ encryptedApiKey: encryptSecret("mistral-key") });
+
+    expect(getProviderApiKey(stored, "mistral")).toBe("mistral-key");
+    expect(getProviderApiKey(stored, "openai-compatible")).toBeNull();
+    expect(hasProviderApiKey(stored, "openai-compatible")).toBe(false);
+
+    const both = settings({ encryptedApiKey: encryptSecret("mistral-key"), encryptedProviderApiKey: encryptSecret("endpoint-key") });
+    expect(getProviderApiKey(both, "openai-compatible")).toBe("endpoint-key");
+    expect(getProviderApiKey(both, "rule-based")).toBeNull();
+  });
+
+  it("counts a legacy plaintext key as Mistral's", () => {
+    expect(hasProviderApiKey(settings({ apiKey: "legacy" }), "mistral")).toBe(true);
+    expect(hasProviderApiKey(settings({ apiKey: "legacy" }), "openai-compatible")).toBe(false);
+  });
+});
+
+describe("ExtractionProviderRegistry", () => {
+  const registry = new ExtractionProviderRegistry([new MistralService(), new OpenAICompatibleService(), new RuleBasedExtractor()]);
+
+  it("prefers the document's provider over the settings and defaults to Mistral", () => {
+    expect(registry.resolve("rule-based", settings({ extractionProvider: "openai-compatible" })).id).toBe("rule-based");
+    expect(registry.resolve(null, settings({ extractionProvider: "openai-compatible" })).id).toBe("openai-compatible");
+    expect(registry.resolve(null, undefined).id).toBe("mistral");
+    expect(() => registry.resolve("unknown")).toThrow('Unknown extraction provider "unknown"');
+  });
+});
@@ -0,0 +1,79 @@
+import type { DocumentClass, ExtractedData, ExtractionProviderId, Settings } from "@shared/schema";
+import type { ProcessingProgress } from "@shared/jobs";
+import type { FileKind } from "@shared/file-types";
+import { decryptSecret } from "./secret-cipher";
+
+export interface ExtractionOptions {
+  onProgress?: (update: ProcessingProgress) => void;
+  signal?: AbortSignal;
+  // Chosen by a reviewer; otherwise the document is classified from its text
+  documentClass?: DocumentClass;
+}
+
+// An uploaded document as stored on disk
+export interface SourceFile {
+  path: string;
+  kind: FileKind;
+  mimeType: string;
+}
+
+export interface ExtractionProvider {
+  readonly id: ExtractionProviderId;
+  readonly name: string;
+  readonly requiresApiKey: boolean;
+  processDocument(file: SourceFile, settings: Settings | undefined, options?: ExtractionOptions): Promise<ExtractedData>;
+  testConnection(settings: Settings | undefined): Promise<boolean>;
+}
+
+export class ExtractionProviderRegistry {
+  private providers = new Map<string, ExtractionProvider>();
+
+  constructor(providers: ExtractionProvider[] = []) {
+    providers.forEach((provider) => this.register(provider));
+  }
+
+  register(provider: ExtractionProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): ExtractionProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // A per-document choice wins over the global setting; Mistral is the default.
+  resolve(documentProvider?: string | null, settings?: Settings): ExtractionProvider {
+    const id = documentProvider || settings?.extractionProvider || "mistral";
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown extraction provider "${id}"`);
+    }
+    return provider;
+  }
+}
+
+// Each provider has its own key, so a key is only ever sent to the provider
+// it was entered for
+function storedApiKey(settings: Settings | undefined, providerId: ExtractionProviderId): string | null | undefined {
+  switch (providerId) {
+    case "mistral":
+      return settings?.encryptedApiKey;
+    case "openai-compatible":
+      return settings?.encryptedProviderApiKey;
+    default:
+      return null;
+  }
+}
+
+export function hasProviderApiKey(settings: Settings | undefined, providerId: ExtractionProviderId): boolean {
+  return !!storedApiKey(settings, providerId) || (providerId === "mistral" && !!settings?.apiKey);
+}
+
+// The stored key is AES-GCM ciphertext; see secret-cipher.ts
+export function getProviderApiKey(settings: Settings | undefined, providerId: ExtractionProviderId): string | null {
+  const stored = storedApiKey(settings, providerId);
+  return stored ? decryptSecret(stored) : null;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { DynamicField, ExtractedData } from "@shared/schema";
+import { scoreConfidence } from "./field-confidence";
+
+const field = (label: string, value: DynamicField["value"], extra: Partial<DynamicField> = {}): DynamicField => ({
+  id: label,
+  label,
+  value,
+  type: "text",
+  section: "Product",
+  required: false,
+  confidence: 0.9,
+  source: { page: 1, snippet: `${label}: ${value}` },
+  ...extra,
+});
+
+const score = (...fields: DynamicField[]): ExtractedData =>
+  scoreConfidence({ documentType: "Certificate of Analysis", detectedSections: [], fields });
+
+describe("scoreConfidence", () => {
+  it("keeps the provider's estimate for a value found as written", () => {
+    expect(score(field("Lot Number", "NTCB/25042211K1")).fields[0]).toMatchObject({ confidence: 0.9, confidenceIssues: undefined });
+    expect(score(field("Lot Number", "A1", { confidence: undefined })).fields[0].confidence).toBe(0.8);
+  });
+
+  it("does not mark down a date normalized from the printed format", () => {
+    const date = field("Manufacture Date", "2025-04-22", { type: "date", source: { page: 1, snippet: "Manufacturing Date: 22-04-2025" } });
+    expect(score(date).fields[0]).toMatchObject({ confidence: 0.9, confidenceIssues: undefined });
+  });
+
+  it("marks down values not found or not written as extracted", () => {
+    expect(score(field("Lot Number", "A1", { source: undefined })).fields[0]).toMatchObject({
+      confidence: 0.45,
+      confidenceIssues: ["Not found in the document text"],
+    });
+    const reworded = field("Lot Number", "A-1", { source: { page: 1, snippet: "Lot Number: A1" } });
+    expect(score(reworded).fields[0].confidence).toBe(0.68);
+    const otherDate = field("Expiry Date", "2025-04-23", { type: "date", source: { page: 1, snippet: "Expiry Date: 22-04-2025" } });
+    expect(score(otherDate).fields[0].confidenceIssues).toEqual(["Value does not appear in the document text as written"]);
+  });
+
+  it("marks down values that do not fit their type or validation rules", () => {
+    expect(score(field("Purity", "high", { type: "number" })).fields[0]).toMatchObject({ confidence: 0.45, confidenceIssues: ["Not a number"] });
+    const ruled = field("pH", "9.1", { validation: { max: 8.5, message: "pH above range" } });
+    expect(score(ruled).fields[0]).toMatchObject({ confidence: 0.45, confidenceIssues: ["pH above range"] });
+  });
+
+  it("gives empty fields a low score", () => {
+    expect(score(field("Notes", " ")).fields[0]).toMatchObject({ confidence: 0.2, confidenceIssues: ["No value extracted"] });
+  });
+
+  it("averages the fields for their sections and the document", () => {
+    const data = scoreConfidence({
+      documentType: "Certificate of Analysis",
+      detectedSections: [{ id: "product", title: "Product", content: "", type: "field_group", preview: "", fields: [], selected: true, order: 0 }],
+      fields: [field("Lot Number", "A1"), field("Notes", "")],
+    });
+    expect(data.detectedSections[0].confidence).toBe(0.55);
+    expect(data.metadata?.confidence).toBe(0.55);
+  });
+});
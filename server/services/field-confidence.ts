@@ -0,0 +1,112 @@
+import type { DynamicField, ExtractedData } from "@shared/schema";
+import { averageConfidence } from "@shared/confidence";
+import { findValue, searchText } from "./field-sources";
+
+// Used when the provider gave no estimate of its own
+const DEFAULT_CONFIDENCE = 0.8;
+
+const round = (confidence: number) => Math.round(confidence * 100) / 100;
+
+interface ConfidenceCheck {
+  issue: string;
+  factor: number; // multiplies the provider's estimate
+}
+
+function isEmpty(value: DynamicField["value"]): boolean {
+  if (Array.isArray(value)) return value.slice(1).every(row => row.every(cell => !cell.trim()));
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+// Whether the value can be read at all for its declared type
+function typeCheck(field: DynamicField): ConfidenceCheck | null {
+  const value = String(field.value).trim();
+  switch (field.type) {
+    case "number":
+      return Number.isFinite(Number(value.replace(/,/g, ""))) ? null : { issue: "Not a number", factor: 0.5 };
+    case "date":
+      return Number.isNaN(Date.parse(value)) ? { issue: "Not a valid date", factor: 0.5 } : null;
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? null : { issue: "Not a valid email address", factor: 0.5 };
+    case "phone":
+      return value.replace(/\D/g, "").length >= 6 ? null : { issue: "Too few digits for a phone number", factor: 0.5 };
+    case "table": {
+      const rows = field.value as string[][];
+      return rows.every(row => row.length === rows[0].length) ? null : { issue: "Table rows have different numbers of cells", factor: 0.8 };
+    }
+    default:
+      return null;
+  }
+}
+
+// The field's own validation rules, where the provider or template set them
+function validationCheck(field: DynamicField): ConfidenceCheck | null {
+  const { validation } = field;
+  if (!validation || Array.isArray(field.value)) return null;
+
+  const value = String(field.value);
+  let pattern: RegExp | null = null;
+  try {
+    pattern = validation.pattern ? new RegExp(validation.pattern) : null;
+  } catch {
+    // a pattern from the model that is not a valid regular expression
+  }
+  const failed = (pattern && !pattern.test(value))
+    || (validation.min !== undefined && Number(value) < validation.min)
+    || (validation.max !== undefined && Number(value) > validation.max);
+  return failed ? { issue: validation.message || "Fails the field's validation rules", factor: 0.5 } : null;
+}
+
+// Values that cannot be found in the document were misread, reformatted or
+// made up by the model. Needs the sources from attachFieldSources.
+function sourceCheck(field: DynamicField): ConfidenceCheck | null {
+  if (field.type === "heading") return null;
+  if (!field.source) return { issue: "Not found in the document text", factor: 0.5 };
+
+  // A date normalized to ISO still counts as written when the document has
+  // it in another format
+  if (searchText(field) && !findValue(field, field.source.snippet || "")) {
+    return { issue: "Value does not appear in the document text as written", factor: 0.75 };
+  }
+  return null;
+}
+
+function scoreField(field: DynamicField): DynamicField {
+  const estimate = field.confidence ?? DEFAULT_CONFIDENCE;
+  if (isEmpty(field.value)) {
+    return { ...field, confidence: Math.min(estimate, 0.2), confidenceIssues: ["No value extracted"] };
+  }
+
+  const checks = [typeCheck(field), validationCheck(field), sourceCheck(field)].filter((check): check is ConfidenceCheck => !!check);
+  const confidence = checks.reduce((score, check) => score * check.factor, estimate);
+  return {
+    ...field,
+    confidence: round(confidence),
+    confidenceIssues: checks.length > 0 ? checks.map(check => check.issue) : undefined,
+  };
+}
+
+// Scores every field from the provider's estimate and validation checks, and
+// each section and the document as the average of their fields
+export function scoreConfidence(data: ExtractedData): ExtractedData {
+  const fields = data.fields.map(scoreField);
+
+  const detectedSections = data.detectedSections.map(section => {
+    const sectionFields = section.fields.length > 0
+      ? section.fields.map(scoreField)
+      : fields.filter(field => field.section === section.title || field.section === section.id);
+    const confidence = averageConfidence(sectionFields);
+    return {
+      ...section,
+      fields: section.fields.length > 0 ? sectionFields : section.fields,
+      confidence: confidence === undefined ? undefined : round(confidence),
+    };
+  });
+
+  const confidence = averageConfidence(fields);
+  return {
+    ...data,
+    fields,
+    detectedSections,
+    metadata: { ...data.metadata, confidence: confidence === undefined ? undefined : round(confidence) },
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { DynamicField, ExtractedData } from "@shared/schema";
+import { buildDocumentText } from "./document-text";
+import { attachFieldSources, findValue, searchText } from "./field-sources";
+
+const field = (label: string, value: DynamicField["value"], type: DynamicField["type"] = "text"): DynamicField =>
+  ({ id: label, label, value, type, section: "Product", required: false });
+
+const data = (...fields: DynamicField[]): ExtractedData => ({ documentType: "Certificate of Analysis", detectedSections: [], fields });
+
+const documentText = buildDocumentText([
+  { text: "CERTIFICATE OF ANALYSIS", page: 1 },
+  { text: "Batch Number: NTCB/25042211K1", page: 1 },
+  { text: "Manufacturing Date:  \t 22-04-2025", page: 1 },
+  { text: "Quantity 1 drum", page: 1 },
+  { text: "Appearance \tWhite powder \tConforms", page: 2 },
+  { text: "Lot: 1", page: 2 },
+]);
+
+const sourceOf = (target: DynamicField) => attachFieldSources(data(target), documentText).fields[0].source;
+
+describe("searchText", () => {
+  it("looks for the first line of a value or the first cell of a table's first row", () => {
+    expect(searchText(field("Notes", "Stored cool\nKeep dry"))).toBe("Stored cool");
+    expect(searchText(field("Results", [["Test", "Result"], ["", "Appearance"]], "table"))).toBe("Appearance");
+    expect(searchText(field("Notes", "  "))).toBeNull();
+  });
+});
+
+describe("findValue", () => {
+  it("finds a value as written, in any case", () => {
+    expect(findValue(field("Lot", "ntcb/25042211k1"), "Batch Number: NTCB/25042211K1")).toEqual({ index: 14, length: 15 });
+  });
+
+  it("finds an ISO date written in another format", () => {
+    const text = "Mfg: 01/03/2024  Exp: 22-04-2025";
+    expect(findValue(field("Expiry Date", "2025-04-22", "date"), text)).toEqual({ index: 22, length: 10 });
+    expect(findValue(field("Manufacture Date", "2024-03-01", "date"), "Mfg. Date: 03/2024")).toEqual({ index: 11, length: 7 });
+    expect(findValue(field("Expiry Date", "2025-04-23", "date"), text)).toBeNull();
+  });
+
+  it("reads other values only as written", () => {
+    expect(findValue(field("Issued", "2025-04-22"), "Issued: 22-04-2025")).toBeNull();
+  });
+});
+
+describe("attachFieldSources", () => {
+  it("links a value to its line, page and offset", () => {
+    const source = sourceOf(field("Lot Number", "NTCB/25042211K1"));
+    expect(source).toMatchObject({ page: 1, snippet: "Batch Number: NTCB/25042211K1" });
+    const { start, end } = source!.textSpan!;
+    expect(documentText.text.slice(start, end)).toBe("NTCB/25042211K1");
+  });
+
+  it("links a normalized date to the date as printed", () => {
+    const source = sourceOf(field("Manufacture Date", "2025-04-22", "date"));
+    const { start, end } = source!.textSpan!;
+    expect(documentText.text.slice(start, end)).toBe("22-04-2025");
+  });
+
+  it("trusts short values only next to their label", () => {
+    expect(sourceOf(field("Lot", "1"))?.snippet).toBe("Lot: 1");
+    expect(sourceOf(field("Drums", "1"))).toBeUndefined();
+  });
+
+  it("falls back to the label's line for a reworded value", () => {
+    expect(sourceOf(field("Batch Number", "NTCB-25042211K1"))?.snippet).toBe("Batch Number: NTCB/25042211K1");
+  });
+
+  it("keeps a source the provider located itself", () => {
+    const located = { ...field("Appearance", "White powder"), source: { page: 3, snippet: "White powder" } };
+    expect(sourceOf(located)).toEqual({ page: 3, snippet: "White powder" });
+  });
+});
@@ -0,0 +1,95 @@
+import type { DynamicField, ExtractedData, FieldSource } from "@shared/schema";
+import { parseDate } from "@shared/dates";
+import type { DocumentText, TextLine } from "./document-text";
+
+const MAX_SNIPPET_LENGTH = 200;
+
+// The text to look for: the first line of the value, or the first cell of a
+// table's first data row
+export function searchText(field: DynamicField): string | null {
+  if (Array.isArray(field.value)) {
+    const [header, firstRow] = field.value;
+    return (firstRow || header)?.find(cell => cell.trim())?.trim() || null;
+  }
+  if (typeof field.value === "string" || typeof field.value === "number") {
+    return String(field.value).split("\n")[0].trim() || null;
+  }
+  return null;
+}
+
+// Where the field's value is written in the text: as is, or for a date the
+// provider normalized to ISO, as any date reading the same ("22-04-2025" or
+// "22 Apr 2025" for 2025-04-22, "03/2024" for 2024-03-01). Dates are looked
+// for between labels, tabs and wide gaps, one per stretch of text.
+export function findValue(field: DynamicField, text: string): { index: number; length: number } | null {
+  const value = searchText(field)?.toLowerCase();
+  if (!value) return null;
+  const index = text.toLowerCase().indexOf(value);
+  if (index !== -1) return { index, length: value.length };
+  if (field.type !== "date" || !parseDate(value, { exact: true })) return null;
+
+  let offset = 0;
+  for (const part of text.split(/([\t|:：]|\s{2,})/)) {
+    const sameDate = parseDate(part, { monthOnly: "start" }) === value || parseDate(part, { monthOnly: "end" }) === value;
+    if (sameDate) {
+      const written = part.trim();
+      return { index: offset + part.indexOf(written), length: written.length };
+    }
+    offset += part.length;
+  }
+  return null;
+}
+
+function sourceFor(line: TextLine, start: number, end: number): FieldSource {
+  return {
+    page: line.page,
+    boundingBox: line.boundingBox,
+    textSpan: { start, end },
+    snippet: line.text.trim().slice(0, MAX_SNIPPET_LENGTH),
+  };
+}
+
+// Prefers a line holding both label and value ("Lot No.: 2401"). Short values
+// like "1" are only trusted next to their label; otherwise the first line
+// containing the value wins. Values the provider reformatted in other ways
+// than a date fall back to the line with the label.
+function locateField(field: DynamicField, documentText: DocumentText): FieldSource | undefined {
+  const value = searchText(field);
+  const label = field.label.trim().toLowerCase();
+  const lines = documentText.lines;
+
+  if (value) {
+    const withValue = lines.flatMap(line => {
+      const match = findValue(field, line.text);
+      return match ? [{ line, match }] : [];
+    });
+    const found = withValue.find(candidate => candidate.line.text.toLowerCase().includes(label))
+      || (value.length >= 3 ? withValue[0] : undefined);
+    if (found) {
+      const start = found.line.start + found.match.index;
+      return sourceFor(found.line, start, start + found.match.length);
+    }
+  }
+
+  const labelLine = label.length >= 3 ? lines.find(line => line.text.toLowerCase().includes(label)) : undefined;
+  return labelLine && sourceFor(labelLine, labelLine.start, labelLine.start + labelLine.text.length);
+}
+
+// Links every extracted field back to the line of the document it came from.
+// Fields the provider already located keep their source.
+export function attachFieldSources(data: ExtractedData, documentText: DocumentText): ExtractedData {
+  const sources = new Map<string, FieldSource>();
+  data.fields.forEach(field => {
+    const source = field.source || locateField(field, documentText);
+    if (source) sources.set(field.id, source);
+  });
+
+  const withSource = (field: DynamicField): DynamicField =>
+    sources.has(field.id) ? { ...field, source: sources.get(field.id) } : field;
+
+  return {
+    ...data,
+    fields: data.fields.map(withSource),
+    detectedSections: data.detectedSections.map(section => ({ ...section, fields: section.fields.map(withSource) })),
+  };
+}
@@ -11,17 +11,27 @@ export class FileStorage {
     }
   }
 
-  async storeFile(documentId: string, tempPath: string): Promise<void> {
-    const targetPath = this.getFilePath(documentId);
+  // Files are named after the document and keep their original extension
+  // (Document.fileExtension), so e.g. OCR can tell a scan from a PDF.
+  async storeFile(documentId: string, extension: string, tempPath: string): Promise<void> {
+    const targetPath = this.getFilePath(documentId, extension);
     await fs.promises.copyFile(tempPath, targetPath);
   }
 
-  getFilePath(documentId: string): string {
-    return path.join(this.uploadsDir, `${documentId}.pdf`);
+  async storeBuffer(documentId: string, extension: string, data: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.getFilePath(documentId, extension), data);
   }
 
-  async deleteFile(documentId: string): Promise<void> {
-    const filePath = this.getFilePath(documentId);
+  getFilePath(documentId: string, extension: string): string {
+    return path.join(this.uploadsDir, `${documentId}.${extension}`);
+  }
+
+  openReadStream(documentId: string, extension: string): fs.ReadStream {
+    return fs.createReadStream(this.getFilePath(documentId, extension));
+  }
+
+  async deleteFile(documentId: string, extension: string): Promise<void> {
+    const filePath = this.getFilePath(documentId, extension);
     try {
       await fs.promises.unlink(filePath);
     } catch (error) {
@@ -30,8 +40,8 @@ export class FileStorage {
     }
   }
 
-  async fileExists(documentId: string): Promise<boolean> {
-    const filePath = this.getFilePath(documentId);
+  async fileExists(documentId: string, extension: string): Promise<boolean> {
+    const filePath = this.getFilePath(documentId, extension);
     try {
       await fs.promises.access(filePath);
       return true;
@@ -1,25 +1,28 @@
-import { Settings, ExtractedData, extractedDataSchema, DynamicField } from "@shared/schema";
+import { Settings, ExtractedData, extractedDataSchema, type DocumentClass } from "@shared/schema";
+import { documentClassLabels } from "@shared/document-classes";
 import fs from "fs";
-
-export class MistralService {
-  private apiKey: string | null = null;
+import { getProviderApiKey, type ExtractionProvider, type ExtractionOptions, type SourceFile } from "./extraction-provider";
+import { documentTextFromPages, extractDocumentText, type DocumentText } from "./document-text";
+import { attachFieldSources } from "./field-sources";
+import { scoreConfidence } from "./field-confidence";
+import { buildExtractionPrompt, parseExtractionResponse, transformExtractionResponse } from "./extraction-prompt";
+import { classifyDocument } from "./document-classifier";
+
+export class MistralService implements ExtractionProvider {
+  readonly id = "mistral" as const;
+  readonly name = "Mistral AI";
+  readonly requiresApiKey = true;
   private baseUrl = "https://api.mistral.ai/v1";
 
-  private getApiKey(settings: Settings): string {
-    if (settings.apiKey) return settings.apiKey;
-    if (settings.encryptedApiKey) {
-      // Decrypt the base64-encoded API key
-      try {
-        return Buffer.from(settings.encryptedApiKey, 'base64').toString('utf-8');
-      } catch (error) {
-        console.error("Failed to decrypt API key:", error);
-        return settings.encryptedApiKey; // Fallback to raw value
-      }
+  private getApiKey(settings: Settings | undefined): string {
+    const apiKey = getProviderApiKey(settings, this.id);
+    if (!apiKey) {
+      throw new Error("No API key available");
     }
-    throw new Error("No API key available");
+    return apiKey;
   }
 
-  async testConnection(settings: Settings): Promise<boolean> {
+  async testConnection(settings: Settings | undefined): Promise<boolean> {
     try {
       const apiKey = this.getApiKey(settings);
       console.log("Testing connection with API key length:", apiKey.length);
@@ -44,10 +47,13 @@ export class MistralService {
     }
   }
 
-  async processDocument(filePath: string, settings: Settings): Promise<ExtractedData> {
+  async processDocument(file: SourceFile, settings: Settings | undefined, options: ExtractionOptions = {}): Promise<ExtractedData> {
     try {
-      // Extract text from PDF using Mistral OCR
-      const extractedText = await this.extractTextWithMistralOCR(filePath, settings);
+      // PDFs and images go through Mistral OCR; Word and Excel files are read directly
+      const documentText = file.kind === "pdf" || file.kind === "image"
+        ? await this.extractTextWithMistralOCR(file, settings, options)
+        : await this.readDocumentText(file, options);
+      const extractedText = documentText.text;
       
       console.log("Extracted text length:", extractedText.length);
       console.log("First 500 chars:", extractedText.substring(0, 500));
@@ -57,39 +63,50 @@ export class MistralService {
         throw new Error("No meaningful text extracted from document");
       }
 
-      // Use Mistral AI to extract structured data
-      const structuredData = await this.extractStructuredData(extractedText, settings);
+      // Use Mistral AI to extract structured data, as the kind of document it is
+      const documentClass = options.documentClass || classifyDocument(extractedText);
+      options.onProgress?.({ stage: "structuring", progress: 60, message: `Structuring ${documentClassLabels[documentClass]} with Mistral AI` });
+      const structuredData = await this.extractStructuredData(extractedText, documentClass, settings, options.signal);
       
       console.log("Mistral response:", JSON.stringify(structuredData, null, 2));
       
-      // Validate the extracted data
-      return extractedDataSchema.parse(structuredData);
+      // Validate the extracted data, trace each field back to the OCR text and score it
+      options.onProgress?.({ stage: "validating", progress: 90, message: "Validating extracted data" });
+      return scoreConfidence(attachFieldSources(extractedDataSchema.parse(structuredData), documentText));
     } catch (error: any) {
       console.error("Document processing failed:", error);
       throw new Error(`Failed to process document: ${error.message}`);
     }
   }
 
-  private async extractTextWithMistralOCR(filePath: string, settings: Settings): Promise<string> {
+  private async readDocumentText(file: SourceFile, options: ExtractionOptions): Promise<DocumentText> {
+    options.onProgress?.({ stage: "reading", progress: 5, message: "Reading uploaded file" });
+    options.onProgress?.({ stage: "ocr", progress: 30, message: "Reading document text" });
+    return extractDocumentText(file);
+  }
+
+  private async extractTextWithMistralOCR(file: SourceFile, settings: Settings | undefined, options: ExtractionOptions): Promise<DocumentText> {
     // Use ONLY Mistral's dedicated OCR API - no fallbacks
     const apiKey = this.getApiKey(settings);
-    const pdfBuffer = fs.readFileSync(filePath);
-    const base64Pdf = pdfBuffer.toString('base64');
+    options.onProgress?.({ stage: "reading", progress: 5, message: "Reading uploaded file" });
+    const fileBuffer = fs.readFileSync(file.path);
+    const dataUrl = `data:${file.mimeType};base64,${fileBuffer.toString('base64')}`;
 
-    console.log("Calling Mistral OCR API with file size:", pdfBuffer.length, "bytes");
+    console.log("Calling Mistral OCR API with file size:", fileBuffer.length, "bytes");
+    options.onProgress?.({ stage: "ocr", progress: 15, message: "Running OCR" });
     
     const response = await fetch(`${this.baseUrl}/ocr`, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'Authorization': `Bearer ${apiKey}`,
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         model: 'mistral-ocr-latest',
-        document: {
-          type: 'document_url',
-          document_url: `data:application/pdf;base64,${base64Pdf}`
-        },
+        document: file.kind === "image"
+          ? { type: 'image_url', image_url: dataUrl }
+          : { type: 'document_url', document_url: dataUrl },
         include_image_base64: false
       })
     });
@@ -106,23 +123,26 @@ export class MistralService {
     console.log("Mistral OCR response structure:", Object.keys(result));
     
     // Extract text from all pages
-    let fullText = '';
+    const pages: string[] = [];
     if (result.pages && Array.isArray(result.pages)) {
       console.log("Found", result.pages.length, "pages");
       for (let i = 0; i < result.pages.length; i++) {
         const page = result.pages[i];
         console.log(`Page ${i + 1} keys:`, Object.keys(page));
-        if (page.markdown) {
-          fullText += page.markdown + '\n\n';
-        } else if (page.text) {
-          fullText += page.text + '\n\n';
-        }
+        options.onProgress?.({
+          stage: "ocr",
+          progress: 20 + Math.round(((i + 1) / result.pages.length) * 35),
+          message: `OCR page ${i + 1} of ${result.pages.length}`
+        });
+        pages.push(page.markdown || page.text || '');
       }
     } else {
       console.log("No pages found in OCR response");
       console.log("Full OCR response:", JSON.stringify(result, null, 2));
     }
     
+    const documentText = documentTextFromPages(pages);
+    const fullText = documentText.text;
     console.log("Total extracted text length:", fullText.length);
     
     if (fullText.length < 10) {
@@ -130,196 +150,50 @@ export class MistralService {
     }
 
     console.log("Mistral OCR successful - extracted", fullText.length, "characters");
-    return fullText;
+    return documentText;
   }
 
-  private async extractStructuredData(text: string, settings: Settings): Promise<any> {
+  private async extractStructuredData(text: string, documentClass: DocumentClass, settings: Settings | undefined, signal?: AbortSignal): Promise<any> {
     const apiKey = this.getApiKey(settings);
-    
-    const prompt = `
-You are an advanced document structure analysis system specialized in processing Certificate of Analysis (COA) documents and supplier documentation. Analyze this document and extract ALL meaningful content into structured sections.
-
-CRITICAL: You MUST always return at least 2-3 sections even if the document appears simple. Never return empty sections.
-
-Your tasks:
-1. Identify the document type (default to "Certificate of Analysis" if unclear)
-2. Create meaningful sections that group related content
-3. Extract ALL text content into appropriate fields
-4. For any tabular data: preserve as table structure
-5. For headings: create heading fields with proper levels
-6. Group related fields into logical sections
-
-MANDATORY SECTIONS TO CREATE:
-- Document Information (document title, dates, identifiers)
-- Product Information (product details, specifications)
-- Test Results or Analysis Data (any measurements, values, results)
-- Additional Information (any remaining content)
-
-RETURN THIS EXACT JSON STRUCTURE:
-{
-  "documentType": "detected document type",
-  "detectedSections": [
-    {
-      "id": "section1_id",
-      "title": "Section 1 Title",
-      "content": "Section content or description",
-      "type": "field_group",
-      "preview": "Brief preview of section content",
-      "fields": [],
-      "selected": false,
-      "order": 1
-    }
-  ],
-  "fields": [
-    {
-      "id": "unique_id",
-      "label": "field name or table/heading title",
-      "value": "single value OR [['header1','header2'],['row1col1','row1col2']] for tables",
-      "type": "text|number|date|email|phone|textarea|table|heading|paragraph",
-      "section": "section name",
-      "required": false,
-      "layout": {
-        "structureType": "field|table|heading|paragraph",
-        "level": 1, // for headings only (1-6)
-        "columns": ["header1", "header2"], // for tables only
-        "rows": [["row1col1","row1col2"],["row2col1","row2col2"]], // for tables only
-        "order": 1 // sequential order in document
-      }
-    }
-  ],
-  "structure": {
-    "hasHeaders": true/false,
-    "hasTables": true/false,
-    "hasLists": true/false,
-    "originalLayout": [
-      {
-        "type": "heading|paragraph|table|field",
-        "content": "text content or table identifier",
-        "level": 1, // for headings
-        "order": 1
-      }
-    ]
-  },
-  "metadata": {
-    "extractedAt": "${new Date().toISOString()}",
-    "confidence": 0.85,
-    "totalFields": 10
-  }
-}
-
-CRITICAL RULES:
-- NEVER return empty detectedSections array - always create at least 2-3 meaningful sections
-- For TABLES: Use type="table", value must be array of arrays [[headers],[row1],[row2]]
-- For HEADINGS: Use type="heading", set layout.level (1-6), preserve hierarchy
-- For regular fields: Use appropriate type (text, number, date, etc.)
-- MAINTAIN EXACT ORDER: layout.order must reflect document sequence
-- PRESERVE STRUCTURE: Don't flatten tables into individual fields
-- If document seems empty, extract whatever text is available into meaningful sections
-- Always populate detectedSections with proper section objects that have fields arrays
-
-EXAMPLE TABLE EXTRACTION:
-If you see:
-Test Items | Specifications | Results
-Appearance | White powder | White powder
-Purity | ≥95% | 97.4%
-
-Extract as:
-{
-  "id": "test_results_table",
-  "label": "Test Results",
-  "value": [["Test Items","Specifications","Results"],["Appearance","White powder","White powder"],["Purity","≥95%","97.4%"]],
-  "type": "table",
-  "layout": {
-    "structureType": "table",
-    "columns": ["Test Items","Specifications","Results"],
-    "rows": [["Appearance","White powder","White powder"],["Purity","≥95%","97.4%"]],
-    "order": 5
-  }
-}
-
-Document text to analyze:
-${text}
-
-IMPORTANT: Even if the document text appears minimal or poorly formatted, you MUST create meaningful sections and extract all available content. Do not return empty arrays.
-
-Return only the JSON object with populated detectedSections and fields:`;
+    const prompt = buildExtractionPrompt(text, documentClass);
+    const requestCompletion = () => fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: settings?.mistralModel || 'mistral-large-latest',
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        temperature: 0.1,
+        max_tokens: 4000
+      })
+    });
 
     try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'mistral-large-latest',
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.1,
-          max_tokens: 4000
-        })
-      });
+      let response = await requestCompletion();
       
       // Handle rate limiting with exponential backoff
       if (response.status === 429) {
         console.log("Rate limited, implementing exponential backoff...");
         
-        for (let attempt = 1; attempt <= 4; attempt++) {
+        for (let attempt = 1; attempt <= 4 && response.status === 429; attempt++) {
           const waitTime = Math.min(1000 * Math.pow(2, attempt), 30000); // 2s, 4s, 8s, 16s (max 30s)
           console.log(`Retry attempt ${attempt}/4, waiting ${waitTime}ms...`);
           await new Promise(resolve => setTimeout(resolve, waitTime));
-          
-          const retryResponse = await fetch(`${this.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-              model: 'mistral-large-latest',
-              messages: [
-                {
-                  role: 'user',
-                  content: prompt
-                }
-              ],
-              temperature: 0.1,
-              max_tokens: 4000
-            })
-          });
-          
-          if (retryResponse.ok) {
-            const retryResult = await retryResponse.json();
-            const retryContent = retryResult.choices[0]?.message?.content;
-            
-            if (retryContent) {
-              const jsonMatch = retryContent.match(/\{[\s\S]*\}/);
-              if (jsonMatch) {
-                const parsedData = JSON.parse(jsonMatch[0]);
-                
-                if (parsedData.fields) {
-                  parsedData.fields.forEach((field: any, index: number) => {
-                    if (!field.id) {
-                      field.id = `field_${index + 1}`;
-                    }
-                  });
-                }
-                
-                console.log(`Retry successful on attempt ${attempt}`);
-                return parsedData;
-              }
-            }
-          } else if (retryResponse.status !== 429) {
-            // If it's not a rate limit error, break out and handle below
-            break;
-          }
+          signal?.throwIfAborted();
+          response = await requestCompletion();
         }
         
-        throw new Error("Rate limited and all retries failed");
+        if (response.status === 429) {
+          throw new Error("Rate limited and all retries failed");
+        }
       }
       
       if (!response.ok) {
@@ -333,150 +207,14 @@ Return only the JSON object with populated detectedSections and fields:`;
         throw new Error("No content returned from Mistral API");
       }
 
-      // Parse the JSON response with better error handling
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.log("No JSON found in response. Content:", content.substring(0, 500));
-        throw new Error("No valid JSON found in response");
-      }
-
-      let parsedData;
-      try {
-        parsedData = JSON.parse(jsonMatch[0]);
-      } catch (parseError: any) {
-        console.log("JSON parse error at position:", parseError.message);
-        console.log("Raw JSON (first 1000 chars):", jsonMatch[0].substring(0, 1000));
-        console.log("Raw JSON (around error position):", jsonMatch[0].substring(14800, 15000));
-        
-        // Try to fix common JSON issues
-        let fixedJson = jsonMatch[0]
-          .replace(/,(\s*[}\]])/g, '$1') // Remove trailing commas
-          .replace(/([{,]\s*)(\w+):/g, '$1"$2":') // Add quotes to unquoted keys
-          .replace(/:\s*([^",\[\]{}\s][^",\[\]{}]*[^",\[\]{}\s])\s*([,\]}])/g, ': "$1"$2'); // Quote unquoted string values
-        
-        try {
-          console.log("Attempting to parse fixed JSON...");
-          parsedData = JSON.parse(fixedJson);
-          console.log("Successfully parsed fixed JSON!");
-        } catch (fixedError: any) {
-          console.log("Fixed JSON also failed:", fixedError.message);
-          console.log("Fixed JSON (around error):", fixedJson.substring(14800, 15000));
-          throw new Error(`JSON parsing failed: ${parseError.message}`);
-        }
-      }
-      
+      const parsedData = parseExtractionResponse(content);
       console.log("Raw Mistral LLM response:", parsedData);
       
       // Transform the data to match our schema
-      const transformedData = this.transformMistralResponse(parsedData);
-      
-      return transformedData;
+      return transformExtractionResponse(parsedData, documentClass);
     } catch (error: any) {
       console.error("Mistral API call failed:", error);
       throw new Error(`Mistral API processing failed: ${error.message}`);
     }
   }
-
-  private transformMistralResponse(data: any): any {
-    // Transform Mistral's response to match our schema
-    const transformed = {
-      documentType: data.documentType || "Certificate of Analysis",
-      detectedSections: data.detectedSections || [],
-      fields: []
-    };
-
-    // Transform fields - convert complex values to simple strings
-    if (data.fields && Array.isArray(data.fields)) {
-      transformed.fields = data.fields.map((field: any, index: number) => {
-        let value = field.value;
-        
-        // Convert complex objects to strings
-        if (typeof value === 'object' && value !== null) {
-          if (Array.isArray(value)) {
-            value = value.join(', ');
-          } else {
-            value = JSON.stringify(value);
-          }
-        }
-        
-        return {
-          id: field.id || `field_${index + 1}`,
-          label: field.label || field.name || `Field ${index + 1}`,
-          value: String(value || ''),
-          type: field.type || 'text',
-          section: field.section || 'general'
-        };
-      });
-    }
-
-    // Ensure detectedSections are objects with required properties
-    if (transformed.detectedSections && Array.isArray(transformed.detectedSections)) {
-      transformed.detectedSections = transformed.detectedSections.map((section: any, index: number) => {
-        let transformedSection;
-        
-        if (typeof section === 'string') {
-          transformedSection = {
-            id: `section_${index + 1}`,
-            title: section,
-            content: `Content for ${section}`,
-            type: 'field_group',
-            preview: `Section: ${section}`,
-            fields: [],
-            selected: false,
-            order: index + 1
-          };
-        } else {
-          transformedSection = {
-            id: section.id || `section_${index + 1}`,
-            title: section.title || section.name || `Section ${index + 1}`,
-            content: section.content || section.description || '',
-            type: section.type || 'field_group',
-            preview: section.preview || `${section.title || 'Section'} - ${section.fields?.length || 0} fields`,
-            fields: [],
-            selected: section.selected || false,
-            order: section.order || index + 1
-          };
-        }
-
-        // Transform fields within sections - convert strings to field objects
-        if (section.fields && Array.isArray(section.fields)) {
-          transformedSection.fields = section.fields.map((field: any, fieldIndex: number) => {
-            if (typeof field === 'string') {
-              // Convert string to field object
-              return {
-                id: `${transformedSection.id}_field_${fieldIndex + 1}`,
-                label: field,
-                value: '',
-                type: 'text',
-                section: transformedSection.id
-              };
-            } else {
-              // Transform existing field object
-              let value = field.value;
-              if (typeof value === 'object' && value !== null) {
-                if (Array.isArray(value)) {
-                  value = value.join(', ');
-                } else {
-                  value = JSON.stringify(value);
-                }
-              }
-              
-              return {
-                id: field.id || `${transformedSection.id}_field_${fieldIndex + 1}`,
-                label: field.label || field.name || `Field ${fieldIndex + 1}`,
-                value: String(value || ''),
-                type: field.type || 'text',
-                section: transformedSection.id
-              };
-            }
-          });
-        }
-
-        return transformedSection;
-      });
-    }
-
-    console.log("Transformed data:", JSON.stringify(transformed, null, 2));
-    return transformed;
-  }
 }
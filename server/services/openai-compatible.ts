@@ -0,0 +1,99 @@
+import { Settings, ExtractedData, extractedDataSchema } from "@shared/schema";
+import { documentClassLabels } from "@shared/document-classes";
+import { getProviderApiKey, type ExtractionProvider, type ExtractionOptions, type SourceFile } from "./extraction-provider";
+import { buildExtractionPrompt, parseExtractionResponse, transformExtractionResponse } from "./extraction-prompt";
+import { extractDocumentText } from "./document-text";
+import { classifyDocument } from "./document-classifier";
+import { attachFieldSources } from "./field-sources";
+import { scoreConfidence } from "./field-confidence";
+
+// Any server speaking the OpenAI chat completions API, e.g. a local
+// llama.cpp or Ollama instance. Text comes from the PDF text layer or the
+// Word or Excel file since these servers have no OCR endpoint.
+export class OpenAICompatibleService implements ExtractionProvider {
+  readonly id = "openai-compatible" as const;
+  readonly name = "OpenAI-compatible endpoint";
+  readonly requiresApiKey = false;
+
+  private getEndpoint(settings: Settings | undefined): { baseUrl: string; model: string } {
+    if (!settings?.providerBaseUrl) {
+      throw new Error("Base URL not configured for OpenAI-compatible provider");
+    }
+    if (!settings.providerModel) {
+      throw new Error("Model name not configured for OpenAI-compatible provider");
+    }
+    return {
+      baseUrl: settings.providerBaseUrl.replace(/\/+$/, ''),
+      model: settings.providerModel
+    };
+  }
+
+  private getHeaders(settings: Settings | undefined): Record<string, string> {
+    const apiKey = getProviderApiKey(settings, this.id);
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    };
+  }
+
+  async testConnection(settings: Settings | undefined): Promise<boolean> {
+    try {
+      const { baseUrl } = this.getEndpoint(settings);
+      const response = await fetch(`${baseUrl}/models`, { headers: this.getHeaders(settings) });
+      console.log("OpenAI-compatible API response status:", response.status);
+      return response.ok;
+    } catch (error) {
+      console.error("Connection test failed:", error);
+      return false;
+    }
+  }
+
+  async processDocument(file: SourceFile, settings: Settings | undefined, options: ExtractionOptions = {}): Promise<ExtractedData> {
+    try {
+      const { baseUrl, model } = this.getEndpoint(settings);
+      options.onProgress?.({ stage: "reading", progress: 5, message: "Reading uploaded file" });
+      options.onProgress?.({ stage: "ocr", progress: 20, message: "Reading document text" });
+      const documentText = await extractDocumentText(file);
+
+      if (documentText.text.trim().length < 10) {
+        throw new Error("No text found in document; use the Mistral provider for scanned PDFs and images");
+      }
+
+      const documentClass = options.documentClass || classifyDocument(documentText.text);
+      options.onProgress?.({ stage: "structuring", progress: 50, message: `Structuring ${documentClassLabels[documentClass]} with ${model}` });
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal: options.signal,
+        headers: this.getHeaders(settings),
+        body: JSON.stringify({
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: buildExtractionPrompt(documentText.text, documentClass)
+            }
+          ],
+          temperature: 0.1,
+          max_tokens: 4000
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      const content = result.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error("No content returned from OpenAI-compatible API");
+      }
+
+      options.onProgress?.({ stage: "validating", progress: 90, message: "Validating extracted data" });
+      const structuredData = transformExtractionResponse(parseExtractionResponse(content), documentClass);
+      return scoreConfidence(attachFieldSources(extractedDataSchema.parse(structuredData), documentText));
+    } catch (error: any) {
+      console.error("Document processing failed:", error);
+      throw new Error(`Failed to process document: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractPdfText } from "./pdf-text";
+
+const NTCB_COA = path.resolve(import.meta.dirname, "../../attached_assets/NTCB COA COSCARE-H ACID_1756072650861.pdf");
+
+describe("extractPdfText", () => {
+  it("sets table columns apart with tabs and keeps exponents on their row", async () => {
+    const { lines } = await extractPdfText(NTCB_COA);
+    const texts = lines.map(line => line.text.trim());
+
+    expect(texts).toContain("Test Items \tSpecifications \tResults");
+    expect(texts).toContain("Molecular weight \t(0.5 – 1.8) x 10^6 \t1.70 x 10^6");
+    expect(texts).not.toContain("6");
+  });
+
+  it("gives each line its page and position", async () => {
+    const { lines } = await extractPdfText(NTCB_COA);
+    const header = lines.find(line => line.text.includes("Specifications"));
+
+    expect(header?.page).toBe(1);
+    expect(header?.boundingBox?.x).toBeGreaterThan(0);
+    expect(header?.boundingBox?.y).toBeGreaterThan(0);
+    expect(header?.boundingBox?.width).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,80 @@
+import fs from "fs";
+import pdf from "pdf-parse";
+import { buildDocumentText, type DocumentText, type TextLine } from "./document-text";
+
+interface LineBounds {
+  text: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// Reads the embedded text layer of a PDF locally, with the position of each
+// line on its page. Scanned documents without a text layer come back (nearly)
+// empty, so callers must check the length.
+export async function extractPdfText(filePath: string): Promise<DocumentText> {
+  const buffer = await fs.promises.readFile(filePath);
+  const lines: Omit<TextLine, "start">[] = [];
+  let page = 0;
+
+  // Pages are rendered one after another, so the counter follows the page order
+  await pdf(buffer, {
+    pagerender: async (pageData: any) => {
+      page++;
+      const [x0, y0, x1, y1] = pageData.view as number[];
+      const pageWidth = x1 - x0;
+      const pageHeight = y1 - y0;
+      const pushLine = (line: LineBounds) => lines.push({
+        text: line.text,
+        page,
+        boundingBox: {
+          x: (line.left - x0) / pageWidth,
+          y: (y1 - line.top) / pageHeight,
+          width: (line.right - line.left) / pageWidth,
+          height: (line.top - line.bottom) / pageHeight,
+        },
+      });
+
+      // Text items stay on one line while their baseline stays within half a
+      // line of it, so the exponent in "x 10^6" does not break a table row
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      const pageLines: string[] = [];
+      let current: LineBounds | undefined;
+      let baseline = 0;
+      let fontSize = 0;
+      for (const item of content.items) {
+        const [, , c, d, x, y] = item.transform as number[];
+        // The bundled pdf.js reports unreliable item heights; the font size
+        // from the text matrix is the line height
+        const height = Math.hypot(c, d);
+        if (!current || (y !== baseline && Math.abs(y - baseline) >= fontSize / 2)) {
+          if (current) {
+            pushLine(current);
+            pageLines.push(current.text);
+          }
+          current = { text: "", left: x, right: x, top: y + height, bottom: y };
+          baseline = y;
+          fontSize = height;
+        } else if (x - current.right > fontSize) {
+          // Table columns are set apart by position, often with a single
+          // space or none in the text, so a wide gap becomes a tab
+          current.text += "\t";
+        }
+        if (y - baseline > fontSize / 4 && item.str.trim()) current.text += "^";
+        current.text += item.str;
+        current.left = Math.min(current.left, x);
+        current.right = Math.max(current.right, x + (item.width || 0));
+        current.top = Math.max(current.top, y + height);
+        current.bottom = Math.min(current.bottom, y);
+      }
+      if (current) {
+        pushLine(current);
+        pageLines.push(current.text);
+      }
+      return pageLines.join("\n");
+    }
+  });
+
+  return buildDocumentText(lines);
+}
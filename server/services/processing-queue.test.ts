@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import type { ProcessingJob } from "@shared/jobs";
+import { ProcessingQueue, type JobContext } from "./processing-queue";
+
+// A handler whose runs finish only when the test says so
+function controlledHandler() {
+  const runs: Array<{ job: ProcessingJob; context: JobContext; resolve: () => void; reject: (error: Error) => void }> = [];
+  const handler = (job: ProcessingJob, context: JobContext) => new Promise<void>((resolve, reject) => {
+    runs.push({ job, context, resolve, reject });
+  });
+  return { runs, handler };
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("ProcessingQueue", () => {
+  it("runs jobs in order up to the concurrency limit", async () => {
+    const { runs, handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler, 1);
+    const first = queue.enqueue("doc-1", "mistral");
+    const second = queue.enqueue("doc-2");
+
+    expect(runs.map(run => run.job.documentId)).toEqual(["doc-1"]);
+    expect(queue.get(first.id)).toMatchObject({ status: "running", provider: "mistral" });
+    expect(queue.get(second.id)).toMatchObject({ status: "queued", message: "Waiting in queue" });
+
+    runs[0].resolve();
+    await settle();
+    expect(queue.get(first.id)).toMatchObject({ status: "completed", stage: "done", progress: 100 });
+    expect(runs.map(run => run.job.documentId)).toEqual(["doc-1", "doc-2"]);
+  });
+
+  it("keeps one active job per document", () => {
+    const { handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler);
+    const job = queue.enqueue("doc-1");
+
+    expect(queue.enqueue("doc-1").id).toBe(job.id);
+    expect(queue.getActiveJobForDocument("doc-1")?.id).toBe(job.id);
+  });
+
+  it("streams progress reports to subscribers", async () => {
+    const { runs, handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler);
+    const job = queue.enqueue("doc-1");
+    const updates: ProcessingJob[] = [];
+    queue.subscribe(job.id, update => updates.push(update));
+
+    runs[0].context.report({ stage: "ocr", progress: 42.6, message: "Reading page 1" });
+    expect(queue.get(job.id)).toMatchObject({ stage: "ocr", progress: 43, message: "Reading page 1" });
+
+    runs[0].resolve();
+    await settle();
+    expect(updates.map(update => update.status)).toEqual(["running", "completed"]);
+  });
+
+  it("records the handler's error on a failed job", async () => {
+    const { runs, handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler);
+    const job = queue.enqueue("doc-1");
+
+    runs[0].reject(new Error("Provider unavailable"));
+    await settle();
+    expect(queue.get(job.id)).toMatchObject({ status: "failed", error: "Provider unavailable", message: "Failed" });
+  });
+
+  it("cancels a queued job without running it", async () => {
+    const { runs, handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler);
+    queue.enqueue("doc-1");
+    const queued = queue.enqueue("doc-2");
+
+    expect(queue.cancel(queued.id)).toMatchObject({ status: "cancelled" });
+    runs[0].resolve();
+    await settle();
+    expect(runs.map(run => run.job.documentId)).toEqual(["doc-1"]);
+  });
+
+  it("aborts a running job and ignores what its handler does afterwards", async () => {
+    const { runs, handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler);
+    const job = queue.enqueue("doc-1");
+
+    queue.cancel(job.id);
+    expect(runs[0].context.signal.aborted).toBe(true);
+
+    runs[0].context.report({ stage: "structuring", progress: 80 });
+    runs[0].resolve();
+    await settle();
+    expect(queue.get(job.id)).toMatchObject({ status: "cancelled", stage: "queued", progress: 0 });
+    expect(queue.getActiveJobForDocument("doc-1")).toBeUndefined();
+  });
+
+  it("retries a finished job as a new job and leaves active ones alone", async () => {
+    const { runs, handler } = controlledHandler();
+    const queue = new ProcessingQueue(handler);
+    const job = queue.enqueue("doc-1", "rule-based");
+
+    expect(queue.retry(job.id)?.id).toBe(job.id);
+    runs[0].reject(new Error("Timed out"));
+    await settle();
+
+    const retried = queue.retry(job.id);
+    expect(retried).toMatchObject({ documentId: "doc-1", provider: "rule-based", status: "running" });
+    expect(retried?.id).not.toBe(job.id);
+    expect(queue.getLatestJobForDocument("doc-1")?.id).toBe(retried?.id);
+    expect(queue.retry("missing")).toBeUndefined();
+  });
+
+  it("fails a retry whose document was locked for review in the meantime", async () => {
+    // The worker in routes.ts checks the lock before writing anything
+    const locked = new Set<string>();
+    const queue = new ProcessingQueue(async job => {
+      if (locked.has(job.documentId)) throw new Error("Approved documents cannot be changed until an approver reopens them");
+    });
+    const job = queue.enqueue("doc-1");
+    await settle();
+    expect(queue.get(job.id)?.status).toBe("completed");
+
+    locked.add("doc-1");
+    const retried = queue.retry(job.id)!;
+    await settle();
+    expect(queue.get(retried.id)).toMatchObject({ status: "failed", error: "Approved documents cannot be changed until an approver reopens them" });
+  });
+});
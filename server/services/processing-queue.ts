@@ -0,0 +1,143 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { isJobFinished, type ProcessingJob, type ProcessingProgress } from "@shared/jobs";
+
+export interface JobContext {
+  report(update: ProcessingProgress): void;
+  signal: AbortSignal;
+}
+
+export type JobHandler = (job: ProcessingJob, context: JobContext) => Promise<void>;
+
+const MAX_FINISHED_JOBS = 500;
+
+/**
+ * In-memory queue that runs document processing in the background with a
+ * concurrency limit. Every state change is emitted so routes can stream it.
+ */
+export class ProcessingQueue {
+  private jobs = new Map<string, ProcessingJob>();
+  private controllers = new Map<string, AbortController>();
+  private pending: string[] = [];
+  private running = 0;
+  private events = new EventEmitter();
+
+  constructor(private handler: JobHandler, private concurrency = 1) {
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(documentId: string, provider: string | null = null): ProcessingJob {
+    const active = this.getActiveJobForDocument(documentId);
+    if (active) return active;
+
+    const job: ProcessingJob = {
+      id: randomUUID(),
+      documentId,
+      provider,
+      status: "queued",
+      stage: "queued",
+      progress: 0,
+      message: "Waiting in queue",
+      error: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    this.emit(job);
+    this.pruneFinishedJobs();
+    this.drain();
+    return job;
+  }
+
+  get(id: string): ProcessingJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  getActiveJobForDocument(documentId: string): ProcessingJob | undefined {
+    return Array.from(this.jobs.values()).find(job => job.documentId === documentId && !isJobFinished(job));
+  }
+
+  // Most recent job for a document, finished or not (e.g. to show its error)
+  getLatestJobForDocument(documentId: string): ProcessingJob | undefined {
+    return Array.from(this.jobs.values()).filter(job => job.documentId === documentId).pop();
+  }
+
+  cancel(id: string): ProcessingJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job || isJobFinished(job)) return job;
+
+    this.pending = this.pending.filter(jobId => jobId !== id);
+    this.controllers.get(id)?.abort();
+    this.finish(job, { status: "cancelled", message: "Cancelled" });
+    return job;
+  }
+
+  retry(id: string): ProcessingJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    if (!isJobFinished(job)) return job;
+    return this.enqueue(job.documentId, job.provider);
+  }
+
+  subscribe(id: string, listener: (job: ProcessingJob) => void): () => void {
+    const eventName = `job:${id}`;
+    this.events.on(eventName, listener);
+    return () => this.events.off(eventName, listener);
+  }
+
+  private emit(job: ProcessingJob): void {
+    this.events.emit(`job:${job.id}`, { ...job });
+  }
+
+  private update(job: ProcessingJob, changes: Partial<ProcessingJob>): void {
+    // Late progress reports from an aborted handler must not resurrect the job
+    if (isJobFinished(job)) return;
+    Object.assign(job, changes);
+    this.emit(job);
+  }
+
+  private finish(job: ProcessingJob, changes: Partial<ProcessingJob>): void {
+    if (isJobFinished(job)) return;
+    Object.assign(job, changes, { finishedAt: new Date().toISOString() });
+    this.emit(job);
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job) {
+        this.run(job);
+      }
+    }
+  }
+
+  private async run(job: ProcessingJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.running++;
+    this.update(job, { status: "running", startedAt: new Date().toISOString(), message: "Starting" });
+
+    try {
+      await this.handler({ ...job }, {
+        signal: controller.signal,
+        report: ({ stage, progress, message }) => {
+          this.update(job, { stage, progress: Math.round(progress), message: message || null });
+        },
+      });
+      this.finish(job, { status: "completed", stage: "done", progress: 100, message: "Completed" });
+    } catch (error: any) {
+      this.finish(job, { status: "failed", error: error.message || "Processing failed", message: "Failed" });
+    } finally {
+      this.controllers.delete(job.id);
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(isJobFinished);
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(job => this.jobs.delete(job.id));
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { DynamicField, ExtractedData, Product, ProductSupplierMapping } from "@shared/schema";
+import { matchProduct } from "./product-matcher";
+
+const product = (id: string, name: string, casNumber: string | null = null, supplierMappings: ProductSupplierMapping[] = []): Product => ({
+  id,
+  code: id.toUpperCase(),
+  name,
+  casNumber,
+  grade: null,
+  supplierMappings,
+  specifications: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const data = (...values: DynamicField["value"][]): ExtractedData => ({
+  documentType: "Certificate of Analysis",
+  detectedSections: [],
+  fields: values.map((value, index) => ({ id: `f${index}`, label: `Field ${index}`, value, type: "text", section: "Product", required: false })),
+});
+
+const salt = product("nacl", "Sodium chloride", "7647-14-5", [{ supplier: "Sigma-Aldrich", productCode: "S-7653", productName: null }]);
+const saltAcs = product("nacl-acs", "Sodium chloride ACS");
+const sugar = product("sucrose", "Sucrose", "57-50-1");
+
+describe("matchProduct", () => {
+  it("matches by CAS number over names", () => {
+    expect(matchProduct(data("Sucrose", "CAS No.: 7647-14-5"), [salt, sugar])).toEqual({ product: salt, method: "cas" });
+  });
+
+  it("ignores CAS numbers with a wrong check digit", () => {
+    expect(matchProduct(data("CAS 7647-14-6"), [salt])).toBeNull();
+  });
+
+  it("matches supplier codes written with or without separators", () => {
+    expect(matchProduct(data("Cat. No. S7653"), [salt, sugar])).toEqual({ product: salt, method: "supplier_code" });
+    expect(matchProduct(data("Catalog S 7653"), [salt])).toMatchObject({ method: "supplier_code" });
+  });
+
+  it("prefers the supplier the document names when codes collide", () => {
+    const sigma = product("a", "Product A", null, [{ supplier: "Sigma", productCode: "1234", productName: null }]);
+    const merck = product("b", "Product B", null, [{ supplier: "Merck", productCode: "1234", productName: null }]);
+    expect(matchProduct(data("Merck KGaA", "Item 1234"), [sigma, merck])?.product.id).toBe("b");
+    expect(matchProduct(data("Item 1234"), [sigma, merck])).toBeNull();
+  });
+
+  it("prefers the longest matching name", () => {
+    expect(matchProduct(data("Sodium Chloride, ACS"), [salt, saltAcs])).toEqual({ product: saltAcs, method: "name" });
+    expect(matchProduct(data("sodium chloride"), [salt, saltAcs])).toEqual({ product: salt, method: "name" });
+  });
+
+  it("does not match a name split across fields", () => {
+    expect(matchProduct(data("Sodium", "chloride"), [salt])).toBeNull();
+  });
+
+  it("reads table cells and returns null without evidence", () => {
+    expect(matchProduct(data([["Product", "Sucrose"]]), [salt, sugar])?.product.id).toBe("sucrose");
+    expect(matchProduct(data("Potassium iodide", null), [salt, sugar])).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import type { ExtractedData, Product, ProductMatchMethod, ProductSupplierMapping } from "@shared/schema";
+import { normalizeProductText } from "@shared/products";
+
+export interface ProductMatch {
+  product: Product;
+  method: Exclude<ProductMatchMethod, "manual">;
+}
+
+const CAS_NUMBER = /\b(\d{2,7})-(\d{2})-(\d)\b/g;
+
+// Evidence weights: a CAS number outweighs a supplier code and a name
+// together; a code counts more when the document also names that supplier
+const CAS_WEIGHT = 5;
+const SUPPLIER_CODE_WEIGHT = 2;
+const SUPPLIER_NAME_WEIGHT = 1;
+const NAME_WEIGHT = 1;
+
+// The last digit is a checksum: the other digits from the right, weighted 1, 2, 3, ...
+function isValidCasNumber(match: RegExpMatchArray): boolean {
+  const digits = (match[1] + match[2]).split("").reverse();
+  const sum = digits.reduce((total, digit, index) => total + Number(digit) * (index + 1), 0);
+  return sum % 10 === Number(match[3]);
+}
+
+function fieldTexts(data: ExtractedData): string[] {
+  return data.fields.flatMap(field => {
+    if (Array.isArray(field.value)) return field.value.flat();
+    return field.value === null || field.value === undefined ? [] : [String(field.value)];
+  });
+}
+
+// Codes are compared without separators, so "S-7653" finds "S7653" and back:
+// runs of up to three adjacent words are joined into candidate codes
+const MAX_CODE_WORDS = 3;
+const compact = (text: string) => normalizeProductText(text).replace(/ /g, "");
+
+function codeCandidates(texts: string[]): Set<string> {
+  const codes = new Set<string>();
+  for (const text of texts) {
+    const words = normalizeProductText(text).split(" ");
+    words.forEach((_, start) => {
+      for (let end = start + 1; end <= Math.min(words.length, start + MAX_CODE_WORDS); end++) {
+        codes.add(words.slice(start, end).join(""));
+      }
+    });
+  }
+  return codes;
+}
+
+interface Candidate {
+  product: Product;
+  score: number;
+  nameLength: number; // of the longest matching name, to prefer "Sodium chloride ACS" over "Sodium chloride"
+  method: ProductMatch["method"];
+}
+
+// Finds the catalog product a document is for, by CAS number, supplier
+// product code or name. Returns null when nothing matches or when two
+// products match equally well.
+export function matchProduct(data: ExtractedData, products: Product[]): ProductMatch | null {
+  const texts = fieldTexts(data);
+  const casNumbers = new Set(texts.flatMap(text =>
+    Array.from(text.matchAll(CAS_NUMBER)).filter(isValidCasNumber).map(match => match[0])
+  ));
+  // Fields are kept apart so a phrase cannot span two of them
+  const haystack = ` ${texts.map(normalizeProductText).join(" | ")} `;
+  const codes = codeCandidates(texts);
+  const mentions = (phrase: string) => {
+    const needle = normalizeProductText(phrase);
+    return !!needle && haystack.includes(` ${needle} `);
+  };
+  const hasCode = (mapping: ProductSupplierMapping) => !!compact(mapping.productCode) && codes.has(compact(mapping.productCode));
+
+  const candidates: Candidate[] = [];
+  for (const product of products) {
+    const cas = !!product.casNumber && casNumbers.has(product.casNumber);
+    const mappings = (product.supplierMappings as ProductSupplierMapping[]).filter(hasCode);
+    const code = mappings.length > 0;
+    const names = [product.name, ...mappings.map(mapping => mapping.productName || "")].filter(mentions);
+    const supplierNamed = mappings.some(mapping => mentions(mapping.supplier));
+
+    const score = (cas ? CAS_WEIGHT : 0)
+      + (code ? SUPPLIER_CODE_WEIGHT + (supplierNamed ? SUPPLIER_NAME_WEIGHT : 0) : 0)
+      + (names.length > 0 ? NAME_WEIGHT : 0);
+    if (score === 0) continue;
+    candidates.push({
+      product,
+      score,
+      nameLength: Math.max(0, ...names.map(name => normalizeProductText(name).length)),
+      method: cas ? "cas" : code ? "supplier_code" : "name",
+    });
+  }
+
+  candidates.sort((a, b) => b.score - a.score || b.nameLength - a.nameLength);
+  const [best, runnerUp] = candidates;
+  if (!best || (runnerUp && runnerUp.score === best.score && runnerUp.nameLength === best.nameLength)) return null;
+  return { product: best.product, method: best.method };
+}
@@ -0,0 +1,104 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractPdfText } from "./pdf-text";
+import { RuleBasedExtractor } from "./rule-based-extractor";
+
+const extractor = new RuleBasedExtractor();
+
+const COA = [
+  "CERTIFICATE OF ANALYSIS",
+  "Product Name: Sodium Hyaluronate",
+  "Batch No.: FF-240115",
+  "Mfg. Date: 15/01/2024",
+  "Expiry Date: Jan 2026",
+  "Customer: Acme Cosmetics",
+  "",
+  "Test Items          Specifications      Results",
+  "Appearance          White powder        Conforms",
+  "pH                  5.0-8.5             6.4",
+  "",
+  "Released by quality assurance",
+].join("\n");
+
+describe("RuleBasedExtractor", () => {
+  it("maps known labels and normalizes their dates", () => {
+    const { fields } = extractor.extractFromText(COA, "coa");
+    const byLabel = new Map(fields.map(field => [field.label, field]));
+
+    expect(byLabel.get("Product Name")).toMatchObject({ value: "Sodium Hyaluronate", section: "Product Information" });
+    expect(byLabel.get("Lot Number")).toMatchObject({ value: "FF-240115" });
+    expect(byLabel.get("Manufacture Date")).toMatchObject({ value: "2024-01-15", type: "date" });
+    expect(byLabel.get("Expiry Date")).toMatchObject({ value: "2026-01-31", type: "date" });
+    expect(byLabel.get("Customer")).toMatchObject({ value: "Acme Cosmetics", section: "Document Information", type: "text" });
+  });
+
+  it("keeps an unreadable date as text", () => {
+    const { fields } = extractor.extractFromText("Expiry Date: see label", "coa");
+    expect(fields[0]).toMatchObject({ label: "Expiry Date", value: "see label", type: "text" });
+  });
+
+  it("reads a test result table under its header row", () => {
+    const { fields, structure } = extractor.extractFromText(COA, "coa");
+    const table = fields.find(field => field.type === "table");
+
+    expect(table?.value).toEqual([
+      ["Test Items", "Specifications", "Results"],
+      ["Appearance", "White powder", "Conforms"],
+      ["pH", "5.0-8.5", "6.4"],
+    ]);
+    expect(table?.section).toBe("Test Results");
+    expect(structure?.hasTables).toBe(true);
+  });
+
+  it("reads the test table and issue date from a PDF text layer", async () => {
+    // Columns there are set apart by position, with single spaces in the text
+    const { text } = await extractPdfText(path.resolve(import.meta.dirname, "../../attached_assets/NTCB COA COSCARE-H ACID_1756072650861.pdf"));
+    const { fields } = extractor.extractFromText(text, "coa");
+    const table = fields.find(field => field.type === "table")?.value as string[][];
+
+    expect(table[0]).toEqual(["Test Items", "Specifications", "Results"]);
+    expect(table[1]).toEqual(["Appearance", "White solid powder", "White powder"]);
+    expect(table.at(-1)).toEqual(["Yeast and molds", "< 50 CFU/g", "Complied"]);
+    expect(fields.find(field => field.label === "Analysis Date")).toMatchObject({ value: "2025-04-24", type: "date" });
+    expect(fields.find(field => field.label === "Additional Information")?.value).not.toContain("Specifications");
+  });
+
+  it("finds lot numbers not written as label and value", () => {
+    const { fields } = extractor.extractFromText("Sodium Hyaluronate Batch No. HA240115 released", "coa");
+    expect(fields.find(field => field.label === "Lot Number")).toMatchObject({ value: "HA240115", section: "Product Information" });
+  });
+
+  it("keeps the remaining lines as additional information", () => {
+    const { fields } = extractor.extractFromText(COA, "coa");
+    expect(fields.find(field => field.label === "Additional Information")?.value).toBe("CERTIFICATE OF ANALYSIS\nReleased by quality assurance");
+  });
+
+  it("trusts known labels more than other lines", () => {
+    const { fields } = extractor.extractFromText(COA, "coa");
+    const confidence = (label: string) => fields.find(field => field.label === label)?.confidence ?? 0;
+    expect(confidence("Lot Number")).toBeGreaterThan(confidence("Customer"));
+    expect(confidence("Customer")).toBeGreaterThan(confidence("Additional Information"));
+  });
+
+  it("files SDS text under its numbered section and keeps the letterhead once", () => {
+    const sds = [
+      "Focusfreda Biotech",
+      "SECTION 1: Identification",
+      "1.1 Product identifier",
+      "Sodium Hyaluronate",
+      "Focusfreda Biotech",
+      "SECTION 2: Hazards identification",
+      "Not a hazardous substance",
+    ].join("\n");
+    const { documentType, fields } = extractor.extractFromText(sds, "sds");
+
+    expect(documentType).toBe("Safety Data Sheet");
+    expect(fields.map(field => [field.label, field.value])).toEqual([
+      ["Product identifier", "Sodium Hyaluronate"],
+      ["Hazard identification", "Not a hazardous substance"],
+      ["Additional Information", "Focusfreda Biotech"],
+    ]);
+    expect(fields[0].section).toBe("Section 1: Identification");
+    expect(fields[1].section).toBe("Section 2: Hazard identification");
+  });
+});
@@ -0,0 +1,280 @@
+import { Settings, ExtractedData, DynamicField, DetectedSection, extractedDataSchema, type DocumentClass } from "@shared/schema";
+import type { ExtractionProvider, ExtractionOptions, SourceFile } from "./extraction-provider";
+import { extractDocumentText } from "./document-text";
+import { attachFieldSources } from "./field-sources";
+import { scoreConfidence } from "./field-confidence";
+import { classifyDocument } from "./document-classifier";
+import { documentClassLabels } from "@shared/document-classes";
+import { SDS_SECTIONS, sdsSectionTitle, type SdsSectionDefinition } from "@shared/sds";
+import { parseDate } from "@shared/dates";
+
+const SECTION_DOCUMENT = "Document Information";
+const SECTION_PRODUCT = "Product Information";
+const SECTION_RESULTS = "Test Results";
+const SECTION_ADDITIONAL = "Additional Information";
+
+// How much each heuristic is trusted before validation checks (see field-confidence.ts)
+const CONFIDENCE_KNOWN_LABEL = 0.9;
+const CONFIDENCE_TABLE = 0.85;
+const CONFIDENCE_KEY_VALUE = 0.75;
+const CONFIDENCE_INLINE_PATTERN = 0.65;
+const CONFIDENCE_SDS_TEXT = 0.6;
+const CONFIDENCE_LEFTOVER_TEXT = 0.5;
+
+interface LabelRule {
+  pattern: RegExp;
+  label: string;
+  section: string;
+  type: DynamicField["type"];
+}
+
+// Well-known COA labels, matched against the text before a ":" on a line.
+const LABEL_RULES: LabelRule[] = [
+  { pattern: /^(lot|batch)\s*(no\.?|number|#)?$/i, label: "Lot Number", section: SECTION_PRODUCT, type: "text" },
+  { pattern: /^(product|material|item)\s*(name)?$/i, label: "Product Name", section: SECTION_PRODUCT, type: "text" },
+  { pattern: /^cas\s*(no\.?|number|#)?$/i, label: "CAS Number", section: SECTION_PRODUCT, type: "text" },
+  { pattern: /^(grade|quality)$/i, label: "Grade", section: SECTION_PRODUCT, type: "text" },
+  { pattern: /^(quantity|batch size|net weight)$/i, label: "Quantity", section: SECTION_PRODUCT, type: "text" },
+  { pattern: /^(mfg\.?|manufactur(e|ing)|production|prod\.?)\s*date$|^date of (manufacture|production)$/i, label: "Manufacture Date", section: SECTION_PRODUCT, type: "date" },
+  { pattern: /^(exp\.?|expiry|expiration)\s*date$|^date of expiry$|^best before$/i, label: "Expiry Date", section: SECTION_PRODUCT, type: "date" },
+  { pattern: /^(retest|re-test)\s*date$/i, label: "Retest Date", section: SECTION_PRODUCT, type: "date" },
+  { pattern: /^(analysis|test(ing)?|report|issued?)\s*date$|^date of (analysis|issue)$/i, label: "Analysis Date", section: SECTION_DOCUMENT, type: "date" },
+];
+
+// Patterns searched across the whole text for values that are not written as
+// "Label: value" (e.g. "Batch No. 240115" or labels glued to their values).
+const INLINE_PATTERNS: Array<{ pattern: RegExp; label: string; type: DynamicField["type"] }> = [
+  { pattern: /\b(?:lot|batch)\s*(?:no\.?|number|#)?\s*[:：]?\s*([A-Z0-9][A-Z0-9\-\/.]{2,})/i, label: "Lot Number", type: "text" },
+  { pattern: /(?:mfg\.?|manufactur(?:e|ing)|production)\s*date\s*[:：]?\s*([0-9][0-9A-Za-z\-\/. ]{5,}[0-9])/i, label: "Manufacture Date", type: "date" },
+  { pattern: /(?:exp\.?|expiry|expiration)\s*date\s*[:：]?\s*([0-9][0-9A-Za-z\-\/. ]{5,}[0-9])/i, label: "Expiry Date", type: "date" },
+  { pattern: /(?:retest|re-test)\s*date\s*[:：]?\s*([0-9][0-9A-Za-z\-\/. ]{5,}[0-9])/i, label: "Retest Date", type: "date" },
+];
+
+// Safety Data Sheet headings: "Section 4 - First-aid measures" and
+// "4.1 Description of first aid measures". Sub-section numbers stay small so
+// values such as "1.40 MDa" are not taken for headings.
+const SDS_SECTION_HEADING = /^section\s*(\d{1,2})(?!\d)\s*[-–:.]?\s*(.*)$/i;
+const SDS_SUBSECTION_HEADING = /^(\d{1,2})\.(\d{1,2})(?!\d)\.?\s*([A-Za-z].*)$/;
+const MAX_SDS_SUBSECTION = 20;
+
+function sdsHeading(line: string): { section: SdsSectionDefinition; title: string } | null {
+  const sectionMatch = line.match(SDS_SECTION_HEADING);
+  const subsectionMatch = !sectionMatch && line.match(SDS_SUBSECTION_HEADING);
+  const number = sectionMatch ? Number(sectionMatch[1]) : subsectionMatch && Number(subsectionMatch[2]) <= MAX_SDS_SUBSECTION ? Number(subsectionMatch[1]) : null;
+  const section = SDS_SECTIONS.find(candidate => candidate.number === number);
+  if (!section) return null;
+  // Text right under a section heading is labelled with the section's title
+  return { section, title: subsectionMatch ? subsectionMatch[3].trim() : section.title };
+}
+
+const TABLE_HEADER_KEYWORDS = {
+  item: /\b(test|tests|test items?|items?|parameters?|characteristics?|analysis)\b/i,
+  spec: /\b(specifications?|spec\.?|limits?|standards?|requirements?|acceptance criteria)\b/i,
+  result: /\b(results?|observed|found|values?)\b/i,
+};
+
+function splitColumns(line: string): string[] {
+  return line.split(/\t|\s{2,}|\s*\|\s*/).map(cell => cell.trim()).filter(Boolean);
+}
+
+function isTableHeader(line: string): boolean {
+  const cells = splitColumns(line);
+  if (cells.length < 2) return false;
+  const matches = Object.values(TABLE_HEADER_KEYWORDS).filter(pattern => pattern.test(line)).length;
+  return matches >= 2;
+}
+
+// Offline provider: no network calls, only the text of PDF, Word and Excel
+// files and heuristics for key/value lines, test result tables and lot/date
+// patterns. Safety Data Sheets are split into their 16 numbered sections.
+export class RuleBasedExtractor implements ExtractionProvider {
+  readonly id = "rule-based" as const;
+  readonly name = "Rule-based (offline)";
+  readonly requiresApiKey = false;
+
+  async testConnection(_settings: Settings | undefined): Promise<boolean> {
+    return true;
+  }
+
+  async processDocument(file: SourceFile, _settings: Settings | undefined, options: ExtractionOptions = {}): Promise<ExtractedData> {
+    options.onProgress?.({ stage: "reading", progress: 10, message: "Reading document text" });
+    const documentText = await extractDocumentText(file);
+    if (documentText.text.trim().length < 10) {
+      throw new Error(file.kind === "image"
+        ? "Images need OCR; use the Mistral provider for scanned documents"
+        : "No text found in document; rule-based extraction needs a text PDF, Word or Excel file");
+    }
+    const documentClass = options.documentClass || classifyDocument(documentText.text);
+    options.onProgress?.({ stage: "structuring", progress: 50, message: `Applying extraction rules for ${documentClassLabels[documentClass]}` });
+    const structuredData = this.extractFromText(documentText.text, documentClass);
+    options.onProgress?.({ stage: "validating", progress: 90, message: "Validating extracted data" });
+    return scoreConfidence(attachFieldSources(extractedDataSchema.parse(structuredData), documentText));
+  }
+
+  extractFromText(text: string, documentClass: DocumentClass = classifyDocument(text)): ExtractedData {
+    const lines = text.split(/\r?\n/).map(line => line.replace(/\s+$/, "")).filter(line => line.trim());
+    const fields: DynamicField[] = [];
+    const remaining: string[] = [];
+    const seenLabels = new Set<string>();
+    let order = 0;
+
+    type FieldLayout = Omit<NonNullable<DynamicField["layout"]>, "order">;
+    const addField = (field: Omit<DynamicField, "id" | "required" | "layout"> & { layout?: FieldLayout }) => {
+      order++;
+      fields.push({
+        id: `field_${order}`,
+        required: false,
+        ...field,
+        layout: { structureType: "field", ...field.layout, order },
+      });
+      seenLabels.add(field.label.toLowerCase());
+    };
+
+    const addValueField = (label: string, rawValue: string, section: string, type: DynamicField["type"], confidence: number) => {
+      if (type === "date") {
+        // Values that are more than a date stay text; a month-only expiry or
+        // retest date runs to the end of the month, as for lots (shared/lots.ts)
+        const monthOnly = label === "Expiry Date" || label === "Retest Date" ? "end" : "start";
+        const isoDate = parseDate(rawValue, { monthOnly, exact: true });
+        addField({ label, value: isoDate || rawValue, type: isoDate ? "date" : "text", section, confidence });
+      } else {
+        addField({ label, value: rawValue, type, section, confidence });
+      }
+    };
+
+    // Safety Data Sheets: the section being read, the label for its running
+    // text and the field collecting that text. The letterhead before section
+    // 1 is repeated on every page and skipped after it.
+    const isSds = documentClass === "sds";
+    let sdsSection: SdsSectionDefinition | null = null;
+    let sdsTextLabel = "";
+    let sdsText: DynamicField | null = null;
+    const letterhead = new Set<string>();
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index].trim();
+
+      if (isSds) {
+        const heading = sdsHeading(line);
+        if (heading) {
+          sdsSection = heading.section;
+          sdsTextLabel = heading.title;
+          sdsText = null;
+          continue;
+        }
+        if (!sdsSection) {
+          letterhead.add(line);
+        } else if (letterhead.has(line)) {
+          continue;
+        }
+      }
+      const sdsSectionName = sdsSection && sdsSectionTitle(sdsSection);
+
+      if (isTableHeader(lines[index])) {
+        const header = splitColumns(lines[index]);
+        const rows: string[][] = [];
+        let next = index + 1;
+        while (next < lines.length) {
+          const cells = splitColumns(lines[next]);
+          // A label and value after the table, such as "Issued Date:  24-04-2025", ends it
+          if (cells.length < 2 || isTableHeader(lines[next]) || /[:：]$/.test(cells[0])) break;
+          rows.push(header.map((_, column) => cells[column] || ""));
+          next++;
+        }
+
+        if (rows.length > 0) {
+          addField({
+            label: "Test Results",
+            value: [header, ...rows],
+            type: "table",
+            section: sdsSectionName || SECTION_RESULTS,
+            confidence: CONFIDENCE_TABLE,
+            layout: { structureType: "table", columns: header, rows },
+          });
+          index = next - 1;
+          continue;
+        }
+      }
+
+      // Word and Excel tables put a label and its value in neighbouring cells
+      const cells = line.split("\t").map(cell => cell.trim()).filter(Boolean);
+      const keyValue = line.match(/^([^:：]{2,60}?)\s*[:：]\s*(.+)$/)
+        || (cells.length === 2 && cells[0].length <= 60 ? [line, cells[0].replace(/\s*[:：]$/, ""), cells[1]] : null);
+      if (keyValue) {
+        const rawLabel = keyValue[1].trim();
+        const rawValue = keyValue[2].trim();
+        const rule = LABEL_RULES.find(candidate => candidate.pattern.test(rawLabel));
+        if (rule) {
+          addValueField(rule.label, rawValue, sdsSectionName || rule.section, rule.type, CONFIDENCE_KNOWN_LABEL);
+        } else {
+          addValueField(rawLabel, rawValue, sdsSectionName || SECTION_DOCUMENT, "text", CONFIDENCE_KEY_VALUE);
+        }
+        continue;
+      }
+
+      if (sdsSectionName) {
+        if (sdsText) {
+          sdsText.value = `${sdsText.value}\n${line}`;
+        } else {
+          addField({ label: sdsTextLabel, value: line, type: "textarea", section: sdsSectionName, confidence: CONFIDENCE_SDS_TEXT });
+          sdsText = fields[fields.length - 1];
+        }
+        continue;
+      }
+
+      remaining.push(line);
+    }
+
+    // Pick up lot/date values that were not written as "Label: value"
+    INLINE_PATTERNS.forEach(({ pattern, label, type }) => {
+      if (seenLabels.has(label.toLowerCase())) return;
+      const match = text.match(pattern);
+      if (match) {
+        addValueField(label, match[1].trim(), SECTION_PRODUCT, type, CONFIDENCE_INLINE_PATTERN);
+      }
+    });
+
+    if (remaining.length > 0) {
+      addField({
+        label: SECTION_ADDITIONAL,
+        value: remaining.join("\n"),
+        type: "paragraph",
+        section: SECTION_ADDITIONAL,
+        confidence: CONFIDENCE_LEFTOVER_TEXT,
+        layout: { structureType: "paragraph" },
+      });
+    }
+
+    const sectionTitles = Array.from(new Set(fields.map(field => field.section)));
+    const detectedSections: DetectedSection[] = sectionTitles.map((title, sectionIndex) => {
+      const sectionFields = fields.filter(field => field.section === title);
+      const isTable = sectionFields.every(field => field.type === "table");
+      return {
+        id: title.toLowerCase().replace(/\s+/g, "_"),
+        title,
+        content: sectionFields.map(field => field.label).join(", "),
+        type: isTable ? "table" : "field_group",
+        preview: `${title} - ${sectionFields.length} fields`,
+        fields: [],
+        selected: false,
+        order: sectionIndex + 1,
+      };
+    });
+
+    return {
+      documentType: documentClassLabels[documentClass],
+      detectedSections,
+      fields,
+      structure: {
+        hasHeaders: false,
+        hasTables: fields.some(field => field.type === "table"),
+        hasLists: false,
+      },
+      metadata: {
+        extractedAt: new Date().toISOString(),
+        totalFields: fields.length,
+        provider: this.id,
+      },
+    };
+  }
+}
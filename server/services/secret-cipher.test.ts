@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const oldKey = `old:${Buffer.alloc(32, 1).toString("base64")}`;
+const newKey = `new:${Buffer.alloc(32, 2).toString("base64")}`;
+
+// The master keys are read once per module, so each test loads a fresh copy
+async function loadCipher(keys: string) {
+  vi.stubEnv("API_KEY_ENCRYPTION_KEYS", keys);
+  vi.resetModules();
+  return import("./secret-cipher");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("secret cipher", () => {
+  it("round-trips a secret without storing it in plain text", async () => {
+    const { decryptSecret, encryptSecret, isEncryptedSecret } = await loadCipher(oldKey);
+    const ciphertext = encryptSecret("sk-test-123");
+
+    expect(ciphertext).toMatch(/^gcm:old:/);
+    expect(ciphertext).not.toContain("sk-test-123");
+    expect(isEncryptedSecret(ciphertext)).toBe(true);
+    expect(decryptSecret(ciphertext)).toBe("sk-test-123");
+    expect(encryptSecret("sk-test-123")).not.toBe(ciphertext);
+  });
+
+  it("rejects tampered ciphertext", async () => {
+    const { decryptSecret, encryptSecret } = await loadCipher(oldKey);
+    const parts = encryptSecret("sk-test-123").split(":");
+    parts[4] = Buffer.from("tampered").toString("base64");
+
+    expect(() => decryptSecret(parts.join(":"))).toThrow();
+    expect(() => decryptSecret("c2stdGVzdA==")).toThrow("not in the expected encrypted format");
+  });
+
+  it("decrypts with rotated-out keys and flags their secrets for re-encryption", async () => {
+    const stored = (await loadCipher(oldKey)).encryptSecret("sk-test-123");
+    const { decryptSecret, encryptSecret, needsReencryption } = await loadCipher(`${newKey},${oldKey}`);
+
+    expect(decryptSecret(stored)).toBe("sk-test-123");
+    expect(needsReencryption(stored)).toBe(true);
+    expect(needsReencryption(encryptSecret("sk-test-123"))).toBe(false);
+    expect(needsReencryption("c2stdGVzdA==")).toBe(true);
+  });
+
+  it("names a missing master key", async () => {
+    const stored = (await loadCipher(oldKey)).encryptSecret("sk-test-123");
+    const { decryptSecret } = await loadCipher(newKey);
+
+    expect(() => decryptSecret(stored)).toThrow('unknown key "old"');
+  });
+
+  it("rejects malformed master keys", async () => {
+    const { encryptSecret } = await loadCipher("short:AAAA");
+    expect(() => encryptSecret("sk-test-123")).toThrow("API_KEY_ENCRYPTION_KEYS entries");
+  });
+});
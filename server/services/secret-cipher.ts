@@ -0,0 +1,81 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * AES-256-GCM encryption for secrets stored at rest (provider API keys).
+ *
+ * Master keys come from API_KEY_ENCRYPTION_KEYS as a comma-separated list of
+ * "<id>:<base64 32-byte key>" entries. The first key encrypts; every key can
+ * decrypt, so rotating means prepending a new key and restarting, after which
+ * stored secrets are re-encrypted with it (see needsReencryption).
+ *
+ * Ciphertexts look like "gcm:<id>:<iv>:<tag>:<data>", all base64.
+ */
+
+const PREFIX = "gcm";
+const DEV_KEY_ID = "dev";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKeys(value: string): MasterKey[] {
+  return value.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error('API_KEY_ENCRYPTION_KEYS entries must look like "<id>:<base64 32-byte key>"');
+    }
+    return { id, key };
+  });
+}
+
+let masterKeys: MasterKey[] | undefined;
+
+function getMasterKeys(): MasterKey[] {
+  if (masterKeys) return masterKeys;
+
+  if (process.env.API_KEY_ENCRYPTION_KEYS) {
+    masterKeys = parseMasterKeys(process.env.API_KEY_ENCRYPTION_KEYS);
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("API_KEY_ENCRYPTION_KEYS must be set in production");
+  } else {
+    console.warn("API_KEY_ENCRYPTION_KEYS is not set; using a development key for stored API keys");
+    masterKeys = [{ id: DEV_KEY_ID, key: createHash("sha256").update("chemdoc-development-key").digest() }];
+  }
+  return masterKeys;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const [current] = getMasterKeys();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", current.key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [PREFIX, current.id, iv.toString("base64"), cipher.getAuthTag().toString("base64"), data.toString("base64")].join(":");
+}
+
+export function decryptSecret(ciphertext: string): string {
+  const [prefix, keyId, iv, tag, data] = ciphertext.split(":");
+  if (prefix !== PREFIX || !data) {
+    throw new Error("Stored secret is not in the expected encrypted format");
+  }
+
+  const masterKey = getMasterKeys().find(candidate => candidate.id === keyId);
+  if (!masterKey) {
+    throw new Error(`Stored secret was encrypted with unknown key "${keyId}"; add it to API_KEY_ENCRYPTION_KEYS`);
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", masterKey.key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(data, "base64")), decipher.final()]).toString("utf8");
+}
+
+// True for secrets encrypted with an older key, or not encrypted at all
+export function needsReencryption(value: string): boolean {
+  return !isEncryptedSecret(value) || value.split(":")[1] !== getMasterKeys()[0].id;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { DynamicField, ExtractedData, Supplier, SupplierProfile } from "@shared/schema";
+import { applySupplierProfile, detectSupplier, learnSupplierProfile } from "./supplier-profiles";
+
+const field = (id: string, label: string, value: DynamicField["value"], section: string, order: number, type: DynamicField["type"] = "text"): DynamicField =>
+  ({ id, label, value, type, section, required: false, layout: { structureType: "field", order } });
+
+const data = (...fields: DynamicField[]): ExtractedData => ({ documentType: "Certificate of Analysis", detectedSections: [], fields });
+
+const supplier = (id: string, name: string, aliases: string[] = []): Supplier =>
+  ({ id, name, aliases, profile: {}, createdAt: new Date(), updatedAt: new Date() });
+
+const emptyProfile: SupplierProfile = { labelAliases: [], fieldRules: [], sectionOrder: [] };
+
+describe("detectSupplier", () => {
+  const focus = supplier("focus", "Focus", ["Focus Chemicals"]);
+  const freda = supplier("freda", "Focus Freda Biotech");
+
+  it("prefers the longest matching name or alias", () => {
+    const header = data(field("f1", "Company", "Shandong Focus Freda Biotech Co., Ltd", "Header", 0));
+    expect(detectSupplier(header, [focus, freda])?.id).toBe("freda");
+    expect(detectSupplier(data(field("f1", "Issued by", "Focus Chemicals Inc.", "Header", 0)), [focus, freda])?.id).toBe("focus");
+  });
+
+  it("finds long names with the spaces lost", () => {
+    expect(detectSupplier(data(field("f1", "Title", "ShandongFocusFredaBiotechCo.,Ltd", "Header", 0)), [freda])?.id).toBe("freda");
+    expect(detectSupplier(data(field("f1", "Title", "FocusLab", "Header", 0)), [focus])).toBeNull();
+  });
+
+  it("looks only at the header and supplier fields", () => {
+    const fields = Array.from({ length: 12 }, (_, index) => field(`f${index}`, `Test ${index}`, index === 11 ? "Focus" : "-", "Results", index));
+    expect(detectSupplier(data(...fields), [focus])).toBeNull();
+    fields[11] = field("f11", "Manufacturer", "Focus", "Results", 11);
+    expect(detectSupplier(data(...fields), [focus])?.id).toBe("focus");
+  });
+
+  it("returns null when two suppliers match equally well", () => {
+    const header = data(field("f1", "Company", "Acme Labs", "Header", 0));
+    expect(detectSupplier(header, [supplier("a", "Acme Labs"), supplier("b", "Other", ["acme labs"])])).toBeNull();
+  });
+});
+
+describe("applySupplierProfile", () => {
+  it("renames labels and moves fields by rule", () => {
+    const profile: SupplierProfile = {
+      labelAliases: [{ alias: "Lot No", label: "Batch Number" }],
+      fieldRules: [{ label: "Batch Number", section: "Product", type: "text" }],
+      sectionOrder: [],
+    };
+    const [corrected] = applySupplierProfile(data(field("f1", "lot  no", "A1", "Header", 0)), profile).fields;
+    expect(corrected).toMatchObject({ label: "Batch Number", section: "Product", type: "text" });
+  });
+
+  it("never turns a table into a single value", () => {
+    const profile: SupplierProfile = { ...emptyProfile, fieldRules: [{ label: "Results", section: null, type: "text" }] };
+    const [table] = applySupplierProfile(data(field("f1", "Results", [["Test", "Result"]], "Results", 0, "table")), profile).fields;
+    expect(table).toMatchObject({ type: "table", section: "Results" });
+  });
+
+  it("puts the listed sections first and keeps the rest in order", () => {
+    const profile: SupplierProfile = { ...emptyProfile, sectionOrder: ["Product"] };
+    const result = applySupplierProfile(data(
+      field("f1", "Supplier", "Acme", "Header", 0),
+      field("f2", "Name", "Salt", "Product", 1),
+      field("f3", "Notes", "-", "Footer", 2),
+      field("f4", "Grade", "ACS", "Product", 3),
+    ), profile);
+    expect(result.fields.map(f => f.id)).toEqual(["f2", "f4", "f1", "f3"]);
+    expect(result.fields.map(f => f.layout?.order)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe("learnSupplierProfile", () => {
+  const before = data(
+    field("f1", "Lot No", "A1", "Header", 0),
+    field("f2", "Name", "Salt", "Product", 1),
+  );
+
+  it("learns relabelled fields as aliases", () => {
+    const after = data({ ...before.fields[0], label: "Batch Number" }, before.fields[1]);
+    expect(learnSupplierProfile(emptyProfile, before, after).labelAliases).toEqual([{ alias: "Lot No", label: "Batch Number" }]);
+  });
+
+  it("repoints an alias when its label is renamed again and drops aliases to themselves", () => {
+    const current: SupplierProfile = { ...emptyProfile, labelAliases: [{ alias: "Lot", label: "Lot No" }] };
+    const renamed = learnSupplierProfile(current, before, data({ ...before.fields[0], label: "Batch Number" }, before.fields[1]));
+    expect(renamed.labelAliases).toEqual([{ alias: "Lot", label: "Batch Number" }, { alias: "Lot No", label: "Batch Number" }]);
+
+    const back = learnSupplierProfile({ ...emptyProfile, labelAliases: [{ alias: "Lot", label: "Lot No" }] },
+      data({ ...before.fields[0], label: "Lot No" }), data({ ...before.fields[0], label: "Lot" }));
+    expect(back.labelAliases).toEqual([{ alias: "Lot No", label: "Lot" }]);
+  });
+
+  it("learns moved fields as rules, and reordered sections", () => {
+    const after = data({ ...before.fields[0], section: "Product", layout: { structureType: "field", order: 2 } }, { ...before.fields[1], layout: { structureType: "field", order: 0 } });
+    const learned = learnSupplierProfile(emptyProfile, before, after);
+    expect(learned.fieldRules).toEqual([{ label: "Lot No", section: "Product", type: null }]);
+    expect(learned.sectionOrder).toEqual([]);
+
+    const reordered = data(
+      { ...before.fields[0], layout: { structureType: "field", order: 1 } },
+      { ...before.fields[1], layout: { structureType: "field", order: 0 } },
+    );
+    expect(learnSupplierProfile(emptyProfile, before, reordered).sectionOrder).toEqual(["Product", "Header"]);
+  });
+});
@@ -0,0 +1,140 @@
+import type { DynamicField, ExtractedData, Supplier, SupplierProfile } from "@shared/schema";
+import { supplierProfileSchema } from "@shared/schema";
+import { diffExtractedData } from "@shared/diff";
+import { normalizeProductText } from "@shared/products";
+
+// The header: the first fields of the document plus any field naming the company
+const HEADER_FIELDS = 10;
+const SUPPLIER_LABEL = /supplier|manufactur|vendor|company|issued by|producer|distributor/i;
+// Names are also looked for with the spaces removed, as PDF text often loses
+// them ("ShandongFocusfredaBiotechCo.,Ltd"); short names would match by chance
+const MIN_COMPACT_NAME = 8;
+
+const labelKey = (label: string) => label.trim().toLowerCase().replace(/\s+/g, " ");
+
+function byOrder(fields: DynamicField[]): DynamicField[] {
+  return [...fields].sort((a, b) => (a.layout?.order || 0) - (b.layout?.order || 0));
+}
+
+// Sections in the order their first field appears
+function sectionsInOrder(data: ExtractedData): string[] {
+  return Array.from(new Set(byOrder(data.fields).map(field => field.section)));
+}
+
+function valueText(field: DynamicField): string {
+  if (Array.isArray(field.value)) return field.value.flat().join(" | ");
+  return field.value === null || field.value === undefined ? "" : String(field.value);
+}
+
+/**
+ * Finds the supplier named in the document header. The longest matching name
+ * or alias wins, so "Focus Freda Biotech" beats "Focus"; null when nothing
+ * matches or two suppliers match equally well.
+ */
+export function detectSupplier(data: ExtractedData, suppliers: Supplier[]): Supplier | null {
+  const fields = byOrder(data.fields);
+  const header = [...fields.slice(0, HEADER_FIELDS), ...fields.filter(field => SUPPLIER_LABEL.test(field.label))].map(valueText);
+  const words = ` ${header.map(normalizeProductText).join(" | ")} `;
+  const compact = words.replace(/ /g, "");
+
+  let best: { supplier: Supplier; length: number } | null = null;
+  let tied = false;
+  for (const supplier of suppliers) {
+    for (const name of [supplier.name, ...(supplier.aliases as string[])]) {
+      const needle = normalizeProductText(name);
+      const found = !!needle && (words.includes(` ${needle} `)
+        || (needle.replace(/ /g, "").length >= MIN_COMPACT_NAME && compact.includes(needle.replace(/ /g, ""))));
+      if (!found) continue;
+      if (!best || needle.length > best.length) {
+        best = { supplier, length: needle.length };
+        tied = false;
+      } else if (needle.length === best.length && best.supplier.id !== supplier.id) {
+        tied = true;
+      }
+    }
+  }
+  return best && !tied ? best.supplier : null;
+}
+
+/**
+ * Applies what was learned from earlier reviews: supplier labels become ours,
+ * fields move to their section and type, and the listed sections come first.
+ * A rule never turns a table into a single value or the other way round.
+ */
+export function applySupplierProfile(data: ExtractedData, profile: SupplierProfile): ExtractedData {
+  const aliases = new Map(profile.labelAliases.map(({ alias, label }) => [labelKey(alias), label]));
+  const rules = new Map(profile.fieldRules.map(rule => [labelKey(rule.label), rule]));
+
+  const corrected = data.fields.map(field => {
+    const label = aliases.get(labelKey(field.label)) ?? field.label;
+    const rule = rules.get(labelKey(label));
+    const type = rule?.type && (rule.type === "table") === Array.isArray(field.value) ? rule.type : field.type;
+    return { ...field, label, section: rule?.section ?? field.section, type };
+  });
+  if (profile.sectionOrder.length === 0) return { ...data, fields: corrected };
+
+  const rank = (section: string) => {
+    const index = profile.sectionOrder.findIndex(ordered => labelKey(ordered) === labelKey(section));
+    return index === -1 ? profile.sectionOrder.length : index;
+  };
+  // Sort is stable: fields keep their order within a section, unlisted sections theirs
+  const fields = byOrder(corrected)
+    .sort((a, b) => rank(a.section) - rank(b.section))
+    .map((field, order) => ({ ...field, layout: { ...(field.layout || { structureType: "field" as const }), order } }));
+  const detectedSections = [...data.detectedSections]
+    .sort((a, b) => rank(a.title) - rank(b.title))
+    .map((section, order) => ({ ...section, order }));
+  return { ...data, fields, detectedSections };
+}
+
+/**
+ * Learns from a review: relabelled fields add a label alias, fields moved to
+ * another section or type add a field rule, and reordered sections replace
+ * the section order. `before` is the extraction the reviewer started from,
+ * which already had the profile applied.
+ */
+export function learnSupplierProfile(current: SupplierProfile, before: ExtractedData, after: ExtractedData): SupplierProfile {
+  const profile = supplierProfileSchema.parse(current);
+  let { labelAliases, fieldRules, sectionOrder } = profile;
+
+  for (const change of diffExtractedData(before, after).fields) {
+    if (change.kind !== "modified") continue;
+    const find = (property: "label" | "section" | "type") => change.changes.find(c => c.property === property);
+
+    const relabel = find("label");
+    if (relabel) {
+      const from = String(relabel.before);
+      const to = String(relabel.after);
+      // Aliases that produced the old label now produce the new one
+      labelAliases = labelAliases
+        .filter(alias => labelKey(alias.alias) !== labelKey(from))
+        .map(alias => labelKey(alias.label) === labelKey(from) ? { ...alias, label: to } : alias)
+        .filter(alias => labelKey(alias.alias) !== labelKey(alias.label));
+      if (labelKey(from) !== labelKey(to)) labelAliases.push({ alias: from, label: to });
+      fieldRules = fieldRules.map(rule => labelKey(rule.label) === labelKey(from) ? { ...rule, label: to } : rule);
+    }
+
+    const section = find("section");
+    const type = find("type");
+    if (section || type) {
+      const existing = fieldRules.find(rule => labelKey(rule.label) === labelKey(change.label));
+      const rule = {
+        label: change.label,
+        section: section ? String(section.after) : existing?.section ?? null,
+        type: type ? after.fields.find(field => field.id === change.fieldId)!.type : existing?.type ?? null,
+      };
+      fieldRules = [...fieldRules.filter(other => other !== existing), rule];
+    }
+  }
+
+  // Only a change in the relative order of sections both versions have counts;
+  // moving a field into a new section is not a reordering
+  const beforeOrder = sectionsInOrder(before);
+  const afterOrder = sectionsInOrder(after);
+  const common = (order: string[], other: string[]) => order.filter(section => other.includes(section));
+  if (common(beforeOrder, afterOrder).join("\n") !== common(afterOrder, beforeOrder).join("\n")) {
+    sectionOrder = afterOrder;
+  }
+
+  return { labelAliases, fieldRules, sectionOrder };
+}
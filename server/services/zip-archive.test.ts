@@ -0,0 +1,62 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { afterEach, describe, expect, it } from "vitest";
+import { createZip, readDocumentsFromZip } from "./zip-archive";
+
+const limits = { maxEntrySize: 1024, maxTotalSize: 4096 };
+const written: string[] = [];
+
+async function writeZip(files: Record<string, Buffer | string>): Promise<string> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, data]) => zip.file(name, data));
+  const filePath = path.join(os.tmpdir(), `zip-archive-${process.pid}-${written.length}.zip`);
+  await fs.promises.writeFile(filePath, await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }));
+  written.push(filePath);
+  return filePath;
+}
+
+afterEach(async () => {
+  await Promise.all(written.splice(0).map(filePath => fs.promises.rm(filePath, { force: true })));
+});
+
+describe("readDocumentsFromZip", () => {
+  it("reads supported documents from any folder and skips the rest", async () => {
+    const filePath = await writeZip({
+      "coa.pdf": "%PDF-1.4",
+      "lots/scan.TIFF": "II*",
+      "notes.txt": "ignored",
+      "__MACOSX/._coa.pdf": "fork",
+      ".hidden.pdf": "hidden",
+    });
+    const { entries, skipped } = await readDocumentsFromZip(filePath, limits);
+    expect(entries.map(entry => [entry.name, entry.data.toString()])).toEqual([["coa.pdf", "%PDF-1.4"], ["scan.TIFF", "II*"]]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("skips entries that inflate past the document size limit", async () => {
+    // Zeros compress to almost nothing, like a zip bomb
+    const filePath = await writeZip({ "bomb.pdf": Buffer.alloc(1024 * 1024), "coa.pdf": "%PDF-1.4" });
+    const { entries, skipped } = await readDocumentsFromZip(filePath, limits);
+    expect(entries.map(entry => entry.name)).toEqual(["coa.pdf"]);
+    expect(skipped).toEqual(["bomb.pdf: file is too large"]);
+  });
+
+  it("stops reading once the total size limit is reached", async () => {
+    const filePath = await writeZip({ "a.pdf": Buffer.alloc(1000), "b.pdf": Buffer.alloc(1000), "c.pdf": Buffer.alloc(1000) });
+    const { entries, skipped } = await readDocumentsFromZip(filePath, { maxEntrySize: 1024, maxTotalSize: 2500 });
+    expect(entries.map(entry => entry.name)).toEqual(["a.pdf", "b.pdf"]);
+    expect(skipped).toEqual(["c.pdf: upload size limit reached"]);
+  });
+});
+
+describe("createZip", () => {
+  it("numbers duplicate file names", async () => {
+    const archive = await createZip([
+      { name: "coa.pdf", data: Buffer.from("1") },
+      { name: "COA.pdf", data: Buffer.from("2") },
+    ]);
+    expect(Object.keys((await JSZip.loadAsync(archive)).files)).toEqual(["coa.pdf", "COA (2).pdf"]);
+  });
+});
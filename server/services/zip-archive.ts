@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { findFileType } from "@shared/file-types";
+
+export interface ArchiveEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ArchiveLimits {
+  maxEntrySize: number; // uncompressed bytes of one document
+  maxTotalSize: number; // uncompressed bytes of all documents read
+}
+
+// Inflates an entry, giving up as soon as it grows past the limit, so a small
+// archive claiming a small size cannot expand into memory unchecked
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Returns the supported documents (PDF, Word, Excel, images) contained in a ZIP
+// upload, including those in subfolders. macOS resource forks and other
+// entries are skipped. Entries are read one at a time; those over the size
+// limits are skipped and listed with the reason.
+export async function readDocumentsFromZip(filePath: string, limits: ArchiveLimits): Promise<{ entries: ArchiveEntry[]; skipped: string[] }> {
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+  const documents = Object.values(zip.files).filter(entry =>
+    !entry.dir &&
+    !entry.name.startsWith("__MACOSX/") &&
+    !path.basename(entry.name).startsWith(".") &&
+    !!findFileType(entry.name)
+  );
+
+  const entries: ArchiveEntry[] = [];
+  const skipped: string[] = [];
+  let totalSize = 0;
+  for (const entry of documents) {
+    const name = path.basename(entry.name);
+    const remaining = limits.maxTotalSize - totalSize;
+    const data = await inflateEntry(entry, Math.min(limits.maxEntrySize, remaining));
+    if (!data) {
+      skipped.push(remaining < limits.maxEntrySize ? `${name}: upload size limit reached` : `${name}: file is too large`);
+      continue;
+    }
+    totalSize += data.length;
+    entries.push({ name, data });
+  }
+  return { entries, skipped };
+}
+
+// Bundles generated documents into a single ZIP, de-duplicating file names.
+export async function createZip(entries: ArchiveEntry[]): Promise<Buffer> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  entries.forEach(({ name, data }) => {
+    const extension = path.extname(name);
+    const base = name.slice(0, name.length - extension.length);
+    let uniqueName = name;
+    for (let suffix = 2; usedNames.has(uniqueName.toLowerCase()); suffix++) {
+      uniqueName = `${base} (${suffix})${extension}`;
+    }
+    usedNames.add(uniqueName.toLowerCase());
+    zip.file(uniqueName, data);
+  });
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
@@ -0,0 +1,195 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import type { ExtractedData } from "@shared/schema";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+// Each test gets an empty store: a new MemStorage, or a PGlite database with
+// every migration applied, so the migrations are checked against the schema too
+const databases: PGlite[] = [];
+const backends: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage", async () => {
+    const client = new PGlite();
+    databases.push(client);
+    const db = drizzle({ client, schema });
+    await migrate(db, { migrationsFolder: "migrations" });
+    return new DrizzleStorage(db, new MemoryStore());
+  }],
+];
+
+const extractedData = (documentType = "Certificate of Analysis"): ExtractedData => ({ documentType, detectedSections: [], fields: [] });
+
+afterAll(async () => {
+  await Promise.all(databases.map(client => client.close()));
+});
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  describe("documents", () => {
+    it("creates, updates and deletes documents", async () => {
+      const document = await storage.createDocument({ originalFileName: "coa.pdf" });
+      expect(document).toMatchObject({ originalFileName: "coa.pdf", status: "uploaded", reviewStatus: "draft", fileExtension: "pdf", mimeType: "application/pdf" });
+
+      const updated = await storage.updateDocument(document.id, { status: "processed", companyData: { name: "Acme" } });
+      expect(updated).toMatchObject({ status: "processed", companyData: { name: "Acme" } });
+      expect(await storage.getDocument(document.id)).toMatchObject({ status: "processed" });
+
+      expect(await storage.deleteDocument(document.id)).toBe(true);
+      expect(await storage.getDocument(document.id)).toBeUndefined();
+      expect(await storage.deleteDocument(document.id)).toBe(false);
+    });
+
+    it("lists a user's own documents and unowned ones", async () => {
+      const alice = await storage.createUser({ username: "alice", password: "x" });
+      const bob = await storage.createUser({ username: "bob", password: "x" });
+      await storage.createDocument({ originalFileName: "alice.pdf", userId: alice.id });
+      await storage.createDocument({ originalFileName: "bob.pdf", userId: bob.id });
+      await storage.createDocument({ originalFileName: "legacy.pdf" });
+
+      const names = (await storage.getUserDocuments(alice.id)).map(document => document.originalFileName).sort();
+      expect(names).toEqual(["alice.pdf", "legacy.pdf"]);
+      expect(await storage.getAllDocuments()).toHaveLength(3);
+    });
+  });
+
+  describe("revisions", () => {
+    it("numbers revisions per document", async () => {
+      const document = await storage.createDocument({ originalFileName: "coa.pdf" });
+      const first = await storage.createDocumentRevision({ documentId: document.id, extractedData: extractedData(), source: "extraction", createdBy: null });
+      const second = await storage.createDocumentRevision({ documentId: document.id, extractedData: extractedData("Edited"), source: "edit", createdBy: "alice" });
+
+      expect([first.revisionNumber, second.revisionNumber]).toEqual([1, 2]);
+      expect(await storage.getDocumentRevision(second.id)).toMatchObject({ source: "edit", createdBy: "alice" });
+      expect(await storage.getDocumentRevisions(document.id)).toHaveLength(2);
+    });
+
+    it("gives concurrent saves distinct numbers", async () => {
+      const document = await storage.createDocument({ originalFileName: "coa.pdf" });
+      const revisions = await Promise.all([1, 2, 3, 4].map(() =>
+        storage.createDocumentRevision({ documentId: document.id, extractedData: extractedData(), source: "edit", createdBy: null })
+      ));
+      expect(revisions.map(revision => revision.revisionNumber).sort()).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe("review workflow", () => {
+    it("moves a document only from the expected status", async () => {
+      const document = await storage.createDocument({ originalFileName: "coa.pdf" });
+      const transition = { documentId: document.id, action: "submit", fromStatus: "draft", toStatus: "in_review", comment: null, createdBy: "alice" };
+
+      expect(await storage.transitionDocument(transition)).toMatchObject({ reviewStatus: "in_review" });
+      expect(await storage.transitionDocument(transition)).toBeUndefined();
+      expect(await storage.getDocumentTransitions(document.id)).toHaveLength(1);
+    });
+  });
+
+  describe("audit log", () => {
+    it("filters entries by document", async () => {
+      await storage.createAuditEntry({ action: "upload", documentId: "a", documentName: "a.pdf", userId: null, username: "alice", details: null });
+      await storage.createAuditEntry({ action: "upload", documentId: "b", documentName: "b.pdf", userId: null, username: "alice", details: null });
+
+      const entries = await storage.getAuditLog({ documentId: "a", limit: 200 });
+      expect(entries.map(entry => entry.documentName)).toEqual(["a.pdf"]);
+    });
+  });
+
+  describe("company profiles", () => {
+    it("makes the first profile the default and keeps one default", async () => {
+      const first = await storage.createCompanyProfile({ name: "Acme" });
+      expect(first.isDefault).toBe(true);
+
+      const second = await storage.createCompanyProfile({ name: "Beta", isDefault: true });
+      expect(await storage.getDefaultCompanyProfile()).toMatchObject({ id: second.id });
+      expect(await storage.getCompanyProfile(first.id)).toMatchObject({ isDefault: false });
+    });
+  });
+
+  describe("templates", () => {
+    it("keeps one default template and one template per class", async () => {
+      const first = await storage.createDocumentTemplate({ name: "First", definition: {}, documentClass: "sds" });
+      expect(first.isDefault).toBe(true);
+
+      const second = await storage.createDocumentTemplate({ name: "Second", definition: {}, isDefault: true, documentClass: "sds" });
+      expect(await storage.getDefaultDocumentTemplate()).toMatchObject({ id: second.id });
+      expect(await storage.getDocumentTemplateForClass("sds")).toMatchObject({ id: second.id });
+      expect(await storage.getDocumentTemplate(first.id)).toMatchObject({ isDefault: false, documentClass: null });
+    });
+  });
+
+  describe("catalog", () => {
+    it("finds products by code and suppliers by name", async () => {
+      const product = await storage.createProduct({ code: "HA-100", name: "Sodium Hyaluronate" });
+      const supplier = await storage.createSupplier({ name: "Focusfreda" });
+
+      expect(await storage.getProductByCode("HA-100")).toMatchObject({ id: product.id });
+      expect(await storage.getSupplierByName("Focusfreda")).toMatchObject({ id: supplier.id });
+      expect(await storage.deleteProduct(product.id)).toBe(true);
+      expect(await storage.getProducts()).toEqual([]);
+    });
+  });
+
+  describe("lots", () => {
+    it("replaces and removes a document's lot", async () => {
+      const document = await storage.createDocument({ originalFileName: "coa.pdf" });
+      await storage.setDocumentLot(document.id, { lotNumber: "FF-100", manufactureDate: "2024-01-12", expiryDate: null, retestDate: null, quantity: null });
+      await storage.setDocumentLot(document.id, { lotNumber: "FF-200", manufactureDate: null, expiryDate: "2026-01-31", retestDate: null, quantity: "25 kg" });
+
+      const lots = await storage.getLots({});
+      expect(lots).toHaveLength(1);
+      expect(lots[0]).toMatchObject({ lotNumber: "FF-200", expiryDate: "2026-01-31", quantity: "25 kg" });
+      expect(await storage.getLots({ q: "ff-2" })).toHaveLength(1);
+      expect(await storage.getLots({ q: "zzz" })).toHaveLength(0);
+
+      await storage.setDocumentLot(document.id, null);
+      expect(await storage.getLots({})).toEqual([]);
+    });
+  });
+
+  describe("settings and users", () => {
+    it("keeps a single settings record", async () => {
+      await storage.updateSettings({ apiKey: "first" });
+      const settings = await storage.updateSettings({ apiKey: "second" });
+      expect(settings).toMatchObject({ apiKey: "second", connectionStatus: "testing" });
+      expect(await storage.getSettings()).toMatchObject({ id: settings.id, apiKey: "second" });
+    });
+
+    it("keeps settings omitted from an update", async () => {
+      await storage.updateSettings({ extractionProvider: "openai-compatible", providerBaseUrl: "http://localhost:11434/v1" });
+      await storage.updateSettings({ providerModel: "llama3.1", encryptedProviderApiKey: "endpoint" });
+      const settings = await storage.updateSettings({ mistralModel: "mistral-small-latest" });
+      expect(settings).toMatchObject({ extractionProvider: "openai-compatible", providerBaseUrl: "http://localhost:11434/v1", providerModel: "llama3.1", encryptedProviderApiKey: "endpoint", mistralModel: "mistral-small-latest" });
+    });
+
+    it("creates users as uploaders and changes their role", async () => {
+      const user = await storage.createUser({ username: "alice", password: "x" });
+      expect(user.role).toBe("uploader");
+      expect(await storage.updateUserRole(user.id, "admin")).toMatchObject({ role: "admin" });
+      expect(await storage.getUserByUsername("alice")).toMatchObject({ role: "admin" });
+    });
+
+    it("registers only the first account as an admin, even concurrently", async () => {
+      const registered = await Promise.all(["alice", "bob", "carol"].map(username => storage.registerUser({ username, password: "x" })));
+      expect(registered.map(user => user.role).sort()).toEqual(["admin", "uploader", "uploader"]);
+      expect((await storage.registerUser({ username: "dave", password: "x" })).role).toBe("uploader");
+    });
+
+    it("finds users by id and username", async () => {
+      const user = await storage.createUser({ username: "alice", password: "x" });
+      expect(await storage.getUser(user.id)).toMatchObject({ username: "alice" });
+      expect(await storage.getUserByUsername("alice")).toMatchObject({ id: user.id });
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+  });
+});
@@ -1,33 +1,148 @@
-import { type Document, type InsertDocument, type Settings, type InsertSettings, type User, type InsertUser } from "@shared/schema";
+import { type Batch, type InsertBatch, type CompanyProfile, type InsertCompanyProfile, type DocumentTemplate, type InsertDocumentTemplate, type DocumentClass, type Product, type InsertProduct, type Supplier, type InsertSupplier, type Lot, type InsertLot, type LotQuery, type Document, type InsertDocument, type DocumentRevision, type InsertDocumentRevision, type DocumentTransition, type InsertDocumentTransition, type AuditEntry, type InsertAuditEntry, type AuditLogQuery, type Settings, type InsertSettings, type User, type InsertUser, type UserRole, batches, companyProfiles, documents, documentTemplates, products, suppliers, lots, documentRevisions, documentTransitions, auditLog, settings, users } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gte, ilike, isNull, lte, ne, or, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDatabase, createPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  // Login sessions, kept alongside the rest of the data
+  sessionStore: session.Store;
+
   // Documents
   getDocument(id: string): Promise<Document | undefined>;
   getAllDocuments(): Promise<Document[]>;
+  // The user's own documents plus unowned ones from before accounts existed
+  getUserDocuments(userId: string): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: string, document: Partial<Document>): Promise<Document | undefined>;
   deleteDocument(id: string): Promise<boolean>;
+
+  // Batches
+  getBatch(id: string): Promise<Batch | undefined>;
+  getAllBatches(): Promise<Batch[]>;
+  getUserBatches(userId: string): Promise<Batch[]>;
+  getBatchDocuments(batchId: string): Promise<Document[]>;
+  createBatch(batch: InsertBatch): Promise<Batch>;
+
+  // Document revisions (immutable snapshots of extractedData)
+  getDocumentRevisions(documentId: string): Promise<DocumentRevision[]>;
+  getDocumentRevision(id: string): Promise<DocumentRevision | undefined>;
+  createDocumentRevision(revision: InsertDocumentRevision): Promise<DocumentRevision>;
+
+  // Review workflow
+  getDocumentTransitions(documentId: string): Promise<DocumentTransition[]>;
+  // Moves the document from transition.fromStatus to transition.toStatus and
+  // records it; undefined when the document is no longer in fromStatus
+  transitionDocument(transition: InsertDocumentTransition): Promise<Document | undefined>;
+
+  // Audit log (append-only), newest entries first
+  getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]>;
+  createAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
   
+  // Company profiles
+  getCompanyProfiles(): Promise<CompanyProfile[]>;
+  getCompanyProfile(id: string): Promise<CompanyProfile | undefined>;
+  getDefaultCompanyProfile(): Promise<CompanyProfile | undefined>;
+  createCompanyProfile(profile: InsertCompanyProfile): Promise<CompanyProfile>;
+  updateCompanyProfile(id: string, profile: Partial<InsertCompanyProfile>): Promise<CompanyProfile | undefined>;
+  deleteCompanyProfile(id: string): Promise<boolean>;
+
+  // Document templates
+  getDocumentTemplates(): Promise<DocumentTemplate[]>;
+  getDocumentTemplate(id: string): Promise<DocumentTemplate | undefined>;
+  getDefaultDocumentTemplate(): Promise<DocumentTemplate | undefined>;
+  getDocumentTemplateForClass(documentClass: DocumentClass): Promise<DocumentTemplate | undefined>;
+  createDocumentTemplate(template: InsertDocumentTemplate): Promise<DocumentTemplate>;
+  updateDocumentTemplate(id: string, template: Partial<InsertDocumentTemplate>): Promise<DocumentTemplate | undefined>;
+  deleteDocumentTemplate(id: string): Promise<boolean>;
+
+  // Product catalog
+  getProducts(): Promise<Product[]>;
+  getProduct(id: string): Promise<Product | undefined>;
+  getProductByCode(code: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct): Promise<Product>;
+  updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  deleteProduct(id: string): Promise<boolean>;
+
+  // Suppliers
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  getSupplierByName(name: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  deleteSupplier(id: string): Promise<boolean>;
+
+  // Lots, at most one per document, ordered by lot number
+  getLots(query: Pick<LotQuery, "q">): Promise<Lot[]>;
+  // Replaces the document's lot; null removes it
+  setDocumentLot(documentId: string, lot: Omit<InsertLot, "documentId"> | null): Promise<Lot | undefined>;
+
   // Settings
   getSettings(): Promise<Settings | undefined>;
   updateSettings(settings: InsertSettings): Promise<Settings>;
   
   // Users
+  getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // The first account becomes an admin and later ones uploaders, decided atomically
+  registerUser(user: Omit<InsertUser, "role">): Promise<User>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
+}
+
+// Fields omitted from a settings update keep their stored value, so saving
+// the API key does not reset the provider configuration and vice versa.
+function mergeSettings(existing: Settings | undefined, updates: InsertSettings) {
+  const keep = (value: string | null | undefined, current: string | null | undefined) =>
+    value !== undefined ? value || null : current ?? null;
+
+  return {
+    apiKey: keep(updates.apiKey, existing?.apiKey),
+    encryptedApiKey: keep(updates.encryptedApiKey, existing?.encryptedApiKey),
+    extractionProvider: updates.extractionProvider || existing?.extractionProvider || "mistral",
+    mistralModel: keep(updates.mistralModel, existing?.mistralModel),
+    providerBaseUrl: keep(updates.providerBaseUrl, existing?.providerBaseUrl),
+    providerModel: keep(updates.providerModel, existing?.providerModel),
+    encryptedProviderApiKey: keep(updates.encryptedProviderApiKey, existing?.encryptedProviderApiKey),
+    offlineFallback: updates.offlineFallback ?? existing?.offlineFallback ?? false,
+  };
 }
 
 export class MemStorage implements IStorage {
   private documents: Map<string, Document>;
+  private batches: Map<string, Batch>;
+  private companyProfiles: Map<string, CompanyProfile>;
+  private templates: Map<string, DocumentTemplate>;
+  private products: Map<string, Product>;
+  private suppliers: Map<string, Supplier>;
+  private lots: Map<string, Lot>; // by document id
+  private revisions: Map<string, DocumentRevision>;
+  private transitions: Map<string, DocumentTransition>;
+  private auditEntries: AuditEntry[];
   private settings: Settings | undefined;
   private users: Map<string, User>;
+  sessionStore: session.Store;
 
   constructor() {
     this.documents = new Map();
+    this.batches = new Map();
+    this.companyProfiles = new Map();
+    this.templates = new Map();
+    this.products = new Map();
+    this.suppliers = new Map();
+    this.lots = new Map();
+    this.revisions = new Map();
+    this.transitions = new Map();
+    this.auditEntries = [];
     this.users = new Map();
     this.settings = undefined;
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }); // prune expired sessions daily
   }
 
   async getDocument(id: string): Promise<Document | undefined> {
@@ -35,7 +150,15 @@ export class MemStorage implements IStorage {
   }
 
   async getAllDocuments(): Promise<Document[]> {
-    return Array.from(this.documents.values()).sort((a, b) => 
+    return Array.from(this.documents.values()).sort((a, b) =>
+      new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+    );
+  }
+
+  async getUserDocuments(userId: string): Promise<Document[]> {
+    return Array.from(this.documents.values())
+      .filter((document) => !document.userId || document.userId === userId)
+      .sort((a, b) => 
       new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
     );
   }
@@ -46,9 +169,23 @@ export class MemStorage implements IStorage {
     const document: Document = { 
       id,
       status: insertDocument.status || "uploaded",
+      reviewStatus: insertDocument.reviewStatus || "draft",
+      assigneeId: insertDocument.assigneeId || null,
       originalFileName: insertDocument.originalFileName,
+      fileExtension: insertDocument.fileExtension || "pdf",
+      mimeType: insertDocument.mimeType || "application/pdf",
+      userId: insertDocument.userId || null,
       extractedData: insertDocument.extractedData || null,
       companyData: insertDocument.companyData || null,
+      extractionProvider: insertDocument.extractionProvider || null,
+      batchId: insertDocument.batchId || null,
+      templateId: insertDocument.templateId || null,
+      productId: insertDocument.productId || null,
+      productMatch: insertDocument.productMatch || null,
+      supplierId: insertDocument.supplierId || null,
+      supplierMatch: insertDocument.supplierMatch || null,
+      documentClass: insertDocument.documentClass || null,
+      classMatch: insertDocument.classMatch || null,
       createdAt: now,
       processedAt: insertDocument.status === "processed" ? now : null
     };
@@ -70,9 +207,380 @@ export class MemStorage implements IStorage {
   }
 
   async deleteDocument(id: string): Promise<boolean> {
+    for (const revision of Array.from(this.revisions.values())) {
+      if (revision.documentId === id) {
+        this.revisions.delete(revision.id);
+      }
+    }
+    for (const transition of Array.from(this.transitions.values())) {
+      if (transition.documentId === id) {
+        this.transitions.delete(transition.id);
+      }
+    }
+    this.lots.delete(id);
     return this.documents.delete(id);
   }
 
+  async getBatch(id: string): Promise<Batch | undefined> {
+    return this.batches.get(id);
+  }
+
+  async getAllBatches(): Promise<Batch[]> {
+    return Array.from(this.batches.values()).sort((a, b) =>
+      new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+    );
+  }
+
+  async getUserBatches(userId: string): Promise<Batch[]> {
+    return Array.from(this.batches.values())
+      .filter((batch) => !batch.userId || batch.userId === userId)
+      .sort((a, b) =>
+      new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+    );
+  }
+
+  async getBatchDocuments(batchId: string): Promise<Document[]> {
+    return Array.from(this.documents.values())
+      .filter((document) => document.batchId === batchId)
+      .sort((a, b) => a.originalFileName.localeCompare(b.originalFileName));
+  }
+
+  async createBatch(insertBatch: InsertBatch): Promise<Batch> {
+    const batch: Batch = { id: randomUUID(), name: insertBatch.name, userId: insertBatch.userId || null, createdAt: new Date() };
+    this.batches.set(batch.id, batch);
+    return batch;
+  }
+
+  async getDocumentRevisions(documentId: string): Promise<DocumentRevision[]> {
+    return Array.from(this.revisions.values())
+      .filter((revision) => revision.documentId === documentId)
+      .sort((a, b) => a.revisionNumber - b.revisionNumber);
+  }
+
+  async getDocumentRevision(id: string): Promise<DocumentRevision | undefined> {
+    return this.revisions.get(id);
+  }
+
+  async createDocumentRevision(insertRevision: InsertDocumentRevision): Promise<DocumentRevision> {
+    // Counted without awaiting so concurrent saves cannot reuse a number
+    const existing = Array.from(this.revisions.values()).filter((revision) => revision.documentId === insertRevision.documentId);
+    const revision: DocumentRevision = {
+      id: randomUUID(),
+      documentId: insertRevision.documentId,
+      revisionNumber: existing.length + 1,
+      extractedData: insertRevision.extractedData,
+      source: insertRevision.source || "edit",
+      createdBy: insertRevision.createdBy || null,
+      createdAt: new Date()
+    };
+    this.revisions.set(revision.id, revision);
+    return revision;
+  }
+
+  async getDocumentTransitions(documentId: string): Promise<DocumentTransition[]> {
+    return Array.from(this.transitions.values())
+      .filter((transition) => transition.documentId === documentId)
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  }
+
+  async transitionDocument(insertTransition: InsertDocumentTransition): Promise<Document | undefined> {
+    const existing = this.documents.get(insertTransition.documentId);
+    if (!existing || existing.reviewStatus !== insertTransition.fromStatus) return undefined;
+
+    const transition: DocumentTransition = {
+      id: randomUUID(),
+      documentId: insertTransition.documentId,
+      action: insertTransition.action,
+      fromStatus: insertTransition.fromStatus,
+      toStatus: insertTransition.toStatus,
+      comment: insertTransition.comment || null,
+      createdBy: insertTransition.createdBy || null,
+      createdAt: new Date(),
+    };
+    this.transitions.set(transition.id, transition);
+
+    const updated: Document = { ...existing, reviewStatus: insertTransition.toStatus };
+    this.documents.set(updated.id, updated);
+    return updated;
+  }
+
+  async getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+    return this.auditEntries
+      .filter((entry) =>
+        (!query.documentId || entry.documentId === query.documentId) &&
+        (!query.userId || entry.userId === query.userId) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt <= query.to)
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
+
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      action: insertEntry.action,
+      documentId: insertEntry.documentId || null,
+      documentName: insertEntry.documentName || null,
+      userId: insertEntry.userId || null,
+      username: insertEntry.username || null,
+      details: insertEntry.details ?? null,
+      createdAt: new Date(),
+    };
+    this.auditEntries.push(entry);
+    return entry;
+  }
+
+  async getCompanyProfiles(): Promise<CompanyProfile[]> {
+    return Array.from(this.companyProfiles.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCompanyProfile(id: string): Promise<CompanyProfile | undefined> {
+    return this.companyProfiles.get(id);
+  }
+
+  async getDefaultCompanyProfile(): Promise<CompanyProfile | undefined> {
+    return Array.from(this.companyProfiles.values()).find((profile) => profile.isDefault);
+  }
+
+  async createCompanyProfile(insertProfile: InsertCompanyProfile): Promise<CompanyProfile> {
+    const now = new Date();
+    const profile: CompanyProfile = {
+      id: randomUUID(),
+      name: insertProfile.name,
+      address: insertProfile.address || null,
+      email: insertProfile.email || null,
+      phone: insertProfile.phone || null,
+      website: insertProfile.website || null,
+      logo: insertProfile.logo || null,
+      primaryColor: insertProfile.primaryColor || "#3B82F6",
+      secondaryColor: insertProfile.secondaryColor || "#1E40AF",
+      font: insertProfile.font || "helvetica",
+      footerText: insertProfile.footerText || null,
+      signatoryName: insertProfile.signatoryName || null,
+      signatoryTitle: insertProfile.signatoryTitle || null,
+      // The first profile becomes the default
+      isDefault: insertProfile.isDefault ?? this.companyProfiles.size === 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.companyProfiles.set(profile.id, profile);
+    if (profile.isDefault) this.clearOtherDefaults(profile.id);
+    return profile;
+  }
+
+  async updateCompanyProfile(id: string, updates: Partial<InsertCompanyProfile>): Promise<CompanyProfile | undefined> {
+    const existing = this.companyProfiles.get(id);
+    if (!existing) return undefined;
+
+    const updated: CompanyProfile = { ...existing, ...updates, updatedAt: new Date() };
+    this.companyProfiles.set(id, updated);
+    if (updated.isDefault) this.clearOtherDefaults(id);
+    return updated;
+  }
+
+  async deleteCompanyProfile(id: string): Promise<boolean> {
+    return this.companyProfiles.delete(id);
+  }
+
+  private clearOtherDefaults(defaultId: string): void {
+    this.companyProfiles.forEach((profile, id) => {
+      if (id !== defaultId && profile.isDefault) {
+        this.companyProfiles.set(id, { ...profile, isDefault: false });
+      }
+    });
+  }
+
+  async getDocumentTemplates(): Promise<DocumentTemplate[]> {
+    return Array.from(this.templates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDocumentTemplate(id: string): Promise<DocumentTemplate | undefined> {
+    return this.templates.get(id);
+  }
+
+  async getDefaultDocumentTemplate(): Promise<DocumentTemplate | undefined> {
+    return Array.from(this.templates.values()).find((template) => template.isDefault);
+  }
+
+  async getDocumentTemplateForClass(documentClass: DocumentClass): Promise<DocumentTemplate | undefined> {
+    return Array.from(this.templates.values()).find((template) => template.documentClass === documentClass);
+  }
+
+  async createDocumentTemplate(insertTemplate: InsertDocumentTemplate): Promise<DocumentTemplate> {
+    const now = new Date();
+    const template: DocumentTemplate = {
+      id: randomUUID(),
+      name: insertTemplate.name,
+      definition: insertTemplate.definition,
+      // The first template becomes the default
+      isDefault: insertTemplate.isDefault ?? this.templates.size === 0,
+      documentClass: insertTemplate.documentClass ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.templates.set(template.id, template);
+    if (template.isDefault) this.clearOtherDefaultTemplates(template.id);
+    if (template.documentClass) this.clearOtherClassTemplates(template.id, template.documentClass);
+    return template;
+  }
+
+  async updateDocumentTemplate(id: string, updates: Partial<InsertDocumentTemplate>): Promise<DocumentTemplate | undefined> {
+    const existing = this.templates.get(id);
+    if (!existing) return undefined;
+
+    const updated: DocumentTemplate = { ...existing, ...updates, updatedAt: new Date() };
+    this.templates.set(id, updated);
+    if (updated.isDefault) this.clearOtherDefaultTemplates(id);
+    if (updated.documentClass) this.clearOtherClassTemplates(id, updated.documentClass);
+    return updated;
+  }
+
+  async deleteDocumentTemplate(id: string): Promise<boolean> {
+    this.documents.forEach((document, documentId) => {
+      if (document.templateId === id) {
+        this.documents.set(documentId, { ...document, templateId: null });
+      }
+    });
+    return this.templates.delete(id);
+  }
+
+  private clearOtherDefaultTemplates(defaultId: string): void {
+    this.templates.forEach((template, id) => {
+      if (id !== defaultId && template.isDefault) {
+        this.templates.set(id, { ...template, isDefault: false });
+      }
+    });
+  }
+
+  // A class has one template
+  private clearOtherClassTemplates(templateId: string, documentClass: string): void {
+    this.templates.forEach((template, id) => {
+      if (id !== templateId && template.documentClass === documentClass) {
+        this.templates.set(id, { ...template, documentClass: null });
+      }
+    });
+  }
+
+  async getProducts(): Promise<Product[]> {
+    return Array.from(this.products.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    return this.products.get(id);
+  }
+
+  async getProductByCode(code: string): Promise<Product | undefined> {
+    return Array.from(this.products.values()).find((product) => product.code === code);
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const now = new Date();
+    const product: Product = {
+      id: randomUUID(),
+      code: insertProduct.code,
+      name: insertProduct.name,
+      casNumber: insertProduct.casNumber || null,
+      grade: insertProduct.grade || null,
+      supplierMappings: insertProduct.supplierMappings,
+      specifications: insertProduct.specifications,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.products.set(product.id, product);
+    return product;
+  }
+
+  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    const existing = this.products.get(id);
+    if (!existing) return undefined;
+
+    const updated: Product = { ...existing, ...updates, updatedAt: new Date() };
+    this.products.set(id, updated);
+    return updated;
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    this.documents.forEach((document, documentId) => {
+      if (document.productId === id) {
+        this.documents.set(documentId, { ...document, productId: null, productMatch: null });
+      }
+    });
+    return this.products.delete(id);
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async getSupplierByName(name: string): Promise<Supplier | undefined> {
+    return Array.from(this.suppliers.values()).find((supplier) => supplier.name === name);
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const now = new Date();
+    const supplier: Supplier = {
+      id: randomUUID(),
+      name: insertSupplier.name,
+      aliases: insertSupplier.aliases,
+      profile: insertSupplier.profile,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.suppliers.set(supplier.id, supplier);
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const existing = this.suppliers.get(id);
+    if (!existing) return undefined;
+
+    const updated: Supplier = { ...existing, ...updates, updatedAt: new Date() };
+    this.suppliers.set(id, updated);
+    return updated;
+  }
+
+  async deleteSupplier(id: string): Promise<boolean> {
+    this.documents.forEach((document, documentId) => {
+      if (document.supplierId === id) {
+        this.documents.set(documentId, { ...document, supplierId: null, supplierMatch: null });
+      }
+    });
+    return this.suppliers.delete(id);
+  }
+
+  async getLots(query: Pick<LotQuery, "q">): Promise<Lot[]> {
+    const search = (query.q || "").toLowerCase();
+    return Array.from(this.lots.values())
+      .filter((lot) => lot.lotNumber.toLowerCase().includes(search))
+      .sort((a, b) => a.lotNumber.localeCompare(b.lotNumber));
+  }
+
+  async setDocumentLot(documentId: string, details: Omit<InsertLot, "documentId"> | null): Promise<Lot | undefined> {
+    const existing = this.lots.get(documentId);
+    if (!details) {
+      this.lots.delete(documentId);
+      return undefined;
+    }
+    const lot: Lot = {
+      id: existing?.id || randomUUID(),
+      documentId,
+      lotNumber: details.lotNumber,
+      manufactureDate: details.manufactureDate || null,
+      expiryDate: details.expiryDate || null,
+      retestDate: details.retestDate || null,
+      quantity: details.quantity || null,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+    };
+    this.lots.set(documentId, lot);
+    return lot;
+  }
+
   async getSettings(): Promise<Settings | undefined> {
     return this.settings;
   }
@@ -81,14 +589,17 @@ export class MemStorage implements IStorage {
     const id = this.settings?.id || randomUUID();
     this.settings = {
       id,
-      apiKey: insertSettings.apiKey || null,
-      encryptedApiKey: insertSettings.encryptedApiKey || null,
+      ...mergeSettings(this.settings, insertSettings),
       lastTested: new Date(),
       connectionStatus: "testing"
     };
     return this.settings;
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -101,10 +612,474 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, role: insertUser.role || "uploader", id };
     this.users.set(id, user);
     return user;
   }
+
+  async registerUser(insertUser: Omit<InsertUser, "role">): Promise<User> {
+    // Checked without awaiting so concurrent registrations cannot both be first
+    return this.createUser({ ...insertUser, role: this.users.size === 0 ? "admin" : "uploader" });
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  sessionStore: session.Store;
+
+  // Sessions are kept apart from the database so tests can use PGlite
+  constructor(private db: Database, sessionStore: session.Store) {
+    this.sessionStore = sessionStore;
+  }
+
+  async getDocument(id: string): Promise<Document | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getAllDocuments(): Promise<Document[]> {
+    return this.db.select().from(documents).orderBy(desc(documents.createdAt));
+  }
+
+  async getUserDocuments(userId: string): Promise<Document[]> {
+    return this.db
+      .select()
+      .from(documents)
+      .where(or(eq(documents.userId, userId), isNull(documents.userId)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const now = new Date();
+    const [document] = await this.db
+      .insert(documents)
+      .values({
+        ...insertDocument,
+        createdAt: now,
+        processedAt: insertDocument.status === "processed" ? now : null
+      })
+      .returning();
+    return document;
+  }
+
+  async updateDocument(id: string, updates: Partial<Document>): Promise<Document | undefined> {
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [document] = await this.db
+      .update(documents)
+      .set({
+        ...changes,
+        ...(updates.status === "processed" ? { processedAt: new Date() } : {})
+      })
+      .where(eq(documents.id, id))
+      .returning();
+    return document;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  async getBatch(id: string): Promise<Batch | undefined> {
+    const [batch] = await this.db.select().from(batches).where(eq(batches.id, id));
+    return batch;
+  }
+
+  async getAllBatches(): Promise<Batch[]> {
+    return this.db.select().from(batches).orderBy(desc(batches.createdAt));
+  }
+
+  async getUserBatches(userId: string): Promise<Batch[]> {
+    return this.db
+      .select()
+      .from(batches)
+      .where(or(eq(batches.userId, userId), isNull(batches.userId)))
+      .orderBy(desc(batches.createdAt));
+  }
+
+  async getBatchDocuments(batchId: string): Promise<Document[]> {
+    return this.db
+      .select()
+      .from(documents)
+      .where(eq(documents.batchId, batchId))
+      .orderBy(asc(documents.originalFileName));
+  }
+
+  async createBatch(insertBatch: InsertBatch): Promise<Batch> {
+    const [batch] = await this.db.insert(batches).values(insertBatch).returning();
+    return batch;
+  }
+
+  async getDocumentRevisions(documentId: string): Promise<DocumentRevision[]> {
+    return this.db
+      .select()
+      .from(documentRevisions)
+      .where(eq(documentRevisions.documentId, documentId))
+      .orderBy(asc(documentRevisions.revisionNumber));
+  }
+
+  async getDocumentRevision(id: string): Promise<DocumentRevision | undefined> {
+    const [revision] = await this.db.select().from(documentRevisions).where(eq(documentRevisions.id, id));
+    return revision;
+  }
+
+  async createDocumentRevision(insertRevision: InsertDocumentRevision): Promise<DocumentRevision> {
+    return this.db.transaction(async (tx) => {
+      // Locking the document row serializes concurrent saves so each gets its own number
+      await tx.select({ id: documents.id }).from(documents).where(eq(documents.id, insertRevision.documentId)).for("update");
+      const [{ total }] = await tx
+        .select({ total: count() })
+        .from(documentRevisions)
+        .where(eq(documentRevisions.documentId, insertRevision.documentId));
+      const [revision] = await tx
+        .insert(documentRevisions)
+        .values({ ...insertRevision, revisionNumber: total + 1 })
+        .returning();
+      return revision;
+    });
+  }
+
+  async getDocumentTransitions(documentId: string): Promise<DocumentTransition[]> {
+    return this.db
+      .select()
+      .from(documentTransitions)
+      .where(eq(documentTransitions.documentId, documentId))
+      .orderBy(asc(documentTransitions.createdAt));
+  }
+
+  async transitionDocument(insertTransition: InsertDocumentTransition): Promise<Document | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Conditional on the current status so concurrent reviewers cannot both win
+      const [document] = await tx
+        .update(documents)
+        .set({ reviewStatus: insertTransition.toStatus })
+        .where(and(eq(documents.id, insertTransition.documentId), eq(documents.reviewStatus, insertTransition.fromStatus)))
+        .returning();
+      if (document) {
+        await tx.insert(documentTransitions).values(insertTransition);
+      }
+      return document;
+    });
+  }
+
+  async getAuditLog(query: AuditLogQuery): Promise<AuditEntry[]> {
+    return this.db
+      .select()
+      .from(auditLog)
+      .where(and(
+        query.documentId ? eq(auditLog.documentId, query.documentId) : undefined,
+        query.userId ? eq(auditLog.userId, query.userId) : undefined,
+        query.from ? gte(auditLog.createdAt, query.from) : undefined,
+        query.to ? lte(auditLog.createdAt, query.to) : undefined,
+      ))
+      .orderBy(desc(auditLog.createdAt))
+      .limit(query.limit);
+  }
+
+  async createAuditEntry(insertEntry: InsertAuditEntry): Promise<AuditEntry> {
+    const [entry] = await this.db.insert(auditLog).values(insertEntry).returning();
+    return entry;
+  }
+
+  async getCompanyProfiles(): Promise<CompanyProfile[]> {
+    return this.db.select().from(companyProfiles).orderBy(asc(companyProfiles.name));
+  }
+
+  async getCompanyProfile(id: string): Promise<CompanyProfile | undefined> {
+    const [profile] = await this.db.select().from(companyProfiles).where(eq(companyProfiles.id, id));
+    return profile;
+  }
+
+  async getDefaultCompanyProfile(): Promise<CompanyProfile | undefined> {
+    const [profile] = await this.db.select().from(companyProfiles).where(eq(companyProfiles.isDefault, true)).limit(1);
+    return profile;
+  }
+
+  async createCompanyProfile(insertProfile: InsertCompanyProfile): Promise<CompanyProfile> {
+    return this.db.transaction(async (tx) => {
+      // The first profile becomes the default
+      const [{ total }] = await tx.select({ total: count() }).from(companyProfiles);
+      const [profile] = await tx
+        .insert(companyProfiles)
+        .values({ ...insertProfile, isDefault: insertProfile.isDefault ?? total === 0 })
+        .returning();
+      if (profile.isDefault) {
+        await tx.update(companyProfiles).set({ isDefault: false }).where(ne(companyProfiles.id, profile.id));
+      }
+      return profile;
+    });
+  }
+
+  async updateCompanyProfile(id: string, updates: Partial<InsertCompanyProfile>): Promise<CompanyProfile | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [profile] = await tx
+        .update(companyProfiles)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(companyProfiles.id, id))
+        .returning();
+      if (profile?.isDefault) {
+        await tx
+          .update(companyProfiles)
+          .set({ isDefault: false })
+          .where(and(ne(companyProfiles.id, id), eq(companyProfiles.isDefault, true)));
+      }
+      return profile;
+    });
+  }
+
+  async deleteCompanyProfile(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(companyProfiles).where(eq(companyProfiles.id, id)).returning({ id: companyProfiles.id });
+    return deleted.length > 0;
+  }
+
+  async getDocumentTemplates(): Promise<DocumentTemplate[]> {
+    return this.db.select().from(documentTemplates).orderBy(asc(documentTemplates.name));
+  }
+
+  async getDocumentTemplate(id: string): Promise<DocumentTemplate | undefined> {
+    const [template] = await this.db.select().from(documentTemplates).where(eq(documentTemplates.id, id));
+    return template;
+  }
+
+  async getDefaultDocumentTemplate(): Promise<DocumentTemplate | undefined> {
+    const [template] = await this.db.select().from(documentTemplates).where(eq(documentTemplates.isDefault, true)).limit(1);
+    return template;
+  }
+
+  async getDocumentTemplateForClass(documentClass: DocumentClass): Promise<DocumentTemplate | undefined> {
+    const [template] = await this.db.select().from(documentTemplates).where(eq(documentTemplates.documentClass, documentClass)).limit(1);
+    return template;
+  }
+
+  async createDocumentTemplate(insertTemplate: InsertDocumentTemplate): Promise<DocumentTemplate> {
+    return this.db.transaction(async (tx) => {
+      // The first template becomes the default
+      const [{ total }] = await tx.select({ total: count() }).from(documentTemplates);
+      const [template] = await tx
+        .insert(documentTemplates)
+        .values({ ...insertTemplate, isDefault: insertTemplate.isDefault ?? total === 0 })
+        .returning();
+      if (template.isDefault) {
+        await tx.update(documentTemplates).set({ isDefault: false }).where(ne(documentTemplates.id, template.id));
+      }
+      // A class has one template
+      if (template.documentClass) {
+        await tx
+          .update(documentTemplates)
+          .set({ documentClass: null })
+          .where(and(ne(documentTemplates.id, template.id), eq(documentTemplates.documentClass, template.documentClass)));
+      }
+      return template;
+    });
+  }
+
+  async updateDocumentTemplate(id: string, updates: Partial<InsertDocumentTemplate>): Promise<DocumentTemplate | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [template] = await tx
+        .update(documentTemplates)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(documentTemplates.id, id))
+        .returning();
+      if (template?.isDefault) {
+        await tx
+          .update(documentTemplates)
+          .set({ isDefault: false })
+          .where(and(ne(documentTemplates.id, id), eq(documentTemplates.isDefault, true)));
+      }
+      if (template?.documentClass) {
+        await tx
+          .update(documentTemplates)
+          .set({ documentClass: null })
+          .where(and(ne(documentTemplates.id, id), eq(documentTemplates.documentClass, template.documentClass)));
+      }
+      return template;
+    });
+  }
+
+  async deleteDocumentTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(documentTemplates).where(eq(documentTemplates.id, id)).returning({ id: documentTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getProducts(): Promise<Product[]> {
+    return this.db.select().from(products).orderBy(asc(products.code));
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async getProductByCode(code: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.code, code));
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+    const [product] = await this.db.insert(products).values(insertProduct).returning();
+    return product;
+  }
+
+  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [product] = await this.db
+      .update(products)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(products.id, id))
+      .returning();
+    return product;
+  }
+
+  // The product_id foreign key is "on delete set null"; the match method goes with it
+  async deleteProduct(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(documents).set({ productMatch: null }).where(eq(documents.productId, id));
+      const deleted = await tx.delete(products).where(eq(products.id, id)).returning({ id: products.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async getSupplierByName(name: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.name, name));
+    return supplier;
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await this.db.insert(suppliers).values(insertSupplier).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [supplier] = await this.db
+      .update(suppliers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return supplier;
+  }
+
+  // The supplier_id foreign key is "on delete set null"; the match method goes with it
+  async deleteSupplier(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(documents).set({ supplierMatch: null }).where(eq(documents.supplierId, id));
+      const deleted = await tx.delete(suppliers).where(eq(suppliers.id, id)).returning({ id: suppliers.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getLots(query: Pick<LotQuery, "q">): Promise<Lot[]> {
+    const search = query.q ? `%${query.q.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    return this.db
+      .select()
+      .from(lots)
+      .where(search ? ilike(lots.lotNumber, search) : undefined)
+      .orderBy(asc(lots.lotNumber));
+  }
+
+  async setDocumentLot(documentId: string, details: Omit<InsertLot, "documentId"> | null): Promise<Lot | undefined> {
+    if (!details) {
+      await this.db.delete(lots).where(eq(lots.documentId, documentId));
+      return undefined;
+    }
+    const [lot] = await this.db
+      .insert(lots)
+      .values({ ...details, documentId })
+      .onConflictDoUpdate({ target: lots.documentId, set: { ...details, updatedAt: new Date() } })
+      .returning();
+    return lot;
+  }
+
+  async getSettings(): Promise<Settings | undefined> {
+    const [current] = await this.db.select().from(settings).limit(1);
+    return current;
+  }
+
+  async updateSettings(insertSettings: InsertSettings): Promise<Settings> {
+    const existing = await this.getSettings();
+    const values = {
+      ...mergeSettings(existing, insertSettings),
+      lastTested: new Date(),
+      connectionStatus: "testing"
+    };
+
+    if (existing) {
+      const [updated] = await this.db.update(settings).set(values).where(eq(settings.id, existing.id)).returning();
+      return updated;
+    }
+
+    const [created] = await this.db.insert(settings).values(values).returning();
+    return created;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async registerUser(insertUser: Omit<InsertUser, "role">): Promise<User> {
+    return this.db.transaction(async (tx) => {
+      // Locking the table makes concurrent registrations wait, so only one sees it empty
+      await tx.execute(sql`LOCK TABLE ${users} IN SHARE ROW EXCLUSIVE MODE`);
+      const [{ total }] = await tx.select({ total: count() }).from(users);
+      const [user] = await tx.insert(users).values({ ...insertUser, role: total === 0 ? "admin" : "uploader" }).returning();
+      return user;
+    });
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+}
+
+// STORAGE_DRIVER selects the backend explicitly ("memory" or "postgres");
+// otherwise Postgres is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+    }
+    const pool = createPool(process.env.DATABASE_URL);
+    return new DrizzleStorage(createDatabase(pool), new PostgresSessionStore({ pool, createTableIfMissing: true }));
+  }
+
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
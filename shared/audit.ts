@@ -0,0 +1,16 @@
+import type { AuditAction } from "./schema";
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  upload: "Uploaded",
+  process: "Queued for processing",
+  cancel: "Processing cancelled",
+  retry: "Processing retried",
+  edit: "Edited",
+  restore: "Revision restored",
+  review: "Review status changed",
+  assign: "Assigned",
+  apply_profile: "Company profile applied",
+  generate: "Generated and downloaded",
+  download: "Original file downloaded",
+  delete: "Deleted",
+};
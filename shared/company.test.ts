@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { companyContactLine, companyDataFromProfile, defaultCompanyData, resolveCompanyData } from "./company";
+import type { CompanyProfile } from "./schema";
+
+const profile: CompanyProfile = {
+  id: "p1",
+  name: "Acme Chemicals",
+  address: "1 Main Street",
+  email: "qa@acme.test",
+  phone: null,
+  website: "acme.test",
+  logo: null,
+  primaryColor: "#112233",
+  secondaryColor: "#445566",
+  font: "times",
+  footerText: "Confidential",
+  signatoryName: "A. Chemist",
+  signatoryTitle: "QA Manager",
+  isDefault: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe("company data", () => {
+  it("snapshots a profile's branding with a reference to the profile", () => {
+    expect(companyDataFromProfile(profile)).toMatchObject({ profileId: "p1", name: "Acme Chemicals", primaryColor: "#112233", font: "times", signatoryTitle: "QA Manager" });
+  });
+
+  it("falls back to the default branding for documents without company data", () => {
+    expect(resolveCompanyData(null)).toEqual(defaultCompanyData);
+    expect(resolveCompanyData({ name: 42 })).toEqual(defaultCompanyData);
+    expect(resolveCompanyData(companyDataFromProfile(profile))).toMatchObject({ name: "Acme Chemicals" });
+  });
+
+  it("joins the contact details that are set", () => {
+    expect(companyContactLine(companyDataFromProfile(profile))).toBe("1 Main Street • qa@acme.test • acme.test");
+    expect(companyContactLine(defaultCompanyData)).toBe("");
+  });
+});
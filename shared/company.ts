@@ -0,0 +1,55 @@
+import { companyDataSchema, type CompanyData, type CompanyFontId, type CompanyProfile } from "./schema";
+
+// Branding used when no company profile has been set up yet
+export const defaultCompanyData: CompanyData = {
+  profileId: null,
+  name: "Nano Tech Chemical Brothers Pvt. Ltd.",
+  address: null,
+  email: null,
+  phone: null,
+  website: null,
+  logo: null,
+  primaryColor: "#3B82F6",
+  secondaryColor: "#1E40AF",
+  font: "helvetica",
+  footerText: null,
+  signatoryName: null,
+  signatoryTitle: null,
+};
+
+// Each font maps to a PDF standard font, a Word font and a CSS stack so that
+// generated documents and the live preview look alike.
+export const companyFonts: Record<CompanyFontId, { label: string; pdf: string; docx: string; css: string }> = {
+  helvetica: { label: "Sans-serif (Helvetica / Arial)", pdf: "Helvetica", docx: "Arial", css: "Helvetica, Arial, sans-serif" },
+  times: { label: "Serif (Times)", pdf: "Times-Roman", docx: "Times New Roman", css: "'Times New Roman', Times, serif" },
+  courier: { label: "Monospace (Courier)", pdf: "Courier", docx: "Courier New", css: "'Courier New', Courier, monospace" },
+};
+
+export function companyDataFromProfile(profile: CompanyProfile): CompanyData {
+  return {
+    profileId: profile.id,
+    name: profile.name,
+    address: profile.address,
+    email: profile.email,
+    phone: profile.phone,
+    website: profile.website,
+    logo: profile.logo,
+    primaryColor: profile.primaryColor,
+    secondaryColor: profile.secondaryColor,
+    font: profile.font as CompanyFontId,
+    footerText: profile.footerText,
+    signatoryName: profile.signatoryName,
+    signatoryTitle: profile.signatoryTitle,
+  };
+}
+
+// Documents created before profiles existed have no companyData
+export function resolveCompanyData(companyData: unknown): CompanyData {
+  const parsed = companyDataSchema.safeParse(companyData);
+  return parsed.success ? parsed.data : defaultCompanyData;
+}
+
+// Address, phone, email and website joined for a single header line
+export function companyContactLine(company: CompanyData): string {
+  return [company.address, company.phone, company.email, company.website].filter(Boolean).join(" • ");
+}
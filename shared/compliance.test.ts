@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { evaluateCompliance, evaluateTable, parseSpecification } from "./compliance";
+
+describe("parseSpecification", () => {
+  it("reads limits, ranges and text", () => {
+    expect(parseSpecification("≤ 0.5%")).toEqual({ kind: "max", value: 0.5, inclusive: true, unit: "%" });
+    expect(parseSpecification("NLT 99.0 %")).toEqual({ kind: "min", value: 99, inclusive: true, unit: "%" });
+    expect(parseSpecification("> 7")).toEqual({ kind: "min", value: 7, inclusive: false, unit: "" });
+    expect(parseSpecification("98.0% – 102.0%")).toEqual({ kind: "range", min: 98, max: 102, unit: "%" });
+    expect(parseSpecification("0.5 max")).toEqual({ kind: "max", value: 0.5, inclusive: true, unit: "" });
+    expect(parseSpecification("White powder")).toEqual({ kind: "text", expected: "White powder" });
+    expect(parseSpecification("-")).toEqual({ kind: "none" });
+  });
+
+  it("reads thousands separators and decimal commas", () => {
+    expect(parseSpecification("NMT 1,000 ppm")).toMatchObject({ kind: "max", value: 1000, unit: "ppm" });
+    expect(parseSpecification("6,5 - 7,5")).toMatchObject({ kind: "range", min: 6.5, max: 7.5 });
+  });
+});
+
+describe("evaluateCompliance", () => {
+  it("checks maximums", () => {
+    expect(evaluateCompliance("≤ 0.5%", "0.3%")).toBe("pass");
+    expect(evaluateCompliance("NMT 0.5%", "0.5 %")).toBe("pass");
+    expect(evaluateCompliance("NMT 0.5%", "0.7%")).toBe("fail");
+    expect(evaluateCompliance("< 0.5%", "0.5%")).toBe("fail");
+    expect(evaluateCompliance("NMT 1,000 ppm", "850 ppm")).toBe("pass");
+    expect(evaluateCompliance("NMT 1,000 ppm", "1,200 ppm")).toBe("fail");
+  });
+
+  it("checks minimums", () => {
+    expect(evaluateCompliance("≥ 99.0%", "99.6%")).toBe("pass");
+    expect(evaluateCompliance("NLT 99.0%", "98.7%")).toBe("fail");
+    expect(evaluateCompliance("> 7", "7")).toBe("fail");
+    expect(evaluateCompliance("NLT 99.0%", "< 99.5%")).toBe("unknown");
+  });
+
+  it("checks ranges", () => {
+    expect(evaluateCompliance("98.0% - 102.0%", "99.8%")).toBe("pass");
+    expect(evaluateCompliance("98.0% - 102.0%", "102.5%")).toBe("fail");
+    expect(evaluateCompliance("6,5 - 7,5", "7,2")).toBe("pass");
+  });
+
+  it("converts results reported in another unit", () => {
+    expect(evaluateCompliance("NMT 0.1%", "500 ppm")).toBe("pass");
+    expect(evaluateCompliance("NMT 0.1%", "1,500 ppm")).toBe("fail");
+    expect(evaluateCompliance("NMT 0.1%", "2 °C")).toBe("unknown");
+  });
+
+  it("passes results below the detection limit against a maximum", () => {
+    expect(evaluateCompliance("NMT 10 ppm", "ND")).toBe("pass");
+    expect(evaluateCompliance("NMT 10 ppm", "Not detected")).toBe("pass");
+    expect(evaluateCompliance("NMT 10 ppm", "< 2 ppm")).toBe("pass");
+    expect(evaluateCompliance("NLT 10 ppm", "ND")).toBe("unknown");
+  });
+
+  it("reads an upper bound as a result rather than a verdict", () => {
+    expect(evaluateCompliance("NMT 0.1%", "Not more than 0.05%")).toBe("pass");
+    expect(evaluateCompliance("NMT 0.1%", "NMT 0.05%")).toBe("pass");
+  });
+
+  it("takes explicit verdicts whatever the specification", () => {
+    expect(evaluateCompliance("White powder", "Conforms")).toBe("pass");
+    expect(evaluateCompliance("≤ 0.5%", "Complies")).toBe("pass");
+    expect(evaluateCompliance("White powder", "Does not conform")).toBe("fail");
+    expect(evaluateCompliance("USP", "Does not comply")).toBe("fail");
+    expect(evaluateCompliance("≤ 0.5%", "OOS")).toBe("fail");
+  });
+
+  it("matches text specifications only on equal text", () => {
+    expect(evaluateCompliance("White powder", "white powder")).toBe("pass");
+    expect(evaluateCompliance("White powder", "Off-white powder")).toBe("unknown");
+    expect(evaluateCompliance("Conforms to reference", "Clear liquid")).toBe("unknown");
+  });
+
+  it("leaves rows without a specification or result unknown", () => {
+    expect(evaluateCompliance("", "99%")).toBe("unknown");
+    expect(evaluateCompliance("≥ 99%", "-")).toBe("unknown");
+  });
+});
+
+describe("evaluateTable", () => {
+  it("evaluates each row from the specification and result columns", () => {
+    expect(evaluateTable([
+      ["Test", "Specification", "Result"],
+      ["Assay", "98.0% - 102.0%", "99.1%"],
+      ["Water", "NMT 0.5%", "0.8%"],
+      ["Appearance", "White powder", "Conforms"],
+    ])).toEqual(["pass", "fail", "pass"]);
+  });
+
+  it("returns null for tables without a specification column", () => {
+    expect(evaluateTable([["Test", "Result"], ["Assay", "99%"]])).toBeNull();
+  });
+});
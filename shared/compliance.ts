@@ -0,0 +1,148 @@
+import { canonicalUnit, convertValue } from "./units";
+import { NUMBER, parseNumber } from "./numbers";
+
+export type ComplianceStatus = "pass" | "fail" | "unknown";
+
+export const complianceStatusLabels: Record<ComplianceStatus, string> = {
+  pass: "Pass",
+  fail: "Fail",
+  unknown: "Unknown",
+};
+
+// Text colors for the status in the preview and generated documents
+export const complianceColors: Record<ComplianceStatus, string> = {
+  pass: "#15803D",
+  fail: "#B91C1C",
+  unknown: "#6B7280",
+};
+
+export type Specification =
+  | { kind: "range"; min: number; max: number; unit: string }
+  | { kind: "min"; value: number; inclusive: boolean; unit: string }
+  | { kind: "max"; value: number; inclusive: boolean; unit: string }
+  | { kind: "text"; expected: string }
+  | { kind: "none" };
+
+// Anything after the number up to a range separator, e.g. "%", "% w/w", "mg/kg"
+const UNIT = String.raw`\s*([^\d\s<>≤≥~–—-][^<>≤≥~–—]*?)?`;
+
+const RANGE = new RegExp(String.raw`^(${NUMBER})${UNIT}\s*(?:-|–|—|~|to)\s*(${NUMBER})${UNIT}$`, "i");
+const MIN = new RegExp(String.raw`^(≥|>=|>|nlt|not less than|min\.?|minimum|at least)\s*(${NUMBER})${UNIT}$`, "i");
+const MAX = new RegExp(String.raw`^(≤|<=|<|nmt|not more than|max\.?|maximum|at most)\s*(${NUMBER})${UNIT}$`, "i");
+const TRAILING_MIN = new RegExp(String.raw`^(${NUMBER})${UNIT}\s*(min\.?|minimum)$`, "i");
+const TRAILING_MAX = new RegExp(String.raw`^(${NUMBER})${UNIT}\s*(max\.?|maximum)$`, "i");
+
+// Results meaning "meets the specification" or "does not", whatever the spec says
+// ("Conforms to USP" too, so only the start has to match)
+const CONFORMING = /^(conform(s|ing)?|compl(y|ies|ied|iant)|pass(ed|es)?|meets?|acceptable|within spec(ification)?s?|ok)\b/i;
+// Only explicit verdicts: a result like "Not more than 0.05%" is a value
+const NON_CONFORMING = /^((does|did) not (conform|comply|meet|pass)|non[- ]?conform(s|ing|ance)?|non[- ]?complian(t|ce)|fail(ed|s)?|out of spec(ification)?|oos)\b/i;
+// Impurity results below the detection limit meet any maximum
+const NOT_DETECTED = /^(n\.?d\.?|not detected|absent|none detected|below (detection|quantitation) limit|<\s*(lod|loq))$/i;
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").replace(/\s+/g, " ").trim();
+}
+
+function normalizeUnit(unit: string | undefined): string {
+  return unit ? canonicalUnit(unit) || unit.toLowerCase().replace(/\s+/g, "") : "";
+}
+
+export function parseSpecification(text: string): Specification {
+  const spec = normalize(text);
+  if (!spec || spec === "-") return { kind: "none" };
+
+  let match = RANGE.exec(spec);
+  if (match) {
+    const [, low, lowUnit, high, highUnit] = match;
+    return { kind: "range", min: parseNumber(low), max: parseNumber(high), unit: normalizeUnit(highUnit || lowUnit) };
+  }
+  if ((match = MIN.exec(spec))) {
+    return { kind: "min", value: parseNumber(match[2]), inclusive: match[1] !== ">", unit: normalizeUnit(match[3]) };
+  }
+  if ((match = MAX.exec(spec))) {
+    return { kind: "max", value: parseNumber(match[2]), inclusive: match[1] !== "<", unit: normalizeUnit(match[3]) };
+  }
+  if ((match = TRAILING_MIN.exec(spec))) {
+    return { kind: "min", value: parseNumber(match[1]), inclusive: true, unit: normalizeUnit(match[2]) };
+  }
+  if ((match = TRAILING_MAX.exec(spec))) {
+    return { kind: "max", value: parseNumber(match[1]), inclusive: true, unit: normalizeUnit(match[2]) };
+  }
+  return { kind: "text", expected: spec };
+}
+
+// Reads a measured value like "99.6 %", "<0.1 ppm" or "7,2". A leading "<"
+// or "NMT" means the value is at most that number, which is enough for a maximum.
+function parseResultValue(text: string): { value: number; unit: string; upperBound: boolean } | null {
+  const match = new RegExp(String.raw`^(<|≤|<=|nmt|not more than)?\s*(${NUMBER})${UNIT}$`, "i").exec(text);
+  if (!match) return null;
+  return { value: parseNumber(match[2]), unit: normalizeUnit(match[3]), upperBound: !!match[1] };
+}
+
+export function evaluateCompliance(specText: string, resultText: string): ComplianceStatus {
+  const spec = parseSpecification(specText);
+  const result = normalize(resultText);
+  if (spec.kind === "none" || !result || result === "-") return "unknown";
+
+  if (NON_CONFORMING.test(result)) return "fail";
+  if (CONFORMING.test(result)) return "pass";
+
+  if (spec.kind === "text") {
+    if (CONFORMING.test(spec.expected)) return "unknown"; // "Conforms" with a description as the result
+    return result.toLowerCase() === spec.expected.toLowerCase() ? "pass" : "unknown";
+  }
+
+  if (NOT_DETECTED.test(result)) return spec.kind === "max" ? "pass" : "unknown";
+
+  const measured = parseResultValue(result);
+  if (!measured) return "unknown";
+
+  // Results in another unit (e.g. % against ppm) are converted to the spec's
+  // unit; units that do not convert leave the row unknown
+  let value = measured.value;
+  if (measured.unit && spec.unit && measured.unit !== spec.unit) {
+    const converted = convertValue(value, measured.unit, spec.unit);
+    if (converted === null) return "unknown";
+    value = converted;
+  }
+  switch (spec.kind) {
+    case "range":
+      if (measured.upperBound) return value <= spec.max && spec.min <= 0 ? "pass" : "unknown";
+      return value >= spec.min && value <= spec.max ? "pass" : "fail";
+    case "min":
+      if (measured.upperBound) return "unknown";
+      return (spec.inclusive ? value >= spec.value : value > spec.value) ? "pass" : "fail";
+    case "max":
+      return (spec.inclusive || measured.upperBound ? value <= spec.value : value < spec.value) ? "pass" : "fail";
+  }
+}
+
+const SPEC_HEADER = /spec|limit|standard|requirement|acceptance|criteri/i;
+// In order of preference: "Results" wins over e.g. a "Value" column
+const RESULT_HEADERS = [/result/i, /found|observ|actual|measured/i, /value/i];
+
+// Column indexes of the specification and result columns, if the table has both
+export function complianceColumns(header: string[]): { spec: number; result: number } | null {
+  const spec = header.findIndex(cell => SPEC_HEADER.test(cell));
+  if (spec === -1) return null;
+  for (const pattern of RESULT_HEADERS) {
+    const result = header.findIndex((cell, index) => index !== spec && pattern.test(cell));
+    if (result !== -1) return { spec, result };
+  }
+  return null;
+}
+
+// One status per data row, or null for tables without specifications
+export function evaluateTable(table: string[][]): ComplianceStatus[] | null {
+  const columns = table[0] && complianceColumns(table[0]);
+  if (!columns) return null;
+  return table.slice(1).map(row => evaluateCompliance(row[columns.spec] || "", row[columns.result] || ""));
+}
+
+export function complianceSummary(statuses: ComplianceStatus[]): Record<ComplianceStatus, number> {
+  return statuses.reduce(
+    (counts, status) => ({ ...counts, [status]: counts[status] + 1 }),
+    { pass: 0, fail: 0, unknown: 0 } as Record<ComplianceStatus, number>,
+  );
+}
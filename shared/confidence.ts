@@ -0,0 +1,30 @@
+import type { DynamicField } from "./schema";
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+// Fields below LOW_CONFIDENCE are what reviewers should check first
+export const LOW_CONFIDENCE = 0.6;
+export const HIGH_CONFIDENCE = 0.85;
+
+export const confidenceLevelLabels: Record<ConfidenceLevel, string> = {
+  high: "High confidence",
+  medium: "Medium confidence",
+  low: "Low confidence",
+};
+
+export function confidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence < LOW_CONFIDENCE) return "low";
+  return confidence < HIGH_CONFIDENCE ? "medium" : "high";
+}
+
+// Fields extracted before confidence was recorded, or added by hand, have none
+export function isLowConfidence(field: DynamicField): boolean {
+  return field.confidence !== undefined && field.confidence < LOW_CONFIDENCE;
+}
+
+// Average over the fields that have a score; undefined when none do
+export function averageConfidence(fields: DynamicField[]): number | undefined {
+  const scores = fields.map(field => field.confidence).filter((score): score is number => score !== undefined);
+  if (scores.length === 0) return undefined;
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
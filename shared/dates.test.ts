@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { addDays, addMonths, parseDate, todayIsoDate } from "./dates";
+
+describe("parseDate", () => {
+  it("reads ISO, day-first, month-name and month-year dates", () => {
+    expect(parseDate("2024-1-5")).toBe("2024-01-05");
+    expect(parseDate("05/03/2024")).toBe("2024-03-05");
+    expect(parseDate("31.03.26")).toBe("2026-03-31");
+    expect(parseDate("15 Jan 2024")).toBe("2024-01-15");
+    expect(parseDate("15-January-2024")).toBe("2024-01-15");
+    expect(parseDate("March 31, 2026")).toBe("2026-03-31");
+  });
+
+  it("reads numeric dates month first only when day first is impossible", () => {
+    expect(parseDate("03/25/2024")).toBe("2024-03-25");
+    expect(parseDate("03/04/2024")).toBe("2024-04-03");
+  });
+
+  it("takes the end of the month for a month without a day unless told otherwise", () => {
+    expect(parseDate("03/2026")).toBe("2026-03-31");
+    expect(parseDate("2024-02")).toBe("2024-02-29");
+    expect(parseDate("Jan 2026", { monthOnly: "start" })).toBe("2026-01-01");
+  });
+
+  it("finds a date within text unless the whole text must be one", () => {
+    expect(parseDate("EXP: 31/03/2026 (unopened)")).toBe("2026-03-31");
+    expect(parseDate("EXP: 31/03/2026 (unopened)", { exact: true })).toBeNull();
+    expect(parseDate(" 31/03/2026 ", { exact: true })).toBe("2026-03-31");
+  });
+
+  it("returns null for text that is not a date or an impossible date", () => {
+    expect(parseDate("see label")).toBeNull();
+    expect(parseDate("Foo 2024")).toBeNull();
+    expect(parseDate("31/02/2026")).toBeNull();
+    expect(parseDate("13/13/2026")).toBeNull();
+  });
+});
+
+describe("date arithmetic", () => {
+  it("adds days across months and years", () => {
+    expect(addDays("2026-12-20", 30)).toBe("2027-01-19");
+  });
+
+  it("adds months, keeping to the last day of shorter months", () => {
+    expect(addMonths("2024-01-15", 24)).toBe("2026-01-15");
+    expect(addMonths("2024-01-31", 1)).toBe("2024-02-29");
+  });
+
+  it("gives today's local date", () => {
+    expect(todayIsoDate(new Date(2026, 2, 5, 23, 59))).toBe("2026-03-05");
+  });
+});
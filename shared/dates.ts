@@ -0,0 +1,85 @@
+// Dates as suppliers print them, read into ISO dates (YYYY-MM-DD), and the
+// date arithmetic done on those
+
+const MONTH_NAMES = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+function monthFromName(name: string): number | null {
+  const word = name.toLowerCase();
+  const index = word.length >= 3 ? MONTH_NAMES.findIndex(month => month.startsWith(word)) : -1;
+  return index === -1 ? null : index + 1;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Day omitted: the first of the month for a manufacture date, the last for an
+// expiry or retest date, as "EXP 03/2026" means use until the end of March
+function toIsoDate(year: number, month: number, day: number | "start" | "end"): string | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || fullYear < 1900 || fullYear > 2200) return null;
+  const lastDay = daysInMonth(fullYear, month);
+  const dayOfMonth = day === "start" ? 1 : day === "end" ? lastDay : day;
+  if (dayOfMonth < 1 || dayOfMonth > lastDay) return null;
+  return `${fullYear}-${pad(month)}-${pad(dayOfMonth)}`;
+}
+
+export interface DateOptions {
+  // The day taken for a month without one, such as "03/2026"
+  monthOnly?: "start" | "end";
+  // The whole text must be the date, rather than contain one
+  exact?: boolean;
+}
+
+/**
+ * Reads a date as suppliers print them: 2026-03-31, 31.03.2026, 31/03/26,
+ * 31 Mar 2026, March 31, 2026, 03/2026 or Mar-2026. Numeric dates are read
+ * day first unless that is impossible (03/31/2026). Returns YYYY-MM-DD, or
+ * null when the text holds no date.
+ */
+export function parseDate(text: string, { monthOnly = "end", exact = false }: DateOptions = {}): string | null {
+  const find = (pattern: string) => text.match(new RegExp(exact ? String.raw`^\s*${pattern}\s*$` : String.raw`\b${pattern}\b`, "i"));
+  let match: RegExpMatchArray | null;
+  if ((match = find(String.raw`(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})`))) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  if ((match = find(String.raw`(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})`))) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return first <= 12 && second > 12 ? toIsoDate(year, first, second) : toIsoDate(year, second, first);
+  }
+  if ((match = find(String.raw`(\d{1,2})(?:st|nd|rd|th)?[\s.-]*([a-z]{3,9})\.?[\s.,-]*(\d{4}|\d{2})`)) && monthFromName(match[2])) {
+    return toIsoDate(Number(match[3]), monthFromName(match[2])!, Number(match[1]));
+  }
+  if ((match = find(String.raw`([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})`)) && monthFromName(match[1])) {
+    return toIsoDate(Number(match[3]), monthFromName(match[1])!, Number(match[2]));
+  }
+  if ((match = find(String.raw`(\d{4})[-/.](\d{1,2})`))) {
+    return toIsoDate(Number(match[1]), Number(match[2]), monthOnly);
+  }
+  if ((match = find(String.raw`(\d{1,2})[-/.](\d{4})`))) {
+    return toIsoDate(Number(match[2]), Number(match[1]), monthOnly);
+  }
+  if ((match = find(String.raw`([a-z]{3,9})\.?[\s.,-]*(\d{4})`)) && monthFromName(match[1])) {
+    return toIsoDate(Number(match[2]), monthFromName(match[1])!, monthOnly);
+  }
+  return null;
+}
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// The same day in a later month, or that month's last day when it is shorter
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const total = year * 12 + month - 1 + months;
+  const targetYear = Math.floor(total / 12);
+  const targetMonth = total % 12 + 1;
+  return toIsoDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)))!;
+}
+
+// Today in the local time zone, as YYYY-MM-DD
+export function todayIsoDate(now = new Date()): string {
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { diffExtractedData, latestExtraction, reviewStartingPoint } from "./diff";
+import type { DocumentRevision, DynamicField, ExtractedData } from "./schema";
+
+const field = (id: string, value: DynamicField["value"], section = "Product"): DynamicField =>
+  ({ id, label: id, value, type: Array.isArray(value) ? "table" : "text", section, required: false });
+
+const data = (...fields: DynamicField[]): ExtractedData => ({ documentType: "Certificate of Analysis", detectedSections: [], fields });
+
+const revision = (revisionNumber: number, source: string, documentType = "Certificate of Analysis"): DocumentRevision => ({
+  id: `r${revisionNumber}`,
+  documentId: "d1",
+  revisionNumber,
+  extractedData: { documentType, detectedSections: [], fields: [] },
+  source,
+  createdBy: null,
+  createdAt: new Date(),
+});
+
+describe("diffExtractedData", () => {
+  it("reports no changes for identical snapshots", () => {
+    const diff = diffExtractedData(data(field("lot", "A1")), data(field("lot", "A1")));
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.fields).toEqual([]);
+  });
+
+  it("matches fields by id and reports added, removed and modified fields", () => {
+    const diff = diffExtractedData(
+      data(field("lot", "A1"), field("grade", "USP")),
+      data({ ...field("lot", "A2"), label: "Batch" }, field("purity", "99%", "Results")),
+    );
+
+    expect(diff.fields.map(change => [change.fieldId, change.kind])).toEqual([["lot", "modified"], ["purity", "added"], ["grade", "removed"]]);
+    expect(diff.fields[0].changes.map(change => change.property)).toEqual(["label", "value"]);
+    expect(diff.sections).toEqual([{ section: "Product", kind: "modified" }, { section: "Results", kind: "added" }]);
+  });
+
+  it("reports changed table cells rather than the whole value", () => {
+    const diff = diffExtractedData(
+      data(field("tests", [["Assay", "99%"], ["pH", "6.5"]])),
+      data(field("tests", [["Assay", "98%"], ["pH", "6.5"], ["Water", "1%"]])),
+    );
+
+    expect(diff.fields[0].changes).toEqual([]);
+    expect(diff.fields[0].cells).toEqual([
+      { row: 0, column: 1, before: "99%", after: "98%" },
+      { row: 2, column: 0, before: null, after: "Water" },
+      { row: 2, column: 1, before: null, after: "1%" },
+    ]);
+  });
+
+  it("reports a changed document type", () => {
+    const diff = diffExtractedData(data(), { ...data(), documentType: "Specification" });
+    expect(diff).toMatchObject({ hasChanges: true, documentType: { before: "Certificate of Analysis", after: "Specification" } });
+  });
+});
+
+describe("latestExtraction", () => {
+  it("picks the most recent extraction revision", () => {
+    const revisions = [revision(1, "extraction", "First"), revision(2, "edit"), revision(3, "extraction", "Reprocessed"), revision(4, "edit")];
+    expect(latestExtraction(revisions)?.revisionNumber).toBe(3);
+    expect(latestExtraction([...revisions].reverse())?.revisionNumber).toBe(3);
+  });
+
+  it("returns nothing without an extraction revision", () => {
+    expect(latestExtraction([revision(1, "edit")])).toBeUndefined();
+  });
+});
+
+describe("reviewStartingPoint", () => {
+  it("picks the supplier profile's corrections to the latest extraction", () => {
+    const revisions = [revision(1, "extraction"), revision(2, "supplier_profile"), revision(3, "extraction"), revision(4, "supplier_profile"), revision(5, "edit")];
+    expect(reviewStartingPoint(revisions)?.revisionNumber).toBe(4);
+  });
+
+  it("falls back to the extraction when no profile was applied to it", () => {
+    const revisions = [revision(1, "extraction"), revision(2, "supplier_profile"), revision(3, "extraction"), revision(4, "edit")];
+    expect(reviewStartingPoint(revisions)?.revisionNumber).toBe(3);
+    expect(reviewStartingPoint([revision(1, "edit")])).toBeUndefined();
+  });
+});
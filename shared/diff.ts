@@ -0,0 +1,171 @@
+import type { ExtractedData, DynamicField, DocumentRevision } from "./schema";
+
+export type ChangeKind = "added" | "removed" | "modified";
+
+export interface PropertyChange {
+  property: "label" | "value" | "type" | "section";
+  before: DynamicField["value"] | string;
+  after: DynamicField["value"] | string;
+}
+
+export interface CellChange {
+  row: number;
+  column: number;
+  before: string | null;
+  after: string | null;
+}
+
+export interface FieldChange {
+  fieldId: string;
+  label: string;
+  section: string;
+  kind: ChangeKind;
+  changes: PropertyChange[];
+  cells: CellChange[];
+}
+
+export interface SectionChange {
+  section: string;
+  kind: ChangeKind;
+}
+
+export interface ExtractedDataDiff {
+  documentType?: { before: string; after: string };
+  fields: FieldChange[];
+  sections: SectionChange[];
+  hasChanges: boolean;
+}
+
+function isTable(value: DynamicField["value"]): value is string[][] {
+  return Array.isArray(value);
+}
+
+function diffTableCells(before: string[][], after: string[][]): CellChange[] {
+  const cells: CellChange[] = [];
+  const rowCount = Math.max(before.length, after.length);
+
+  for (let row = 0; row < rowCount; row++) {
+    const beforeRow = before[row] || [];
+    const afterRow = after[row] || [];
+    const columnCount = Math.max(beforeRow.length, afterRow.length);
+
+    for (let column = 0; column < columnCount; column++) {
+      const beforeCell = row < before.length && column < beforeRow.length ? beforeRow[column] : null;
+      const afterCell = row < after.length && column < afterRow.length ? afterRow[column] : null;
+      if (beforeCell !== afterCell) {
+        cells.push({ row, column, before: beforeCell, after: afterCell });
+      }
+    }
+  }
+
+  return cells;
+}
+
+function diffField(before: DynamicField, after: DynamicField): FieldChange | null {
+  const changes: PropertyChange[] = [];
+  let cells: CellChange[] = [];
+
+  for (const property of ["label", "type", "section"] as const) {
+    if (before[property] !== after[property]) {
+      changes.push({ property, before: before[property], after: after[property] });
+    }
+  }
+
+  if (isTable(before.value) && isTable(after.value)) {
+    cells = diffTableCells(before.value, after.value);
+  } else if (JSON.stringify(before.value ?? null) !== JSON.stringify(after.value ?? null)) {
+    changes.push({ property: "value", before: before.value, after: after.value });
+  }
+
+  if (changes.length === 0 && cells.length === 0) {
+    return null;
+  }
+
+  return {
+    fieldId: after.id,
+    label: after.label,
+    section: after.section,
+    kind: "modified",
+    changes,
+    cells,
+  };
+}
+
+/**
+ * Compares two extraction snapshots field by field. Fields are matched by id,
+ * so a relabelled field is reported as modified rather than removed + added.
+ */
+export function diffExtractedData(before: ExtractedData, after: ExtractedData): ExtractedDataDiff {
+  const beforeFields = new Map(before.fields.map((field) => [field.id, field]));
+  const afterFields = new Map(after.fields.map((field) => [field.id, field]));
+  const fields: FieldChange[] = [];
+
+  for (const field of after.fields) {
+    const original = beforeFields.get(field.id);
+    if (!original) {
+      fields.push({ fieldId: field.id, label: field.label, section: field.section, kind: "added", changes: [], cells: [] });
+      continue;
+    }
+    const change = diffField(original, field);
+    if (change) {
+      fields.push(change);
+    }
+  }
+
+  for (const field of before.fields) {
+    if (!afterFields.has(field.id)) {
+      fields.push({ fieldId: field.id, label: field.label, section: field.section, kind: "removed", changes: [], cells: [] });
+    }
+  }
+
+  const beforeSections = new Set(before.fields.map((field) => field.section));
+  const afterSections = new Set(after.fields.map((field) => field.section));
+  const changedSections = new Set(fields.map((field) => field.section));
+  const sections: SectionChange[] = [];
+
+  Array.from(new Set([...Array.from(beforeSections), ...Array.from(afterSections)])).forEach((section) => {
+    if (!beforeSections.has(section)) {
+      sections.push({ section, kind: "added" });
+    } else if (!afterSections.has(section)) {
+      sections.push({ section, kind: "removed" });
+    } else if (changedSections.has(section)) {
+      sections.push({ section, kind: "modified" });
+    }
+  });
+
+  const documentType = before.documentType !== after.documentType
+    ? { before: before.documentType, after: after.documentType }
+    : undefined;
+
+  return {
+    documentType,
+    fields,
+    sections,
+    hasChanges: !!documentType || fields.length > 0,
+  };
+}
+
+/**
+ * The extraction a reviewer's edits are measured against: the most recent
+ * "extraction" revision, so a reprocessed document is compared with its new
+ * extraction rather than the first one.
+ */
+export function latestExtraction(revisions: DocumentRevision[]): DocumentRevision | undefined {
+  return revisions
+    .filter((revision) => revision.source === "extraction")
+    .reduce<DocumentRevision | undefined>((latest, revision) =>
+      !latest || revision.revisionNumber > latest.revisionNumber ? revision : latest, undefined);
+}
+
+/**
+ * What a reviewer started from after the latest extraction: the supplier
+ * profile's corrections to it when a profile was applied, else the extraction.
+ */
+export function reviewStartingPoint(revisions: DocumentRevision[]): DocumentRevision | undefined {
+  const extraction = latestExtraction(revisions);
+  if (!extraction) return undefined;
+  const profiled = revisions
+    .filter((revision) => revision.source === "supplier_profile" && revision.revisionNumber > extraction.revisionNumber)
+    .sort((a, b) => a.revisionNumber - b.revisionNumber)[0];
+  return profiled || extraction;
+}
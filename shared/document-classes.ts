@@ -0,0 +1,37 @@
+import { documentClasses, type ClassMatchMethod, type DocumentClass } from "./schema";
+
+// Also the documentType extraction gives documents of the class
+export const documentClassLabels: Record<DocumentClass, string> = {
+  coa: "Certificate of Analysis",
+  sds: "Safety Data Sheet",
+  tds: "Technical Data Sheet",
+  specification: "Specification Sheet",
+  certificate_of_origin: "Certificate of Origin",
+  invoice: "Invoice",
+};
+
+export const classMatchLabels: Record<ClassMatchMethod, string> = {
+  detected: "Classified from the document's text",
+  manual: "Chosen by a reviewer",
+};
+
+// Document types as models and suppliers write them; certificates of origin
+// are tried before other certificates
+const DOCUMENT_TYPE_PATTERNS: Array<[DocumentClass, RegExp]> = [
+  ["certificate_of_origin", /certificate\s*of\s*origin/i],
+  ["sds", /safety\s*data\s*sheet|\bM?SDS\b/i],
+  ["tds", /technical\s*data\s*sheet|\bTDS\b|product\s*data\s*sheet/i],
+  ["invoice", /invoice/i],
+  ["specification", /specification/i],
+  ["coa", /certificate\s*of\s*analys[ie]s|\bCOA\b|analysis\s*certificate/i],
+];
+
+/**
+ * The class a documentType names, e.g. for documents extracted before they
+ * were classified. Null when it names none of them.
+ */
+export function documentClassFromType(documentType: string): DocumentClass | null {
+  const exact = documentClasses.find(documentClass => documentClassLabels[documentClass] === documentType);
+  if (exact) return exact;
+  return DOCUMENT_TYPE_PATTERNS.find(([, pattern]) => pattern.test(documentType))?.[0] ?? null;
+}
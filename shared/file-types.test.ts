@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { acceptedFileExtensions, fileExtension, findFileType, stripFileExtension } from "./file-types";
+
+describe("fileExtension", () => {
+  it("takes the last extension in lower case", () => {
+    expect(fileExtension("COA.Final.PDF")).toBe("pdf");
+    expect(fileExtension("scans/lot.2024/README")).toBe("");
+    expect(fileExtension("archive.")).toBe("");
+  });
+
+  it("strips only the last extension of the file name", () => {
+    expect(stripFileExtension("COA.Final.pdf")).toBe("COA.Final");
+    expect(stripFileExtension("lot.2024/README")).toBe("lot.2024/README");
+  });
+});
+
+describe("findFileType", () => {
+  it("decides by extension before the reported type", () => {
+    expect(findFileType("scan.TIF", "application/octet-stream")).toMatchObject({ extension: "tif", kind: "image" });
+    expect(findFileType("spec.docx", "application/pdf")).toMatchObject({ kind: "docx" });
+  });
+
+  it("falls back to the reported type for unknown extensions", () => {
+    expect(findFileType("upload", "application/pdf")).toMatchObject({ extension: "pdf", kind: "pdf" });
+    expect(findFileType("notes.txt", "text/plain")).toBeUndefined();
+  });
+
+  it("lists every extension for file inputs", () => {
+    expect(acceptedFileExtensions.split(",")).toEqual([".pdf", ".docx", ".xlsx", ".jpg", ".jpeg", ".png", ".tif", ".tiff"]);
+  });
+});
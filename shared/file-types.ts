@@ -0,0 +1,44 @@
+// File types accepted for upload. "kind" decides how text is read from the
+// file: PDFs have a text layer or need OCR, images always need OCR, and Word
+// and Excel files are read directly.
+export type FileKind = "pdf" | "docx" | "xlsx" | "image";
+
+export interface SupportedFileType {
+  extension: string;
+  mimeType: string;
+  kind: FileKind;
+}
+
+export const supportedFileTypes: SupportedFileType[] = [
+  { extension: "pdf", mimeType: "application/pdf", kind: "pdf" },
+  { extension: "docx", mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", kind: "docx" },
+  { extension: "xlsx", mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", kind: "xlsx" },
+  { extension: "jpg", mimeType: "image/jpeg", kind: "image" },
+  { extension: "jpeg", mimeType: "image/jpeg", kind: "image" },
+  { extension: "png", mimeType: "image/png", kind: "image" },
+  { extension: "tif", mimeType: "image/tiff", kind: "image" },
+  { extension: "tiff", mimeType: "image/tiff", kind: "image" },
+];
+
+// For <input accept>, e.g. ".pdf,.docx,..."
+export const acceptedFileExtensions = supportedFileTypes.map(type => `.${type.extension}`).join(",");
+
+export function fileExtension(fileName: string): string {
+  const match = /\.([^./\\]+)$/.exec(fileName);
+  return match ? match[1].toLowerCase() : "";
+}
+
+export function stripFileExtension(fileName: string): string {
+  return fileName.replace(/\.[^./\\]+$/, "");
+}
+
+// Browsers report some types inconsistently (TIFF and Office files often
+// arrive as application/octet-stream), so the extension decides first.
+export function findFileType(fileName: string, mimeType?: string): SupportedFileType | undefined {
+  return fileTypeByExtension(fileExtension(fileName))
+    || supportedFileTypes.find(type => type.mimeType === mimeType);
+}
+
+export function fileTypeByExtension(extension: string): SupportedFileType | undefined {
+  return supportedFileTypes.find(type => type.extension === extension);
+}
@@ -0,0 +1,29 @@
+export const processingStages = ["queued", "reading", "ocr", "structuring", "validating", "done"] as const;
+
+export type ProcessingStage = typeof processingStages[number];
+
+export type ProcessingJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  progress: number; // 0-100
+  message?: string;
+}
+
+export interface ProcessingJob {
+  id: string;
+  documentId: string;
+  provider: string | null;
+  status: ProcessingJobStatus;
+  stage: ProcessingStage;
+  progress: number;
+  message: string | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export function isJobFinished(job: Pick<ProcessingJob, "status">): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
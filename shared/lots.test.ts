@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { isLotWarning, lotStatus, lotWarningMessage, parseLotDetails } from "./lots";
+import type { DynamicField, ExtractedData } from "./schema";
+
+const data = (...fields: Array<[string, DynamicField["value"]]>): ExtractedData => ({
+  documentType: "Certificate of Analysis",
+  detectedSections: [],
+  fields: fields.map(([label, value], order) => ({ id: `f${order}`, label, value, type: "text", section: "Product", required: false, layout: { structureType: "field", order } })),
+});
+
+describe("parseLotDetails", () => {
+  it("reads the lot number, dates and quantity by label", () => {
+    expect(parseLotDetails(data(
+      ["Batch No.", "FF-240115"],
+      ["Mfg. Date", "03/2024"],
+      ["Expiry Date", "EXP 03/2026"],
+      ["Retest Date", "15 Sep 2025"],
+      ["Net weight", "25 kg"],
+    ))).toEqual({ lotNumber: "FF-240115", manufactureDate: "2024-03-01", expiryDate: "2026-03-31", retestDate: "2025-09-15", quantity: "25 kg" });
+  });
+
+  it("does not take other lot or manufacturer fields for the lot number or dates", () => {
+    expect(parseLotDetails(data(["Batch size", "200 kg"], ["Manufacturer", "Acme 2024-01-01"], ["Lot", "A1"]))).toMatchObject({
+      lotNumber: "A1",
+      manufactureDate: null,
+      quantity: "200 kg",
+    });
+    expect(parseLotDetails(data(["Retest/Expiry date", "2026-01-31"]))).toMatchObject({ retestDate: "2026-01-31", expiryDate: null });
+  });
+
+  it("works out the expiry date from the manufacture date and shelf life", () => {
+    expect(parseLotDetails(data(["Manufacture Date", "2024-01-31"], ["Shelf life", "2 years"])).expiryDate).toBe("2026-01-31");
+    expect(parseLotDetails(data(["Manufacture Date", "2024-01-31"], ["Shelf life", "1 month"])).expiryDate).toBe("2024-02-29");
+    expect(parseLotDetails(data(["Shelf life", "31.12.2027"])).expiryDate).toBe("2027-12-31");
+  });
+
+  it("keeps the first value and ignores tables", () => {
+    expect(parseLotDetails(data(["Lot", [["A1"]]], ["Lot", "B2"], ["Lot", "C3"])).lotNumber).toBe("B2");
+  });
+});
+
+describe("lotStatus", () => {
+  const today = "2026-03-01";
+
+  it("flags expired lots before overdue retests, then those due soon", () => {
+    expect(lotStatus({ expiryDate: "2026-02-28", retestDate: "2026-01-01" }, today)).toBe("expired");
+    expect(lotStatus({ expiryDate: "2027-01-01", retestDate: "2026-02-28" }, today)).toBe("retest_overdue");
+    expect(lotStatus({ expiryDate: "2026-03-31", retestDate: null }, today)).toBe("expires_soon");
+    expect(lotStatus({ expiryDate: null, retestDate: "2026-03-31" }, today)).toBe("retest_soon");
+    expect(lotStatus({ expiryDate: "2026-04-01", retestDate: null }, today)).toBe("ok");
+    expect(lotStatus({ expiryDate: null, retestDate: null }, today)).toBe("undated");
+  });
+
+  it("explains warnings only", () => {
+    expect(isLotWarning("expires_soon")).toBe(true);
+    expect(isLotWarning("ok")).toBe(false);
+    expect(lotWarningMessage({ expiryDate: "2026-02-28", retestDate: null }, "expired")).toBe("Expired on 2026-02-28");
+    expect(lotWarningMessage({ expiryDate: null, retestDate: null }, "undated")).toBeNull();
+  });
+});
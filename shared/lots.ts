@@ -0,0 +1,124 @@
+import type { DynamicField, ExtractedData, Lot, LotStatus } from "./schema";
+import { addDays, addMonths, parseDate, todayIsoDate } from "./dates";
+
+// A lot is flagged this many days before it expires or is due for retest
+export const LOT_WARNING_DAYS = 30;
+
+export const lotStatusLabels: Record<LotStatus, string> = {
+  expired: "Expired",
+  retest_overdue: "Retest Overdue",
+  expires_soon: "Expires Soon",
+  retest_soon: "Retest Soon",
+  ok: "In Date",
+  undated: "No Dates",
+};
+
+// What a document says about its lot; any of it may be missing
+export interface LotDetails {
+  lotNumber: string | null;
+  manufactureDate: string | null;
+  expiryDate: string | null;
+  retestDate: string | null;
+  quantity: string | null;
+}
+
+// A lot as listed by GET /api/lots
+export interface LotSummary extends Lot {
+  documentName: string;
+  productName: string | null;
+  supplierName: string | null;
+  status: LotStatus;
+}
+
+// Labels checked in this order, so "Retest/Expiry date" is a retest date and
+// "Manufacturer" is not a manufacture date
+const RETEST_LABEL = /\bre-?\s?test|re-?evaluat/i;
+const EXPIRY_LABEL = /\b(expiry|expiration|expires?|exp|use by|best before|valid until)\b/i;
+const MANUFACTURE_LABEL = /\b(mfg|mfd|manufactur(e|ed|ing)|production|produced)\b/i;
+const SHELF_LIFE_LABEL = /\bshelf[\s-]?life\b/i;
+const LOT_LABEL = /\b(lot|batch)\b/i;
+const NOT_LOT_NUMBER = /size|quantity|qty|weight|date|record|release/i;
+const QUANTITY_LABEL = /\b(quantity|qty|net (weight|wt|content)|batch size|lot size)\b/i;
+
+// "24 months", "2 years", "36 mo." as a number of months
+function shelfLifeMonths(text: string): number | null {
+  const match = text.match(/(\d+)\s*(months?|mo|years?|yrs?|y)\b/i);
+  if (!match) return null;
+  return /^y/i.test(match[2]) ? Number(match[1]) * 12 : Number(match[1]);
+}
+
+function valueText(field: DynamicField): string {
+  return field.value === null || field.value === undefined ? "" : String(field.value).trim();
+}
+
+/**
+ * Finds the lot number, dates and quantity among the document's single-value
+ * fields; tables are left alone. A missing expiry date is worked out from the
+ * manufacture date and a shelf life such as "24 months".
+ */
+export function parseLotDetails(data: ExtractedData): LotDetails {
+  const fields = [...data.fields]
+    .sort((a, b) => (a.layout?.order || 0) - (b.layout?.order || 0))
+    .filter(field => !Array.isArray(field.value) && valueText(field));
+
+  const details: LotDetails = { lotNumber: null, manufactureDate: null, expiryDate: null, retestDate: null, quantity: null };
+  let shelfLife: number | null = null;
+
+  for (const field of fields) {
+    const label = field.label;
+    const text = valueText(field);
+    if (RETEST_LABEL.test(label)) {
+      details.retestDate ??= parseDate(text);
+    } else if (EXPIRY_LABEL.test(label)) {
+      details.expiryDate ??= parseDate(text);
+    } else if (MANUFACTURE_LABEL.test(label)) {
+      details.manufactureDate ??= parseDate(text, { monthOnly: "start" });
+    } else if (SHELF_LIFE_LABEL.test(label)) {
+      // Some suppliers print the expiry date under "Shelf life"
+      shelfLife ??= shelfLifeMonths(text);
+      if (shelfLife === null) details.expiryDate ??= parseDate(text);
+    } else if (QUANTITY_LABEL.test(label)) {
+      details.quantity ??= text;
+    } else if (LOT_LABEL.test(label) && !NOT_LOT_NUMBER.test(label)) {
+      details.lotNumber ??= text;
+    }
+  }
+
+  if (!details.expiryDate && details.manufactureDate && shelfLife) {
+    details.expiryDate = addMonths(details.manufactureDate, shelfLife);
+  }
+  return details;
+}
+
+/**
+ * An expired lot or one overdue for retest is flagged first, then one that
+ * expires or is due for retest within LOT_WARNING_DAYS.
+ */
+export function lotStatus(lot: Pick<LotDetails, "expiryDate" | "retestDate">, today = todayIsoDate()): LotStatus {
+  const soon = addDays(today, LOT_WARNING_DAYS);
+  if (lot.expiryDate && lot.expiryDate < today) return "expired";
+  if (lot.retestDate && lot.retestDate < today) return "retest_overdue";
+  if (lot.expiryDate && lot.expiryDate <= soon) return "expires_soon";
+  if (lot.retestDate && lot.retestDate <= soon) return "retest_soon";
+  return lot.expiryDate || lot.retestDate ? "ok" : "undated";
+}
+
+export function isLotWarning(status: LotStatus): boolean {
+  return status === "expired" || status === "retest_overdue" || status === "expires_soon" || status === "retest_soon";
+}
+
+// A sentence explaining a warning status, e.g. "Expired on 2026-03-31"
+export function lotWarningMessage(lot: Pick<LotDetails, "expiryDate" | "retestDate">, status: LotStatus): string | null {
+  switch (status) {
+    case "expired":
+      return `Expired on ${lot.expiryDate}`;
+    case "retest_overdue":
+      return `Retest was due on ${lot.retestDate}`;
+    case "expires_soon":
+      return `Expires on ${lot.expiryDate}`;
+    case "retest_soon":
+      return `Due for retest on ${lot.retestDate}`;
+    default:
+      return null;
+  }
+}
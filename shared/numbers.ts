@@ -0,0 +1,15 @@
+// Numbers as written on COAs. A comma followed by exactly three digits
+// separates thousands ("1,000 ppm", "12,500.5"); any other comma is a decimal
+// comma ("7,2", "0,125").
+
+// Regex source for one number; the thousands form is tried first so "1,000"
+// is not read as "1,0" followed by "00"
+export const NUMBER = String.raw`[-+]?(?:\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:[.,]\d+)?)`;
+
+const THOUSANDS = /^[-+]?[1-9]\d{0,2}(?:,\d{3})+(?:\.\d+)?$/;
+
+// Reads a number matched by NUMBER
+export function parseNumber(text: string): number {
+  if (THOUSANDS.test(text)) return parseFloat(text.replace(/,/g, ""));
+  return parseFloat(text.replace(",", "."));
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { hasPermission, permissionsForRole } from "./permissions";
+
+describe("permissionsForRole", () => {
+  it("gives each role the permissions of the roles below it", () => {
+    expect(permissionsForRole("uploader")).toEqual(["documents:upload"]);
+    expect(permissionsForRole("reviewer")).toEqual(["documents:upload", "documents:view-all", "documents:edit", "documents:generate", "audit:view"]);
+    expect(permissionsForRole("approver")).toContain("documents:edit");
+    expect(permissionsForRole("admin")).toEqual(expect.arrayContaining(["documents:approve", "documents:delete", "settings:manage", "users:manage"]));
+  });
+
+  it("gives unknown roles nothing", () => {
+    expect(permissionsForRole("owner")).toEqual([]);
+  });
+});
+
+describe("hasPermission", () => {
+  it("grants a permission from the role that adds it up", () => {
+    expect(hasPermission("uploader", "documents:edit")).toBe(false);
+    expect(hasPermission("reviewer", "documents:edit")).toBe(true);
+    expect(hasPermission("reviewer", "documents:approve")).toBe(false);
+    expect(hasPermission("approver", "documents:approve")).toBe(true);
+    expect(hasPermission("approver", "documents:delete")).toBe(false);
+    expect(hasPermission("admin", "users:manage")).toBe(true);
+  });
+
+  it("denies requests without a role", () => {
+    expect(hasPermission(undefined, "documents:upload")).toBe(false);
+    expect(hasPermission("", "documents:upload")).toBe(false);
+  });
+});
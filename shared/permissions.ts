@@ -0,0 +1,40 @@
+import { userRoles, type UserRole } from "./schema";
+
+// Actions guarded by role. Reading your own documents only needs an account.
+export const permissions = [
+  "documents:view-all", // see documents and batches uploaded by other users
+  "documents:upload", // upload, process, cancel and retry extraction
+  "documents:edit", // edit extracted data, restore revisions, apply a company profile or template
+  "documents:generate",
+  "documents:approve", // approve, request changes, reopen and supersede
+  "documents:delete",
+  "audit:view", // query the audit log of every document
+  "settings:manage", // extraction settings, company profiles and templates
+  "users:manage",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+// Each role adds to the permissions of the role below it
+const grantedByRole: Record<UserRole, Permission[]> = {
+  uploader: ["documents:upload"],
+  reviewer: ["documents:view-all", "documents:edit", "documents:generate", "audit:view"],
+  approver: ["documents:approve"],
+  admin: ["documents:delete", "settings:manage", "users:manage"],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  uploader: "Uploader",
+  reviewer: "Reviewer",
+  approver: "Approver",
+  admin: "Admin",
+};
+
+export function permissionsForRole(role: string): Permission[] {
+  const index = userRoles.indexOf(role as UserRole);
+  return userRoles.slice(0, index + 1).flatMap(included => grantedByRole[included]);
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return !!role && permissionsForRole(role).includes(permission);
+}
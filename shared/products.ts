@@ -0,0 +1,49 @@
+import { complianceColumns } from "./compliance";
+import type { ExtractedData, ProductMatchMethod, ProductSpecification } from "./schema";
+
+export const productMatchLabels: Record<ProductMatchMethod, string> = {
+  cas: "Matched by CAS number",
+  supplier_code: "Matched by supplier product code",
+  name: "Matched by product name",
+  manual: "Chosen by hand",
+};
+
+// Lowercase words separated by single spaces, so "Sodium Chloride, ACS" and
+// "sodium chloride ACS" compare equal. Accented Latin and Greek letters
+// ("α-Tocopherol") count as letters.
+export function normalizeProductText(text: string): string {
+  return text.normalize("NFKC").toLowerCase().replace(/[^0-9a-z\u00c0-\u024f\u0370-\u03ff]+/g, " ").trim();
+}
+
+const TEST_HEADER = /test|parameter|characteristic|analy|property|item|determination|attribute/i;
+
+// The column naming the test: a "Test"/"Parameter"-like header, otherwise the
+// first column that holds neither specifications nor results
+function testColumn(header: string[], spec: number, result: number): number {
+  const candidates = header.map((_, index) => index).filter(index => index !== spec && index !== result);
+  return candidates.find(index => TEST_HEADER.test(header[index])) ?? candidates[0] ?? -1;
+}
+
+// Replaces the supplier's specification text in every table row whose test is
+// in our catalog; rows for tests we do not specify keep the supplier's text
+export function applyCatalogSpecifications(data: ExtractedData, specifications: ProductSpecification[]): ExtractedData {
+  const catalog = new Map(specifications.map(spec => [normalizeProductText(spec.test), spec.specification]));
+  if (catalog.size === 0) return data;
+
+  const fields = data.fields.map(field => {
+    if (field.type !== "table" || !Array.isArray(field.value) || !field.value[0]) return field;
+    const [header, ...rows] = field.value;
+    const columns = complianceColumns(header);
+    const test = columns ? testColumn(header, columns.spec, columns.result) : -1;
+    if (!columns || test === -1) return field;
+
+    return {
+      ...field,
+      value: [header, ...rows.map(row => {
+        const specification = catalog.get(normalizeProductText(row[test] || ""));
+        return specification === undefined ? row : row.map((cell, index) => index === columns.spec ? specification : cell);
+      })],
+    };
+  });
+  return { ...data, fields };
+}
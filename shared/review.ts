@@ -0,0 +1,55 @@
+import type { ReviewAction, ReviewStatus } from "./schema";
+import { hasPermission, type Permission } from "./permissions";
+
+export interface ReviewTransition {
+  action: ReviewAction;
+  label: string;
+  from: ReviewStatus[];
+  to: ReviewStatus;
+  permission: Permission;
+  requiresComment?: boolean;
+}
+
+// The approval state machine. "issue" only happens through a final generation
+// (POST /api/documents/:id/generate with final: true), never directly.
+export const reviewTransitions: ReviewTransition[] = [
+  { action: "submit", label: "Submit for Review", from: ["draft", "changes_requested"], to: "in_review", permission: "documents:edit" },
+  { action: "request_changes", label: "Request Changes", from: ["in_review"], to: "changes_requested", permission: "documents:approve", requiresComment: true },
+  { action: "approve", label: "Approve", from: ["in_review"], to: "approved", permission: "documents:approve" },
+  { action: "reopen", label: "Reopen", from: ["approved"], to: "in_review", permission: "documents:approve" },
+  { action: "issue", label: "Issue", from: ["approved"], to: "issued", permission: "documents:generate" },
+  { action: "supersede", label: "Supersede", from: ["issued"], to: "superseded", permission: "documents:approve", requiresComment: true },
+];
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  changes_requested: "Changes Requested",
+  approved: "Approved",
+  issued: "Issued",
+  superseded: "Superseded",
+};
+
+export function findTransition(action: ReviewAction): ReviewTransition {
+  return reviewTransitions.find(transition => transition.action === action)!;
+}
+
+// Actions the user can take from the current status, excluding issuance
+export function availableTransitions(status: string, role: string | undefined): ReviewTransition[] {
+  return reviewTransitions.filter(transition =>
+    transition.action !== "issue" &&
+    transition.from.includes(status as ReviewStatus) &&
+    hasPermission(role, transition.permission)
+  );
+}
+
+// Approved and later documents are frozen: their data can no longer be
+// edited or re-extracted until an approver reopens them.
+export function isReviewLocked(status: string): boolean {
+  return status === "approved" || status === "issued" || status === "superseded";
+}
+
+// Issued documents, including superseded ones, are kept as the record of what was sent out
+export function isIssued(status: string): boolean {
+  return status === "issued" || status === "superseded";
+}
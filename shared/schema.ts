@@ -1,38 +1,231 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, date, jsonb, integer, boolean, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { canonicalUnit } from "./units";
+
+export const extractionProviderIds = ["mistral", "openai-compatible", "rule-based"] as const;
+
+export const companyFontIds = ["helvetica", "times", "courier"] as const;
+
+// Ordered from least to most privileged; see shared/permissions.ts
+export const userRoles = ["uploader", "reviewer", "approver", "admin"] as const;
+
+// Approval state of a document, separate from its processing status; see shared/review.ts
+export const reviewStatuses = ["draft", "in_review", "changes_requested", "approved", "issued", "superseded"] as const;
+
+export const reviewActions = ["submit", "request_changes", "approve", "reopen", "issue", "supersede"] as const;
+
+// How a document was linked to its catalog product; see shared/products.ts
+export const productMatchMethods = ["cas", "supplier_code", "name", "manual"] as const;
+
+// How a document was linked to its supplier; see shared/suppliers.ts
+export const supplierMatchMethods = ["header", "manual"] as const;
+
+// The kinds of document we extract, each with its own prompt, sections and
+// template; see shared/document-classes.ts
+export const documentClasses = ["coa", "sds", "tds", "specification", "certificate_of_origin", "invoice"] as const;
+
+// How a document's class was decided
+export const classMatchMethods = ["detected", "manual"] as const;
+
+// Where a lot stands against its expiry and retest dates, most urgent first; see shared/lots.ts
+export const lotStatuses = ["expired", "retest_overdue", "expires_soon", "retest_soon", "ok", "undated"] as const;
+
+// Document actions recorded in the audit log; see shared/audit.ts
+export const auditActions = ["upload", "process", "cancel", "retry", "edit", "restore", "review", "assign", "apply_profile", "generate", "download", "delete"] as const;
+
+export const dynamicFieldTypes = ['text', 'number', 'date', 'email', 'phone', 'textarea', 'select', 'boolean', 'table', 'heading', 'paragraph'] as const;
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("uploader"),
+});
+
+// Groups documents uploaded together (multi-file or ZIP upload)
+export const batches = pgTable("batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// User-editable layouts for generated documents; see templateDefinitionSchema
+export const documentTemplates = pgTable("document_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  definition: jsonb("definition").notNull(),
+  isDefault: boolean("is_default").notNull().default(false),
+  documentClass: text("document_class"), // one of documentClasses; used for its documents ahead of the default template
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Our product catalog; each supplier document is rebranded as one of these
+export const products = pgTable("products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(), // our product code
+  name: text("name").notNull(),
+  casNumber: text("cas_number"),
+  grade: text("grade"),
+  supplierMappings: jsonb("supplier_mappings").notNull().default([]), // see productSupplierMappingSchema
+  specifications: jsonb("specifications").notNull().default([]), // see productSpecificationSchema
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Suppliers whose documents we rebrand, with the corrections learned from
+// reviewing their documents (see supplierProfileSchema)
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  aliases: jsonb("aliases").notNull().default([]), // other spellings of the name in document headers
+  profile: jsonb("profile").notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   originalFileName: text("original_file_name").notNull(),
+  fileExtension: text("file_extension").notNull().default("pdf"), // of the stored upload; see shared/file-types.ts
+  mimeType: text("mime_type").notNull().default("application/pdf"),
   extractedData: jsonb("extracted_data"),
   companyData: jsonb("company_data"),
   status: text("status").notNull().default("uploaded"),
+  reviewStatus: text("review_status").notNull().default("draft"),
+  assigneeId: varchar("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  userId: varchar("user_id").references(() => users.id), // owner; null for documents uploaded before accounts existed
+  extractionProvider: text("extraction_provider"), // overrides settings.extractionProvider when set
+  batchId: varchar("batch_id").references(() => batches.id, { onDelete: "set null" }),
+  templateId: varchar("template_id").references(() => documentTemplates.id, { onDelete: "set null" }), // falls back to the default template
+  productId: varchar("product_id").references(() => products.id, { onDelete: "set null" }),
+  productMatch: text("product_match"), // one of productMatchMethods; null when no product is linked
+  supplierId: varchar("supplier_id").references(() => suppliers.id, { onDelete: "set null" }),
+  supplierMatch: text("supplier_match"), // one of supplierMatchMethods; null when no supplier is linked
+  documentClass: text("document_class"), // one of documentClasses; null until processed
+  classMatch: text("class_match"), // one of classMatchMethods; "manual" keeps the class when reprocessing
   processedAt: timestamp("processed_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// The lot of material a document certifies. Parsed from the document's
+// extracted fields and replaced whenever they are saved (see shared/lots.ts);
+// documents naming no lot number have none.
+export const lots = pgTable("lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().unique().references(() => documents.id, { onDelete: "cascade" }),
+  lotNumber: text("lot_number").notNull(),
+  manufactureDate: date("manufacture_date"), // dates are YYYY-MM-DD strings
+  expiryDate: date("expiry_date"),
+  retestDate: date("retest_date"),
+  quantity: text("quantity"), // as printed, e.g. "25 kg"
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("lots_lot_number_idx").on(table.lotNumber),
+]);
+
+export const documentRevisions = pgTable("document_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  revisionNumber: integer("revision_number").notNull(),
+  extractedData: jsonb("extracted_data").notNull(),
+  source: text("source").notNull().default("edit"), // extraction | supplier_profile | edit | restore
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every review status change, with who made it and why
+export const documentTransitions = pgTable("document_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  action: text("action").notNull(),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  comment: text("comment"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Append-only record of who did what to which document. Nothing updates or
+// deletes entries, and documentId is deliberately not a foreign key so the
+// trail outlives deleted documents; documentName keeps them recognizable.
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  action: text("action").notNull(),
+  documentId: varchar("document_id"),
+  documentName: text("document_name"),
+  userId: varchar("user_id"),
+  username: text("username"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_document_id_idx").on(table.documentId),
+  index("audit_log_created_at_idx").on(table.createdAt),
+]);
+
+// Branding applied to generated documents and the live preview
+export const companyProfiles = pgTable("company_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  address: text("address"),
+  email: text("email"),
+  phone: text("phone"),
+  website: text("website"),
+  logo: text("logo"), // data URL (PNG or JPEG)
+  primaryColor: text("primary_color").notNull().default("#3B82F6"),
+  secondaryColor: text("secondary_color").notNull().default("#1E40AF"),
+  font: text("font").notNull().default("helvetica"),
+  footerText: text("footer_text"),
+  signatoryName: text("signatory_name"),
+  signatoryTitle: text("signatory_title"),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  apiKey: text("api_key"),
-  encryptedApiKey: text("encrypted_api_key"),
+  apiKey: text("api_key"), // legacy plaintext Mistral key, encrypted into encryptedApiKey at startup
+  encryptedApiKey: text("encrypted_api_key"), // Mistral key as AES-GCM ciphertext, see server/services/secret-cipher.ts
   lastTested: timestamp("last_tested"),
   connectionStatus: text("connection_status").default("untested"),
+  extractionProvider: text("extraction_provider").notNull().default("mistral"),
+  mistralModel: text("mistral_model"),
+  // The OpenAI-compatible endpoint has its own model and key so neither is sent to the other provider
+  providerBaseUrl: text("provider_base_url"),
+  providerModel: text("provider_model"),
+  encryptedProviderApiKey: text("encrypted_provider_api_key"),
+  offlineFallback: boolean("offline_fallback").notNull().default(false), // retry with rule-based extraction on provider failure
 });
 
 // Dynamic field schema for flexible document structure with layout preservation
+// Where a field's value was found in the original document. The bounding box
+// is in fractions of the page size, origin top left; the text span indexes the
+// document text the provider extracted, and the snippet is the line around it.
+export const fieldSourceSchema = z.object({
+  page: z.number().int().positive().optional(),
+  boundingBox: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+  }).optional(),
+  textSpan: z.object({
+    start: z.number().int().nonnegative(),
+    end: z.number().int().nonnegative(),
+  }).optional(),
+  snippet: z.string().optional(),
+});
+
 export const dynamicFieldSchema = z.object({
   id: z.string(),
   label: z.string(),
   value: z.string().or(z.number()).or(z.boolean()).or(z.null()).or(z.array(z.array(z.string()))), // Support table data
-  type: z.enum(['text', 'number', 'date', 'email', 'phone', 'textarea', 'select', 'boolean', 'table', 'heading', 'paragraph']),
+  type: z.enum(dynamicFieldTypes),
   section: z.string(),
   required: z.boolean().default(false),
   options: z.array(z.string()).optional(), // For select fields
@@ -52,6 +245,10 @@ export const dynamicFieldSchema = z.object({
     colspan: z.number().optional(),
     rowspan: z.number().optional(),
   }).optional(),
+  source: fieldSourceSchema.optional(),
+  // 0-1, from the model's own estimate and validation checks (see shared/confidence.ts)
+  confidence: z.number().min(0).max(1).optional(),
+  confidenceIssues: z.array(z.string()).optional(), // why the score was lowered
 });
 
 // Schema for detected sections with selection capability
@@ -64,6 +261,7 @@ export const detectedSectionSchema = z.object({
   fields: z.array(dynamicFieldSchema),
   selected: z.boolean().default(false),
   order: z.number(),
+  confidence: z.number().min(0).max(1).optional(), // average of its fields
 });
 
 export const extractedDataSchema = z.object({
@@ -86,26 +284,299 @@ export const extractedDataSchema = z.object({
     extractedAt: z.string().optional(),
     confidence: z.number().optional(),
     totalFields: z.number().optional(),
+    provider: z.string().optional(), // extraction provider that produced the data
   }).optional(),
 });
 
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color like #3B82F6");
+// null keeps values in the unit they were extracted in
+const displayUnit = z.string().refine(unit => !!canonicalUnit(unit), "Unknown unit").nullable().default(null);
+
+export const insertCompanyProfileSchema = createInsertSchema(companyProfiles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Company name is required"),
+  logo: z.string().regex(/^data:image\/(png|jpeg);base64,/, "Logo must be a PNG or JPEG image").nullable().optional(),
+  primaryColor: hexColor.optional(),
+  secondaryColor: hexColor.optional(),
+  font: z.enum(companyFontIds).optional(),
+});
+
+export const templateDefinitionSchema = z.object({
+  header: z.object({
+    title: z.string().default("Certificate of Analysis"), // empty uses the document type
+    showLogo: z.boolean().default(true),
+    showContact: z.boolean().default(true),
+    showGeneratedDate: z.boolean().default(true),
+    showDocumentType: z.boolean().default(true),
+  }).default({}),
+  // Sections listed here come first in this order, the rest keep their extracted order
+  sectionOrder: z.array(z.string()).default([]),
+  hiddenSections: z.array(z.string()).default([]),
+  fieldTypes: z.array(z.enum(dynamicFieldTypes)).default([...dynamicFieldTypes]),
+  table: z.object({
+    headerBackground: hexColor.default("#F3F4F6"),
+    borderColor: hexColor.default("#000000"),
+    striped: z.boolean().default(false),
+    showCompliance: z.boolean().default(true), // pass/fail column for tables with specifications
+  }).default({}),
+  // Safety Data Sheets (see shared/sds.ts)
+  sds: z.object({
+    standardLayout: z.boolean().default(true), // the 16 numbered GHS sections in order, whatever sectionOrder says
+    title: z.string().default("Safety Data Sheet"), // replaces header.title; empty uses the document type
+    fillMissingSections: z.boolean().default(true), // sections the document lacks read "No data available"
+  }).default({}),
+  // Unit to show values in, per dimension (see shared/units.ts)
+  units: z.object({
+    massFraction: displayUnit,
+    volumeFraction: displayUnit,
+    temperature: displayUnit,
+    density: displayUnit,
+  }).default({}),
+  footer: z.object({
+    text: z.string().nullable().default(null), // overrides the company profile footer text
+    showCompanyName: z.boolean().default(true),
+    showGeneratedBy: z.boolean().default(true),
+    showSignatory: z.boolean().default(true),
+  }).default({}),
+  pageNumbers: z.object({
+    enabled: z.boolean().default(false),
+    alignment: z.enum(["left", "center", "right"]).default("center"),
+  }).default({}),
+});
+
+export const insertDocumentTemplateSchema = createInsertSchema(documentTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Template name is required"),
+  definition: templateDefinitionSchema,
+  documentClass: z.enum(documentClasses).nullable().optional(),
+});
+
+// A supplier's name and code for one of our products
+export const productSupplierMappingSchema = z.object({
+  supplier: z.string().trim().min(1, "Supplier name is required"),
+  productCode: z.string().trim().min(1, "Supplier product code is required"),
+  productName: z.string().trim().nullable().default(null), // the supplier's name for it, when it differs from ours
+});
+
+// One of our specification limits, replacing the supplier's for the same test
+export const productSpecificationSchema = z.object({
+  test: z.string().trim().min(1, "Test name is required"),
+  specification: z.string().trim().min(1, "Specification is required"),
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  code: z.string().trim().min(1, "Product code is required"),
+  name: z.string().trim().min(1, "Product name is required"),
+  casNumber: z.string().trim().regex(/^\d{2,7}-\d{2}-\d$/, "CAS number must look like 7647-14-5").nullable().optional(),
+  grade: z.string().trim().nullable().optional(),
+  supplierMappings: z.array(productSupplierMappingSchema).default([]),
+  specifications: z.array(productSpecificationSchema).default([]),
+});
+
+// Corrections applied to every new extraction of a supplier's documents
+export const supplierProfileSchema = z.object({
+  // The supplier's label for a field and the label we use for it
+  labelAliases: z.array(z.object({
+    alias: z.string().trim().min(1),
+    label: z.string().trim().min(1),
+  })).default([]),
+  // Where a field (by our label) belongs and how it is typed; null leaves it as extracted
+  fieldRules: z.array(z.object({
+    label: z.string().trim().min(1),
+    section: z.string().trim().min(1).nullable().default(null),
+    type: z.enum(dynamicFieldTypes).nullable().default(null),
+  })).default([]),
+  // Sections listed here come first in this order
+  sectionOrder: z.array(z.string()).default([]),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Supplier name is required"),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+  profile: supplierProfileSchema.default({}),
+});
+
+// Snapshot of a company profile stored in documents.companyData, so a
+// document keeps its branding even if the profile is later edited or deleted.
+export const companyDataSchema = z.object({
+  profileId: z.string().nullable(),
+  name: z.string(),
+  address: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  website: z.string().nullable(),
+  logo: z.string().nullable(),
+  primaryColor: z.string(),
+  secondaryColor: z.string(),
+  font: z.enum(companyFontIds),
+  footerText: z.string().nullable(),
+  signatoryName: z.string().nullable(),
+  signatoryTitle: z.string().nullable(),
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   createdAt: true,
   processedAt: true,
 });
 
+// What a client may change on a document. Ownership, review state, the stored
+// file, processing state and how links were matched are set by the server.
+export const updateDocumentSchema = z.object({
+  extractedData: extractedDataSchema.optional(),
+  status: z.literal("completed").optional(), // saved to history
+  templateId: z.string().nullable().optional(),
+  productId: z.string().nullable().optional(),
+  supplierId: z.string().nullable().optional(),
+  documentClass: z.enum(documentClasses).nullable().optional(),
+});
+
+export const insertBatchSchema = createInsertSchema(batches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDocumentRevisionSchema = createInsertSchema(documentRevisions).omit({
+  id: true,
+  revisionNumber: true,
+  createdAt: true,
+});
+
+export const insertDocumentTransitionSchema = createInsertSchema(documentTransitions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Query string of GET /api/audit-log; from and to are inclusive
+export const auditLogQuerySchema = z.object({
+  documentId: z.string().optional(),
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export const insertLotSchema = createInsertSchema(lots).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Query string of GET /api/lots
+export const lotQuerySchema = z.object({
+  q: z.string().trim().optional(), // part of a lot number
+  status: z.enum(lotStatuses).optional(),
+});
+
+// Body of POST /api/documents/:id/transitions
+export const reviewTransitionRequestSchema = z.object({
+  action: z.enum(reviewActions),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+  role: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
+});
+
+// Credentials as submitted on the registration form, before hashing; the
+// role is assigned by the server, never chosen by the user
+export const registerUserSchema = insertUserSchema.omit({ role: true }).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+
 export const insertSettingsSchema = createInsertSchema(settings).omit({
   id: true,
   lastTested: true,
+}).extend({
+  extractionProvider: z.enum(extractionProviderIds).optional(),
+});
+
+// Settings as submitted by a client: the API keys arrive in plain text and are
+// encrypted by the server, so the stored ciphertext cannot be set directly.
+// The connection status is only set by the server's connection test.
+export const updateSettingsSchema = insertSettingsSchema.omit({
+  apiKey: true,
+  encryptedApiKey: true,
+  encryptedProviderApiKey: true,
+  connectionStatus: true,
+}).extend({
+  apiKey: z.string().trim().optional(),
+  providerApiKey: z.string().trim().optional(),
 });
 
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+export type UpdateDocument = z.infer<typeof updateDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type DocumentTemplate = typeof documentTemplates.$inferSelect;
+export type InsertDocumentTemplate = z.infer<typeof insertDocumentTemplateSchema>;
+export type TemplateDefinition = z.infer<typeof templateDefinitionSchema>;
+export type CompanyProfile = typeof companyProfiles.$inferSelect;
+export type InsertCompanyProfile = z.infer<typeof insertCompanyProfileSchema>;
+export type CompanyData = z.infer<typeof companyDataSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type ProductSupplierMapping = z.infer<typeof productSupplierMappingSchema>;
+export type ProductSpecification = z.infer<typeof productSpecificationSchema>;
+export type ProductMatchMethod = typeof productMatchMethods[number];
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type SupplierProfile = z.infer<typeof supplierProfileSchema>;
+export type SupplierMatchMethod = typeof supplierMatchMethods[number];
+export type DocumentClass = typeof documentClasses[number];
+export type ClassMatchMethod = typeof classMatchMethods[number];
+export type Lot = typeof lots.$inferSelect;
+export type InsertLot = z.infer<typeof insertLotSchema>;
+export type LotQuery = z.infer<typeof lotQuerySchema>;
+export type LotStatus = typeof lotStatuses[number];
+export type CompanyFontId = typeof companyFontIds[number];
+export type Batch = typeof batches.$inferSelect;
+export type InsertBatch = z.infer<typeof insertBatchSchema>;
+export type DocumentTransition = typeof documentTransitions.$inferSelect;
+export type InsertDocumentTransition = z.infer<typeof insertDocumentTransitionSchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type AuditAction = typeof auditActions[number];
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type ReviewStatus = typeof reviewStatuses[number];
+export type ReviewAction = typeof reviewActions[number];
+export type DocumentRevision = typeof documentRevisions.$inferSelect;
+export type InsertDocumentRevision = z.infer<typeof insertDocumentRevisionSchema>;
 export type ExtractedData = z.infer<typeof extractedDataSchema>;
 export type DynamicField = z.infer<typeof dynamicFieldSchema>;
+export type FieldSource = z.infer<typeof fieldSourceSchema>;
 export type DetectedSection = z.infer<typeof detectedSectionSchema>;
 export type Settings = typeof settings.$inferSelect;
+export type ExtractionProviderId = typeof extractionProviderIds[number];
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type User = typeof users.$inferSelect;
-export type InsertUser = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">;
+export type UserRole = typeof userRoles[number];
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { SDS_SECTIONS, checkSdsCompleteness, findSdsSection, isSafetyDataSheet, sdsSectionTitle } from "./sds";
+import type { DynamicField, ExtractedData } from "./schema";
+
+const field = (section: string, label: string, value: DynamicField["value"]): DynamicField =>
+  ({ id: `${section}-${label}`, label, value, type: Array.isArray(value) ? "table" : "text", section, required: false });
+
+const sds = (...fields: DynamicField[]): ExtractedData => ({ documentType: "Safety Data Sheet", detectedSections: [], fields });
+
+// A field for every required item of every section
+const complete = () => SDS_SECTIONS.flatMap(section =>
+  section.fields.map(definition => field(sdsSectionTitle(section), definition.label, "Given"))
+);
+
+describe("findSdsSection", () => {
+  it("finds a section by its number", () => {
+    expect(findSdsSection("Section 4")?.number).toBe(4);
+    expect(findSdsSection("4. First-aid measures")?.number).toBe(4);
+    expect(findSdsSection("SECTION 14: Transport information")?.number).toBe(14);
+    expect(findSdsSection("4.1 Description of first aid measures")?.number).toBe(4);
+  });
+
+  it("finds a section by its title, spaces lost or not", () => {
+    expect(findSdsSection("Hazards identification")?.number).toBe(2);
+    expect(findSdsSection("Firefightingmeasures")?.number).toBe(5);
+    expect(findSdsSection("Other information")?.number).toBe(16);
+    expect(findSdsSection("Test Results")).toBeUndefined();
+  });
+});
+
+describe("isSafetyDataSheet", () => {
+  it("recognizes SDS and MSDS document types", () => {
+    expect(isSafetyDataSheet({ documentType: "Safety Data Sheet" })).toBe(true);
+    expect(isSafetyDataSheet({ documentType: "MSDS" })).toBe(true);
+    expect(isSafetyDataSheet({ documentType: "Certificate of Analysis" })).toBe(false);
+  });
+});
+
+describe("checkSdsCompleteness", () => {
+  it("finds nothing missing in a complete sheet", () => {
+    expect(checkSdsCompleteness(sds(...complete()))).toEqual({ missingSections: [], missingFields: [] });
+  });
+
+  it("reports sections without any value, but not their fields", () => {
+    const fields = complete().filter(f => !f.section.startsWith("Section 12:"))
+      .map(f => f.section.startsWith("Section 13:") ? { ...f, value: " " } : f);
+    const { missingSections, missingFields } = checkSdsCompleteness(sds(...fields));
+    expect(missingSections.map(section => section.number)).toEqual([12, 13]);
+    expect(missingFields).toEqual([]);
+  });
+
+  it("reports fields missing from a section it has", () => {
+    const fields = complete().filter(f => f.label !== "Signal word");
+    const { missingSections, missingFields } = checkSdsCompleteness(sds(...fields));
+    expect(missingSections).toEqual([]);
+    expect(missingFields.map(({ section, field }) => [section.number, field.label])).toEqual([[2, "Signal word"]]);
+  });
+
+  it("accepts labels without spaces and property tables", () => {
+    const fields = complete().filter(f => !f.section.startsWith("Section 9:") && f.label !== "Inhalation");
+    const { missingFields } = checkSdsCompleteness(sds(
+      ...fields,
+      field("Section 4: First-aid measures", "Ifinhaled", "Move to fresh air"),
+      field("9. Physical and chemical properties", "Properties", [
+        ["Property", "Value"],
+        ["Appearance", "White powder"],
+        ["Odour", "Odourless"],
+        ["pH", "6.5"],
+        ["Melting point", "No data available"],
+        ["Flashpoint", "Not applicable"],
+        ["Solubility in water", "Soluble"],
+      ]),
+    ));
+    expect(missingFields).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import type { DynamicField, ExtractedData } from "./schema";
+
+export interface SdsFieldDefinition {
+  label: string;
+  // Tested against labels lowercased with everything but letters and digits
+  // removed, as PDF text often loses its spaces ("Ifinhaled", "Flashpoint")
+  pattern: RegExp;
+}
+
+export interface SdsSectionDefinition {
+  number: number;
+  title: string;
+  pattern: RegExp; // tested like a field pattern against section names
+  fields: SdsFieldDefinition[]; // the information the section must give
+}
+
+// The 16 sections of a GHS Safety Data Sheet, in their mandated order, with
+// the information each must give (GHS Annex 4, REACH Annex II)
+export const SDS_SECTIONS: SdsSectionDefinition[] = [
+  {
+    number: 1, title: "Identification", pattern: /^identification|productandcompany|substancemixtureandofthecompany/,
+    fields: [
+      { label: "Product identifier", pattern: /productidentifier|productname|tradename|substancename/ },
+      { label: "Recommended use", pattern: /recommendeduse|identifieduse|relevantuse|useofthe|usesadvised/ },
+      { label: "Supplier details", pattern: /supplier|manufacturer|company|address/ },
+      { label: "Emergency telephone number", pattern: /emergency/ },
+    ],
+  },
+  {
+    number: 2, title: "Hazard identification", pattern: /hazards?identification|identificationofhazards?/,
+    fields: [
+      { label: "Classification", pattern: /classification/ },
+      { label: "Pictograms", pattern: /pictogram/ },
+      { label: "Signal word", pattern: /signalword/ },
+      { label: "Hazard statements", pattern: /hazardstatement/ },
+      { label: "Precautionary statements", pattern: /precautionary|prevention/ },
+    ],
+  },
+  {
+    number: 3, title: "Composition/information on ingredients", pattern: /composition|ingredient/,
+    fields: [
+      { label: "Chemical identity", pattern: /chemicalname|chemicalidentity|component|substance|synonym/ },
+      { label: "CAS number", pattern: /^cas/ },
+      { label: "Concentration", pattern: /concentration|content|percent/ },
+    ],
+  },
+  {
+    number: 4, title: "First-aid measures", pattern: /firstaid/,
+    fields: [
+      { label: "Inhalation", pattern: /inhal|breath/ },
+      { label: "Skin contact", pattern: /skin/ },
+      { label: "Eye contact", pattern: /eye/ },
+      { label: "Ingestion", pattern: /ingest|swallow/ },
+    ],
+  },
+  {
+    number: 5, title: "Fire-fighting measures", pattern: /firefight|fireextinguish/,
+    fields: [
+      { label: "Extinguishing media", pattern: /extinguishing/ },
+      { label: "Specific hazards", pattern: /specialhazard|specifichazard|hazardsarising|combustion/ },
+      { label: "Protective equipment for firefighters", pattern: /firefighter/ },
+    ],
+  },
+  {
+    number: 6, title: "Accidental release measures", pattern: /accidentalrelease/,
+    fields: [
+      { label: "Personal precautions", pattern: /personalprecaution/ },
+      { label: "Environmental precautions", pattern: /environmentalprecaution/ },
+      { label: "Containment and cleaning up", pattern: /containment|cleaningup|cleanup/ },
+    ],
+  },
+  {
+    number: 7, title: "Handling and storage", pattern: /handling|storage/,
+    fields: [
+      { label: "Precautions for safe handling", pattern: /handling/ },
+      { label: "Conditions for safe storage", pattern: /storage/ },
+    ],
+  },
+  {
+    number: 8, title: "Exposure controls/personal protection", pattern: /exposure|personalprotection/,
+    fields: [
+      { label: "Exposure limits", pattern: /exposurelimit|occupational|allowableconcentration|controlparameter/ },
+      { label: "Engineering controls", pattern: /engineering/ },
+      { label: "Personal protective equipment", pattern: /protecti(ve|on)/ },
+    ],
+  },
+  {
+    number: 9, title: "Physical and chemical properties", pattern: /physical/,
+    fields: [
+      { label: "Appearance", pattern: /appearance|physicalstate/ },
+      { label: "Odour", pattern: /odou?r/ },
+      { label: "pH", pattern: /^ph($|value|\d)/ },
+      { label: "Melting point", pattern: /meltingpoint/ },
+      { label: "Flash point", pattern: /flashpoint/ },
+      { label: "Solubility", pattern: /solub/ },
+    ],
+  },
+  {
+    number: 10, title: "Stability and reactivity", pattern: /stability|reactivity/,
+    fields: [
+      { label: "Reactivity", pattern: /reactivity/ },
+      { label: "Chemical stability", pattern: /stability/ },
+      { label: "Incompatible materials", pattern: /incompatib/ },
+      { label: "Hazardous decomposition products", pattern: /decomposition/ },
+    ],
+  },
+  {
+    number: 11, title: "Toxicological information", pattern: /toxicolog/,
+    fields: [
+      { label: "Acute toxicity", pattern: /acutetox|toxicologicaleffects|ld50/ },
+    ],
+  },
+  {
+    number: 12, title: "Ecological information", pattern: /ecolog/,
+    fields: [
+      { label: "Ecotoxicity", pattern: /toxicity|lc50|ec50/ },
+    ],
+  },
+  {
+    number: 13, title: "Disposal considerations", pattern: /disposal/,
+    fields: [
+      { label: "Disposal methods", pattern: /disposal|waste/ },
+    ],
+  },
+  {
+    number: 14, title: "Transport information", pattern: /transport/,
+    fields: [
+      { label: "UN number", pattern: /unnumber|^un(no)?$/ },
+      { label: "UN proper shipping name", pattern: /shippingname/ },
+      { label: "Transport hazard class", pattern: /hazardclass/ },
+      { label: "Packing group", pattern: /pack(ag)?inggroup/ },
+    ],
+  },
+  {
+    number: 15, title: "Regulatory information", pattern: /regulat/,
+    fields: [
+      { label: "Safety, health and environmental regulations", pattern: /regulat|legislation/ },
+    ],
+  },
+  {
+    number: 16, title: "Other information", pattern: /otherinformation/,
+    fields: [
+      { label: "Date of preparation or revision", pattern: /revision|revised|preparation|issuedate|dateofissue|version/ },
+    ],
+  },
+];
+
+// Shown in generated documents for sections the supplier's sheet lacks
+export const SDS_NO_DATA = "No data available";
+
+export const compactText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function sdsSectionTitle(section: SdsSectionDefinition): string {
+  return `Section ${section.number}: ${section.title}`;
+}
+
+/**
+ * The SDS section a section name stands for: by its number ("Section 4",
+ * "4. First-aid measures", "4.1 Description of ...") or else its title.
+ */
+export function findSdsSection(name: string): SdsSectionDefinition | undefined {
+  const numbered = name.trim().match(/^(?:section\s*)?(\d{1,2})(?!\d)/i);
+  const byNumber = numbered && SDS_SECTIONS.find(section => section.number === Number(numbered[1]));
+  if (byNumber) return byNumber;
+  const compact = compactText(name);
+  return SDS_SECTIONS.find(section => section.pattern.test(compact));
+}
+
+export function isSafetyDataSheet(data: Pick<ExtractedData, "documentType">): boolean {
+  return /safety\s*data\s*sheet|\bM?SDS\b/i.test(data.documentType);
+}
+
+function hasValue(field: DynamicField): boolean {
+  if (Array.isArray(field.value)) return field.value.length > 1;
+  return field.value !== null && field.value !== undefined && String(field.value).trim() !== "";
+}
+
+// Labels a field answers: its own, and for tables the first cell of each row
+// ("Property | Value" tables of physical properties)
+function answeredLabels(field: DynamicField): string[] {
+  if (Array.isArray(field.value)) return [field.label, ...field.value.slice(1).map(row => row[0] || "")];
+  return [field.label];
+}
+
+export interface SdsCompleteness {
+  missingSections: SdsSectionDefinition[];
+  // Only for sections the document has; a missing section's fields are implied
+  missingFields: Array<{ section: SdsSectionDefinition; field: SdsFieldDefinition }>;
+}
+
+/**
+ * Checks an SDS against the 16 sections: a section is missing when none of
+ * its fields has a value, a field when no label in its section matches.
+ * "No data available" counts as given, as the GHS allows it.
+ */
+export function checkSdsCompleteness(data: ExtractedData): SdsCompleteness {
+  const bySection = new Map<number, DynamicField[]>();
+  for (const field of data.fields) {
+    const section = findSdsSection(field.section);
+    if (!section || !hasValue(field)) continue;
+    bySection.set(section.number, [...(bySection.get(section.number) || []), field]);
+  }
+
+  const missingSections: SdsCompleteness["missingSections"] = [];
+  const missingFields: SdsCompleteness["missingFields"] = [];
+  for (const section of SDS_SECTIONS) {
+    const fields = bySection.get(section.number);
+    if (!fields) {
+      missingSections.push(section);
+      continue;
+    }
+    const labels = fields.flatMap(answeredLabels).map(compactText);
+    for (const field of section.fields) {
+      if (!labels.some(label => field.pattern.test(label))) {
+        missingFields.push({ section, field });
+      }
+    }
+  }
+  return { missingSections, missingFields };
+}
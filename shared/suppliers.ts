@@ -0,0 +1,6 @@
+import type { SupplierMatchMethod } from "./schema";
+
+export const supplierMatchLabels: Record<SupplierMatchMethod, string> = {
+  header: "Detected from the document header",
+  manual: "Chosen by hand",
+};
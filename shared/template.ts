@@ -0,0 +1,113 @@
+import { templateDefinitionSchema, type DynamicField, type ExtractedData, type TemplateDefinition } from "./schema";
+import { convertText } from "./units";
+import { SDS_NO_DATA, SDS_SECTIONS, findSdsSection, isSafetyDataSheet, sdsSectionTitle } from "./sds";
+
+// Matches the fixed layout used before templates existed
+export const defaultTemplateDefinition: TemplateDefinition = templateDefinitionSchema.parse({});
+
+export function resolveTemplateDefinition(definition: unknown): TemplateDefinition {
+  const parsed = templateDefinitionSchema.safeParse(definition ?? {});
+  return parsed.success ? parsed.data : defaultTemplateDefinition;
+}
+
+export interface TemplateSection {
+  title: string;
+  fields: DynamicField[];
+}
+
+// Values and table cells like "0.05 %w/w" in the template's display units
+function withDisplayUnits(field: DynamicField, template: TemplateDefinition): DynamicField {
+  if (!Object.values(template.units).some(Boolean)) return field;
+  if (Array.isArray(field.value)) {
+    return { ...field, value: field.value.map(row => row.map(cell => convertText(cell, template.units))) };
+  }
+  return typeof field.value === "string" ? { ...field, value: convertText(field.value, template.units) } : field;
+}
+
+/**
+ * Groups the extracted fields into sections as the template lays them out:
+ * hidden sections and field types are dropped, sections named in
+ * sectionOrder come first, fields keep their extracted order and values are
+ * shown in the template's units. Both the DocumentGenerator and the
+ * LivePreview render from this so they match.
+ */
+export function layoutSections(data: ExtractedData, template: TemplateDefinition): TemplateSection[] {
+  const hidden = new Set(template.hiddenSections.map(title => title.toLowerCase()));
+  const fieldTypes = new Set<string>(template.fieldTypes);
+
+  const sortedFields = [...data.fields].sort((a, b) => (a.layout?.order || 0) - (b.layout?.order || 0));
+  const sections = new Map<string, DynamicField[]>();
+  sortedFields.forEach(field => {
+    if (hidden.has(field.section.toLowerCase()) || !fieldTypes.has(field.type)) return;
+    if (!sections.has(field.section)) {
+      sections.set(field.section, []);
+    }
+    sections.get(field.section)!.push(withDisplayUnits(field, template));
+  });
+
+  const rank = (title: string) => {
+    const index = template.sectionOrder.findIndex(ordered => ordered.toLowerCase() === title.toLowerCase());
+    return index === -1 ? template.sectionOrder.length : index;
+  };
+
+  if (usesSdsLayout(data, template)) {
+    return layoutSdsSections(sections, template);
+  }
+
+  // Array.prototype.sort is stable, so unlisted sections keep their order
+  return Array.from(sections.entries())
+    .map(([title, fields]) => ({ title, fields }))
+    .sort((a, b) => rank(a.title) - rank(b.title));
+}
+
+function usesSdsLayout(data: ExtractedData, template: TemplateDefinition): boolean {
+  return template.sds.standardLayout && isSafetyDataSheet(data);
+}
+
+/**
+ * Safety Data Sheets keep the mandated structure: sections are merged into
+ * the 16 numbered GHS sections in order, after any unnumbered ones such as
+ * the document information, and a section the supplier's sheet lacks can
+ * still appear, reading "No data available".
+ */
+function layoutSdsSections(sections: Map<string, DynamicField[]>, template: TemplateDefinition): TemplateSection[] {
+  const hidden = new Set(template.hiddenSections.map(title => title.toLowerCase()));
+  const unnumbered: TemplateSection[] = [];
+  const numbered = new Map<number, DynamicField[]>();
+  sections.forEach((fields, title) => {
+    const section = findSdsSection(title);
+    if (section) {
+      numbered.set(section.number, [...(numbered.get(section.number) || []), ...fields]);
+    } else {
+      unnumbered.push({ title, fields });
+    }
+  });
+
+  const standard = SDS_SECTIONS.flatMap(section => {
+    const title = sdsSectionTitle(section);
+    const fields = numbered.get(section.number);
+    if (fields) return [{ title, fields }];
+    if (!template.sds.fillMissingSections || hidden.has(title.toLowerCase())) return [];
+    const noData: DynamicField = {
+      id: `sds_section_${section.number}_no_data`,
+      label: section.title,
+      value: SDS_NO_DATA,
+      type: "paragraph",
+      section: title,
+      required: false,
+      layout: { structureType: "paragraph", order: 0 },
+    };
+    return [{ title, fields: [noData] }];
+  });
+  return [...unnumbered, ...standard];
+}
+
+// Only fields the template actually renders
+export function countFields(sections: TemplateSection[]): number {
+  return sections.reduce((total, section) => total + section.fields.length, 0);
+}
+
+export function templateTitle(template: TemplateDefinition, data: ExtractedData): string {
+  const title = usesSdsLayout(data, template) ? template.sds.title : template.header.title;
+  return title.trim() || data.documentType;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { canonicalUnit, convertText, convertValue, formatQuantity, parseQuantity } from "./units";
+
+describe("units", () => {
+  it("knows units by their aliases", () => {
+    expect(canonicalUnit("% w/w")).toBe("%");
+    expect(canonicalUnit("g/mL")).toBe("g/cm3");
+    expect(canonicalUnit("μg/g")).toBe("mg/kg");
+    expect(canonicalUnit("furlongs")).toBeUndefined();
+  });
+
+  it("converts within a dimension only", () => {
+    expect(convertValue(0.05, "%", "ppm")).toBeCloseTo(500);
+    expect(convertValue(100, "°C", "°F")).toBeCloseTo(212);
+    expect(convertValue(1, "%", "°C")).toBeNull();
+    expect(convertValue(1, "%", "furlongs")).toBeNull();
+  });
+});
+
+describe("parseQuantity", () => {
+  it("reads values, limits and ranges", () => {
+    expect(parseQuantity("0.05 %w/w")).toEqual({ value: 0.05, unit: "%" });
+    expect(parseQuantity("≤ 10 mg/kg")).toEqual({ comparator: "≤", value: 10, unit: "mg/kg" });
+    expect(parseQuantity("2–8 °C")).toEqual({ value: 2, upper: 8, unit: "°C" });
+    expect(parseQuantity("98.0%–102.0%")).toEqual({ value: 98, upper: 102, unit: "%" });
+  });
+
+  it("reads thousands separators and decimal commas", () => {
+    expect(parseQuantity("1,000 ppm")).toEqual({ value: 1000, unit: "ppm" });
+    expect(parseQuantity("NMT 12,500.5 ppm")).toEqual({ comparator: "NMT", value: 12500.5, unit: "ppm" });
+    expect(parseQuantity("7,2 %")).toEqual({ value: 7.2, unit: "%" });
+    expect(parseQuantity("0,125 %")).toEqual({ value: 0.125, unit: "%" });
+  });
+
+  it("rejects numbers without a known unit and mismatched range units", () => {
+    expect(parseQuantity("42")).toBeNull();
+    expect(parseQuantity("5 furlongs")).toBeNull();
+    expect(parseQuantity("1% – 2 ppm")).toBeNull();
+  });
+});
+
+describe("formatQuantity", () => {
+  it("writes % without a space and trims trailing zeros", () => {
+    expect(formatQuantity({ value: 0.0500, unit: "%" })).toBe("0.05%");
+    expect(formatQuantity({ comparator: "≤", value: 500, unit: "ppm" })).toBe("≤ 500 ppm");
+    expect(formatQuantity({ value: 2, upper: 8, unit: "°C" })).toBe("2–8 °C");
+  });
+});
+
+describe("convertText", () => {
+  it("rewrites a quantity in the display unit for its dimension", () => {
+    expect(convertText("0.05 %w/w", { massFraction: "ppm" })).toBe("500 ppm");
+    expect(convertText("1,000 ppm", { massFraction: "%" })).toBe("0.1%");
+    expect(convertText("≤ 1,000 ppm", { massFraction: "%" })).toBe("≤ 0.1%");
+    expect(convertText("2–8 °C", { temperature: "°F" })).toBe("35.6–46.4 °F");
+  });
+
+  it("leaves text already in the display unit as written", () => {
+    expect(convertText("98.0%–102.0%", { massFraction: "%" })).toBe("98.0%–102.0%");
+    expect(convertText("0.050 % w/w", { massFraction: "%" })).toBe("0.050 % w/w");
+    expect(convertText("500ppm", { massFraction: "ppm" })).toBe("500ppm");
+  });
+
+  it("does not turn assays into ppm or traces into %", () => {
+    expect(convertText("98.0%–102.0%", { massFraction: "ppm" })).toBe("98.0%–102.0%");
+    expect(convertText("99.5 %", { massFraction: "ppm" })).toBe("99.5 %");
+    expect(convertText("5 ppb", { massFraction: "%" })).toBe("5 ppb");
+  });
+
+  it("leaves other text and dimensions without a display unit alone", () => {
+    expect(convertText("White powder", { massFraction: "ppm" })).toBe("White powder");
+    expect(convertText("2–8 °C", { massFraction: "ppm" })).toBe("2–8 °C");
+    expect(convertText("0.05 %", { massFraction: null })).toBe("0.05 %");
+  });
+});
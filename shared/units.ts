@@ -0,0 +1,144 @@
+import { NUMBER, parseNumber } from "./numbers";
+
+// Units of measure found in COA values and table cells. Each unit belongs to
+// a dimension and converts through the dimension's base unit, so any two
+// units of the same dimension convert into each other.
+
+export const unitDimensions = ["massFraction", "volumeFraction", "temperature", "density"] as const;
+export type UnitDimension = typeof unitDimensions[number];
+
+export const unitDimensionLabels: Record<UnitDimension, string> = {
+  massFraction: "Concentration (mass)",
+  volumeFraction: "Concentration (volume)",
+  temperature: "Temperature",
+  density: "Density",
+};
+
+interface UnitDefinition {
+  id: string; // canonical spelling, also used for display
+  dimension: UnitDimension;
+  toBase: (value: number) => number;
+  fromBase: (value: number) => number;
+  aliases: string[]; // lowercase, without spaces or parentheses
+}
+
+const scaled = (factor: number) => ({
+  toBase: (value: number) => value * factor,
+  fromBase: (value: number) => value / factor,
+});
+
+// Bases: mass fraction, volume fraction, °C and g/cm3. A bare "%" is taken as
+// a mass fraction, as it almost always is on a COA.
+const units: UnitDefinition[] = [
+  { id: "%", dimension: "massFraction", ...scaled(1e-2), aliases: ["%", "%w/w", "%m/m", "w/w%", "m/m%", "wt%", "%wt", "wt.%", "g/100g"] },
+  { id: "g/kg", dimension: "massFraction", ...scaled(1e-3), aliases: ["g/kg"] },
+  { id: "ppm", dimension: "massFraction", ...scaled(1e-6), aliases: ["ppm", "ppmw", "ppmw/w"] },
+  { id: "mg/kg", dimension: "massFraction", ...scaled(1e-6), aliases: ["mg/kg", "µg/g", "ug/g"] },
+  { id: "ppb", dimension: "massFraction", ...scaled(1e-9), aliases: ["ppb", "ppbw"] },
+  { id: "µg/kg", dimension: "massFraction", ...scaled(1e-9), aliases: ["µg/kg", "ug/kg"] },
+  { id: "% v/v", dimension: "volumeFraction", ...scaled(1e-2), aliases: ["%v/v", "v/v%", "vol%", "%vol"] },
+  { id: "ppmv", dimension: "volumeFraction", ...scaled(1e-6), aliases: ["ppmv", "ppmv/v"] },
+  { id: "°C", dimension: "temperature", ...scaled(1), aliases: ["°c", "℃", "degc"] },
+  { id: "°F", dimension: "temperature", toBase: value => (value - 32) * 5 / 9, fromBase: value => value * 9 / 5 + 32, aliases: ["°f", "℉", "degf"] },
+  { id: "K", dimension: "temperature", toBase: value => value - 273.15, fromBase: value => value + 273.15, aliases: ["k"] },
+  { id: "g/cm3", dimension: "density", ...scaled(1), aliases: ["g/cm3", "g/cm³", "g/cc", "g/ml", "kg/l"] },
+  { id: "kg/m3", dimension: "density", ...scaled(1e-3), aliases: ["kg/m3", "kg/m³", "g/l"] },
+];
+
+// Display units a template can choose per dimension
+export const displayUnits: Record<UnitDimension, string[]> = unitDimensions.reduce((acc, dimension) => ({
+  ...acc,
+  [dimension]: units.filter(unit => unit.dimension === dimension).map(unit => unit.id),
+}), {} as Record<UnitDimension, string[]>);
+
+function findUnit(text: string): UnitDefinition | undefined {
+  const key = text.normalize("NFKC").toLowerCase().replace(/[\s()]/g, "").replace("μ", "µ");
+  return units.find(unit => unit.aliases.includes(key) || unit.id.toLowerCase() === key);
+}
+
+// The canonical spelling of a unit ("%w/w" → "%", "g/ml" → "g/cm3"), or
+// undefined for units this module does not know
+export function canonicalUnit(text: string): string | undefined {
+  return findUnit(text)?.id;
+}
+
+export function unitDimension(unit: string): UnitDimension | undefined {
+  return findUnit(unit)?.dimension;
+}
+
+// null when either unit is unknown or they measure different things
+export function convertValue(value: number, from: string, to: string): number | null {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (!source || !target || source.dimension !== target.dimension) return null;
+  return source === target ? value : target.fromBase(source.toBase(value));
+}
+
+export interface Quantity {
+  comparator?: string; // "≤", "<", "NMT", ...
+  value: number;
+  upper?: number; // for ranges like "6.5–7.5 °C"
+  unit: string; // canonical
+}
+
+// The unit may be repeated before a range separator, as in "98.0%–102.0%"
+const QUANTITY = new RegExp(
+  String.raw`^(≤|≥|<=|>=|<|>|nmt|nlt)?\s*(${NUMBER})\s*(?:([^\d\s~–—-][^\d~–—]*?)\s*)??(?:(?:-|–|—|~|to)\s*(${NUMBER}))?\s*([^\d\s~–—-][^~–—-]*)$`,
+  "i",
+);
+
+// Reads "0.05 %w/w", "500ppm", "≤ 10 mg/kg" or "2–8 °C"; null for anything
+// else, including numbers without a known unit
+export function parseQuantity(text: string): Quantity | null {
+  const match = QUANTITY.exec(text.normalize("NFKC").trim());
+  if (!match) return null;
+  const [, comparator, value, lowerUnitText, upper, unitText] = match;
+  const unit = canonicalUnit(unitText);
+  if (!unit || (lowerUnitText && (upper === undefined || canonicalUnit(lowerUnitText) !== unit))) return null;
+  return {
+    comparator: comparator || undefined,
+    value: parseNumber(value),
+    upper: upper === undefined ? undefined : parseNumber(upper),
+    unit,
+  };
+}
+
+// Up to six significant digits without trailing zeros: 0.05 % → "500" ppm
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+export function formatQuantity(quantity: Quantity): string {
+  const range = quantity.upper === undefined ? formatNumber(quantity.value) : `${formatNumber(quantity.value)}–${formatNumber(quantity.upper)}`;
+  const separator = quantity.unit === "%" ? "" : " ";
+  return `${quantity.comparator ? `${quantity.comparator} ` : ""}${range}${separator}${quantity.unit}`;
+}
+
+export function convertQuantity(quantity: Quantity, to: string): Quantity | null {
+  const value = convertValue(quantity.value, quantity.unit, to);
+  const upper = quantity.upper === undefined ? undefined : convertValue(quantity.upper, quantity.unit, to);
+  if (value === null || upper === null) return null;
+  return { ...quantity, value, upper, unit: canonicalUnit(to)! };
+}
+
+// Chosen display unit per dimension; dimensions left out keep their unit
+export type DisplayUnits = Partial<Record<UnitDimension, string | null>>;
+
+// An assay in ppm (98 % is 980000 ppm) or a trace in % is no easier to read
+// than the original, so such conversions are not made
+function isReadable(value: number): boolean {
+  return value === 0 || (Math.abs(value) >= 1e-4 && Math.abs(value) < 1e5);
+}
+
+// Rewrites a value like "0.05 %w/w" in the display unit for its dimension.
+// Text that is not a single quantity, or already in that unit, is returned
+// unchanged.
+export function convertText(text: string, display: DisplayUnits): string {
+  const quantity = parseQuantity(text);
+  if (!quantity) return text;
+  const target = display[unitDimension(quantity.unit)!];
+  if (!target || canonicalUnit(target) === quantity.unit) return text;
+  const converted = convertQuantity(quantity, target);
+  if (!converted || !isReadable(converted.value) || (converted.upper !== undefined && !isReadable(converted.upper))) return text;
+  return formatQuantity(converted);
+}